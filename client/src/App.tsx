@@ -3,10 +3,13 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { trpc } from '@/utils/trpc';
+import { trpc, getSessionToken, setSessionToken } from '@/utils/trpc';
 // Import types from server
 import type { 
-  User, 
+  PublicUser, 
+  AuthResponse,
+  TwoFactorChallenge,
+  VerifyTwoFactorLoginInput,
   LoginInput, 
   RegisterInput, 
   MatchRequest, 
@@ -22,22 +25,41 @@ import { FieldManagement } from '@/components/FieldManagement';
 import { TeamManagement } from '@/components/TeamManagement';
 import { MessagingCenter } from '@/components/MessagingCenter';
 import { ProfileSettings } from '@/components/ProfileSettings';
+import { AdminConsole } from '@/components/AdminConsole';
 
 function App() {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<PublicUser | null>(null);
   const [activeTab, setActiveTab] = useState('matches');
-  const [showAuthModal, setShowAuthModal] = useState(false);
+  // Password reset emails link back to the app with ?reset_token=...
+  const [resetToken] = useState(() => new URLSearchParams(window.location.search).get('reset_token'));
+  const [showAuthModal, setShowAuthModal] = useState(resetToken !== null);
   const [isLoading, setIsLoading] = useState(true);
+  const [verificationNotice, setVerificationNotice] = useState<string | null>(null);
+  const [twoFactorPolicyRoles, setTwoFactorPolicyRoles] = useState<string[]>([]);
 
-  // Load initial data
+  // Restore the signed-in user from a stored session token
   const loadAppData = useCallback(async () => {
     try {
       setIsLoading(true);
-      // For demo purposes, we'll simulate a logged-in user
-      // In a real app, this would check for stored auth tokens
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // Email confirmation links land here with ?verify_token=...
+      const verifyToken = new URLSearchParams(window.location.search).get('verify_token');
+      if (verifyToken) {
+        try {
+          await trpc.verifyEmail.mutate({ token: verifyToken });
+          setVerificationNotice('Your email address is confirmed. Thanks!');
+        } catch (error) {
+          console.error('Email verification failed:', error);
+          setVerificationNotice('This verification link is invalid or has expired.');
+        }
+        window.history.replaceState(null, '', window.location.pathname);
+      }
+      if (getSessionToken()) {
+        const currentUser = await trpc.me.query();
+        setUser(currentUser);
+      }
     } catch (error) {
-      console.error('Failed to load app data:', error);
+      console.error('Failed to restore session:', error);
+      setSessionToken(null);
     } finally {
       setIsLoading(false);
     }
@@ -47,44 +69,74 @@ function App() {
     loadAppData();
   }, [loadAppData]);
 
-  const handleLogin = async (credentials: LoginInput) => {
+  // Roles covered by the admin's two-factor policy lose access to their tools until they enroll
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    trpc.getTwoFactorPolicy.query()
+      .then(policy => setTwoFactorPolicyRoles(policy.required_roles))
+      .catch(error => console.error('Failed to load two-factor policy:', error));
+  }, [userId]);
+
+  const handleAuthenticated = (result: AuthResponse) => {
+    setSessionToken(result.token);
+    setUser(result.user);
+    setShowAuthModal(false);
+  };
+
+  // Resolves to a challenge when the account needs a second factor before a session is issued
+  const handleLogin = async (credentials: LoginInput): Promise<TwoFactorChallenge | null> => {
     try {
       const result = await trpc.login.mutate(credentials);
-      // In a real app, you'd store the auth token and user info
-      console.log('Login successful:', result);
-      setShowAuthModal(false);
-      // For demo, simulate setting user data
-      const mockUser: User = {
-        id: 1,
-        email: credentials.email,
-        password_hash: '',
-        first_name: 'John',
-        last_name: 'Doe',
-        role: 'player',
-        phone: null,
-        avatar_url: null,
-        created_at: new Date(),
-        updated_at: new Date()
-      };
-      setUser(mockUser);
+      if ('challenge_token' in result) {
+        return result;
+      }
+      handleAuthenticated(result);
     } catch (error) {
       console.error('Login failed:', error);
     }
+    return null;
+  };
+
+  const handleVerifyTwoFactor = async (input: VerifyTwoFactorLoginInput) => {
+    const result = await trpc.verifyTwoFactorLogin.mutate(input);
+    handleAuthenticated(result);
   };
 
   const handleRegister = async (userData: RegisterInput) => {
     try {
       const result = await trpc.register.mutate(userData);
-      console.log('Registration successful:', result);
-      setShowAuthModal(false);
-      // Auto-login after registration
-      await handleLogin({ email: userData.email, password: userData.password });
+      handleAuthenticated(result);
     } catch (error) {
       console.error('Registration failed:', error);
     }
   };
 
-  const handleLogout = () => {
+  const handleResendVerification = async () => {
+    try {
+      await trpc.resendVerificationEmail.mutate();
+      setVerificationNotice('We sent you a new verification email.');
+    } catch (error) {
+      console.error('Failed to resend verification email:', error);
+      setVerificationNotice('Could not send another email just now. Please try again later.');
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    } finally {
+      setSessionToken(null);
+      setUser(null);
+      setActiveTab('matches');
+    }
+  };
+
+  // The server has already ended every session, so there is nothing to log out of
+  const handleAccountDeleted = () => {
+    setSessionToken(null);
     setUser(null);
     setActiveTab('matches');
   };
@@ -212,7 +264,9 @@ function App() {
           isOpen={showAuthModal}
           onClose={() => setShowAuthModal(false)}
           onLogin={handleLogin}
+          onVerifyTwoFactor={handleVerifyTwoFactor}
           onRegister={handleRegister}
+          resetToken={resetToken}
         />
       </div>
     );
@@ -243,6 +297,39 @@ function App() {
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-6">
+        {!user.email_verified_at && (
+          <div className="mb-6 flex items-center justify-between gap-4 rounded-lg border border-yellow-200 bg-yellow-50 p-4">
+            <p className="text-sm text-yellow-800">
+              📧 {verificationNotice || `Please confirm ${user.email} to book fields and send messages.`}
+            </p>
+            <Button variant="outline" size="sm" onClick={handleResendVerification}>
+              Resend email
+            </Button>
+          </div>
+        )}
+        {user.suspended_at && (!user.suspended_until || user.suspended_until > new Date()) && (
+          <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+            🚫 {user.suspended_until
+              ? `Your account is suspended until ${user.suspended_until.toLocaleString()}.`
+              : 'Your account has been banned.'}
+            {user.suspension_reason && ` Reason: ${user.suspension_reason}.`} You can still view your data, but you can't make changes.
+          </div>
+        )}
+        {!user.two_factor_enabled_at && twoFactorPolicyRoles.includes(user.role) && (
+          <div className="mb-6 flex items-center justify-between gap-4 rounded-lg border border-red-200 bg-red-50 p-4">
+            <p className="text-sm text-red-800">
+              🔐 Two-factor authentication is required for your account. Set it up to keep managing your {user.role === 'admin' ? 'platform' : 'fields'}.
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setActiveTab('profile')}>
+              Set up 2FA
+            </Button>
+          </div>
+        )}
+        {user.email_verified_at && verificationNotice && (
+          <div className="mb-6 rounded-lg border border-green-200 bg-green-50 p-4 text-sm text-green-800">
+            ✅ {verificationNotice}
+          </div>
+        )}
         <Tabs value={activeTab} onValueChange={setActiveTab}>
           <TabsList className="grid w-full grid-cols-5 mb-6">
             <TabsTrigger value="matches">🎯 Find Matches</TabsTrigger>
@@ -254,6 +341,9 @@ function App() {
             )}
             <TabsTrigger value="messages">💬 Messages</TabsTrigger>
             <TabsTrigger value="profile">⚙️ Profile</TabsTrigger>
+            {user.role === 'admin' && (
+              <TabsTrigger value="admin">🛡️ Admin</TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="matches">
@@ -277,8 +367,14 @@ function App() {
           </TabsContent>
 
           <TabsContent value="profile">
-            <ProfileSettings user={user} onUserUpdate={setUser} />
+            <ProfileSettings user={user} onUserUpdate={setUser} onAccountDeleted={handleAccountDeleted} />
           </TabsContent>
+
+          {user.role === 'admin' && (
+            <TabsContent value="admin">
+              <AdminConsole user={user} />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,491 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { SearchIcon, ShieldIcon, BanIcon, KeyRoundIcon, ScrollTextIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { trpc } from '@/utils/trpc';
+import type {
+  PublicUser,
+  UserRole,
+  UserOverview,
+  SearchUsersInput,
+  TwoFactorPolicy,
+  AuditAction,
+  AuditEvent,
+  GetAuditEventsInput
+} from '../../../server/src/schema';
+
+interface AdminConsoleProps {
+  user: PublicUser;
+}
+
+const PAGE_SIZE = 20;
+const AUDIT_PAGE_SIZE = 25;
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'user.login': 'Login',
+  'user.role_changed': 'Role change',
+  'user.suspended': 'Suspension',
+  'user.unsuspended': 'Suspension lifted',
+  'user.password_reset_forced': 'Forced password reset',
+  'booking.status_changed': 'Booking status',
+  'booking.moved': 'Booking moved',
+  'team.member_removed': 'Team member removed',
+  'field.price_changed': 'Field price'
+};
+
+// Renders a before/after diff as "key: old → new" pairs
+const describeChanges = (event: AuditEvent): string => {
+  const keys = new Set([...Object.keys(event.before ?? {}), ...Object.keys(event.after ?? {})]);
+  return [...keys]
+    .map(key => {
+      const before = event.before?.[key];
+      const after = event.after?.[key];
+      if (before === undefined) return `${key}: ${String(after)}`;
+      if (after === undefined) return `${key}: ${String(before)} (removed)`;
+      return `${key}: ${String(before)} → ${String(after)}`;
+    })
+    .join(', ');
+};
+
+const isSuspended = (account: PublicUser) =>
+  account.suspended_at !== null && (account.suspended_until === null || account.suspended_until > new Date());
+
+export function AdminConsole({ user }: AdminConsoleProps) {
+  const [searchForm, setSearchForm] = useState<SearchUsersInput>({ query: '', limit: PAGE_SIZE, offset: 0 });
+  const [results, setResults] = useState<PublicUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [overview, setOverview] = useState<UserOverview | null>(null);
+  const [suspendForm, setSuspendForm] = useState({ reason: '', until: '' });
+  const [twoFactorPolicy, setTwoFactorPolicy] = useState<TwoFactorPolicy>({ required_roles: [] });
+  const [auditFilter, setAuditFilter] = useState<GetAuditEventsInput>({ limit: AUDIT_PAGE_SIZE, offset: 0 });
+  const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
+  const [auditTotal, setAuditTotal] = useState(0);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadUsers = useCallback(async (input: SearchUsersInput) => {
+    try {
+      const result = await trpc.searchUsers.query({ ...input, query: input.query || undefined });
+      setResults(result.users);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Failed to search users:', error);
+    }
+  }, []);
+
+  const loadOverview = useCallback(async (userId: number) => {
+    try {
+      const result = await trpc.getUserOverview.query({ userId });
+      setOverview(result);
+      setSuspendForm({ reason: '', until: '' });
+    } catch (error) {
+      console.error('Failed to load user overview:', error);
+    }
+  }, []);
+
+  const loadTwoFactorPolicy = useCallback(async () => {
+    try {
+      setTwoFactorPolicy(await trpc.getTwoFactorPolicy.query());
+    } catch (error) {
+      console.error('Failed to load two-factor policy:', error);
+    }
+  }, []);
+
+  const loadAuditEvents = useCallback(async (input: GetAuditEventsInput) => {
+    try {
+      const result = await trpc.getAuditEvents.query(input);
+      setAuditEvents(result.events);
+      setAuditTotal(result.total);
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers({ limit: PAGE_SIZE, offset: 0 });
+    loadTwoFactorPolicy();
+    loadAuditEvents({ limit: AUDIT_PAGE_SIZE, offset: 0 });
+  }, [loadUsers, loadTwoFactorPolicy, loadAuditEvents]);
+
+  const handleAuditFilter = (input: GetAuditEventsInput) => {
+    setAuditFilter(input);
+    loadAuditEvents(input);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = { ...searchForm, offset: 0 };
+    setSearchForm(input);
+    loadUsers(input);
+  };
+
+  const handlePage = (offset: number) => {
+    const input = { ...searchForm, offset };
+    setSearchForm(input);
+    loadUsers(input);
+  };
+
+  // Runs an admin action on the selected user, then refreshes the list and the detail panel
+  const runAction = async (action: () => Promise<unknown>, successNotice: string) => {
+    if (!overview) return;
+    setIsLoading(true);
+    setNotice(null);
+    try {
+      await action();
+      setNotice(successNotice);
+      await Promise.all([loadUsers(searchForm), loadOverview(overview.user.id), loadAuditEvents(auditFilter)]);
+    } catch (error) {
+      console.error('Admin action failed:', error);
+      setNotice(error instanceof Error ? error.message : 'The action failed.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleTwoFactorRole = async (role: TwoFactorPolicy['required_roles'][number], required: boolean) => {
+    const required_roles = required
+      ? [...twoFactorPolicy.required_roles, role]
+      : twoFactorPolicy.required_roles.filter(r => r !== role);
+    try {
+      setTwoFactorPolicy(await trpc.updateTwoFactorPolicy.mutate({ required_roles }));
+    } catch (error) {
+      console.error('Failed to update two-factor policy:', error);
+      setNotice(error instanceof Error ? error.message : 'Could not update the two-factor policy.');
+    }
+  };
+
+  const selected = overview?.user;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Admin Console</h2>
+        <p className="text-gray-600">Manage accounts, roles and platform security</p>
+      </div>
+
+      {notice && (
+        <div className="rounded-lg border bg-gray-50 p-3 text-sm text-gray-700">{notice}</div>
+      )}
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* User search */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Users ({total})</CardTitle>
+            <CardDescription>Search by name or email</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <Input
+                placeholder="Name or email"
+                value={searchForm.query || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setSearchForm((prev: SearchUsersInput) => ({ ...prev, query: e.target.value }))
+                }
+              />
+              <Select
+                value={searchForm.role || 'all'}
+                onValueChange={(value: string) =>
+                  setSearchForm((prev: SearchUsersInput) => ({ ...prev, role: value === 'all' ? undefined : value as UserRole }))
+                }
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All roles</SelectItem>
+                  <SelectItem value="player">Players</SelectItem>
+                  <SelectItem value="field_owner">Field owners</SelectItem>
+                  <SelectItem value="admin">Admins</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button type="submit">
+                <SearchIcon className="h-4 w-4" />
+              </Button>
+            </form>
+
+            <div className="space-y-2">
+              {results.map((account: PublicUser) => (
+                <button
+                  key={account.id}
+                  type="button"
+                  onClick={() => loadOverview(account.id)}
+                  className={`w-full text-left p-3 border rounded-lg hover:bg-gray-50 ${selected?.id === account.id ? 'border-green-500' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium">{account.first_name} {account.last_name}</div>
+                      <div className="text-sm text-gray-600">{account.email}</div>
+                    </div>
+                    <div className="flex gap-1">
+                      <Badge variant="outline">{account.role}</Badge>
+                      {isSuspended(account) && <Badge variant="destructive">suspended</Badge>}
+                    </div>
+                  </div>
+                </button>
+              ))}
+              {results.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">No users match your search</p>
+              )}
+            </div>
+
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!searchForm.offset}
+                onClick={() => handlePage(Math.max(0, (searchForm.offset || 0) - PAGE_SIZE))}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={(searchForm.offset || 0) + PAGE_SIZE >= total}
+                onClick={() => handlePage((searchForm.offset || 0) + PAGE_SIZE)}
+              >
+                Next
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Selected user */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{selected ? `${selected.first_name} ${selected.last_name}` : 'User details'}</CardTitle>
+            <CardDescription>
+              {selected ? `${selected.email} • Joined ${format(selected.created_at, 'PPP')}` : 'Select a user to manage their account'}
+            </CardDescription>
+          </CardHeader>
+          {overview && selected && (
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select
+                  value={selected.role || 'player'}
+                  disabled={selected.id === user.id || isLoading}
+                  onValueChange={(role: UserRole) =>
+                    runAction(() => trpc.changeUserRole.mutate({ user_id: selected.id, role }), `Role changed to ${role}.`)
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="player">Player</SelectItem>
+                    <SelectItem value="field_owner">Field owner</SelectItem>
+                    <SelectItem value="admin">Admin</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Separator />
+
+              {isSuspended(selected) ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-red-700">
+                    <BanIcon className="inline h-4 w-4 mr-1" />
+                    {selected.suspended_until ? `Suspended until ${format(selected.suspended_until, 'PPP p')}` : 'Banned'}
+                    {selected.suspension_reason && ` — ${selected.suspension_reason}`}
+                  </p>
+                  <Button
+                    variant="outline"
+                    disabled={isLoading}
+                    onClick={() => runAction(() => trpc.unsuspendUser.mutate({ userId: selected.id }), 'Suspension lifted.')}
+                  >
+                    Lift Suspension
+                  </Button>
+                </div>
+              ) : (
+                <form
+                  className="space-y-2"
+                  onSubmit={(e: React.FormEvent) => {
+                    e.preventDefault();
+                    runAction(() => trpc.suspendUser.mutate({
+                      user_id: selected.id,
+                      reason: suspendForm.reason,
+                      until: suspendForm.until ? new Date(suspendForm.until) : null
+                    }), suspendForm.until ? 'Account suspended.' : 'Account banned.');
+                  }}
+                >
+                  <Label htmlFor="suspend-reason">Suspend or ban</Label>
+                  <Input
+                    id="suspend-reason"
+                    placeholder="Reason"
+                    value={suspendForm.reason}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setSuspendForm(prev => ({ ...prev, reason: e.target.value }))
+                    }
+                    required
+                  />
+                  <Input
+                    type="datetime-local"
+                    value={suspendForm.until}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setSuspendForm(prev => ({ ...prev, until: e.target.value }))
+                    }
+                  />
+                  <p className="text-xs text-gray-500">Leave the date empty to ban the account indefinitely</p>
+                  <Button type="submit" variant="destructive" disabled={selected.id === user.id || isLoading}>
+                    {suspendForm.until ? 'Suspend' : 'Ban'}
+                  </Button>
+                </form>
+              )}
+
+              <Separator />
+
+              <Button
+                variant="outline"
+                disabled={isLoading}
+                onClick={() =>
+                  runAction(() => trpc.forcePasswordReset.mutate({ userId: selected.id }), `A password reset link was sent to ${selected.email}.`)
+                }
+              >
+                <KeyRoundIcon className="h-4 w-4 mr-1" />
+                Force Password Reset
+              </Button>
+
+              <Separator />
+
+              <div className="space-y-2 text-sm">
+                <h4 className="font-medium">Teams ({overview.teams.length})</h4>
+                {overview.teams.map(team => (
+                  <div key={team.id} className="text-gray-600">
+                    👥 {team.name} {team.captain_id === selected.id && <Badge variant="outline">captain</Badge>}
+                  </div>
+                ))}
+                <h4 className="font-medium">Fields ({overview.fields.length})</h4>
+                {overview.fields.map(field => (
+                  <div key={field.id} className="text-gray-600">🏟️ {field.name} — {field.address}</div>
+                ))}
+                <h4 className="font-medium">Bookings ({overview.bookings.length})</h4>
+                {overview.bookings.map(booking => (
+                  <div key={booking.id} className="text-gray-600">
+                    📅 Slot #{booking.slot_id} • ${booking.total_price} • <Badge variant="outline">{booking.status}</Badge>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+
+      {/* Platform security */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldIcon className="h-5 w-5" />
+            Two-Factor Policy
+          </CardTitle>
+          <CardDescription>
+            Accounts in these roles must set up two-factor authentication before using their tools
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {(['field_owner', 'admin'] as const).map(role => (
+            <div key={role} className="flex items-center gap-2">
+              <Checkbox
+                id={`require-2fa-${role}`}
+                checked={twoFactorPolicy.required_roles.includes(role)}
+                onCheckedChange={(checked) => handleToggleTwoFactorRole(role, checked === true)}
+              />
+              <Label htmlFor={`require-2fa-${role}`}>
+                Require for {role === 'admin' ? 'admins' : 'field owners'}
+              </Label>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Audit log */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScrollTextIcon className="h-5 w-5" />
+            Audit Log ({auditTotal})
+          </CardTitle>
+          <CardDescription>Who changed what, newest first</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Select
+              value={auditFilter.action || 'all'}
+              onValueChange={(value: string) =>
+                handleAuditFilter({ ...auditFilter, action: value === 'all' ? undefined : value as AuditAction, offset: 0 })
+              }
+            >
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                  <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected && (
+              <Button
+                variant={auditFilter.actor_id === selected.id ? 'default' : 'outline'}
+                onClick={() => handleAuditFilter({
+                  ...auditFilter,
+                  actor_id: auditFilter.actor_id === selected.id ? undefined : selected.id,
+                  offset: 0
+                })}
+              >
+                Only actions by {selected.first_name}
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {auditEvents.map((event: AuditEvent) => (
+              <div key={event.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg text-sm">
+                <div>
+                  <div className="font-medium">
+                    {AUDIT_ACTION_LABELS[event.action]} • {event.entity_type} #{event.entity_id}
+                  </div>
+                  <div className="text-gray-600">{describeChanges(event)}</div>
+                </div>
+                <div className="text-right text-gray-500 shrink-0">
+                  <div>{event.actor_email ?? 'Deleted user'}</div>
+                  <div>{format(event.created_at, 'PPP p')}</div>
+                </div>
+              </div>
+            ))}
+            {auditEvents.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No audit events recorded</p>
+            )}
+          </div>
+
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!auditFilter.offset}
+              onClick={() => handleAuditFilter({ ...auditFilter, offset: Math.max(0, (auditFilter.offset || 0) - AUDIT_PAGE_SIZE) })}
+            >
+              Newer
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={(auditFilter.offset || 0) + AUDIT_PAGE_SIZE >= auditTotal}
+              onClick={() => handleAuditFilter({ ...auditFilter, offset: (auditFilter.offset || 0) + AUDIT_PAGE_SIZE })}
+            >
+              Older
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
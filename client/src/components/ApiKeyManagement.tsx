@@ -0,0 +1,176 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { KeyRoundIcon, CopyIcon } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { trpc } from '@/utils/trpc';
+import type { ApiKey, ApiKeyScope, CreateApiKeyInput } from '../../../server/src/schema';
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'slots:read': 'Read slots',
+  'slots:write': 'Create slots',
+  'bookings:read': 'Read bookings',
+  'bookings:write': 'Confirm or cancel bookings'
+};
+
+export function ApiKeyManagement() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [keyForm, setKeyForm] = useState<CreateApiKeyInput>({ name: '', scopes: ['slots:read'] });
+  // The full key is only returned once, so it is shown until the owner dismisses it
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadApiKeys = useCallback(async () => {
+    try {
+      setApiKeys(await trpc.getMyApiKeys.query());
+    } catch (error) {
+      console.error('Failed to load API keys:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApiKeys();
+  }, [loadApiKeys]);
+
+  const toggleScope = (scope: ApiKeyScope, enabled: boolean) => {
+    setKeyForm((prev: CreateApiKeyInput) => ({
+      ...prev,
+      scopes: enabled ? [...prev.scopes, scope] : prev.scopes.filter((s: ApiKeyScope) => s !== scope)
+    }));
+  };
+
+  const handleCreateKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const created = await trpc.createApiKey.mutate(keyForm);
+      setNewKey(created.key);
+      setApiKeys((prev: ApiKey[]) => [created.api_key, ...prev]);
+      setKeyForm({ name: '', scopes: ['slots:read'] });
+    } catch (error) {
+      console.error('Failed to create API key:', error);
+      setError(error instanceof Error ? error.message : 'Could not create the API key.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevokeKey = async (apiKeyId: number) => {
+    try {
+      const revoked = await trpc.revokeApiKey.mutate({ apiKeyId });
+      setApiKeys((prev: ApiKey[]) => prev.map((apiKey: ApiKey) => apiKey.id === apiKeyId ? revoked : apiKey));
+    } catch (error) {
+      console.error('Failed to revoke API key:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRoundIcon className="h-5 w-5" />
+            New API Key
+          </CardTitle>
+          <CardDescription>
+            Let your booking spreadsheet or system sync slots and bookings. Send the key as
+            <code className="mx-1">Authorization: Bearer &lt;key&gt;</code>.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {newKey && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-2">
+              <p className="text-sm text-amber-800">Copy this key now — it won't be shown again.</p>
+              <div className="flex gap-2">
+                <Input readOnly value={newKey} className="font-mono" />
+                <Button variant="outline" onClick={() => navigator.clipboard.writeText(newKey)}>
+                  <CopyIcon className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setNewKey(null)}>Done</Button>
+            </div>
+          )}
+
+          <form onSubmit={handleCreateKey} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                placeholder="e.g. Booking spreadsheet"
+                value={keyForm.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setKeyForm((prev: CreateApiKeyInput) => ({ ...prev, name: e.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              <div className="grid sm:grid-cols-2 gap-2">
+                {(Object.keys(SCOPE_LABELS) as ApiKeyScope[]).map((scope: ApiKeyScope) => (
+                  <div key={scope} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-${scope}`}
+                      checked={keyForm.scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    <Label htmlFor={`scope-${scope}`}>{SCOPE_LABELS[scope]}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" disabled={isLoading || keyForm.scopes.length === 0}>
+              {isLoading ? 'Creating...' : 'Create Key'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your API Keys ({apiKeys.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {apiKeys.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No API keys yet</p>
+          )}
+          {apiKeys.map((apiKey: ApiKey) => (
+            <div key={apiKey.id} className="flex items-center justify-between p-4 border rounded-lg">
+              <div>
+                <h4 className="font-medium flex items-center gap-2">
+                  {apiKey.name}
+                  <code className="text-xs text-gray-500">{apiKey.key_prefix}…</code>
+                  {apiKey.revoked_at && <Badge variant="destructive">Revoked</Badge>}
+                </h4>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {apiKey.scopes.map((scope: ApiKeyScope) => (
+                    <Badge key={scope} variant="outline">{SCOPE_LABELS[scope]}</Badge>
+                  ))}
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  Created {format(apiKey.created_at, 'PPP')} •{' '}
+                  {apiKey.last_used_at
+                    ? `Last used ${formatDistanceToNow(apiKey.last_used_at, { addSuffix: true })}`
+                    : 'Never used'}
+                </p>
+              </div>
+              {!apiKey.revoked_at && (
+                <Button variant="outline" size="sm" onClick={() => handleRevokeKey(apiKey.id)}>
+                  Revoke
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -6,17 +6,38 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import type { LoginInput, RegisterInput, UserRole } from '../../../server/src/schema';
+import { trpc } from '@/utils/trpc';
+import type {
+  LoginInput,
+  RegisterInput,
+  ResetPasswordInput,
+  TwoFactorChallenge,
+  RegistrationRole,
+  VerifyTwoFactorLoginInput
+} from '../../../server/src/schema';
 
 interface AuthModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onLogin: (credentials: LoginInput) => Promise<void>;
+  onLogin: (credentials: LoginInput) => Promise<TwoFactorChallenge | null>;
+  onVerifyTwoFactor: (input: VerifyTwoFactorLoginInput) => Promise<void>;
   onRegister: (userData: RegisterInput) => Promise<void>;
+  resetToken?: string | null;
 }
 
-export function AuthModal({ isOpen, onClose, onLogin, onRegister }: AuthModalProps) {
+export function AuthModal({ isOpen, onClose, onLogin, onVerifyTwoFactor, onRegister, resetToken }: AuthModalProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [activeTab, setActiveTab] = useState(resetToken ? 'reset' : 'login');
+  const [resetEmail, setResetEmail] = useState('');
+  const [resetRequested, setResetRequested] = useState(false);
+  const [resetForm, setResetForm] = useState<ResetPasswordInput>({
+    token: resetToken || '',
+    password: ''
+  });
+  const [resetMessage, setResetMessage] = useState<string | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [twoFactorError, setTwoFactorError] = useState<string | null>(null);
   const [loginData, setLoginData] = useState<LoginInput>({
     email: '',
     password: ''
@@ -34,7 +55,13 @@ export function AuthModal({ isOpen, onClose, onLogin, onRegister }: AuthModalPro
     e.preventDefault();
     setIsLoading(true);
     try {
-      await onLogin(loginData);
+      const challenge = await onLogin(loginData);
+      if (challenge) {
+        setTwoFactorChallenge(challenge);
+        setTwoFactorCode('');
+        setTwoFactorError(null);
+        setActiveTab('two-factor');
+      }
     } catch (error) {
       console.error('Login error:', error);
     } finally {
@@ -42,6 +69,21 @@ export function AuthModal({ isOpen, onClose, onLogin, onRegister }: AuthModalPro
     }
   };
 
+  const handleVerifyTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorChallenge) return;
+
+    setIsLoading(true);
+    try {
+      await onVerifyTwoFactor({ challenge_token: twoFactorChallenge.challenge_token, code: twoFactorCode });
+    } catch (error) {
+      console.error('Two-factor verification error:', error);
+      setTwoFactorError(error instanceof Error ? error.message : 'That code did not work. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -58,6 +100,35 @@ export function AuthModal({ isOpen, onClose, onLogin, onRegister }: AuthModalPro
     }
   };
 
+  const handleRequestReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.requestPasswordReset.mutate({ email: resetEmail });
+      setResetRequested(true);
+    } catch (error) {
+      console.error('Password reset request error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.resetPassword.mutate(resetForm);
+      setResetMessage(null);
+      setResetForm({ token: '', password: '' });
+      setActiveTab('login');
+    } catch (error) {
+      console.error('Password reset error:', error);
+      setResetMessage('This reset link is invalid or has expired. Please request a new one.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md">
@@ -70,7 +141,7 @@ export function AuthModal({ isOpen, onClose, onLogin, onRegister }: AuthModalPro
           </DialogDescription>
         </DialogHeader>
 
-        <Tabs defaultValue="login" className="w-full">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="login">Login</TabsTrigger>
             <TabsTrigger value="register">Register</TabsTrigger>
@@ -115,6 +186,138 @@ export function AuthModal({ isOpen, onClose, onLogin, onRegister }: AuthModalPro
                   <Button type="submit" className="w-full" disabled={isLoading}>
                     {isLoading ? 'Logging in...' : 'Login 🚀'}
                   </Button>
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="w-full"
+                    onClick={() => setActiveTab('forgot')}
+                  >
+                    Forgot password?
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="two-factor">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Two-Factor Authentication</CardTitle>
+                <CardDescription>
+                  Enter the 6-digit code from your authenticator app, or one of your recovery codes
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleVerifyTwoFactor} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="two-factor-code">Code</Label>
+                    <Input
+                      id="two-factor-code"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      placeholder="123456"
+                      value={twoFactorCode}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTwoFactorCode(e.target.value)}
+                      minLength={6}
+                      required
+                    />
+                  </div>
+                  {twoFactorError && (
+                    <p className="text-sm text-red-600">{twoFactorError}</p>
+                  )}
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? 'Verifying...' : 'Verify'}
+                  </Button>
+                  <Button type="button" variant="link" className="w-full" onClick={() => setActiveTab('login')}>
+                    Back to login
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="forgot">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Forgot Password</CardTitle>
+                <CardDescription>
+                  We'll email you a link to choose a new password
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {resetRequested ? (
+                  <div className="space-y-4">
+                    <p className="text-sm text-gray-600">
+                      If an account exists for {resetEmail}, a reset link is on its way. The link expires in one hour.
+                    </p>
+                    <Button variant="outline" className="w-full" onClick={() => setActiveTab('reset')}>
+                      I have a reset code
+                    </Button>
+                  </div>
+                ) : (
+                  <form onSubmit={handleRequestReset} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="reset-email">Email</Label>
+                      <Input
+                        id="reset-email"
+                        type="email"
+                        placeholder="your@email.com"
+                        value={resetEmail}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setResetEmail(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? 'Sending...' : 'Send Reset Link'}
+                    </Button>
+                    <Button type="button" variant="link" className="w-full" onClick={() => setActiveTab('login')}>
+                      Back to login
+                    </Button>
+                  </form>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="reset">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Choose a New Password</CardTitle>
+                <CardDescription>
+                  You'll be signed out of all other devices
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleResetPassword} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="reset-token">Reset Code</Label>
+                    <Input
+                      id="reset-token"
+                      value={resetForm.token}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setResetForm((prev: ResetPasswordInput) => ({ ...prev, token: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="reset-password">New Password</Label>
+                    <Input
+                      id="reset-password"
+                      type="password"
+                      placeholder="••••••••"
+                      value={resetForm.password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setResetForm((prev: ResetPasswordInput) => ({ ...prev, password: e.target.value }))
+                      }
+                      minLength={6}
+                      required
+                    />
+                  </div>
+                  {resetMessage && <p className="text-sm text-red-600">{resetMessage}</p>}
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? 'Saving...' : 'Reset Password'}
+                  </Button>
                 </form>
               </CardContent>
             </Card>
@@ -188,7 +391,7 @@ export function AuthModal({ isOpen, onClose, onLogin, onRegister }: AuthModalPro
                     <Label htmlFor="register-role">Role</Label>
                     <Select 
                       value={registerData.role} 
-                      onValueChange={(value: UserRole) =>
+                      onValueChange={(value: RegistrationRole) =>
                         setRegisterData((prev: RegisterInput) => ({ ...prev, role: value }))
                       }
                     >
@@ -198,7 +401,6 @@ export function AuthModal({ isOpen, onClose, onLogin, onRegister }: AuthModalPro
                       <SelectContent>
                         <SelectItem value="player">⚽ Player</SelectItem>
                         <SelectItem value="field_owner">🏟️ Field Owner</SelectItem>
-                        <SelectItem value="admin">👨‍💼 Administrator</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
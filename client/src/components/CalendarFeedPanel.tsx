@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarPlusIcon, CopyIcon } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { trpc } from '@/utils/trpc';
+import type { CalendarFeed } from '../../../server/src/schema';
+
+interface CalendarFeedPanelProps {
+  // Null for the signed-in user's own bookings
+  fieldId: number | null;
+  title: string;
+  description: string;
+}
+
+export function CalendarFeedPanel({ fieldId, title, description }: CalendarFeedPanelProps) {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  // The URL is only returned once, so it is shown until dismissed
+  const [newUrl, setNewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadFeed = useCallback(async () => {
+    try {
+      const feeds = await trpc.getMyCalendarFeeds.query();
+      setFeed(feeds.find((f: CalendarFeed) => f.field_id === fieldId && !f.revoked_at) ?? null);
+    } catch (error) {
+      console.error('Failed to load calendar feeds:', error);
+    }
+  }, [fieldId]);
+
+  useEffect(() => {
+    loadFeed();
+  }, [loadFeed]);
+
+  const handleCreate = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const created = await trpc.createCalendarFeed.mutate({ field_id: fieldId });
+      setFeed(created.feed);
+      setNewUrl(created.url);
+    } catch (error) {
+      console.error('Failed to create calendar feed:', error);
+      setError(error instanceof Error ? error.message : 'Could not create the calendar link.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!feed) return;
+    try {
+      await trpc.revokeCalendarFeed.mutate({ feedId: feed.id });
+      setFeed(null);
+      setNewUrl(null);
+    } catch (error) {
+      console.error('Failed to revoke calendar feed:', error);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h4 className="font-medium flex items-center gap-2">
+            <CalendarPlusIcon className="h-4 w-4" />
+            {title}
+          </h4>
+          <p className="text-sm text-gray-600">{description}</p>
+          {feed && (
+            <p className="text-xs text-gray-500 mt-1">
+              Link active •{' '}
+              {feed.last_accessed_at
+                ? `last synced ${formatDistanceToNow(feed.last_accessed_at, { addSuffix: true })}`
+                : 'not synced yet'}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button variant="outline" size="sm" onClick={handleCreate} disabled={isLoading}>
+            {feed ? 'Reset Link' : 'Create Link'}
+          </Button>
+          {feed && (
+            <Button variant="ghost" size="sm" onClick={handleRevoke}>
+              Turn Off
+            </Button>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {newUrl && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-2">
+          <p className="text-sm text-amber-800">
+            Subscribe to this link in your calendar app. Copy it now — it won't be shown again, and anyone with it can
+            see these bookings. Resetting the link stops the old one working.
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={newUrl} className="font-mono" />
+            <Button variant="outline" onClick={() => navigator.clipboard.writeText(newUrl)}>
+              <CopyIcon className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setNewUrl(null)}>Done</Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BanIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { trpc } from '@/utils/trpc';
+import type { ClosureAffectedBooking, FieldSlot } from '../../../server/src/schema';
+
+// Bookings a field closure has covered since they were made; shown only when there are any
+export function ClosureAffectedBookings() {
+  const [affected, setAffected] = useState<ClosureAffectedBooking[]>([]);
+  const [targets, setTargets] = useState<{ [bookingId: number]: string }>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadAffected = useCallback(async () => {
+    try {
+      setAffected(await trpc.getMyClosureAffectedBookings.query());
+    } catch (error) {
+      console.error('Failed to load bookings affected by closures:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAffected();
+  }, [loadAffected]);
+
+  const showError = (error: unknown, fallback: string) =>
+    setError(error instanceof Error ? error.message : fallback);
+
+  const handleCancel = async (bookingId: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.updateBookingStatus.mutate({ bookingId, status: 'cancelled' });
+      await loadAffected();
+    } catch (error) {
+      console.error('Failed to cancel booking:', error);
+      showError(error, 'Could not cancel the booking.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMove = async (bookingId: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.moveBooking.mutate({ booking_id: bookingId, slot_id: parseInt(targets[bookingId]) });
+      await loadAffected();
+    } catch (error) {
+      console.error('Failed to move booking:', error);
+      showError(error, 'Could not move the booking.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (affected.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-amber-300 bg-amber-50/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BanIcon className="h-5 w-5" />
+          Closed During Your Bookings ({affected.length})
+        </CardTitle>
+        <CardDescription>These fields have closed since you booked. Cancel or move each booking.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {affected.map(({ booking, slot, field_name, closure, alternative_slots }: ClosureAffectedBooking) => (
+          <div key={booking.id} className="p-3 border rounded-lg bg-white space-y-2 text-sm">
+            <div>
+              <span className="font-medium">{field_name}</span> • {format(slot.start_time, 'PPp')}
+            </div>
+            <div className="text-gray-600">
+              Closed {format(closure.starts_at, 'PPp')} – {format(closure.ends_at, 'PPp')}
+              {closure.reason && <> • {closure.reason}</>}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {alternative_slots.length > 0 ? (
+                <>
+                  <Select
+                    value={targets[booking.id] || 'none'}
+                    onValueChange={(value: string) => setTargets((prev) => ({ ...prev, [booking.id]: value }))}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none" disabled>Choose another slot</SelectItem>
+                      {alternative_slots.map((alternative: FieldSlot) => (
+                        <SelectItem key={alternative.id} value={alternative.id.toString()}>
+                          {format(alternative.start_time, 'PPp')} • ${alternative.price}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button size="sm" disabled={isLoading || !targets[booking.id]} onClick={() => handleMove(booking.id)}>
+                    Move
+                  </Button>
+                </>
+              ) : (
+                <span className="text-gray-500">No other open slots here right now.</span>
+              )}
+              <Button size="sm" variant="outline" disabled={isLoading} onClick={() => handleCancel(booking.id)}>
+                Cancel Booking
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
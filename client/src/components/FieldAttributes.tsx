@@ -0,0 +1,113 @@
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SURFACE_LABELS, FORMATS, AMENITY_LABELS, type FieldAttributes } from '@/utils/field_attributes';
+import type { FieldAmenity, FieldFormat, FieldSurface } from '../../../server/src/schema';
+
+const toggle = <T,>(values: T[], value: T, enabled: boolean): T[] =>
+  enabled ? [...values, value] : values.filter((v: T) => v !== value);
+
+interface AmenitiesEditorProps {
+  idPrefix: string;
+  value: FieldAmenity[];
+  onChange: (value: FieldAmenity[]) => void;
+}
+
+export function AmenitiesEditor({ idPrefix, value, onChange }: AmenitiesEditorProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Amenities</Label>
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(AMENITY_LABELS) as FieldAmenity[]).map((amenity: FieldAmenity) => (
+          <div key={amenity} className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}-amenity-${amenity}`}
+              checked={value.includes(amenity)}
+              onCheckedChange={(checked) => onChange(toggle(value, amenity, checked === true))}
+            />
+            <Label htmlFor={`${idPrefix}-amenity-${amenity}`}>{AMENITY_LABELS[amenity]}</Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface FieldAttributesEditorProps {
+  idPrefix: string;
+  value: FieldAttributes;
+  onChange: (value: FieldAttributes) => void;
+  // Pitches at a venue share the venue's amenities
+  showAmenities?: boolean;
+}
+
+export function FieldAttributesEditor({ idPrefix, value, onChange, showAmenities = true }: FieldAttributesEditorProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-surface`}>Surface</Label>
+          <Select
+            value={value.surface || 'unknown'}
+            onValueChange={(surface: string) =>
+              onChange({ ...value, surface: surface === 'unknown' ? null : surface as FieldSurface })
+            }
+          >
+            <SelectTrigger id={`${idPrefix}-surface`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unknown">Not specified</SelectItem>
+              {(Object.keys(SURFACE_LABELS) as FieldSurface[]).map((surface: FieldSurface) => (
+                <SelectItem key={surface} value={surface}>{SURFACE_LABELS[surface]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 pt-6">
+          <Switch
+            id={`${idPrefix}-indoor`}
+            checked={value.is_indoor}
+            onCheckedChange={(checked: boolean) => onChange({ ...value, is_indoor: checked })}
+          />
+          <Label htmlFor={`${idPrefix}-indoor`}>Indoor</Label>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Formats</Label>
+        <div className="flex flex-wrap gap-4">
+          {FORMATS.map((format: FieldFormat) => (
+            <div key={format} className="flex items-center gap-2">
+              <Checkbox
+                id={`${idPrefix}-format-${format}`}
+                checked={value.formats.includes(format)}
+                onCheckedChange={(checked) => onChange({ ...value, formats: toggle(value.formats, format, checked === true) })}
+              />
+              <Label htmlFor={`${idPrefix}-format-${format}`}>{format}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+      {showAmenities && (
+        <AmenitiesEditor idPrefix={idPrefix} value={value.amenities} onChange={(amenities: FieldAmenity[]) => onChange({ ...value, amenities })} />
+      )}
+    </div>
+  );
+}
+
+export function FieldAttributeBadges({ field }: { field: FieldAttributes }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {field.surface && <Badge variant="secondary">{SURFACE_LABELS[field.surface]}</Badge>}
+      <Badge variant="secondary">{field.is_indoor ? '🏠 Indoor' : '🌤️ Outdoor'}</Badge>
+      {field.formats.map((format: FieldFormat) => (
+        <Badge key={format} variant="outline">{format}</Badge>
+      ))}
+      {field.amenities.map((amenity: FieldAmenity) => (
+        <Badge key={amenity} variant="outline">{AMENITY_LABELS[amenity]}</Badge>
+      ))}
+    </div>
+  );
+}
@@ -9,37 +9,54 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { CalendarIcon, MapPinIcon, DollarSignIcon, ClockIcon, PlusIcon } from 'lucide-react';
+import { CalendarIcon, MapPinIcon, ClockIcon, PlusIcon, XIcon } from 'lucide-react';
 import { format } from 'date-fns';
-import { trpc } from '@/utils/trpc';
+import { trpc, getSlotErrorCode } from '@/utils/trpc';
+import { readImageFile, IMAGE_ACCEPT } from '@/utils/upload';
+import { ApiKeyManagement } from '@/components/ApiKeyManagement';
+import { FieldAttributesEditor, FieldAttributeBadges } from '@/components/FieldAttributes';
+import { FieldScheduleManager } from '@/components/FieldScheduleManager';
+import { PricingRulesManager } from '@/components/PricingRulesManager';
+import { SlotCsvManager } from '@/components/SlotCsvManager';
+import { CalendarFeedPanel } from '@/components/CalendarFeedPanel';
+import { VenueManagement } from '@/components/VenueManagement';
+import { FieldReviewsDialog } from '@/components/FieldReviews';
+import { EMPTY_FIELD_ATTRIBUTES, type FieldAttributes } from '@/utils/field_attributes';
+import { formatAdjustment } from '@/utils/pricing';
 import type { 
-  User, 
+  PublicUser, 
   Field, 
   FieldSlot,
+  VenueWithPitches,
+  FieldPhoto,
   Booking,
   CreateFieldInput, 
   CreateFieldSlotInput,
-  UpdateFieldInput,
-  BookingStatus
+  FieldSchedule,
+  BookingStatus,
+  SlotValidationErrorCode
 } from '../../../server/src/schema';
 
 interface FieldManagementProps {
-  user: User;
+  user: PublicUser;
 }
 
 export function FieldManagement({ user }: FieldManagementProps) {
   const [fields, setFields] = useState<Field[]>([]);
+  const [venues, setVenues] = useState<VenueWithPitches[]>([]);
   const [fieldSlots, setFieldSlots] = useState<FieldSlot[]>([]);
+  const [fieldPhotos, setFieldPhotos] = useState<{ [fieldId: number]: FieldPhoto[] }>({});
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [activeSection, setActiveSection] = useState<'fields' | 'slots' | 'bookings'>('fields');
+  const [activeSection, setActiveSection] = useState<'venues' | 'fields' | 'slots' | 'bookings' | 'integrations'>('fields');
 
   // Form states
   const [fieldForm, setFieldForm] = useState<CreateFieldInput>({
     name: '',
     address: '',
     description: null,
-    hourly_rate: 0
+    hourly_rate: 0,
+    ...EMPTY_FIELD_ATTRIBUTES
   });
 
   const [slotForm, setSlotForm] = useState<CreateFieldSlotInput>({
@@ -50,18 +67,34 @@ export function FieldManagement({ user }: FieldManagementProps) {
   });
 
   const [selectedSlotDate, setSelectedSlotDate] = useState<Date>();
+  const [selectedSlotTime, setSelectedSlotTime] = useState('09:00');
+  const [slotError, setSlotError] = useState<{ code: SlotValidationErrorCode | null; message: string } | null>(null);
   const [selectedField, setSelectedField] = useState<Field | null>(null);
   const [showCreateFieldDialog, setShowCreateFieldDialog] = useState(false);
   const [showCreateSlotDialog, setShowCreateSlotDialog] = useState(false);
+  // Field whose attributes are being edited, with the unsaved values
+  const [editingField, setEditingField] = useState<Field | null>(null);
+  const [editAttributes, setEditAttributes] = useState<FieldAttributes>(EMPTY_FIELD_ATTRIBUTES);
+  // Field waiting for the owner to confirm its deletion
+  const [deletingField, setDeletingField] = useState<Field | null>(null);
+  const [fieldError, setFieldError] = useState<string | null>(null);
 
   // Load data
   const loadFields = useCallback(async () => {
     try {
-      const userFields = await trpc.getFieldsByOwner.query({ ownerId: user.id });
+      const userFields = await trpc.getFieldsByOwner.query();
       setFields(userFields);
     } catch (error) {
       console.error('Failed to load fields:', error);
     }
+  }, []);
+
+  const loadVenues = useCallback(async () => {
+    try {
+      setVenues(await trpc.getVenuesByOwner.query({ ownerId: user.id }));
+    } catch (error) {
+      console.error('Failed to load venues:', error);
+    }
   }, [user.id]);
 
   const loadFieldSlots = useCallback(async () => {
@@ -75,19 +108,33 @@ export function FieldManagement({ user }: FieldManagementProps) {
     }
   }, [selectedField]);
 
+  const loadFieldPhotos = useCallback(async (fieldId: number) => {
+    try {
+      const photos = await trpc.getFieldPhotos.query({ fieldId });
+      setFieldPhotos((prev) => ({ ...prev, [fieldId]: photos }));
+    } catch (error) {
+      console.error('Failed to load field photos:', error);
+    }
+  }, []);
+
   const loadBookings = useCallback(async () => {
     try {
-      const ownerBookings = await trpc.getBookingsByFieldOwner.query({ ownerId: user.id });
+      const ownerBookings = await trpc.getMyFieldBookings.query();
       setBookings(ownerBookings);
     } catch (error) {
       console.error('Failed to load bookings:', error);
     }
-  }, [user.id]);
+  }, []);
 
   useEffect(() => {
     loadFields();
+    loadVenues();
     loadBookings();
-  }, [loadFields, loadBookings]);
+  }, [loadFields, loadVenues, loadBookings]);
+
+  useEffect(() => {
+    fields.forEach((field: Field) => loadFieldPhotos(field.id));
+  }, [fields, loadFieldPhotos]);
 
   useEffect(() => {
     if (selectedField) {
@@ -104,11 +151,15 @@ export function FieldManagement({ user }: FieldManagementProps) {
         description: fieldForm.description || null
       });
       setFields((prev: Field[]) => [...prev, newField]);
+      if (newField.venue_id !== null) {
+        loadVenues();
+      }
       setFieldForm({
         name: '',
         address: '',
         description: null,
-        hourly_rate: 0
+        hourly_rate: 0,
+        ...EMPTY_FIELD_ATTRIBUTES
       });
       setShowCreateFieldDialog(false);
     } catch (error) {
@@ -118,16 +169,111 @@ export function FieldManagement({ user }: FieldManagementProps) {
     }
   };
 
+  const openAttributesEditor = (field: Field) => {
+    setEditingField(field);
+    setEditAttributes({
+      surface: field.surface,
+      formats: field.formats,
+      is_indoor: field.is_indoor,
+      amenities: field.amenities
+    });
+  };
+
+  const handleSaveAttributes = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingField) return;
+
+    setIsLoading(true);
+    try {
+      // A pitch's amenities are the venue's
+      const { amenities, ...attributes } = editAttributes;
+      const updated = await trpc.updateField.mutate({
+        id: editingField.id,
+        ...attributes,
+        ...(editingField.venue_id === null ? { amenities } : {})
+      });
+      setFields((prev: Field[]) => prev.map((field: Field) => field.id === updated.id ? updated : field));
+      setEditingField(null);
+    } catch (error) {
+      console.error('Failed to update field:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleArchived = async (field: Field) => {
+    setFieldError(null);
+    try {
+      const updated = field.archived_at === null
+        ? await trpc.archiveField.mutate({ fieldId: field.id })
+        : await trpc.unarchiveField.mutate({ fieldId: field.id });
+      setFields((prev: Field[]) => prev.map((f: Field) => f.id === updated.id ? updated : f));
+    } catch (error) {
+      console.error('Failed to archive field:', error);
+      setFieldError(error instanceof Error ? error.message : 'Could not update the field.');
+    }
+  };
+
+  const handleDeleteField = async () => {
+    if (!deletingField) return;
+
+    setIsLoading(true);
+    setFieldError(null);
+    try {
+      await trpc.deleteField.mutate({ fieldId: deletingField.id });
+      setFields((prev: Field[]) => prev.filter((field: Field) => field.id !== deletingField.id));
+      if (selectedField?.id === deletingField.id) {
+        setSelectedField(null);
+      }
+      loadVenues();
+    } catch (error) {
+      console.error('Failed to delete field:', error);
+      setFieldError(error instanceof Error ? error.message : 'Could not delete the field.');
+    } finally {
+      setDeletingField(null);
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddPhoto = async (fieldId: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    try {
+      const photo = await trpc.addFieldPhoto.mutate({ field_id: fieldId, ...await readImageFile(file) });
+      setFieldPhotos((prev) => ({ ...prev, [fieldId]: [...(prev[fieldId] || []), photo] }));
+    } catch (error) {
+      console.error('Failed to upload field photo:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemovePhoto = async (photo: FieldPhoto) => {
+    try {
+      await trpc.removeFieldPhoto.mutate({ photoId: photo.id });
+      setFieldPhotos((prev) => ({
+        ...prev,
+        [photo.field_id]: (prev[photo.field_id] || []).filter((p: FieldPhoto) => p.id !== photo.id)
+      }));
+    } catch (error) {
+      console.error('Failed to remove field photo:', error);
+    }
+  };
+
   const handleCreateSlot = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedSlotDate || !selectedField) return;
 
     setIsLoading(true);
+    setSlotError(null);
     try {
+      const [hours, minutes] = selectedSlotTime.split(':').map(Number);
       const startTime = new Date(selectedSlotDate);
-      startTime.setHours(9, 0, 0, 0); // Default start time
-      const endTime = new Date(startTime);
-      endTime.setHours(endTime.getHours() + 1); // 1 hour duration
+      startTime.setHours(hours, minutes, 0, 0);
+      const endTime = new Date(startTime.getTime() + selectedField.slot_length_minutes * 60 * 1000);
 
       const newSlot = await trpc.createFieldSlot.mutate({
         field_id: selectedField.id,
@@ -147,11 +293,29 @@ export function FieldManagement({ user }: FieldManagementProps) {
       setShowCreateSlotDialog(false);
     } catch (error) {
       console.error('Failed to create slot:', error);
+      setSlotError({
+        code: getSlotErrorCode(error),
+        message: error instanceof Error ? error.message : 'Could not create the slot.'
+      });
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleSlotsGenerated = (slots: FieldSlot[]) => {
+    setFieldSlots((prev: FieldSlot[]) =>
+      [...prev, ...slots].sort((a: FieldSlot, b: FieldSlot) => a.start_time.getTime() - b.start_time.getTime())
+    );
+  };
+
+  const handleScheduleSaved = (schedule: FieldSchedule) => {
+    const applySchedule = (field: Field): Field => field.id === schedule.field_id
+      ? { ...field, slot_length_minutes: schedule.slot_length_minutes, timezone: schedule.timezone }
+      : field;
+    setFields((prev: Field[]) => prev.map(applySchedule));
+    setSelectedField((prev: Field | null) => prev && applySchedule(prev));
+  };
+
   const handleUpdateBookingStatus = async (bookingId: number, status: BookingStatus) => {
     try {
       await trpc.updateBookingStatus.mutate({ bookingId, status });
@@ -187,6 +351,12 @@ export function FieldManagement({ user }: FieldManagementProps) {
           <p className="text-gray-600">Manage your football fields, slots, and bookings</p>
         </div>
         <div className="flex gap-2">
+          <Button 
+            variant={activeSection === 'venues' ? 'default' : 'outline'}
+            onClick={() => setActiveSection('venues')}
+          >
+            🏢 Venues
+          </Button>
           <Button 
             variant={activeSection === 'fields' ? 'default' : 'outline'}
             onClick={() => setActiveSection('fields')}
@@ -205,9 +375,27 @@ export function FieldManagement({ user }: FieldManagementProps) {
           >
             📊 Bookings
           </Button>
+          <Button 
+            variant={activeSection === 'integrations' ? 'default' : 'outline'}
+            onClick={() => setActiveSection('integrations')}
+          >
+            🔑 Integrations
+          </Button>
         </div>
       </div>
 
+      {/* Venues Section */}
+      {activeSection === 'venues' && (
+        <VenueManagement
+          venues={venues}
+          fields={fields}
+          onChanged={() => {
+            loadVenues();
+            loadFields();
+          }}
+        />
+      )}
+
       {/* Fields Section */}
       {activeSection === 'fields' && (
         <div className="space-y-4">
@@ -237,18 +425,102 @@ export function FieldManagement({ user }: FieldManagementProps) {
                       required
                     />
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="field-address">Address</Label>
-                    <Input
-                      id="field-address"
-                      placeholder="123 Sports Ave, City, State"
-                      value={fieldForm.address}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                        setFieldForm((prev: CreateFieldInput) => ({ ...prev, address: e.target.value }))
-                      }
-                      required
-                    />
-                  </div>
+                  {venues.length > 0 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="field-venue">Venue</Label>
+                      <Select
+                        value={fieldForm.venue_id?.toString() || 'none'}
+                        onValueChange={(value: string) =>
+                          setFieldForm((prev: CreateFieldInput) => ({ ...prev, venue_id: value === 'none' ? null : parseInt(value) }))
+                        }
+                      >
+                        <SelectTrigger id="field-venue">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Standalone field</SelectItem>
+                          {venues.map((venue: VenueWithPitches) => (
+                            <SelectItem key={venue.id} value={venue.id.toString()}>{venue.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {fieldForm.venue_id != null && (
+                        <p className="text-xs text-gray-500">The pitch uses the venue's address, amenities and opening hours.</p>
+                      )}
+                    </div>
+                  )}
+                  {fieldForm.venue_id == null && (
+                    <div className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="field-address">Address</Label>
+                        <Input
+                          id="field-address"
+                          placeholder="123 Sports Ave, City, State"
+                          value={fieldForm.address}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setFieldForm((prev: CreateFieldInput) => ({ ...prev, address: e.target.value }))
+                          }
+                          required
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-2">
+                          <Label htmlFor="field-latitude">Latitude (Optional)</Label>
+                          <Input
+                            id="field-latitude"
+                            type="number"
+                            placeholder="51.5072"
+                            step="any"
+                            min="-90"
+                            max="90"
+                            value={fieldForm.latitude ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setFieldForm((prev: CreateFieldInput) => ({
+                                ...prev,
+                                latitude: e.target.value === '' ? null : parseFloat(e.target.value)
+                              }))
+                            }
+                            required={fieldForm.longitude != null}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="field-longitude">Longitude (Optional)</Label>
+                          <Input
+                            id="field-longitude"
+                            type="number"
+                            placeholder="-0.1276"
+                            step="any"
+                            min="-180"
+                            max="180"
+                            value={fieldForm.longitude ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setFieldForm((prev: CreateFieldInput) => ({
+                                ...prev,
+                                longitude: e.target.value === '' ? null : parseFloat(e.target.value)
+                              }))
+                            }
+                            required={fieldForm.latitude != null}
+                          />
+                        </div>
+                        <p className="col-span-2 text-xs text-gray-500">
+                          Leave empty to place the field from its address. Coordinates make it show up in "near me" searches.
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                  <FieldAttributesEditor
+                    idPrefix="field"
+                    showAmenities={fieldForm.venue_id == null}
+                    value={{
+                      surface: fieldForm.surface ?? null,
+                      formats: fieldForm.formats ?? [],
+                      is_indoor: fieldForm.is_indoor ?? false,
+                      amenities: fieldForm.amenities ?? []
+                    }}
+                    onChange={(attributes: FieldAttributes) =>
+                      setFieldForm((prev: CreateFieldInput) => ({ ...prev, ...attributes }))
+                    }
+                  />
                   <div className="space-y-2">
                     <Label htmlFor="field-description">Description (Optional)</Label>
                     <Textarea
@@ -289,6 +561,8 @@ export function FieldManagement({ user }: FieldManagementProps) {
             </Dialog>
           </div>
 
+          {fieldError && <p className="text-sm text-red-600">{fieldError}</p>}
+
           <div className="grid gap-4">
             {fields.length === 0 ? (
               <Card>
@@ -298,16 +572,25 @@ export function FieldManagement({ user }: FieldManagementProps) {
               </Card>
             ) : (
               fields.map((field: Field) => (
-                <Card key={field.id} className="hover:shadow-md transition-shadow">
+                <Card key={field.id} className={`hover:shadow-md transition-shadow ${field.archived_at !== null ? 'opacity-60' : ''}`}>
                   <CardHeader>
                     <div className="flex items-start justify-between">
                       <div>
                         <CardTitle className="flex items-center gap-2">
                           🏟️ {field.name}
+                          {field.archived_at !== null && <Badge variant="outline">Archived</Badge>}
                         </CardTitle>
                         <CardDescription className="flex items-center gap-1 mt-1">
                           <MapPinIcon className="h-4 w-4" />
                           {field.address}
+                          {field.latitude == null && (
+                            <Badge variant="outline" className="ml-2">Not on map</Badge>
+                          )}
+                          {field.venue_id !== null && (
+                            <Badge variant="secondary" className="ml-2">
+                              🏢 {venues.find((venue: VenueWithPitches) => venue.id === field.venue_id)?.name ?? 'Venue'}
+                            </Badge>
+                          )}
                         </CardDescription>
                       </div>
                       <div className="text-right">
@@ -324,17 +607,60 @@ export function FieldManagement({ user }: FieldManagementProps) {
                         >
                           Manage Slots
                         </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openAttributesEditor(field)}>
+                          Edit Details
+                        </Button>
+                        <FieldReviewsDialog
+                          field={field}
+                          user={user}
+                          trigger={<Button variant="ghost" size="sm">Reviews</Button>}
+                        />
+                        <Button variant="ghost" size="sm" onClick={() => handleToggleArchived(field)}>
+                          {field.archived_at === null ? 'Archive' : 'Unarchive'}
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setDeletingField(field)}>
+                          Delete
+                        </Button>
                       </div>
                     </div>
                   </CardHeader>
-                  {field.description && (
-                    <CardContent>
-                      <p className="text-gray-700">{field.description}</p>
-                      <div className="mt-3 text-xs text-gray-400">
-                        Created on {format(field.created_at, 'PPP')}
-                      </div>
-                    </CardContent>
-                  )}
+                  <CardContent>
+                    <FieldAttributeBadges field={field} />
+                    {field.description && (
+                      <p className="text-gray-700 mt-3">{field.description}</p>
+                    )}
+                    {/* Photo gallery */}
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {(fieldPhotos[field.id] || []).map((photo: FieldPhoto) => (
+                        <div key={photo.id} className="relative">
+                          <a href={photo.url} target="_blank" rel="noreferrer">
+                            <img src={photo.thumbnail_url} alt="" className="h-20 w-20 rounded object-cover" />
+                          </a>
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            className="absolute top-1 right-1 h-5 w-5 p-0"
+                            onClick={() => handleRemovePhoto(photo)}
+                          >
+                            <XIcon className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ))}
+                      <label className="h-20 w-20 rounded border-2 border-dashed flex items-center justify-center text-xs text-gray-500 cursor-pointer hover:bg-gray-50">
+                        {isLoading ? '...' : '+ Photo 📷'}
+                        <input
+                          type="file"
+                          accept={IMAGE_ACCEPT}
+                          className="hidden"
+                          disabled={isLoading}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleAddPhoto(field.id, e)}
+                        />
+                      </label>
+                    </div>
+                    <div className="mt-3 text-xs text-gray-400">
+                      Created on {format(field.created_at, 'PPP')}
+                    </div>
+                  </CardContent>
                 </Card>
               ))
             )}
@@ -342,6 +668,43 @@ export function FieldManagement({ user }: FieldManagementProps) {
         </div>
       )}
 
+      <Dialog open={editingField !== null} onOpenChange={(open: boolean) => !open && setEditingField(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingField?.name} Details</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSaveAttributes} className="space-y-4">
+            <FieldAttributesEditor
+              idPrefix="edit-field"
+              value={editAttributes}
+              onChange={setEditAttributes}
+              showAmenities={editingField?.venue_id === null}
+            />
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save Details'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={deletingField !== null} onOpenChange={(open: boolean) => !open && setDeletingField(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete {deletingField?.name}?</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            This removes the field with its slots, photos and reviews for good.
+            Fields with confirmed or upcoming bookings can only be archived, which hides them from players and keeps their bookings.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setDeletingField(null)}>Keep Field</Button>
+            <Button variant="destructive" disabled={isLoading} onClick={handleDeleteField}>
+              {isLoading ? 'Deleting...' : 'Delete Field'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Slots Section */}
       {activeSection === 'slots' && (
         <div className="space-y-4">
@@ -373,7 +736,13 @@ export function FieldManagement({ user }: FieldManagementProps) {
               </div>
             </div>
             {selectedField && (
-              <Dialog open={showCreateSlotDialog} onOpenChange={setShowCreateSlotDialog}>
+              <Dialog
+                open={showCreateSlotDialog}
+                onOpenChange={(open: boolean) => {
+                  setShowCreateSlotDialog(open);
+                  setSlotError(null);
+                }}
+              >
                 <DialogTrigger asChild>
                   <Button>
                     <PlusIcon className="h-4 w-4 mr-2" />
@@ -423,9 +792,29 @@ export function FieldManagement({ user }: FieldManagementProps) {
                         required
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="slot-time">Start Time</Label>
+                      <Input
+                        id="slot-time"
+                        type="time"
+                        value={selectedSlotTime}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSelectedSlotTime(e.target.value)}
+                        className={slotError?.code ? 'border-red-500' : undefined}
+                        required
+                      />
+                    </div>
                     <p className="text-sm text-gray-500">
-                      Default time: 9:00 AM - 10:00 AM (1 hour duration)
+                      Slots at this field last {selectedField.slot_length_minutes} minutes.
                     </p>
+                    {slotError && (
+                      <p className="text-sm text-red-600">
+                        {slotError.code === 'OVERLAP'
+                          ? 'This time overlaps a slot you already have. Pick another start time.'
+                          : slotError.code === 'IN_PAST'
+                            ? 'That time has already passed. Pick a later date or time.'
+                            : slotError.message}
+                      </p>
+                    )}
                     <Button type="submit" className="w-full" disabled={isLoading || !selectedSlotDate}>
                       {isLoading ? 'Creating...' : 'Create Slot'}
                     </Button>
@@ -435,6 +824,37 @@ export function FieldManagement({ user }: FieldManagementProps) {
             )}
           </div>
 
+          {selectedField && (
+            <FieldScheduleManager
+              key={selectedField.id}
+              field={selectedField}
+              onSlotsCreated={handleSlotsGenerated}
+              onScheduleSaved={handleScheduleSaved}
+            />
+          )}
+
+          {selectedField && <PricingRulesManager key={selectedField.id} field={selectedField} />}
+
+          {selectedField && (
+            <SlotCsvManager
+              key={selectedField.id}
+              field={selectedField}
+              // A file can hold slots for several fields; only the selected one's are listed here
+              onSlotsImported={(slots: FieldSlot[]) =>
+                handleSlotsGenerated(slots.filter((slot: FieldSlot) => slot.field_id === selectedField.id))
+              }
+            />
+          )}
+
+          {selectedField && (
+            <CalendarFeedPanel
+              key={selectedField.id}
+              fieldId={selectedField.id}
+              title={`${selectedField.name} Calendar`}
+              description="Subscribe to every booking at this field from Google Calendar, Outlook or Apple Calendar."
+            />
+          )}
+
           {!selectedField ? (
             <Card>
               <CardContent className="p-6 text-center text-gray-500">
@@ -464,6 +884,11 @@ export function FieldManagement({ user }: FieldManagementProps) {
                       </div>
                       <div className="text-right">
                         <div className="text-lg font-bold text-green-600">${slot.price}</div>
+                        {slot.price_adjustments.length > 0 && (
+                          <div className="text-xs text-gray-500">
+                            ${slot.base_price} base, {slot.price_adjustments.map(formatAdjustment).join(', ')}
+                          </div>
+                        )}
                         <Badge variant={slot.is_available ? 'default' : 'destructive'}>
                           {slot.is_available ? 'Available' : 'Booked'}
                         </Badge>
@@ -537,6 +962,9 @@ export function FieldManagement({ user }: FieldManagementProps) {
           </div>
         </div>
       )}
+
+      {/* Integrations Section */}
+      {activeSection === 'integrations' && <ApiKeyManagement />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,227 @@
+import { useState, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { StarIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { trpc } from '@/utils/trpc';
+import type { CreateFieldReviewInput, Field, FieldReview, FieldReviews, PublicUser } from '../../../server/src/schema';
+
+type ReviewCategory = 'pitch_quality' | 'facilities' | 'value';
+
+const REVIEW_CATEGORIES: { key: ReviewCategory; label: string }[] = [
+  { key: 'pitch_quality', label: 'Pitch quality' },
+  { key: 'facilities', label: 'Facilities' },
+  { key: 'value', label: 'Value' }
+];
+
+const renderStars = (rating: number) =>
+  Array.from({ length: 5 }, (_, i) => (
+    <StarIcon
+      key={i}
+      className={`h-4 w-4 ${i < Math.round(rating) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
+    />
+  ));
+
+interface FieldRatingProps {
+  averageRating: number | null;
+  reviewCount: number;
+}
+
+export function FieldRating({ averageRating, reviewCount }: FieldRatingProps) {
+  if (averageRating === null) {
+    return <span className="text-sm text-gray-500">No reviews yet</span>;
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 text-sm text-gray-700">
+      <StarIcon className="h-4 w-4 text-yellow-400 fill-current" />
+      {averageRating.toFixed(1)} ({reviewCount})
+    </span>
+  );
+}
+
+interface FieldReviewsDialogProps {
+  field: Field;
+  user: PublicUser;
+  trigger: React.ReactNode;
+}
+
+// Players write reviews after playing at the field; its owner replies to them
+export function FieldReviewsDialog({ field, user, trigger }: FieldReviewsDialogProps) {
+  const [data, setData] = useState<FieldReviews | null>(null);
+  const [reviewForm, setReviewForm] = useState<CreateFieldReviewInput>({
+    field_id: field.id,
+    pitch_quality: 5,
+    facilities: 5,
+    value: 5,
+    comment: ''
+  });
+  const [replies, setReplies] = useState<{ [reviewId: number]: string }>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwner = field.owner_id === user.id;
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setData(await trpc.getFieldReviews.query({ fieldId: field.id }));
+    } catch (error) {
+      console.error('Failed to load field reviews:', error);
+    }
+  }, [field.id]);
+
+  const showError = (error: unknown, fallback: string) =>
+    setError(error instanceof Error ? error.message : fallback);
+
+  const handleCreateReview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.createFieldReview.mutate({ ...reviewForm, comment: reviewForm.comment || null });
+      await loadReviews();
+    } catch (error) {
+      console.error('Failed to review field:', error);
+      showError(error, 'Could not save your review.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReply = async (reviewId: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.replyToFieldReview.mutate({ review_id: reviewId, reply: replies[reviewId] || '' });
+      setReplies((prev) => ({ ...prev, [reviewId]: '' }));
+      await loadReviews();
+    } catch (error) {
+      console.error('Failed to reply to review:', error);
+      showError(error, 'Could not save your reply.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const hasReviewed = data?.reviews.some((review: FieldReview) => review.author_id === user.id) ?? false;
+
+  return (
+    <Dialog onOpenChange={(open: boolean) => open && loadReviews()}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reviews of {field.name}</DialogTitle>
+        </DialogHeader>
+        {!data ? (
+          <p className="text-sm text-gray-500">Loading reviews…</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <FieldRating averageRating={data.summary.average_rating} reviewCount={data.summary.review_count} />
+              {REVIEW_CATEGORIES.map(({ key, label }) => data.summary[key] !== null && (
+                <div key={key} className="flex items-center justify-between text-sm">
+                  <span>{label}</span>
+                  <span className="flex items-center gap-2">
+                    {renderStars(data.summary[key] ?? 0)} {data.summary[key]?.toFixed(1)}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {!isOwner && !hasReviewed && (
+              <form onSubmit={handleCreateReview} className="space-y-3 rounded border p-3">
+                <p className="text-sm font-medium">Played here? Rate the field</p>
+                {REVIEW_CATEGORIES.map(({ key, label }) => (
+                  <div key={key} className="flex items-center justify-between gap-4">
+                    <Label>{label}</Label>
+                    <Select
+                      value={reviewForm[key].toString()}
+                      onValueChange={(value: string) =>
+                        setReviewForm((prev: CreateFieldReviewInput) => ({ ...prev, [key]: parseInt(value) }))
+                      }
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: 5 }, (_, i) => (
+                          <SelectItem key={i + 1} value={(i + 1).toString()}>
+                            <div className="flex items-center gap-2">
+                              {i + 1} {renderStars(i + 1)}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <Textarea
+                  placeholder="How was the pitch, the changing rooms, the price?"
+                  value={reviewForm.comment || ''}
+                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                    setReviewForm((prev: CreateFieldReviewInput) => ({ ...prev, comment: e.target.value }))
+                  }
+                />
+                <Button type="submit" size="sm" disabled={isLoading}>
+                  {isLoading ? 'Submitting...' : 'Submit Review ⭐'}
+                </Button>
+              </form>
+            )}
+
+            <Separator />
+
+            {data.reviews.length === 0 ? (
+              <p className="text-sm text-gray-500">Nobody has reviewed this field yet.</p>
+            ) : (
+              data.reviews.map((review: FieldReview) => (
+                <div key={review.id} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-1">{renderStars(review.rating)}</span>
+                    <span className="text-xs text-gray-500">
+                      {review.author_name} • {format(review.created_at, 'PP')}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Pitch {review.pitch_quality}/5 • Facilities {review.facilities}/5 • Value {review.value}/5
+                  </p>
+                  {review.comment && <p className="text-sm">{review.comment}</p>}
+                  {review.owner_reply && (
+                    <div className="ml-4 border-l-2 pl-3 text-sm text-gray-700">
+                      <span className="font-medium">Owner reply:</span> {review.owner_reply}
+                    </div>
+                  )}
+                  {isOwner && (
+                    <div className="ml-4 flex gap-2">
+                      <Textarea
+                        className="min-h-9"
+                        placeholder={review.owner_reply ? 'Update your reply' : 'Reply to this review'}
+                        value={replies[review.id] || ''}
+                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                          setReplies((prev) => ({ ...prev, [review.id]: e.target.value }))
+                        }
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isLoading || !(replies[review.id] || '').trim()}
+                        onClick={() => handleReply(review.id)}
+                      >
+                        Reply
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
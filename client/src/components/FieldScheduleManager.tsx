@@ -0,0 +1,414 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClockIcon, CalendarRangeIcon, BanIcon, XIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { trpc } from '@/utils/trpc';
+import { formatAdjustment } from '@/utils/pricing';
+import { OpeningHoursEditor } from '@/components/OpeningHoursEditor';
+import type {
+  Field,
+  FieldSlot,
+  FieldClosure,
+  FieldSchedule,
+  OpeningHours,
+  SetFieldScheduleInput,
+  SlotGenerationPreview
+} from '../../../server/src/schema';
+
+const SLOT_LENGTHS = [30, 45, 60, 90, 120];
+// Only the first few planned slots are listed; the rest are summarised
+const PREVIEW_ROWS = 10;
+
+interface FieldScheduleManagerProps {
+  field: Field;
+  onSlotsCreated: (slots: FieldSlot[]) => void;
+  onScheduleSaved: (schedule: FieldSchedule) => void;
+}
+
+export function FieldScheduleManager({ field, onSlotsCreated, onScheduleSaved }: FieldScheduleManagerProps) {
+  const [schedule, setSchedule] = useState<SetFieldScheduleInput>({
+    field_id: field.id,
+    slot_length_minutes: field.slot_length_minutes,
+    timezone: field.timezone,
+    opening_hours: []
+  });
+  // Pitches at a venue without hours of their own are shown the venue's
+  const [usesVenueHours, setUsesVenueHours] = useState(false);
+  const [range, setRange] = useState<{ from: string; to: string; price: string }>({ from: '', to: '', price: '' });
+  const [preview, setPreview] = useState<SlotGenerationPreview | null>(null);
+  const [closures, setClosures] = useState<FieldClosure[]>([]);
+  const [closureForm, setClosureForm] = useState<{ starts_at: string; ends_at: string; reason: string }>({
+    starts_at: '',
+    ends_at: '',
+    reason: ''
+  });
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadSchedule = useCallback(async () => {
+    try {
+      const { uses_venue_hours, ...result } = await trpc.getFieldSchedule.query({ fieldId: field.id });
+      setSchedule({ ...result, field_id: field.id });
+      setUsesVenueHours(uses_venue_hours);
+      setClosures(await trpc.getFieldClosures.query({ fieldId: field.id }));
+    } catch (error) {
+      console.error('Failed to load field schedule:', error);
+    }
+  }, [field.id]);
+
+  useEffect(() => {
+    loadSchedule();
+    setPreview(null);
+  }, [loadSchedule]);
+
+  const showError = (error: unknown, fallback: string) =>
+    setMessage({ type: 'error', text: error instanceof Error ? error.message : fallback });
+
+  const saveSchedule = async (input: SetFieldScheduleInput) => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const { uses_venue_hours, ...saved } = await trpc.setFieldSchedule.mutate(input);
+      setSchedule({ ...saved, field_id: field.id });
+      setUsesVenueHours(uses_venue_hours);
+      onScheduleSaved({ ...saved, uses_venue_hours });
+      setPreview(null);
+      setMessage({ type: 'success', text: 'Opening hours saved.' });
+    } catch (error) {
+      console.error('Failed to save schedule:', error);
+      showError(error, 'Could not save the opening hours.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveSchedule = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveSchedule(schedule);
+  };
+
+  const generationInput = () => ({
+    field_id: field.id,
+    from: range.from,
+    to: range.to,
+    price: range.price ? parseFloat(range.price) : undefined
+  });
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      setPreview(await trpc.previewFieldSlots.query(generationInput()));
+    } catch (error) {
+      console.error('Failed to preview slots:', error);
+      showError(error, 'Could not preview the slots.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const result = await trpc.generateFieldSlots.mutate(generationInput());
+      onSlotsCreated(result.created);
+      setPreview(null);
+      setMessage({ type: 'success', text: `Created ${result.created.length} slots.` });
+    } catch (error) {
+      console.error('Failed to generate slots:', error);
+      showError(error, 'Could not create the slots.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddClosure = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const closure = await trpc.createFieldClosure.mutate({
+        field_id: field.id,
+        starts_at: new Date(closureForm.starts_at),
+        ends_at: new Date(closureForm.ends_at),
+        reason: closureForm.reason || null
+      });
+      setClosures((prev: FieldClosure[]) =>
+        [...prev, closure].sort((a: FieldClosure, b: FieldClosure) => a.starts_at.getTime() - b.starts_at.getTime())
+      );
+      setClosureForm({ starts_at: '', ends_at: '', reason: '' });
+      setPreview(null);
+    } catch (error) {
+      console.error('Failed to add closure:', error);
+      showError(error, 'Could not add the closure.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteClosure = async (closureId: number) => {
+    try {
+      await trpc.deleteFieldClosure.mutate({ closureId });
+      setClosures((prev: FieldClosure[]) => prev.filter((closure: FieldClosure) => closure.id !== closureId));
+      setPreview(null);
+    } catch (error) {
+      console.error('Failed to delete closure:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <p className={`text-sm ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClockIcon className="h-5 w-5" />
+            Opening Hours
+          </CardTitle>
+          <CardDescription>Weekly hours used to generate slots, in the field's local time.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveSchedule} className="space-y-4">
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="slot-length">Slot Length</Label>
+                <Select
+                  value={schedule.slot_length_minutes.toString()}
+                  onValueChange={(value: string) =>
+                    setSchedule((prev: SetFieldScheduleInput) => ({ ...prev, slot_length_minutes: parseInt(value) }))
+                  }
+                >
+                  <SelectTrigger id="slot-length">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...new Set([...SLOT_LENGTHS, schedule.slot_length_minutes])].sort((a, b) => a - b).map((minutes: number) => (
+                      <SelectItem key={minutes} value={minutes.toString()}>{minutes} minutes</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="field-timezone">Time Zone</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="field-timezone"
+                    value={schedule.timezone}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setSchedule((prev: SetFieldScheduleInput) => ({ ...prev, timezone: e.target.value }))
+                    }
+                    // A pitch follows its venue's time zone
+                    disabled={field.venue_id !== null}
+                    required
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={field.venue_id !== null}
+                    onClick={() =>
+                      setSchedule((prev: SetFieldScheduleInput) => ({
+                        ...prev,
+                        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+                      }))
+                    }
+                  >
+                    Use Mine
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <OpeningHoursEditor
+              value={schedule.opening_hours}
+              onChange={(openingHours: OpeningHours[]) =>
+                setSchedule((prev: SetFieldScheduleInput) => ({ ...prev, opening_hours: openingHours }))
+              }
+            />
+            {usesVenueHours && (
+              <p className="text-sm text-gray-500">
+                These are the venue's opening hours. Saving changes here gives this pitch hours of its own.
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Saving...' : 'Save Opening Hours'}
+              </Button>
+              {field.venue_id !== null && !usesVenueHours && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isLoading}
+                  onClick={() => saveSchedule({ ...schedule, opening_hours: [] })}
+                >
+                  Use Venue Hours
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarRangeIcon className="h-5 w-5" />
+            Generate Slots
+          </CardTitle>
+          <CardDescription>
+            Creates slots inside the opening hours, skipping closures and slots that already exist.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handlePreview} className="grid sm:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="generate-from">From</Label>
+              <Input
+                id="generate-from"
+                type="date"
+                value={range.from}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  setRange((prev) => ({ ...prev, from: e.target.value }));
+                  setPreview(null);
+                }}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="generate-to">To</Label>
+              <Input
+                id="generate-to"
+                type="date"
+                value={range.to}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  setRange((prev) => ({ ...prev, to: e.target.value }));
+                  setPreview(null);
+                }}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="generate-price">Price per Slot ($)</Label>
+              <Input
+                id="generate-price"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder={`${Math.round(field.hourly_rate * schedule.slot_length_minutes / 60 * 100) / 100}`}
+                value={range.price}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  setRange((prev) => ({ ...prev, price: e.target.value }));
+                  setPreview(null);
+                }}
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={isLoading}>
+              Preview
+            </Button>
+          </form>
+
+          {preview && (
+            <div className="rounded-lg border p-4 space-y-3">
+              <p className="text-sm">
+                <span className="font-medium">{preview.slots.length} new slots</span>
+                {preview.skipped_existing > 0 && ` • ${preview.skipped_existing} skipped (already exist)`}
+                {preview.skipped_closed > 0 && ` • ${preview.skipped_closed} skipped (closed)`}
+              </p>
+              <ul className="text-sm text-gray-600 space-y-1">
+                {preview.slots.slice(0, PREVIEW_ROWS).map((slot) => (
+                  <li key={slot.start_time.toISOString()}>
+                    {format(slot.start_time, 'EEE PPP')} • {format(slot.start_time, 'p')} - {format(slot.end_time, 'p')} • ${slot.price}
+                    {slot.price_adjustments.length > 0 && (
+                      <span className="text-gray-400"> (${slot.base_price} base, {slot.price_adjustments.map(formatAdjustment).join(', ')})</span>
+                    )}
+                  </li>
+                ))}
+                {preview.slots.length > PREVIEW_ROWS && (
+                  <li className="text-gray-400">…and {preview.slots.length - PREVIEW_ROWS} more</li>
+                )}
+              </ul>
+              <Button onClick={handleGenerate} disabled={isLoading || preview.slots.length === 0}>
+                {isLoading ? 'Creating...' : `Create ${preview.slots.length} Slots`}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BanIcon className="h-5 w-5" />
+            Closures ({closures.length})
+          </CardTitle>
+          <CardDescription>
+            Periods the field is shut. No slots are generated during a closure and open slots are hidden from players.
+            Anyone already booked in the window is emailed so they can cancel or move their booking.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {closures.map((closure: FieldClosure) => (
+            <div key={closure.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+              <div>
+                {format(closure.starts_at, 'PPp')} – {format(closure.ends_at, 'PPp')}
+                {closure.reason && <span className="text-gray-500"> • {closure.reason}</span>}
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleDeleteClosure(closure.id)}>
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <form onSubmit={handleAddClosure} className="grid sm:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="closure-start">Closed From</Label>
+              <Input
+                id="closure-start"
+                type="datetime-local"
+                value={closureForm.starts_at}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setClosureForm((prev) => ({ ...prev, starts_at: e.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closure-end">Until</Label>
+              <Input
+                id="closure-end"
+                type="datetime-local"
+                value={closureForm.ends_at}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setClosureForm((prev) => ({ ...prev, ends_at: e.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closure-reason">Reason (Optional)</Label>
+              <Input
+                id="closure-reason"
+                placeholder="e.g. Pitch maintenance"
+                value={closureForm.reason}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setClosureForm((prev) => ({ ...prev, reason: e.target.value }))
+                }
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={isLoading}>
+              Add Closure
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
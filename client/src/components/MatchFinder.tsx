@@ -10,30 +10,65 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Separator } from '@/components/ui/separator';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { CalendarIcon, MapPinIcon, UsersIcon, StarIcon } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CalendarIcon, MapPinIcon, UsersIcon, LocateFixedIcon } from 'lucide-react';
 import { format } from 'date-fns';
 import { trpc } from '@/utils/trpc';
+import { SURFACE_LABELS, FORMATS, AMENITY_LABELS } from '@/utils/field_attributes';
+import { FieldAttributeBadges } from '@/components/FieldAttributes';
+import { formatAdjustment } from '@/utils/pricing';
+import { FieldRating, FieldReviewsDialog } from '@/components/FieldReviews';
+import { ClosureAffectedBookings } from '@/components/ClosureAffectedBookings';
 import type { 
-  User, 
+  PublicUser, 
   MatchRequest, 
   FieldSlot, 
-  Field,
+  FieldWithDistance,
+  FieldSort,
+  FieldPhoto,
   CreateMatchRequestInput, 
   MatchRequestType,
-  CreateInterestInput
+  CreateInterestInput,
+  NearbyFilter,
+  FieldSearchInput,
+  FieldSurface,
+  FieldFormat,
+  FieldAmenity,
+  PriceAdjustment,
+  SlotPriceQuote,
+  VenueAvailability,
+  VenuePhoto
 } from '../../../server/src/schema';
 
+const RADIUS_OPTIONS_KM = [5, 10, 25, 50];
+// Venue summaries shown above the slot list, soonest first
+const VENUE_GROUPS_SHOWN = 6;
+
 interface MatchFinderProps {
-  user: User;
+  user: PublicUser;
 }
 
 export function MatchFinder({ user }: MatchFinderProps) {
   const [activeSection, setActiveSection] = useState<'browse' | 'post'>('browse');
   const [matchRequests, setMatchRequests] = useState<MatchRequest[]>([]);
   const [fieldSlots, setFieldSlots] = useState<FieldSlot[]>([]);
-  const [fields, setFields] = useState<Field[]>([]);
+  const [fields, setFields] = useState<FieldWithDistance[]>([]);
+  const [fieldPhotos, setFieldPhotos] = useState<{ [fieldId: number]: FieldPhoto[] }>({});
+  // Free pitches at venues, grouped by start time
+  const [venueAvailability, setVenueAvailability] = useState<VenueAvailability[]>([]);
+  const [venuePhotos, setVenuePhotos] = useState<{ [venueId: number]: VenuePhoto[] }>({});
   const [isLoading, setIsLoading] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date>();
+  // "Near me" filter; null browses everything
+  const [near, setNear] = useState<NearbyFilter | null>(null);
+  const [radiusKm, setRadiusKm] = useState<number>(10);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  // Attribute filters for the field slots
+  const [fieldFilter, setFieldFilter] = useState<Omit<FieldSearchInput, 'near'>>({});
+  const [fieldSort, setFieldSort] = useState<FieldSort>();
+  const [fieldResults, setFieldResults] = useState<FieldWithDistance[]>([]);
+  // Price breakdowns, fetched when a slot's price is opened
+  const [priceQuotes, setPriceQuotes] = useState<{ [slotId: number]: SlotPriceQuote }>({});
 
   // Form data for creating match requests
   const [matchRequestForm, setMatchRequestForm] = useState<CreateMatchRequestInput>({
@@ -50,36 +85,92 @@ export function MatchFinder({ user }: MatchFinderProps) {
   // Load data
   const loadMatchRequests = useCallback(async () => {
     try {
-      const requests = await trpc.getMatchRequests.query();
+      const requests = await trpc.getMatchRequests.query(near ?? undefined);
       setMatchRequests(requests);
     } catch (error) {
       console.error('Failed to load match requests:', error);
     }
-  }, []);
+  }, [near]);
 
   const loadFieldSlots = useCallback(async () => {
     try {
-      const slots = await trpc.getAvailableFieldSlots.query();
+      const slots = await trpc.getAvailableFieldSlots.query({ ...fieldFilter, near: near ?? undefined });
       setFieldSlots(slots);
     } catch (error) {
       console.error('Failed to load field slots:', error);
     }
-  }, []);
+  }, [near, fieldFilter]);
+
+  const loadVenueAvailability = useCallback(async () => {
+    try {
+      const availability = await trpc.getVenueAvailability.query({ ...fieldFilter, near: near ?? undefined });
+      setVenueAvailability(availability);
+    } catch (error) {
+      console.error('Failed to load venue availability:', error);
+    }
+  }, [near, fieldFilter]);
+
+  const loadFieldResults = useCallback(async () => {
+    try {
+      const results = await trpc.searchFields.query({ ...fieldFilter, near: near ?? undefined, sort: fieldSort });
+      setFieldResults(results);
+    } catch (error) {
+      console.error('Failed to search fields:', error);
+    }
+  }, [near, fieldFilter, fieldSort]);
 
+  // Every field, with its rating, to label the slots
   const loadFields = useCallback(async () => {
     try {
-      const allFields = await trpc.getFields.query();
+      const allFields = await trpc.searchFields.query({});
       setFields(allFields);
     } catch (error) {
       console.error('Failed to load fields:', error);
     }
   }, []);
 
+  const loadFieldPhotos = useCallback(async (fieldId: number) => {
+    try {
+      const photos = await trpc.getFieldPhotos.query({ fieldId });
+      setFieldPhotos((prev) => ({ ...prev, [fieldId]: photos }));
+    } catch (error) {
+      console.error('Failed to load field photos:', error);
+    }
+  }, []);
+
+  const loadVenuePhotos = useCallback(async (venueId: number) => {
+    try {
+      const photos = await trpc.getVenuePhotos.query({ venueId });
+      setVenuePhotos((prev) => ({ ...prev, [venueId]: photos }));
+    } catch (error) {
+      console.error('Failed to load venue photos:', error);
+    }
+  }, []);
+
+  const loadPriceQuote = useCallback(async (slotId: number) => {
+    try {
+      const quote = await trpc.quoteSlotPrice.query({ slotId });
+      setPriceQuotes((prev) => ({ ...prev, [slotId]: quote }));
+    } catch (error) {
+      console.error('Failed to quote slot price:', error);
+    }
+  }, []);
+
   useEffect(() => {
     loadMatchRequests();
     loadFieldSlots();
+    loadVenueAvailability();
     loadFields();
-  }, [loadMatchRequests, loadFieldSlots, loadFields]);
+    loadFieldResults();
+  }, [loadMatchRequests, loadFieldSlots, loadVenueAvailability, loadFields, loadFieldResults]);
+
+  useEffect(() => {
+    new Set(fieldSlots.map((slot: FieldSlot) => slot.field_id)).forEach(loadFieldPhotos);
+  }, [fieldSlots, loadFieldPhotos]);
+
+  useEffect(() => {
+    new Set(venueAvailability.map((group: VenueAvailability) => group.venue.id)).forEach(loadVenuePhotos);
+  }, [venueAvailability, loadVenuePhotos]);
 
   const handleCreateMatchRequest = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -134,11 +225,45 @@ export function MatchFinder({ user }: MatchFinderProps) {
     }
   };
 
-  const getFieldName = (fieldId: number) => {
-    const field = fields.find((f: Field) => f.id === fieldId);
-    return field?.name || 'Unknown Field';
+  const handleNearMe = () => {
+    if (!navigator.geolocation) {
+      setLocationError('Your browser cannot share its location.');
+      return;
+    }
+
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => setNear({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        radius_km: radiusKm
+      }),
+      () => setLocationError('Location access was denied.')
+    );
   };
 
+  const handleRadiusChange = (value: string) => {
+    const radius = parseInt(value);
+    setRadiusKm(radius);
+    setNear((prev: NearbyFilter | null) => prev && { ...prev, radius_km: radius });
+  };
+
+  const toggleAmenityFilter = (amenity: FieldAmenity, enabled: boolean) => {
+    setFieldFilter((prev: Omit<FieldSearchInput, 'near'>) => {
+      const amenities = (prev.amenities || []).filter((a: FieldAmenity) => a !== amenity);
+      return { ...prev, amenities: enabled ? [...amenities, amenity] : amenities };
+    });
+  };
+
+  const fieldsById: { [fieldId: number]: FieldWithDistance } = Object.fromEntries(fields.map((field: FieldWithDistance) => [field.id, field]));
+
+  // Slots are searched with the same filters, so every slot's field is among the results
+  const fieldDistances: { [fieldId: number]: number } = Object.fromEntries(
+    fieldResults.flatMap((field: FieldWithDistance) => field.distance_km === null ? [] : [[field.id, field.distance_km]])
+  );
+
+  const getFieldName = (fieldId: number) => fieldsById[fieldId]?.name || 'Unknown Field';
+
   const getSkillLevelBadge = (level: number) => {
     if (level <= 3) return <Badge variant="secondary">Beginner</Badge>;
     if (level <= 6) return <Badge variant="default">Intermediate</Badge>;
@@ -172,6 +297,34 @@ export function MatchFinder({ user }: MatchFinderProps) {
 
       {activeSection === 'browse' && (
         <div className="space-y-6">
+          <ClosureAffectedBookings />
+
+          {/* Near Me Filter */}
+          <Card>
+            <CardContent className="p-4 flex flex-wrap items-center gap-3">
+              <Button variant={near ? 'default' : 'outline'} onClick={handleNearMe}>
+                <LocateFixedIcon className="h-4 w-4 mr-2" />
+                Near Me
+              </Button>
+              <Select value={radiusKm.toString()} onValueChange={handleRadiusChange}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RADIUS_OPTIONS_KM.map((radius: number) => (
+                    <SelectItem key={radius} value={radius.toString()}>Within {radius} km</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {near && (
+                <Button variant="ghost" size="sm" onClick={() => setNear(null)}>
+                  Show everywhere
+                </Button>
+              )}
+              {locationError && <p className="text-sm text-red-600">{locationError}</p>}
+            </CardContent>
+          </Card>
+
           {/* Match Requests Section */}
           <div>
             <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -254,6 +407,119 @@ export function MatchFinder({ user }: MatchFinderProps) {
             <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
               🏟️ Available Field Slots ({fieldSlots.length})
             </h3>
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <Select
+                value={fieldFilter.surface || 'any'}
+                onValueChange={(value: string) =>
+                  setFieldFilter((prev: Omit<FieldSearchInput, 'near'>) => ({
+                    ...prev,
+                    surface: value === 'any' ? undefined : value as FieldSurface
+                  }))
+                }
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any surface</SelectItem>
+                  {(Object.keys(SURFACE_LABELS) as FieldSurface[]).map((surface: FieldSurface) => (
+                    <SelectItem key={surface} value={surface}>{SURFACE_LABELS[surface]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={fieldFilter.format || 'any'}
+                onValueChange={(value: string) =>
+                  setFieldFilter((prev: Omit<FieldSearchInput, 'near'>) => ({
+                    ...prev,
+                    format: value === 'any' ? undefined : value as FieldFormat
+                  }))
+                }
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any format</SelectItem>
+                  {FORMATS.map((format: FieldFormat) => (
+                    <SelectItem key={format} value={format}>{format}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={fieldFilter.is_indoor === undefined ? 'any' : fieldFilter.is_indoor ? 'indoor' : 'outdoor'}
+                onValueChange={(value: string) =>
+                  setFieldFilter((prev: Omit<FieldSearchInput, 'near'>) => ({
+                    ...prev,
+                    is_indoor: value === 'any' ? undefined : value === 'indoor'
+                  }))
+                }
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Indoor or outdoor</SelectItem>
+                  <SelectItem value="indoor">Indoor</SelectItem>
+                  <SelectItem value="outdoor">Outdoor</SelectItem>
+                </SelectContent>
+              </Select>
+              {(Object.keys(AMENITY_LABELS) as FieldAmenity[]).map((amenity: FieldAmenity) => (
+                <div key={amenity} className="flex items-center gap-1">
+                  <Checkbox
+                    id={`filter-${amenity}`}
+                    checked={fieldFilter.amenities?.includes(amenity) || false}
+                    onCheckedChange={(checked) => toggleAmenityFilter(amenity, checked === true)}
+                  />
+                  <Label htmlFor={`filter-${amenity}`} className="text-sm">{AMENITY_LABELS[amenity]}</Label>
+                </div>
+              ))}
+            </div>
+            {venueAvailability.length > 0 && (
+              <div className="grid gap-3 mb-4">
+                {venueAvailability.slice(0, VENUE_GROUPS_SHOWN).map((group: VenueAvailability) => (
+                  <Card key={`${group.venue.id}-${group.start_time.getTime()}`} className="border-green-200 bg-green-50/50">
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <p className="font-semibold">
+                            🏢 {group.slots.length} {group.slots.length === 1 ? 'pitch' : 'pitches'} free at {group.venue.name} at{' '}
+                            {format(group.start_time, 'p')}
+                          </p>
+                          <p className="text-sm text-gray-600 flex items-center gap-1">
+                            <CalendarIcon className="h-4 w-4" />
+                            {format(group.start_time, 'PPP')}
+                            <MapPinIcon className="h-4 w-4 ml-2" />
+                            {group.venue.address}
+                          </p>
+                        </div>
+                        {(venuePhotos[group.venue.id] || []).length > 0 && (
+                          <div className="flex gap-2 shrink-0">
+                            {venuePhotos[group.venue.id].slice(0, 3).map((photo: VenuePhoto) => (
+                              <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer">
+                                <img src={photo.thumbnail_url} alt="" className="h-12 w-12 rounded object-cover" />
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {group.slots.map((slot: FieldSlot) => (
+                          <Button
+                            key={slot.id}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleExpressInterest('field_slot', slot.id)}
+                          >
+                            {getFieldName(slot.field_id)} • ${slot.price} • Book
+                          </Button>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
             <div className="grid gap-4">
               {fieldSlots.length === 0 ? (
                 <Card>
@@ -269,13 +535,56 @@ export function MatchFinder({ user }: MatchFinderProps) {
                         <div>
                           <CardTitle className="flex items-center gap-2">
                             🏟️ {getFieldName(slot.field_id)}
+                            {fieldsById[slot.field_id] && (
+                              <FieldReviewsDialog
+                                field={fieldsById[slot.field_id]}
+                                user={user}
+                                trigger={
+                                  <button className="font-normal">
+                                    <FieldRating
+                                      averageRating={fieldsById[slot.field_id].average_rating}
+                                      reviewCount={fieldsById[slot.field_id].review_count}
+                                    />
+                                  </button>
+                                }
+                              />
+                            )}
                           </CardTitle>
                           <CardDescription>
                             {format(slot.start_time, 'PPP')} • {format(slot.start_time, 'p')} - {format(slot.end_time, 'p')}
+                            {fieldDistances[slot.field_id] !== undefined && (
+                              <> • {fieldDistances[slot.field_id].toFixed(1)} km away</>
+                            )}
                           </CardDescription>
                         </div>
                         <div className="text-right">
-                          <div className="text-2xl font-bold text-green-600">${slot.price}</div>
+                          <Popover onOpenChange={(open: boolean) => open && loadPriceQuote(slot.id)}>
+                            <PopoverTrigger asChild>
+                              <button className="text-2xl font-bold text-green-600 underline decoration-dotted">
+                                ${priceQuotes[slot.id]?.total ?? slot.price}
+                              </button>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-72 text-sm">
+                              {priceQuotes[slot.id] ? (
+                                <div className="space-y-1">
+                                  <div className="flex justify-between">
+                                    <span>Base price</span>
+                                    <span>${priceQuotes[slot.id].base_price.toFixed(2)}</span>
+                                  </div>
+                                  {priceQuotes[slot.id].adjustments.map((adjustment: PriceAdjustment) => (
+                                    <div key={adjustment.rule_id} className="text-gray-600">{formatAdjustment(adjustment)}</div>
+                                  ))}
+                                  <Separator />
+                                  <div className="flex justify-between font-medium">
+                                    <span>Total if booked now</span>
+                                    <span>${priceQuotes[slot.id].total.toFixed(2)}</span>
+                                  </div>
+                                </div>
+                              ) : (
+                                <span className="text-gray-500">Loading price…</span>
+                              )}
+                            </PopoverContent>
+                          </Popover>
                           <Button 
                             size="sm"
                             onClick={() => handleExpressInterest('field_slot', slot.id)}
@@ -286,6 +595,20 @@ export function MatchFinder({ user }: MatchFinderProps) {
                       </div>
                     </CardHeader>
                     <CardContent>
+                      {fieldsById[slot.field_id] && (
+                        <div className="mb-3">
+                          <FieldAttributeBadges field={fieldsById[slot.field_id]} />
+                        </div>
+                      )}
+                      {(fieldPhotos[slot.field_id] || []).length > 0 && (
+                        <div className="flex gap-2 mb-3 overflow-x-auto">
+                          {fieldPhotos[slot.field_id].map((photo: FieldPhoto) => (
+                            <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer">
+                              <img src={photo.thumbnail_url} alt="" className="h-16 w-16 rounded object-cover" />
+                            </a>
+                          ))}
+                        </div>
+                      )}
                       <div className="flex items-center justify-between text-sm text-gray-600">
                         <div>Duration: {Math.round((slot.end_time.getTime() - slot.start_time.getTime()) / (1000 * 60 * 60))} hour(s)</div>
                         <Badge variant={slot.is_available ? 'default' : 'destructive'}>
@@ -298,6 +621,64 @@ export function MatchFinder({ user }: MatchFinderProps) {
               )}
             </div>
           </div>
+
+          <Separator />
+
+          {/* Fields Section */}
+          <div>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold flex items-center gap-2">
+                📍 Fields ({fieldResults.length})
+              </h3>
+              <Select
+                value={fieldSort || (near ? 'distance' : 'name')}
+                onValueChange={(value: string) => setFieldSort(value as FieldSort)}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="name">By name</SelectItem>
+                  <SelectItem value="distance" disabled={!near}>Nearest first</SelectItem>
+                  <SelectItem value="rating">Top rated</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-sm text-gray-500 mb-3">Matching the filters above</p>
+            <div className="grid gap-3 md:grid-cols-2">
+              {fieldResults.length === 0 ? (
+                <Card>
+                  <CardContent className="p-6 text-center text-gray-500">
+                    No fields match these filters.
+                  </CardContent>
+                </Card>
+              ) : (
+                fieldResults.map((field: FieldWithDistance) => (
+                  <Card key={field.id}>
+                    <CardContent className="p-4 space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <p className="font-semibold">{field.name}</p>
+                          <p className="text-sm text-gray-600 flex items-center gap-1">
+                            <MapPinIcon className="h-4 w-4" />
+                            {field.address}
+                            {field.distance_km !== null && <> • {field.distance_km.toFixed(1)} km away</>}
+                          </p>
+                        </div>
+                        <FieldRating averageRating={field.average_rating} reviewCount={field.review_count} />
+                      </div>
+                      <FieldAttributeBadges field={field} />
+                      <FieldReviewsDialog
+                        field={field}
+                        user={user}
+                        trigger={<Button variant="outline" size="sm">Reviews</Button>}
+                      />
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+          </div>
         </div>
       )}
 
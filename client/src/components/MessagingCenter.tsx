@@ -12,7 +12,7 @@ import { MessageCircleIcon, SendIcon, UserIcon, PlusIcon } from 'lucide-react';
 import { format } from 'date-fns';
 import { trpc } from '@/utils/trpc';
 import type { 
-  User, 
+  PublicUser, 
   Message, 
   Interest,
   SendMessageInput, 
@@ -27,7 +27,7 @@ interface Conversation {
 }
 
 interface MessagingCenterProps {
-  user: User;
+  user: PublicUser;
 }
 
 export function MessagingCenter({ user }: MessagingCenterProps) {
@@ -49,7 +49,7 @@ export function MessagingCenter({ user }: MessagingCenterProps) {
   // Load conversations
   const loadConversations = useCallback(async () => {
     try {
-      const convos = await trpc.getConversations.query({ userId: user.id });
+      const convos = await trpc.getConversations.query();
       
       // Transform the data to match our Conversation interface
       const transformedConvos: Conversation[] = convos.map((convo: any) => ({
@@ -63,36 +63,34 @@ export function MessagingCenter({ user }: MessagingCenterProps) {
     } catch (error) {
       console.error('Failed to load conversations:', error);
     }
-  }, [user.id]);
+  }, []);
 
   // Load messages for a specific conversation
   const loadMessages = useCallback(async (otherUserId: number) => {
     try {
       const conversationMessages = await trpc.getMessagesBetweenUsers.query({
-        userId1: user.id,
-        userId2: otherUserId
+        userId: otherUserId
       });
       setMessages(conversationMessages);
       
       // Mark messages as read
       await trpc.markMessagesAsRead.mutate({
-        senderId: otherUserId,
-        receiverId: user.id
+        senderId: otherUserId
       });
     } catch (error) {
       console.error('Failed to load messages:', error);
     }
-  }, [user.id]);
+  }, []);
 
   // Load user interests
   const loadInterests = useCallback(async () => {
     try {
-      const userInterests = await trpc.getInterestsByUser.query({ userId: user.id });
+      const userInterests = await trpc.getInterestsByUser.query();
       setInterests(userInterests);
     } catch (error) {
       console.error('Failed to load interests:', error);
     }
-  }, [user.id]);
+  }, []);
 
   useEffect(() => {
     loadConversations();
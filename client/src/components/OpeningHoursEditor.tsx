@@ -0,0 +1,72 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PlusIcon, XIcon } from 'lucide-react';
+import type { OpeningHours } from '../../../server/src/schema';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface OpeningHoursEditorProps {
+  value: OpeningHours[];
+  onChange: (value: OpeningHours[]) => void;
+  emptyText?: string;
+}
+
+export function OpeningHoursEditor({ value, onChange, emptyText = 'No opening hours yet.' }: OpeningHoursEditorProps) {
+  const updateHours = (index: number, changes: Partial<OpeningHours>) =>
+    onChange(value.map((hours: OpeningHours, i: number) => i === index ? { ...hours, ...changes } : hours));
+
+  const addHours = () => onChange([...value, { day_of_week: 1, opens_at: '09:00', closes_at: '22:00' }]);
+
+  const removeHours = (index: number) => onChange(value.filter((_: OpeningHours, i: number) => i !== index));
+
+  return (
+    <div className="space-y-2">
+      {value.length === 0 && (
+        <p className="text-sm text-gray-500">{emptyText}</p>
+      )}
+      {value.map((hours: OpeningHours, index: number) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={hours.day_of_week.toString()}
+            onValueChange={(day: string) => updateHours(index, { day_of_week: parseInt(day) })}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAY_NAMES.map((day: string, dayIndex: number) => (
+                <SelectItem key={day} value={dayIndex.toString()}>{day}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="time"
+            className="w-32"
+            value={hours.opens_at}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateHours(index, { opens_at: e.target.value })}
+            required
+          />
+          <span className="text-gray-500">to</span>
+          <Input
+            type="time"
+            className="w-32"
+            value={hours.closes_at === '24:00' ? '00:00' : hours.closes_at}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              // Closing at midnight means the end of the day
+              updateHours(index, { closes_at: e.target.value === '00:00' ? '24:00' : e.target.value })
+            }
+            required
+          />
+          <Button type="button" variant="ghost" size="sm" onClick={() => removeHours(index)}>
+            <XIcon className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addHours}>
+        <PlusIcon className="h-4 w-4 mr-2" />
+        Add Hours
+      </Button>
+    </div>
+  );
+}
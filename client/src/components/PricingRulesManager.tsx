@@ -0,0 +1,270 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PercentIcon, XIcon } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { PRICING_RULE_LABELS, DAY_ABBREVIATIONS } from '@/utils/pricing';
+import type { Field, PricingRule, PricingRuleType, CreatePricingRuleInput } from '../../../server/src/schema';
+
+interface RuleForm {
+  type: PricingRuleType;
+  name: string;
+  adjustment_percent: string;
+  days_of_week: number[];
+  starts_at: string;
+  ends_at: string;
+  holiday_date: string;
+  hours_before: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  type: 'peak',
+  name: '',
+  adjustment_percent: '',
+  days_of_week: [],
+  starts_at: '18:00',
+  ends_at: '21:00',
+  holiday_date: '',
+  hours_before: '24'
+};
+
+const describeConditions = (rule: PricingRule): string => {
+  switch (rule.type) {
+    case 'peak':
+    case 'off_peak': {
+      const days = rule.days_of_week.length === 0 ? 'Every day' : rule.days_of_week.map((day: number) => DAY_ABBREVIATIONS[day]).join(', ');
+      return `${days}, ${rule.starts_at} – ${rule.ends_at}`;
+    }
+    case 'weekend':
+      return 'Saturdays and Sundays';
+    case 'holiday':
+      return rule.holiday_date ?? '';
+    case 'last_minute':
+      return `Booked within ${rule.hours_before} hours of kick-off`;
+  }
+};
+
+interface PricingRulesManagerProps {
+  field: Field;
+}
+
+export function PricingRulesManager({ field }: PricingRulesManagerProps) {
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRules(await trpc.getPricingRules.query({ fieldId: field.id }));
+    } catch (error) {
+      console.error('Failed to load pricing rules:', error);
+    }
+  }, [field.id]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const toggleDay = (day: number, enabled: boolean) => {
+    setForm((prev: RuleForm) => ({
+      ...prev,
+      days_of_week: enabled ? [...prev.days_of_week, day] : prev.days_of_week.filter((d: number) => d !== day)
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const input: CreatePricingRuleInput = {
+        field_id: field.id,
+        type: form.type,
+        name: form.name,
+        adjustment_percent: parseFloat(form.adjustment_percent),
+        days_of_week: form.days_of_week,
+        starts_at: form.starts_at || null,
+        ends_at: form.ends_at || null,
+        holiday_date: form.holiday_date || null,
+        hours_before: form.hours_before ? parseInt(form.hours_before) : null
+      };
+      const rule = await trpc.createPricingRule.mutate(input);
+      setRules((prev: PricingRule[]) => [...prev, rule]);
+      setForm(EMPTY_FORM);
+    } catch (error) {
+      console.error('Failed to create pricing rule:', error);
+      setError(error instanceof Error ? error.message : 'Could not add the pricing rule.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (ruleId: number) => {
+    try {
+      await trpc.deletePricingRule.mutate({ ruleId });
+      setRules((prev: PricingRule[]) => prev.filter((rule: PricingRule) => rule.id !== ruleId));
+    } catch (error) {
+      console.error('Failed to delete pricing rule:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PercentIcon className="h-5 w-5" />
+          Pricing Rules ({rules.length})
+        </CardTitle>
+        <CardDescription>
+          Adjust the base price of generated slots. Use a negative percentage for a discount.
+          Last-minute rules apply when a slot is booked; the rest when slots are generated.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {rules.map((rule: PricingRule) => (
+          <div key={rule.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{rule.name}</span>
+                <Badge variant="outline">{PRICING_RULE_LABELS[rule.type]}</Badge>
+                <Badge variant={rule.adjustment_percent < 0 ? 'secondary' : 'default'}>
+                  {rule.adjustment_percent > 0 && '+'}{rule.adjustment_percent}%
+                </Badge>
+              </div>
+              <div className="text-gray-500">{describeConditions(rule)}</div>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => handleDelete(rule.id)}>
+              <XIcon className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-type">Type</Label>
+              <Select
+                value={form.type || 'peak'}
+                onValueChange={(type: string) => setForm((prev: RuleForm) => ({ ...prev, type: type as PricingRuleType }))}
+              >
+                <SelectTrigger id="rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PRICING_RULE_LABELS) as PricingRuleType[]).map((type: PricingRuleType) => (
+                    <SelectItem key={type} value={type}>{PRICING_RULE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                placeholder="e.g. Weeknight peak"
+                value={form.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm((prev: RuleForm) => ({ ...prev, name: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-percent">Adjustment (%)</Label>
+              <Input
+                id="rule-percent"
+                type="number"
+                step="0.01"
+                min="-100"
+                max="500"
+                placeholder="e.g. 20 or -15"
+                value={form.adjustment_percent}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setForm((prev: RuleForm) => ({ ...prev, adjustment_percent: e.target.value }))
+                }
+                required
+              />
+            </div>
+          </div>
+
+          {(form.type === 'peak' || form.type === 'off_peak') && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-4">
+                {DAY_ABBREVIATIONS.map((day: string, dayIndex: number) => (
+                  <div key={day} className="flex items-center gap-1">
+                    <Checkbox
+                      id={`rule-day-${dayIndex}`}
+                      checked={form.days_of_week.includes(dayIndex)}
+                      onCheckedChange={(checked) => toggleDay(dayIndex, checked === true)}
+                    />
+                    <Label htmlFor={`rule-day-${dayIndex}`} className="text-sm">{day}</Label>
+                  </div>
+                ))}
+                <span className="text-sm text-gray-500">(none ticked means every day)</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={form.starts_at}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm((prev: RuleForm) => ({ ...prev, starts_at: e.target.value }))}
+                  required
+                />
+                <span className="text-gray-500">to</span>
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={form.ends_at === '24:00' ? '00:00' : form.ends_at}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    // Ending at midnight means the end of the day
+                    setForm((prev: RuleForm) => ({ ...prev, ends_at: e.target.value === '00:00' ? '24:00' : e.target.value }))
+                  }
+                  required
+                />
+                <span className="text-sm text-gray-500">in the field's local time ({field.timezone})</span>
+              </div>
+            </div>
+          )}
+
+          {form.type === 'holiday' && (
+            <div className="space-y-2 sm:w-1/3">
+              <Label htmlFor="rule-date">Date</Label>
+              <Input
+                id="rule-date"
+                type="date"
+                value={form.holiday_date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm((prev: RuleForm) => ({ ...prev, holiday_date: e.target.value }))}
+                required
+              />
+            </div>
+          )}
+
+          {form.type === 'last_minute' && (
+            <div className="space-y-2 sm:w-1/3">
+              <Label htmlFor="rule-hours">Hours Before Kick-off</Label>
+              <Input
+                id="rule-hours"
+                type="number"
+                min="1"
+                max="168"
+                value={form.hours_before}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm((prev: RuleForm) => ({ ...prev, hours_before: e.target.value }))}
+                required
+              />
+            </div>
+          )}
+
+          <Button type="submit" variant="outline" disabled={isLoading}>
+            {isLoading ? 'Adding...' : 'Add Rule'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
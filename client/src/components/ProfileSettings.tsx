@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,16 +6,49 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
-import { UserIcon, MailIcon, PhoneIcon, CalendarIcon, ShieldIcon } from 'lucide-react';
-import { format } from 'date-fns';
-import type { User } from '../../../server/src/schema';
+import { MailIcon, PhoneIcon, CalendarIcon, ShieldIcon, MonitorIcon, SmartphoneIcon } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { trpc } from '@/utils/trpc';
+import { readImageFile, IMAGE_ACCEPT } from '@/utils/upload';
+import { CalendarFeedPanel } from '@/components/CalendarFeedPanel';
+import type {
+  PublicUser,
+  ChangePasswordInput,
+  ChangeEmailInput,
+  DeviceSession,
+  TwoFactorSetup,
+  DisableTwoFactorInput
+} from '../../../server/src/schema';
+
+// Turns a raw user agent into a short label such as "Safari on iPhone"
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const platform = /iPhone/.test(userAgent) ? 'iPhone'
+    : /iPad/.test(userAgent) ? 'iPad'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'Mac'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown system';
+
+  return `${browser} on ${platform}`;
+};
+
+const isMobileDevice = (userAgent: string | null) => !!userAgent && /iPhone|iPad|Android|Mobile/.test(userAgent);
 
 interface ProfileSettingsProps {
-  user: User;
-  onUserUpdate: (user: User) => void;
+  user: PublicUser;
+  onUserUpdate: (user: PublicUser) => void;
+  onAccountDeleted: () => void;
 }
 
-export function ProfileSettings({ user, onUserUpdate }: ProfileSettingsProps) {
+export function ProfileSettings({ user, onUserUpdate, onAccountDeleted }: ProfileSettingsProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [profileForm, setProfileForm] = useState({
@@ -24,26 +57,70 @@ export function ProfileSettings({ user, onUserUpdate }: ProfileSettingsProps) {
     phone: user.phone || '',
     avatar_url: user.avatar_url || ''
   });
+  const [avatarError, setAvatarError] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [securityPanel, setSecurityPanel] = useState<'password' | 'email' | 'two-factor' | 'delete' | null>(null);
+  const [securityMessage, setSecurityMessage] = useState<string | null>(null);
+  const [passwordForm, setPasswordForm] = useState<ChangePasswordInput>({
+    current_password: '',
+    new_password: ''
+  });
+  const [emailForm, setEmailForm] = useState<ChangeEmailInput>({
+    email: '',
+    current_password: ''
+  });
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [disableTwoFactorForm, setDisableTwoFactorForm] = useState<DisableTwoFactorInput>({
+    current_password: '',
+    code: ''
+  });
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const activeSessions = await trpc.getMySessions.query();
+      setSessions(activeSessions);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevokeSession = async (sessionId: number) => {
+    try {
+      await trpc.revokeSession.mutate({ sessionId });
+      setSessions((prev: DeviceSession[]) => prev.filter((session: DeviceSession) => session.id !== sessionId));
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    try {
+      await trpc.revokeAllOtherSessions.mutate();
+      setSessions((prev: DeviceSession[]) => prev.filter((session: DeviceSession) => session.is_current));
+    } catch (error) {
+      console.error('Failed to revoke sessions:', error);
+    }
+  };
 
   const handleSaveProfile = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     
     try {
-      // In a real app, this would call a tRPC mutation to update the user profile
-      // For demo purposes, we'll simulate the update
-      const updatedUser: User = {
-        ...user,
+      const updatedUser = await trpc.updateProfile.mutate({
         first_name: profileForm.first_name,
         last_name: profileForm.last_name,
         phone: profileForm.phone || null,
-        avatar_url: profileForm.avatar_url || null,
-        updated_at: new Date()
-      };
-      
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+        avatar_url: profileForm.avatar_url || null
+      });
+
       onUserUpdate(updatedUser);
       setIsEditing(false);
     } catch (error) {
@@ -63,6 +140,158 @@ export function ProfileSettings({ user, onUserUpdate }: ProfileSettingsProps) {
     setIsEditing(false);
   };
 
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setAvatarError(null);
+    try {
+      const updatedUser = await trpc.uploadAvatar.mutate(await readImageFile(file));
+      onUserUpdate(updatedUser);
+      setProfileForm(prev => ({ ...prev, avatar_url: updatedUser.avatar_url || '' }));
+    } catch (error) {
+      console.error('Failed to upload avatar:', error);
+      setAvatarError(error instanceof Error ? error.message : 'Could not upload your photo.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleSecurityPanel = (panel: 'password' | 'email' | 'two-factor' | 'delete') => {
+    setSecurityPanel(prev => (prev === panel ? null : panel));
+    setSecurityMessage(null);
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.changePassword.mutate(passwordForm);
+      setPasswordForm({ current_password: '', new_password: '' });
+      setSecurityPanel(null);
+      setSecurityMessage('Your password has been changed and your other devices were signed out.');
+      loadSessions();
+    } catch (error) {
+      console.error('Failed to change password:', error);
+      setSecurityMessage('Could not change your password. Check your current password and try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const updatedUser = await trpc.changeEmail.mutate(emailForm);
+      onUserUpdate(updatedUser);
+      setEmailForm({ email: '', current_password: '' });
+      setSecurityPanel(null);
+      setSecurityMessage(`We sent a confirmation link to ${updatedUser.email}.`);
+    } catch (error) {
+      console.error('Failed to change email:', error);
+      setSecurityMessage('Could not change your email. It may already be in use, or your password is incorrect.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleExportData = async () => {
+    setSecurityMessage(null);
+    try {
+      const archive = await trpc.exportMyData.query();
+      const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `my-data-${format(new Date(), 'yyyy-MM-dd')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export data:', error);
+      setSecurityMessage('Could not export your data. Please try again.');
+    }
+  };
+
+  const handleDeleteAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.deleteMyAccount.mutate({ current_password: deletePassword });
+      onAccountDeleted();
+    } catch (error) {
+      console.error('Failed to delete account:', error);
+      setSecurityMessage(error instanceof Error ? error.message : 'Could not delete your account.');
+      setIsLoading(false);
+    }
+  };
+
+  const handleBeginTwoFactor = async () => {
+    setIsLoading(true);
+    setSecurityMessage(null);
+    try {
+      const setup = await trpc.beginTwoFactorSetup.mutate();
+      setTwoFactorSetup(setup);
+      setTwoFactorCode('');
+      setRecoveryCodes(null);
+      setSecurityPanel('two-factor');
+    } catch (error) {
+      console.error('Failed to start two-factor setup:', error);
+      setSecurityMessage('Could not start two-factor setup. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirmTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const result = await trpc.confirmTwoFactorSetup.mutate({ code: twoFactorCode });
+      setRecoveryCodes(result.recovery_codes);
+      setTwoFactorSetup(null);
+      onUserUpdate(await trpc.me.query());
+    } catch (error) {
+      console.error('Failed to confirm two-factor setup:', error);
+      setSecurityMessage('That code did not match. Check the time on your phone and try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDisableTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const updatedUser = await trpc.disableTwoFactor.mutate(disableTwoFactorForm);
+      onUserUpdate(updatedUser);
+      setDisableTwoFactorForm({ current_password: '', code: '' });
+      setSecurityPanel(null);
+      setSecurityMessage('Two-factor authentication has been turned off.');
+    } catch (error) {
+      console.error('Failed to disable two-factor:', error);
+      setSecurityMessage(error instanceof Error ? error.message : 'Could not turn off two-factor authentication.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRegenerateRecoveryCodes = async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.regenerateRecoveryCodes.mutate({ code: disableTwoFactorForm.code });
+      setRecoveryCodes(result.recovery_codes);
+      setDisableTwoFactorForm({ current_password: '', code: '' });
+    } catch (error) {
+      console.error('Failed to regenerate recovery codes:', error);
+      setSecurityMessage('Enter a current authenticator code to get new recovery codes.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const getRoleInfo = (role: string) => {
     switch (role) {
       case 'player':
@@ -121,9 +350,23 @@ export function ProfileSettings({ user, onUserUpdate }: ProfileSettingsProps) {
             <CardHeader>
               <div className="flex flex-col items-center space-y-4">
                 <Avatar className="h-24 w-24">
-                  <AvatarImage src={user.avatar_url || ''} alt={`${user.first_name} ${user.last_name}`} />
+                  <AvatarImage src={user.avatar_thumbnail_url || user.avatar_url || ''} alt={`${user.first_name} ${user.last_name}`} />
                   <AvatarFallback className="text-xl">{initials}</AvatarFallback>
                 </Avatar>
+                <div className="text-center">
+                  <Label htmlFor="avatar_upload" className="cursor-pointer text-sm text-green-700 hover:underline">
+                    {isLoading ? 'Uploading...' : 'Upload photo 📷'}
+                  </Label>
+                  <input
+                    id="avatar_upload"
+                    type="file"
+                    accept={IMAGE_ACCEPT}
+                    className="hidden"
+                    disabled={isLoading}
+                    onChange={handleAvatarChange}
+                  />
+                  {avatarError && <p className="text-xs text-red-600 mt-1">{avatarError}</p>}
+                </div>
                 <div className="text-center">
                   <h3 className="text-xl font-semibold">{user.first_name} {user.last_name}</h3>
                   <p className="text-gray-600">{user.email}</p>
@@ -220,7 +463,7 @@ export function ProfileSettings({ user, onUserUpdate }: ProfileSettingsProps) {
                       className="bg-gray-100"
                     />
                     <p className="text-xs text-gray-500">
-                      Email address cannot be changed for security reasons
+                      Change your email address under Account Security below
                     </p>
                   </div>
 
@@ -351,40 +594,297 @@ export function ProfileSettings({ user, onUserUpdate }: ProfileSettingsProps) {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            <div className="flex items-center justify-between p-4 border rounded-lg">
-              <div>
-                <h4 className="font-medium">Change Password</h4>
-                <p className="text-sm text-gray-600">Update your account password</p>
+            <div className="p-4 border rounded-lg space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="font-medium">Change Password</h4>
+                  <p className="text-sm text-gray-600">Update your account password</p>
+                </div>
+                <Button variant="outline" onClick={() => toggleSecurityPanel('password')}>
+                  Change Password 🔒
+                </Button>
               </div>
-              <Button variant="outline" disabled>
-                Change Password 🔒
-              </Button>
+              {securityPanel === 'password' && (
+                <form onSubmit={handleChangePassword} className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="current_password">Current Password</Label>
+                    <Input
+                      id="current_password"
+                      type="password"
+                      value={passwordForm.current_password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setPasswordForm((prev: ChangePasswordInput) => ({ ...prev, current_password: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="new_password">New Password</Label>
+                    <Input
+                      id="new_password"
+                      type="password"
+                      value={passwordForm.new_password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setPasswordForm((prev: ChangePasswordInput) => ({ ...prev, new_password: e.target.value }))
+                      }
+                      minLength={6}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Saving...' : 'Update Password'}
+                  </Button>
+                </form>
+              )}
+            </div>
+
+            <div className="p-4 border rounded-lg space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="font-medium">Change Email</h4>
+                  <p className="text-sm text-gray-600">You'll need to confirm the new address</p>
+                </div>
+                <Button variant="outline" onClick={() => toggleSecurityPanel('email')}>
+                  Change Email 📧
+                </Button>
+              </div>
+              {securityPanel === 'email' && (
+                <form onSubmit={handleChangeEmail} className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="new_email">New Email Address</Label>
+                    <Input
+                      id="new_email"
+                      type="email"
+                      value={emailForm.email}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setEmailForm((prev: ChangeEmailInput) => ({ ...prev, email: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email_current_password">Current Password</Label>
+                    <Input
+                      id="email_current_password"
+                      type="password"
+                      value={emailForm.current_password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setEmailForm((prev: ChangeEmailInput) => ({ ...prev, current_password: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Saving...' : 'Update Email'}
+                  </Button>
+                </form>
+              )}
             </div>
+
             
-            <div className="flex items-center justify-between p-4 border rounded-lg">
-              <div>
-                <h4 className="font-medium">Two-Factor Authentication</h4>
-                <p className="text-sm text-gray-600">Add an extra layer of security</p>
+            <div className="p-4 border rounded-lg space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="font-medium flex items-center gap-2">
+                    Two-Factor Authentication
+                    {user.two_factor_enabled_at && <Badge className="bg-green-100 text-green-800">On</Badge>}
+                  </h4>
+                  <p className="text-sm text-gray-600">
+                    {user.two_factor_enabled_at
+                      ? `Enabled on ${format(user.two_factor_enabled_at, 'PPP')}`
+                      : 'Add an extra layer of security with an authenticator app'}
+                  </p>
+                </div>
+                {user.two_factor_enabled_at ? (
+                  <Button variant="outline" onClick={() => toggleSecurityPanel('two-factor')}>
+                    Manage 2FA 🔐
+                  </Button>
+                ) : (
+                  <Button variant="outline" onClick={handleBeginTwoFactor} disabled={isLoading}>
+                    Setup 2FA 🔐
+                  </Button>
+                )}
               </div>
-              <Button variant="outline" disabled>
-                Setup 2FA 🔐
-              </Button>
+              {securityPanel === 'two-factor' && twoFactorSetup && (
+                <form onSubmit={handleConfirmTwoFactor} className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    Add this account to your authenticator app using the setup link, or type the key in manually.
+                  </p>
+                  <div className="rounded bg-gray-50 p-3 space-y-1">
+                    <a href={twoFactorSetup.otpauth_url} className="text-sm text-green-700 hover:underline">
+                      Open in authenticator app
+                    </a>
+                    <p className="font-mono text-sm break-all">{twoFactorSetup.secret}</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="two_factor_code">6-digit code from the app</Label>
+                    <Input
+                      id="two_factor_code"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={twoFactorCode}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTwoFactorCode(e.target.value)}
+                      minLength={6}
+                      maxLength={6}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Verifying...' : 'Turn On 2FA'}
+                  </Button>
+                </form>
+              )}
+              {recoveryCodes && (
+                <div className="rounded border border-yellow-200 bg-yellow-50 p-3 space-y-2">
+                  <p className="text-sm text-yellow-800">
+                    Save these recovery codes somewhere safe. Each one can be used once if you lose your phone. They won't be shown again.
+                  </p>
+                  <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+                    {recoveryCodes.map((code: string) => <span key={code}>{code}</span>)}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+                    I've saved them
+                  </Button>
+                </div>
+              )}
+              {securityPanel === 'two-factor' && user.two_factor_enabled_at && (
+                <form onSubmit={handleDisableTwoFactor} className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="disable_two_factor_code">Authenticator or recovery code</Label>
+                    <Input
+                      id="disable_two_factor_code"
+                      value={disableTwoFactorForm.code}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setDisableTwoFactorForm((prev: DisableTwoFactorInput) => ({ ...prev, code: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="disable_two_factor_password">Current Password (to turn 2FA off)</Label>
+                    <Input
+                      id="disable_two_factor_password"
+                      type="password"
+                      value={disableTwoFactorForm.current_password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setDisableTwoFactorForm((prev: DisableTwoFactorInput) => ({ ...prev, current_password: e.target.value }))
+                      }
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="button" variant="outline" onClick={handleRegenerateRecoveryCodes} disabled={isLoading}>
+                      New Recovery Codes
+                    </Button>
+                    <Button type="submit" variant="destructive" disabled={isLoading || !disableTwoFactorForm.current_password}>
+                      Turn Off 2FA
+                    </Button>
+                  </div>
+                </form>
+              )}
             </div>
             
-            <div className="flex items-center justify-between p-4 border rounded-lg border-red-200">
+            {securityMessage && (
+              <p className="text-sm text-gray-700">{securityMessage}</p>
+            )}
+
+            <div className="flex items-center justify-between p-4 border rounded-lg">
               <div>
-                <h4 className="font-medium text-red-700">Delete Account</h4>
-                <p className="text-sm text-red-600">Permanently delete your account</p>
+                <h4 className="font-medium">Your Data</h4>
+                <p className="text-sm text-gray-600">Download everything we store about you as a JSON file</p>
               </div>
-              <Button variant="destructive" disabled>
-                Delete Account ⚠️
+              <Button variant="outline" onClick={handleExportData}>
+                Download My Data 📦
               </Button>
             </div>
+
+            <CalendarFeedPanel
+              fieldId={null}
+              title="My Bookings Calendar"
+              description="Subscribe to your bookings and your teams' bookings from your calendar app"
+            />
+
+            <div className="p-4 border rounded-lg border-red-200 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="font-medium text-red-700">Delete Account</h4>
+                  <p className="text-sm text-red-600">Permanently delete your account</p>
+                </div>
+                <Button variant="destructive" onClick={() => toggleSecurityPanel('delete')}>
+                  Delete Account ⚠️
+                </Button>
+              </div>
+              {securityPanel === 'delete' && (
+                <form onSubmit={handleDeleteAccount} className="space-y-3">
+                  <ul className="text-sm text-gray-700 list-disc pl-5 space-y-1">
+                    <li>Your profile is erased and you are signed out everywhere.</li>
+                    <li>Messages and ratings you left stay, but show as from a deleted user.</li>
+                    <li>Teams you captain pass to their longest-standing member, or are disbanded if you're the only one.</li>
+                    <li>Pending booking requests are cancelled. Upcoming confirmed bookings must be cancelled first.</li>
+                  </ul>
+                  <div className="space-y-2">
+                    <Label htmlFor="delete_password">Confirm with your password</Label>
+                    <Input
+                      id="delete_password"
+                      type="password"
+                      value={deletePassword}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDeletePassword(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" variant="destructive" disabled={isLoading}>
+                    {isLoading ? 'Deleting...' : 'Permanently Delete My Account'}
+                  </Button>
+                </form>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Devices */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Devices</CardTitle>
+              <CardDescription>
+                Where you're signed in. Sign out any device you don't recognize.
+              </CardDescription>
+            </div>
+            {sessions.some((session: DeviceSession) => !session.is_current) && (
+              <Button variant="outline" onClick={handleRevokeOtherSessions}>
+                Sign out all other devices
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {sessions.map((session: DeviceSession) => (
+              <div key={session.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  {isMobileDevice(session.user_agent)
+                    ? <SmartphoneIcon className="h-5 w-5 text-gray-500" />
+                    : <MonitorIcon className="h-5 w-5 text-gray-500" />}
+                  <div>
+                    <h4 className="font-medium flex items-center gap-2">
+                      {describeDevice(session.user_agent)}
+                      {session.is_current && <Badge variant="secondary">This device</Badge>}
+                    </h4>
+                    <p className="text-sm text-gray-600">
+                      {session.ip_address || 'Unknown IP'} • Signed in {format(session.created_at, 'PPP')} •
+                      Last active {formatDistanceToNow(session.last_seen_at, { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+                {!session.is_current && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRevokeSession(session.id)}>
+                    Sign out
+                  </Button>
+                )}
+              </div>
+            ))}
           </div>
-          
-          <p className="text-xs text-gray-500 mt-4">
-            * Security features are disabled in this demo version
-          </p>
         </CardContent>
       </Card>
     </div>
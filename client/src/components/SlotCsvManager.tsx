@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FileSpreadsheetIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { trpc } from '@/utils/trpc';
+import type { Field, FieldSlot, SlotImportReport, SlotImportRow } from '../../../server/src/schema';
+
+interface SlotCsvManagerProps {
+  field: Field;
+  onSlotsImported: (slots: FieldSlot[]) => void;
+}
+
+export function SlotCsvManager({ field, onSlotsImported }: SlotCsvManagerProps) {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [report, setReport] = useState<SlotImportReport | null>(null);
+  const [range, setRange] = useState<{ from: string; to: string }>({ from: '', to: '' });
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const showError = (error: unknown, fallback: string) =>
+    setMessage({ type: 'error', text: error instanceof Error ? error.message : fallback });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setReport(null);
+    setMessage(null);
+    setCsv(file ? await file.text() : null);
+  };
+
+  const handlePreview = async () => {
+    if (!csv) return;
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      setReport(await trpc.previewSlotImport.mutate({ csv }));
+    } catch (error) {
+      console.error('Failed to check CSV file:', error);
+      showError(error, 'Could not read the CSV file.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!csv) return;
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const result = await trpc.importSlots.mutate({ csv });
+      onSlotsImported(result.created);
+      setReport(null);
+      setCsv(null);
+      setMessage({ type: 'success', text: `Imported ${result.created.length} slots.` });
+    } catch (error) {
+      console.error('Failed to import slots:', error);
+      showError(error, 'Could not import the slots.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    try {
+      const file = await trpc.exportFieldSlotsCsv.query({ field_id: field.id, ...range });
+      const blob = new Blob([file.content], { type: 'text/csv' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export slots:', error);
+      showError(error, 'Could not export the slots.');
+    }
+  };
+
+  const problemRows = report?.rows.filter((row: SlotImportRow) => row.errors.length > 0) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheetIcon className="h-5 w-5" />
+          Spreadsheet Import &amp; Export
+        </CardTitle>
+        <CardDescription>
+          Import slots from a CSV file with the columns field, start, end and price. Fields can be given by name or id;
+          times like 2030-01-07 18:00 are read in each field's local time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {message && (
+          <p className={`text-sm ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex items-end gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="slot-csv">CSV File</Label>
+              <Input id="slot-csv" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+            </div>
+            <Button variant="outline" onClick={handlePreview} disabled={!csv || isLoading}>
+              Check File
+            </Button>
+          </div>
+
+          {report && (
+            <div className="rounded-lg border p-4 space-y-3">
+              <p className="text-sm">
+                <span className="font-medium">{report.valid_count} slots ready</span>
+                {report.error_count > 0 && <span className="text-red-600"> • {report.error_count} rows with errors</span>}
+              </p>
+              {problemRows.length > 0 && (
+                <ul className="text-sm space-y-1">
+                  {problemRows.map((row: SlotImportRow) => (
+                    <li key={row.row}>
+                      <span className="font-medium">Row {row.row}</span>
+                      {row.start_time && <span className="text-gray-500"> ({format(row.start_time, 'PPp')})</span>}
+                      : {row.errors.join('; ')}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Button onClick={handleImport} disabled={isLoading || report.error_count > 0 || report.valid_count === 0}>
+                {isLoading ? 'Importing...' : `Import ${report.valid_count} Slots`}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <form onSubmit={handleExport} className="grid sm:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="export-from">Export From</Label>
+            <Input
+              id="export-from"
+              type="date"
+              value={range.from}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRange((prev) => ({ ...prev, from: e.target.value }))}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-to">To</Label>
+            <Input
+              id="export-to"
+              type="date"
+              value={range.to}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRange((prev) => ({ ...prev, to: e.target.value }))}
+              required
+            />
+          </div>
+          <Button type="submit" variant="outline">
+            Export Slots &amp; Bookings
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,8 +10,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Separator } from '@/components/ui/separator';
 import { PlusIcon, UsersIcon, StarIcon, CrownIcon, UserMinusIcon } from 'lucide-react';
 import { trpc } from '@/utils/trpc';
+import { readImageFile, IMAGE_ACCEPT } from '@/utils/upload';
 import type { 
-  User, 
+  PublicUser, 
   Team, 
   TeamMember,
   Rating,
@@ -21,7 +22,7 @@ import type {
 } from '../../../server/src/schema';
 
 interface TeamManagementProps {
-  user: User;
+  user: PublicUser;
 }
 
 export function TeamManagement({ user }: TeamManagementProps) {
@@ -131,6 +132,22 @@ export function TeamManagement({ user }: TeamManagementProps) {
     }
   };
 
+  const handleLogoChange = async (teamId: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    try {
+      const updatedTeam = await trpc.uploadTeamLogo.mutate({ team_id: teamId, ...await readImageFile(file) });
+      setTeams((prev: Team[]) => prev.map((team: Team) => (team.id === teamId ? updatedTeam : team)));
+    } catch (error) {
+      console.error('Failed to upload team logo:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleAddMember = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedTeam) return;
@@ -328,7 +345,9 @@ export function TeamManagement({ user }: TeamManagementProps) {
                       <div>
                         <CardTitle className="flex items-center gap-2">
                           {team.captain_id === user.id && <CrownIcon className="h-5 w-5 text-yellow-500" />}
-                          👥 {team.name}
+                          {team.logo_thumbnail_url ? (
+                            <img src={team.logo_thumbnail_url} alt="" className="h-8 w-8 rounded-full object-cover" />
+                          ) : '👥'} {team.name}
                         </CardTitle>
                         <CardDescription className="flex items-center gap-2 mt-1">
                           {getSkillLevelBadge(team.skill_level)}
@@ -343,6 +362,19 @@ export function TeamManagement({ user }: TeamManagementProps) {
                         </CardDescription>
                       </div>
                       <div className="flex gap-2">
+                        {team.captain_id === user.id && (
+                          <Button variant="outline" size="sm" asChild disabled={isLoading}>
+                            <label className="cursor-pointer">
+                              Logo 📷
+                              <input
+                                type="file"
+                                accept={IMAGE_ACCEPT}
+                                className="hidden"
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleLogoChange(team.id, e)}
+                              />
+                            </label>
+                          </Button>
+                        )}
                         <Dialog open={showAddMemberDialog && selectedTeam?.id === team.id} 
                                 onOpenChange={(open) => {
                                   setShowAddMemberDialog(open);
@@ -0,0 +1,448 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MapPinIcon, PlusIcon, XIcon } from 'lucide-react';
+import { trpc } from '@/utils/trpc';
+import { readImageFile, IMAGE_ACCEPT } from '@/utils/upload';
+import { AMENITY_LABELS } from '@/utils/field_attributes';
+import { AmenitiesEditor } from '@/components/FieldAttributes';
+import { OpeningHoursEditor } from '@/components/OpeningHoursEditor';
+import type {
+  Field,
+  FieldAmenity,
+  VenueWithPitches,
+  VenuePhoto,
+  CreateVenueInput,
+  OpeningHours,
+  SetVenueScheduleInput
+} from '../../../server/src/schema';
+
+const EMPTY_VENUE_FORM: CreateVenueInput = {
+  name: '',
+  address: '',
+  description: null,
+  latitude: null,
+  longitude: null,
+  amenities: []
+};
+
+interface VenueManagementProps {
+  venues: VenueWithPitches[];
+  // The owner's fields; standalone ones can be added to a venue as pitches
+  fields: Field[];
+  // Venue changes are copied to its pitches, so fields need reloading too
+  onChanged: () => void;
+}
+
+export function VenueManagement({ venues, fields, onChanged }: VenueManagementProps) {
+  const [venuePhotos, setVenuePhotos] = useState<{ [venueId: number]: VenuePhoto[] }>({});
+  // Venue being created (id null) or edited, with the unsaved values
+  const [venueForm, setVenueForm] = useState<{ id: number | null; values: CreateVenueInput } | null>(null);
+  const [schedule, setSchedule] = useState<SetVenueScheduleInput | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadVenuePhotos = useCallback(async (venueId: number) => {
+    try {
+      const photos = await trpc.getVenuePhotos.query({ venueId });
+      setVenuePhotos((prev) => ({ ...prev, [venueId]: photos }));
+    } catch (error) {
+      console.error('Failed to load venue photos:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    venues.forEach((venue: VenueWithPitches) => loadVenuePhotos(venue.id));
+  }, [venues, loadVenuePhotos]);
+
+  const showError = (error: unknown, fallback: string) =>
+    setError(error instanceof Error ? error.message : fallback);
+
+  const openVenueForm = (venue: VenueWithPitches | null) => {
+    setError(null);
+    setVenueForm(venue
+      ? {
+        id: venue.id,
+        values: {
+          name: venue.name,
+          address: venue.address,
+          description: venue.description,
+          latitude: venue.latitude,
+          longitude: venue.longitude,
+          amenities: venue.amenities
+        }
+      }
+      : { id: null, values: EMPTY_VENUE_FORM });
+  };
+
+  const updateVenueForm = (changes: Partial<CreateVenueInput>) =>
+    setVenueForm((prev) => prev && { ...prev, values: { ...prev.values, ...changes } });
+
+  const handleSaveVenue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!venueForm) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const values = { ...venueForm.values, description: venueForm.values.description || null };
+      if (venueForm.id === null) {
+        await trpc.createVenue.mutate(values);
+      } else {
+        await trpc.updateVenue.mutate({ id: venueForm.id, ...values });
+      }
+      setVenueForm(null);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to save venue:', error);
+      showError(error, 'Could not save the venue.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteVenue = async (venueId: number) => {
+    setError(null);
+    try {
+      await trpc.deleteVenue.mutate({ venueId });
+      onChanged();
+    } catch (error) {
+      console.error('Failed to delete venue:', error);
+      showError(error, 'Could not delete the venue.');
+    }
+  };
+
+  const openSchedule = async (venueId: number) => {
+    setError(null);
+    try {
+      setSchedule(await trpc.getVenueSchedule.query({ venueId }));
+    } catch (error) {
+      console.error('Failed to load venue schedule:', error);
+    }
+  };
+
+  const handleSaveSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!schedule) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.setVenueSchedule.mutate(schedule);
+      setSchedule(null);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to save venue schedule:', error);
+      showError(error, 'Could not save the opening hours.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Joining a venue replaces the field's address and amenities with the venue's
+  const handleMovePitch = async (fieldId: number, venueId: number | null) => {
+    setError(null);
+    try {
+      await trpc.updateField.mutate({ id: fieldId, venue_id: venueId });
+      onChanged();
+    } catch (error) {
+      console.error('Failed to move pitch:', error);
+      showError(error, 'Could not move the pitch.');
+    }
+  };
+
+  const handleAddPhoto = async (venueId: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    try {
+      const photo = await trpc.addVenuePhoto.mutate({ venue_id: venueId, ...await readImageFile(file) });
+      setVenuePhotos((prev) => ({ ...prev, [venueId]: [...(prev[venueId] || []), photo] }));
+    } catch (error) {
+      console.error('Failed to upload venue photo:', error);
+      showError(error, 'Could not upload the photo.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemovePhoto = async (photo: VenuePhoto) => {
+    try {
+      await trpc.removeVenuePhoto.mutate({ photoId: photo.id });
+      setVenuePhotos((prev) => ({
+        ...prev,
+        [photo.venue_id]: (prev[photo.venue_id] || []).filter((p: VenuePhoto) => p.id !== photo.id)
+      }));
+    } catch (error) {
+      console.error('Failed to remove venue photo:', error);
+    }
+  };
+
+  const standaloneFields = fields.filter((field: Field) => field.venue_id === null);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Your Venues ({venues.length})</h3>
+          <p className="text-sm text-gray-600">
+            A venue's pitches share its address, photos, amenities and opening hours.
+          </p>
+        </div>
+        <Button onClick={() => openVenueForm(null)}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Venue
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {venues.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center text-gray-500">
+            No venues yet. Group pitches that share an address into a venue! 🏢
+          </CardContent>
+        </Card>
+      ) : (
+        venues.map((venue: VenueWithPitches) => (
+          <Card key={venue.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">🏢 {venue.name}</CardTitle>
+                  <CardDescription className="flex items-center gap-1 mt-1">
+                    <MapPinIcon className="h-4 w-4" />
+                    {venue.address}
+                    {venue.latitude == null && (
+                      <Badge variant="outline" className="ml-2">Not on map</Badge>
+                    )}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openSchedule(venue.id)}>
+                    Opening Hours
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => openVenueForm(venue)}>
+                    Edit Details
+                  </Button>
+                  {venue.pitches.length === 0 && (
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteVenue(venue.id)}>
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {venue.amenities.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {venue.amenities.map((amenity: FieldAmenity) => (
+                    <Badge key={amenity} variant="outline">{AMENITY_LABELS[amenity]}</Badge>
+                  ))}
+                </div>
+              )}
+              {venue.description && <p className="text-gray-700">{venue.description}</p>}
+
+              {/* Photo gallery */}
+              <div className="flex flex-wrap gap-2">
+                {(venuePhotos[venue.id] || []).map((photo: VenuePhoto) => (
+                  <div key={photo.id} className="relative">
+                    <a href={photo.url} target="_blank" rel="noreferrer">
+                      <img src={photo.thumbnail_url} alt="" className="h-20 w-20 rounded object-cover" />
+                    </a>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="absolute top-1 right-1 h-5 w-5 p-0"
+                      onClick={() => handleRemovePhoto(photo)}
+                    >
+                      <XIcon className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <label className="h-20 w-20 rounded border-2 border-dashed flex items-center justify-center text-xs text-gray-500 cursor-pointer hover:bg-gray-50">
+                  {isLoading ? '...' : '+ Photo 📷'}
+                  <input
+                    type="file"
+                    accept={IMAGE_ACCEPT}
+                    className="hidden"
+                    disabled={isLoading}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleAddPhoto(venue.id, e)}
+                  />
+                </label>
+              </div>
+
+              {/* Pitches */}
+              <div className="space-y-2">
+                <Label>Pitches ({venue.pitches.length})</Label>
+                {venue.pitches.map((pitch: Field) => (
+                  <div key={pitch.id} className="flex items-center justify-between rounded border p-2 text-sm">
+                    <span>🏟️ {pitch.name} • ${pitch.hourly_rate}/hr</span>
+                    <Button variant="ghost" size="sm" onClick={() => handleMovePitch(pitch.id, null)}>
+                      Make Standalone
+                    </Button>
+                  </div>
+                ))}
+                {standaloneFields.length > 0 && (
+                  <Select value="none" onValueChange={(value: string) => handleMovePitch(parseInt(value), venue.id)}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none" disabled>Add a field as a pitch...</SelectItem>
+                      {standaloneFields.map((field: Field) => (
+                        <SelectItem key={field.id} value={field.id.toString()}>{field.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={venueForm !== null} onOpenChange={(open: boolean) => !open && setVenueForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{venueForm?.id === null ? 'Add New Venue' : 'Venue Details'}</DialogTitle>
+          </DialogHeader>
+          {venueForm && (
+            <form onSubmit={handleSaveVenue} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="venue-name">Venue Name</Label>
+                <Input
+                  id="venue-name"
+                  placeholder="e.g., Central Sports Complex"
+                  value={venueForm.values.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateVenueForm({ name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="venue-address">Address</Label>
+                <Input
+                  id="venue-address"
+                  placeholder="123 Sports Ave, City, State"
+                  value={venueForm.values.address}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateVenueForm({ address: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="venue-latitude">Latitude (Optional)</Label>
+                  <Input
+                    id="venue-latitude"
+                    type="number"
+                    placeholder="51.5072"
+                    step="any"
+                    min="-90"
+                    max="90"
+                    value={venueForm.values.latitude ?? ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      updateVenueForm({ latitude: e.target.value === '' ? null : parseFloat(e.target.value) })
+                    }
+                    required={venueForm.values.longitude != null}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="venue-longitude">Longitude (Optional)</Label>
+                  <Input
+                    id="venue-longitude"
+                    type="number"
+                    placeholder="-0.1276"
+                    step="any"
+                    min="-180"
+                    max="180"
+                    value={venueForm.values.longitude ?? ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      updateVenueForm({ longitude: e.target.value === '' ? null : parseFloat(e.target.value) })
+                    }
+                    required={venueForm.values.latitude != null}
+                  />
+                </div>
+                <p className="col-span-2 text-xs text-gray-500">
+                  Leave empty to place the venue from its address.
+                </p>
+              </div>
+              <AmenitiesEditor
+                idPrefix="venue"
+                value={venueForm.values.amenities ?? []}
+                onChange={(amenities: FieldAmenity[]) => updateVenueForm({ amenities })}
+              />
+              <div className="space-y-2">
+                <Label htmlFor="venue-description">Description (Optional)</Label>
+                <Textarea
+                  id="venue-description"
+                  placeholder="Getting there, facilities, etc."
+                  value={venueForm.values.description || ''}
+                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateVenueForm({ description: e.target.value || null })}
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? 'Saving...' : venueForm.id === null ? 'Create Venue' : 'Save Details'}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={schedule !== null} onOpenChange={(open: boolean) => !open && setSchedule(null)}>
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Venue Opening Hours</DialogTitle>
+          </DialogHeader>
+          {schedule && (
+            <form onSubmit={handleSaveSchedule} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Used to generate slots for every pitch that has no opening hours of its own.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="venue-timezone">Time Zone</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="venue-timezone"
+                    value={schedule.timezone}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setSchedule((prev) => prev && { ...prev, timezone: e.target.value })
+                    }
+                    required
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() =>
+                      setSchedule((prev) => prev && { ...prev, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })
+                    }
+                  >
+                    Use Mine
+                  </Button>
+                </div>
+              </div>
+              <OpeningHoursEditor
+                value={schedule.opening_hours}
+                onChange={(openingHours: OpeningHours[]) =>
+                  setSchedule((prev) => prev && { ...prev, opening_hours: openingHours })
+                }
+              />
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? 'Saving...' : 'Save Opening Hours'}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
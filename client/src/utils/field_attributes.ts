@@ -0,0 +1,28 @@
+import type { Field, FieldAmenity, FieldFormat, FieldSurface } from '../../../server/src/schema';
+
+export const SURFACE_LABELS: Record<FieldSurface, string> = {
+  artificial_turf: 'Artificial turf',
+  natural_grass: 'Natural grass',
+  hybrid: 'Hybrid',
+  hard_court: 'Hard court'
+};
+
+export const FORMATS: FieldFormat[] = ['5v5', '7v7', '9v9', '11v11'];
+
+export const AMENITY_LABELS: Record<FieldAmenity, string> = {
+  floodlights: '💡 Floodlights',
+  changing_rooms: '🚿 Changing rooms',
+  showers: '🛁 Showers',
+  parking: '🅿️ Parking',
+  equipment_hire: '⚽ Equipment hire',
+  cafe: '☕ Café'
+};
+
+export type FieldAttributes = Pick<Field, 'surface' | 'formats' | 'is_indoor' | 'amenities'>;
+
+export const EMPTY_FIELD_ATTRIBUTES: FieldAttributes = {
+  surface: null,
+  formats: [],
+  is_indoor: false,
+  amenities: []
+};
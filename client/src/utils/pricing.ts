@@ -0,0 +1,17 @@
+import type { PriceAdjustment, PricingRuleType } from '../../../server/src/schema';
+
+export const PRICING_RULE_LABELS: Record<PricingRuleType, string> = {
+  peak: 'Peak hours',
+  off_peak: 'Off-peak hours',
+  weekend: 'Weekend',
+  holiday: 'Holiday',
+  last_minute: 'Last minute'
+};
+
+export const DAY_ABBREVIATIONS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const sign = (value: number) => value < 0 ? '−' : '+';
+
+// e.g. "Evening peak +20% (+$12.00)"
+export const formatAdjustment = (adjustment: PriceAdjustment): string =>
+  `${adjustment.name} ${sign(adjustment.percent)}${Math.abs(adjustment.percent)}% (${sign(adjustment.amount)}$${Math.abs(adjustment.amount).toFixed(2)})`;
@@ -1,10 +1,30 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, loggerLink, TRPCClientError } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
+import type { SlotValidationErrorCode } from '../../../server/src/schema';
 import superjson from 'superjson';
 
+const SESSION_TOKEN_KEY = 'session_token';
+
+export const getSessionToken = () => localStorage.getItem(SESSION_TOKEN_KEY);
+
+export const setSessionToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(SESSION_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(SESSION_TOKEN_KEY);
+  }
+};
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers() {
+        const token = getSessionToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -12,3 +32,7 @@ export const trpc = createTRPCClient<AppRouter>({
         }),
   ],
 });
+
+// The rule a rejected slot broke, or null for any other error
+export const getSlotErrorCode = (error: unknown): SlotValidationErrorCode | null =>
+  error instanceof TRPCClientError ? (error.data?.slotErrorCode ?? null) : null;
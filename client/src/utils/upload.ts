@@ -0,0 +1,25 @@
+import type { ImageContentType, ImageUploadInput } from '../../../server/src/schema';
+
+export const IMAGE_ACCEPT = 'image/jpeg,image/png,image/webp';
+
+const IMAGE_CONTENT_TYPES: ImageContentType[] = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Uploads travel as base64 inside the tRPC payload; the server validates and re-encodes them
+export async function readImageFile(file: File): Promise<ImageUploadInput> {
+  const contentType = IMAGE_CONTENT_TYPES.find(type => type === file.type);
+  if (!contentType) {
+    throw new Error('Please choose a JPEG, PNG or WebP image');
+  }
+
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+  return {
+    content_type: contentType,
+    data: dataUrl.slice(dataUrl.indexOf(',') + 1)
+  };
+}
@@ -0,0 +1,46 @@
+import { sql } from 'drizzle-orm';
+import { db } from './index';
+
+// Constraints drizzle-kit cannot express. Every statement is idempotent, so this runs after each push.
+const STATEMENTS = [
+  sql`create extension if not exists btree_gist`,
+  // Two slots of the same field may touch but never overlap
+  sql`alter table field_slots drop constraint if exists field_slots_no_overlap`,
+  sql`alter table field_slots add constraint field_slots_no_overlap
+    exclude using gist (field_id with =, tsrange(start_time, end_time) with &&)`
+];
+
+// Existing slots that would keep the time-order check (pushed by drizzle-kit) or the overlap
+// exclusion from being added: reversed or empty slots, and pairs of overlapping slots on one field.
+// Each conflict is described on one line so the owner of the deployment can fix or remove the rows.
+export const findSlotConflicts = async (): Promise<string[]> => {
+  const table = await db.execute(sql`select to_regclass('public.field_slots') as name`);
+  if (table.rows[0]['name'] === null) {
+    return []; // Fresh database, nothing to check
+  }
+
+  const reversed = await db.execute(sql`
+    select id, field_id, start_time, end_time from field_slots
+    where end_time <= start_time
+    order by id`);
+
+  const overlapping = await db.execute(sql`
+    select a.id as first_id, b.id as second_id, a.field_id from field_slots a
+    join field_slots b on b.field_id = a.field_id and b.id > a.id
+      and b.start_time < a.end_time and a.start_time < b.end_time
+    where a.end_time > a.start_time and b.end_time > b.start_time
+    order by a.id, b.id`);
+
+  return [
+    ...reversed.rows.map(row =>
+      `Slot ${row['id']} of field ${row['field_id']} does not end after it starts (${row['start_time']} - ${row['end_time']})`),
+    ...overlapping.rows.map(row =>
+      `Slots ${row['first_id']} and ${row['second_id']} of field ${row['field_id']} overlap`)
+  ];
+};
+
+export const applyDatabaseConstraints = async () => {
+  for (const statement of STATEMENTS) {
+    await db.execute(statement);
+  }
+};
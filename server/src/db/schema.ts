@@ -1,11 +1,29 @@
-import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, jsonb, doublePrecision, check, unique } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { type PriceAdjustment } from '../schema';
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['player', 'field_owner', 'admin']);
 export const matchRequestTypeEnum = pgEnum('match_request_type', ['find_opponent', 'find_players']);
 export const bookingStatusEnum = pgEnum('booking_status', ['pending', 'confirmed', 'cancelled']);
 export const interestTypeEnum = pgEnum('interest_type', ['match_request', 'field_slot']);
+export const auditActionEnum = pgEnum('audit_action', [
+  'user.login',
+  'user.role_changed',
+  'user.suspended',
+  'user.unsuspended',
+  'user.password_reset_forced',
+  'booking.status_changed',
+  'booking.moved',
+  'team.member_removed',
+  'field.price_changed'
+]);
+export const apiKeyScopeEnum = pgEnum('api_key_scope', ['slots:read', 'slots:write', 'bookings:read', 'bookings:write']);
+export const auditEntityTypeEnum = pgEnum('audit_entity_type', ['user', 'booking', 'team', 'field']);
+export const fieldSurfaceEnum = pgEnum('field_surface', ['artificial_turf', 'natural_grass', 'hybrid', 'hard_court']);
+export const fieldFormatEnum = pgEnum('field_format', ['5v5', '7v7', '9v9', '11v11']);
+export const pricingRuleTypeEnum = pgEnum('pricing_rule_type', ['peak', 'off_peak', 'weekend', 'holiday', 'last_minute']);
+export const fieldAmenityEnum = pgEnum('field_amenity', ['floodlights', 'changing_rooms', 'showers', 'parking', 'equipment_hire', 'cafe']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -17,32 +35,269 @@ export const usersTable = pgTable('users', {
   role: userRoleEnum('role').notNull(),
   phone: text('phone'),
   avatar_url: text('avatar_url'),
+  avatar_thumbnail_url: text('avatar_thumbnail_url'),
+  email_verified_at: timestamp('email_verified_at'),
+  two_factor_enabled_at: timestamp('two_factor_enabled_at'), // Nullable - set once TOTP enrollment is confirmed
+  suspended_at: timestamp('suspended_at'), // Nullable - set by an admin to block login and all mutations
+  suspended_until: timestamp('suspended_until'), // Nullable - a suspension without an end date is a ban
+  suspension_reason: text('suspension_reason'),
+  deleted_at: timestamp('deleted_at'), // Nullable - set when the account is deleted and its row anonymized
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
-// Fields table
+// Sessions table - only a SHA-256 hash of the bearer token is stored
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  user_agent: text('user_agent'), // Nullable - recorded at login to label the device
+  ip_address: text('ip_address'), // Nullable - recorded at login
+  last_seen_at: timestamp('last_seen_at').defaultNow().notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Login attempts table - used to throttle failed logins per account and per IP
+export const loginAttemptsTable = pgTable('login_attempts', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull(),
+  ip_address: text('ip_address'),
+  succeeded: boolean('succeeded').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// API keys table - field owner credentials for integrations, stored hashed like sessions
+export const apiKeysTable = pgTable('api_keys', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  name: text('name').notNull(),
+  key_prefix: text('key_prefix').notNull(), // First characters of the key, shown so owners can tell keys apart
+  key_hash: text('key_hash').notNull().unique(),
+  scopes: apiKeyScopeEnum('scopes').array().notNull(),
+  last_used_at: timestamp('last_used_at'), // Nullable - null until the key is first used
+  revoked_at: timestamp('revoked_at'), // Nullable - revoked keys are kept so owners can see their history
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Calendar feeds table - secret iCalendar subscription URLs, stored hashed like API keys
+export const calendarFeedsTable = pgTable('calendar_feeds', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  field_id: integer('field_id').references(() => fieldsTable.id, { onDelete: 'cascade' }), // Nullable - null for the user's own bookings
+  token_hash: text('token_hash').notNull().unique(),
+  last_accessed_at: timestamp('last_accessed_at'), // Nullable - null until a calendar app first fetches it
+  revoked_at: timestamp('revoked_at'), // Nullable - set when revoked or replaced by a new URL
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Password reset tokens table - single use, stored hashed
+export const passwordResetTokensTable = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Email verification tokens table - bound to the address being verified
+export const emailVerificationTokensTable = pgTable('email_verification_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  email: text('email').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Two-factor credentials table - one TOTP secret per user, unconfirmed until the first code is checked
+export const twoFactorCredentialsTable = pgTable('two_factor_credentials', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull().unique(),
+  secret: text('secret').notNull(),
+  confirmed_at: timestamp('confirmed_at'),
+  last_used_step: integer('last_used_step'), // Nullable - last accepted TOTP time step, blocks code replay
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Two-factor recovery codes table - single use, stored hashed
+export const recoveryCodesTable = pgTable('two_factor_recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  code_hash: text('code_hash').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Two-factor challenges table - issued after a correct password, exchanged for a session with a valid code
+export const twoFactorChallengesTable = pgTable('two_factor_challenges', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  attempts: integer('attempts').notNull().default(0),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// App settings table - platform-wide policies edited by admins, keyed by name
+export const appSettingsTable = pgTable('app_settings', {
+  key: text('key').primaryKey(),
+  value: jsonb('value').notNull(),
+  updated_by: integer('updated_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Rate limit buckets table - shared token buckets for the Postgres rate limit store
+export const rateLimitBucketsTable = pgTable('rate_limit_buckets', {
+  key: text('key').primaryKey(), // e.g. "login:ip:203.0.113.7" or "sendMessage:user:42"
+  tokens: doublePrecision('tokens').notNull(),
+  refilled_at: timestamp('refilled_at').notNull()
+});
+
+// Audit events table - append-only record of sensitive changes, kept when the actor is deleted
+export const auditEventsTable = pgTable('audit_events', {
+  id: serial('id').primaryKey(),
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  action: auditActionEnum('action').notNull(),
+  entity_type: auditEntityTypeEnum('entity_type').notNull(),
+  entity_id: integer('entity_id').notNull(),
+  before: jsonb('before'), // Nullable - only the attributes that changed, as they were
+  after: jsonb('after'), // Nullable - the same attributes after the change
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Mail outbox table - default delivery target when no SMTP server is configured
+export const mailOutboxTable = pgTable('mail_outbox', {
+  id: serial('id').primaryKey(),
+  to: text('to').notNull(),
+  subject: text('subject').notNull(),
+  body: text('body').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Venues table - a site with one address and shared photos, amenities and opening hours for its pitches
+export const venuesTable = pgTable('venues', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').references(() => usersTable.id).notNull(),
+  name: text('name').notNull(),
+  address: text('address').notNull(),
+  description: text('description'),
+  latitude: doublePrecision('latitude'), // Nullable - as for fields
+  longitude: doublePrecision('longitude'),
+  amenities: fieldAmenityEnum('amenities').array().notNull().default([]),
+  timezone: text('timezone').notNull().default('UTC'), // IANA zone the opening hours are given in
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Venue photos table - gallery images shared by the venue's pitches, ordered by position
+export const venuePhotosTable = pgTable('venue_photos', {
+  id: serial('id').primaryKey(),
+  venue_id: integer('venue_id').references(() => venuesTable.id, { onDelete: 'cascade' }).notNull(),
+  url: text('url').notNull(),
+  thumbnail_url: text('thumbnail_url').notNull(),
+  width: integer('width').notNull(),
+  height: integer('height').notNull(),
+  position: integer('position').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Venue opening hours table - used by pitches that have no opening hours of their own
+export const venueOpeningHoursTable = pgTable('venue_opening_hours', {
+  id: serial('id').primaryKey(),
+  venue_id: integer('venue_id').references(() => venuesTable.id, { onDelete: 'cascade' }).notNull(),
+  day_of_week: integer('day_of_week').notNull(), // 0 = Sunday
+  opens_at: text('opens_at').notNull(), // HH:MM wall-clock time in the venue's timezone
+  closes_at: text('closes_at').notNull()
+});
+
+// Fields table - a bookable pitch. Pitches at a venue mirror its owner, address, location,
+// amenities and timezone; handlers/venues.ts keeps the copies in step.
 export const fieldsTable = pgTable('fields', {
   id: serial('id').primaryKey(),
   owner_id: integer('owner_id').references(() => usersTable.id).notNull(),
+  venue_id: integer('venue_id').references(() => venuesTable.id), // Nullable - a standalone pitch
   name: text('name').notNull(),
   address: text('address').notNull(),
   description: text('description'),
   hourly_rate: numeric('hourly_rate', { precision: 10, scale: 2 }).notNull(),
+  latitude: doublePrecision('latitude'), // Nullable - fields without coordinates are left out of distance searches
+  longitude: doublePrecision('longitude'),
+  surface: fieldSurfaceEnum('surface'), // Nullable - unknown until the owner fills it in
+  formats: fieldFormatEnum('formats').array().notNull().default([]), // Match formats the pitch can be set up for
+  is_indoor: boolean('is_indoor').notNull().default(false),
+  amenities: fieldAmenityEnum('amenities').array().notNull().default([]),
+  slot_length_minutes: integer('slot_length_minutes').notNull().default(60), // Length of generated slots
+  timezone: text('timezone').notNull().default('UTC'), // IANA zone the opening hours are given in
+  archived_at: timestamp('archived_at'), // Nullable - set while the field is archived and hidden from players
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Field photos table - gallery images, ordered by position
+export const fieldPhotosTable = pgTable('field_photos', {
+  id: serial('id').primaryKey(),
+  field_id: integer('field_id').references(() => fieldsTable.id, { onDelete: 'cascade' }).notNull(),
+  url: text('url').notNull(),
+  thumbnail_url: text('thumbnail_url').notNull(),
+  width: integer('width').notNull(),
+  height: integer('height').notNull(),
+  position: integer('position').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Field opening hours table - weekly recurring ranges used to generate slots
+export const fieldOpeningHoursTable = pgTable('field_opening_hours', {
+  id: serial('id').primaryKey(),
+  field_id: integer('field_id').references(() => fieldsTable.id, { onDelete: 'cascade' }).notNull(),
+  day_of_week: integer('day_of_week').notNull(), // 0 = Sunday
+  opens_at: text('opens_at').notNull(), // HH:MM wall-clock time in the field's timezone
+  closes_at: text('closes_at').notNull()
+});
+
+// Field closures table - periods the field is shut, e.g. maintenance or holidays
+export const fieldClosuresTable = pgTable('field_closures', {
+  id: serial('id').primaryKey(),
+  field_id: integer('field_id').references(() => fieldsTable.id, { onDelete: 'cascade' }).notNull(),
+  starts_at: timestamp('starts_at').notNull(),
+  ends_at: timestamp('ends_at').notNull(),
+  reason: text('reason'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Field pricing rules table - percentage adjustments on the base price of generated slots
+export const fieldPricingRulesTable = pgTable('field_pricing_rules', {
+  id: serial('id').primaryKey(),
+  field_id: integer('field_id').references(() => fieldsTable.id, { onDelete: 'cascade' }).notNull(),
+  type: pricingRuleTypeEnum('type').notNull(),
+  name: text('name').notNull(),
+  adjustment_percent: numeric('adjustment_percent', { precision: 6, scale: 2 }).notNull(), // Negative for discounts
+  days_of_week: integer('days_of_week').array().notNull().default([]), // Peak/off-peak: empty means every day
+  starts_at: text('starts_at'), // Peak/off-peak window, HH:MM in the field's timezone
+  ends_at: text('ends_at'),
+  holiday_date: text('holiday_date'), // Holiday: YYYY-MM-DD in the field's timezone
+  hours_before: integer('hours_before'), // Last-minute: applies this close to the start
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Field slots table
 export const fieldSlotsTable = pgTable('field_slots', {
   id: serial('id').primaryKey(),
-  field_id: integer('field_id').references(() => fieldsTable.id).notNull(),
+  field_id: integer('field_id').references(() => fieldsTable.id, { onDelete: 'cascade' }).notNull(),
   start_time: timestamp('start_time').notNull(),
   end_time: timestamp('end_time').notNull(),
   price: numeric('price', { precision: 10, scale: 2 }).notNull(),
+  base_price: numeric('base_price', { precision: 10, scale: 2 }), // Nullable - set when price was derived from pricing rules
+  price_adjustments: jsonb('price_adjustments').$type<PriceAdjustment[]>().notNull().default([]), // Rules applied on generation
   is_available: boolean('is_available').default(true).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
-});
+}, (table) => [
+  // Overlap between slots is prevented by field_slots_no_overlap in db/constraints.ts
+  check('field_slots_time_order', sql`${table.end_time} > ${table.start_time}`)
+]);
 
 // Teams table
 export const teamsTable = pgTable('teams', {
@@ -51,6 +306,8 @@ export const teamsTable = pgTable('teams', {
   name: text('name').notNull(),
   description: text('description'),
   skill_level: integer('skill_level').notNull(),
+  logo_url: text('logo_url'),
+  logo_thumbnail_url: text('logo_thumbnail_url'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -73,6 +330,8 @@ export const matchRequestsTable = pgTable('match_requests', {
   description: text('description'),
   preferred_date: timestamp('preferred_date'),
   preferred_location: text('preferred_location'),
+  preferred_latitude: doublePrecision('preferred_latitude'), // Nullable - set from the map or by geocoding preferred_location
+  preferred_longitude: doublePrecision('preferred_longitude'),
   skill_level: integer('skill_level').notNull(),
   max_fee: numeric('max_fee', { precision: 10, scale: 2 }),
   players_needed: integer('players_needed'),
@@ -100,7 +359,7 @@ export const interestsTable = pgTable('interests', {
   user_id: integer('user_id').references(() => usersTable.id).notNull(),
   type: interestTypeEnum('type').notNull(),
   match_request_id: integer('match_request_id').references(() => matchRequestsTable.id),
-  field_slot_id: integer('field_slot_id').references(() => fieldSlotsTable.id),
+  field_slot_id: integer('field_slot_id').references(() => fieldSlotsTable.id, { onDelete: 'cascade' }),
   message: text('message'),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
@@ -125,8 +384,33 @@ export const ratingsTable = pgTable('ratings', {
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Field reviews table - scores from 1 to 5 by players who have played there, one review per player and field
+export const fieldReviewsTable = pgTable('field_reviews', {
+  id: serial('id').primaryKey(),
+  field_id: integer('field_id').references(() => fieldsTable.id, { onDelete: 'cascade' }).notNull(),
+  author_id: integer('author_id').references(() => usersTable.id).notNull(),
+  pitch_quality: integer('pitch_quality').notNull(),
+  facilities: integer('facilities').notNull(),
+  value: integer('value').notNull(),
+  comment: text('comment'), // Nullable
+  owner_reply: text('owner_reply'), // Nullable - until the field's owner answers
+  replied_at: timestamp('replied_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('field_reviews_field_author').on(table.field_id, table.author_id),
+  check('field_reviews_scores', sql`${table.pitch_quality} between 1 and 5 and ${table.facilities} between 1 and 5 and ${table.value} between 1 and 5`)
+]);
+
 // Relations
 export const usersRelations = relations(usersTable, ({ many, one }) => ({
+  sessions: many(sessionsTable),
+  apiKeys: many(apiKeysTable),
+  calendarFeeds: many(calendarFeedsTable),
+  passwordResetTokens: many(passwordResetTokensTable),
+  emailVerificationTokens: many(emailVerificationTokensTable),
+  recoveryCodes: many(recoveryCodesTable),
+  twoFactorChallenges: many(twoFactorChallengesTable),
+  venues: many(venuesTable),
   fields: many(fieldsTable),
   teams: many(teamsTable),
   teamMemberships: many(teamMembersTable),
@@ -135,7 +419,99 @@ export const usersRelations = relations(usersTable, ({ many, one }) => ({
   interests: many(interestsTable),
   sentMessages: many(messagesTable, { relationName: 'sender' }),
   receivedMessages: many(messagesTable, { relationName: 'receiver' }),
-  ratings: many(ratingsTable)
+  ratings: many(ratingsTable),
+  fieldReviews: many(fieldReviewsTable)
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const apiKeysRelations = relations(apiKeysTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [apiKeysTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const calendarFeedsRelations = relations(calendarFeedsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [calendarFeedsTable.user_id],
+    references: [usersTable.id]
+  }),
+  field: one(fieldsTable, {
+    fields: [calendarFeedsTable.field_id],
+    references: [fieldsTable.id]
+  })
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [passwordResetTokensTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const emailVerificationTokensRelations = relations(emailVerificationTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [emailVerificationTokensTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const twoFactorCredentialsRelations = relations(twoFactorCredentialsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [twoFactorCredentialsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [recoveryCodesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const twoFactorChallengesRelations = relations(twoFactorChallengesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [twoFactorChallengesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const auditEventsRelations = relations(auditEventsTable, ({ one }) => ({
+  actor: one(usersTable, {
+    fields: [auditEventsTable.actor_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const venuesRelations = relations(venuesTable, ({ one, many }) => ({
+  owner: one(usersTable, {
+    fields: [venuesTable.owner_id],
+    references: [usersTable.id]
+  }),
+  pitches: many(fieldsTable),
+  photos: many(venuePhotosTable),
+  openingHours: many(venueOpeningHoursTable)
+}));
+
+export const venuePhotosRelations = relations(venuePhotosTable, ({ one }) => ({
+  venue: one(venuesTable, {
+    fields: [venuePhotosTable.venue_id],
+    references: [venuesTable.id]
+  })
+}));
+
+export const venueOpeningHoursRelations = relations(venueOpeningHoursTable, ({ one }) => ({
+  venue: one(venuesTable, {
+    fields: [venueOpeningHoursTable.venue_id],
+    references: [venuesTable.id]
+  })
 }));
 
 export const fieldsRelations = relations(fieldsTable, ({ one, many }) => ({
@@ -143,7 +519,45 @@ export const fieldsRelations = relations(fieldsTable, ({ one, many }) => ({
     fields: [fieldsTable.owner_id],
     references: [usersTable.id]
   }),
-  slots: many(fieldSlotsTable)
+  venue: one(venuesTable, {
+    fields: [fieldsTable.venue_id],
+    references: [venuesTable.id]
+  }),
+  slots: many(fieldSlotsTable),
+  photos: many(fieldPhotosTable),
+  openingHours: many(fieldOpeningHoursTable),
+  closures: many(fieldClosuresTable),
+  pricingRules: many(fieldPricingRulesTable),
+  calendarFeeds: many(calendarFeedsTable),
+  reviews: many(fieldReviewsTable)
+}));
+
+export const fieldPhotosRelations = relations(fieldPhotosTable, ({ one }) => ({
+  field: one(fieldsTable, {
+    fields: [fieldPhotosTable.field_id],
+    references: [fieldsTable.id]
+  })
+}));
+
+export const fieldOpeningHoursRelations = relations(fieldOpeningHoursTable, ({ one }) => ({
+  field: one(fieldsTable, {
+    fields: [fieldOpeningHoursTable.field_id],
+    references: [fieldsTable.id]
+  })
+}));
+
+export const fieldClosuresRelations = relations(fieldClosuresTable, ({ one }) => ({
+  field: one(fieldsTable, {
+    fields: [fieldClosuresTable.field_id],
+    references: [fieldsTable.id]
+  })
+}));
+
+export const fieldPricingRulesRelations = relations(fieldPricingRulesTable, ({ one }) => ({
+  field: one(fieldsTable, {
+    fields: [fieldPricingRulesTable.field_id],
+    references: [fieldsTable.id]
+  })
 }));
 
 export const fieldSlotsRelations = relations(fieldSlotsTable, ({ one, many }) => ({
@@ -243,10 +657,41 @@ export const ratingsRelations = relations(ratingsTable, ({ one }) => ({
   })
 }));
 
+export const fieldReviewsRelations = relations(fieldReviewsTable, ({ one }) => ({
+  field: one(fieldsTable, {
+    fields: [fieldReviewsTable.field_id],
+    references: [fieldsTable.id]
+  }),
+  author: one(usersTable, {
+    fields: [fieldReviewsTable.author_id],
+    references: [usersTable.id]
+  })
+}));
+
 // Export all tables and relations for proper query building
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
+  loginAttempts: loginAttemptsTable,
+  apiKeys: apiKeysTable,
+  calendarFeeds: calendarFeedsTable,
+  passwordResetTokens: passwordResetTokensTable,
+  emailVerificationTokens: emailVerificationTokensTable,
+  twoFactorCredentials: twoFactorCredentialsTable,
+  recoveryCodes: recoveryCodesTable,
+  twoFactorChallenges: twoFactorChallengesTable,
+  appSettings: appSettingsTable,
+  rateLimitBuckets: rateLimitBucketsTable,
+  auditEvents: auditEventsTable,
+  mailOutbox: mailOutboxTable,
+  venues: venuesTable,
+  venuePhotos: venuePhotosTable,
+  venueOpeningHours: venueOpeningHoursTable,
   fields: fieldsTable,
+  fieldPhotos: fieldPhotosTable,
+  fieldOpeningHours: fieldOpeningHoursTable,
+  fieldClosures: fieldClosuresTable,
+  fieldPricingRules: fieldPricingRulesTable,
   fieldSlots: fieldSlotsTable,
   teams: teamsTable,
   teamMembers: teamMembersTable,
@@ -254,5 +699,6 @@ export const tables = {
   bookings: bookingsTable,
   interests: interestsTable,
   messages: messagesTable,
-  ratings: ratingsTable
-};
\ No newline at end of file
+  ratings: ratingsTable,
+  fieldReviews: fieldReviewsTable
+};
@@ -0,0 +1,64 @@
+import { type GeoPoint } from './schema';
+
+export interface Geocoder {
+  // Resolves a free-text address, or null when it cannot be placed
+  geocode(address: string): Promise<GeoPoint | null>;
+}
+
+// Matches a parenthesised "(lat, lng)" pair with decimals, e.g. "Riverside Park (51.5072, -0.1276)".
+// Bare number pairs are left alone: "Unit 12, 45 Main Street" is a street address, not a location.
+const COORDINATES_PATTERN = /\((-?\d{1,2}\.\d+)\s*,\s*(-?\d{1,3}\.\d+)\)/;
+
+// Default geocoder: works offline by reading coordinates written into the address itself
+export const offlineGeocoder: Geocoder = {
+  async geocode(address) {
+    const match = COORDINATES_PATTERN.exec(address);
+    if (!match) {
+      return null;
+    }
+
+    const latitude = parseFloat(match[1]);
+    const longitude = parseFloat(match[2]);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return null;
+    }
+
+    return { latitude, longitude };
+  }
+};
+
+let activeGeocoder: Geocoder = offlineGeocoder;
+
+export const getGeocoder = (): Geocoder => activeGeocoder;
+
+// Swap in a real provider (Nominatim, Google, Mapbox) at startup
+export const setGeocoder = (geocoder: Geocoder): void => {
+  activeGeocoder = geocoder;
+};
+
+// Coordinates given by the caller win; otherwise the text is geocoded.
+// A provider outage must not block saving, so failures resolve to null.
+export async function resolveLocation(
+  latitude: number | null | undefined,
+  longitude: number | null | undefined,
+  text: string | null | undefined
+): Promise<GeoPoint | null> {
+  if ((latitude == null) !== (longitude == null)) {
+    throw new Error('Latitude and longitude must be provided together');
+  }
+
+  if (latitude != null && longitude != null) {
+    return { latitude, longitude };
+  }
+
+  if (!text) {
+    return null;
+  }
+
+  try {
+    return await activeGeocoder.geocode(text);
+  } catch (error) {
+    console.error('Geocoding failed:', error);
+    return null;
+  }
+}
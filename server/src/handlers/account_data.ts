@@ -0,0 +1,239 @@
+import { db } from '../db';
+import {
+  apiKeysTable,
+  bookingsTable,
+  calendarFeedsTable,
+  emailVerificationTokensTable,
+  fieldSlotsTable,
+  fieldsTable,
+  interestsTable,
+  loginAttemptsTable,
+  matchRequestsTable,
+  messagesTable,
+  passwordResetTokensTable,
+  ratingsTable,
+  recoveryCodesTable,
+  sessionsTable,
+  teamMembersTable,
+  teamsTable,
+  twoFactorChallengesTable,
+  twoFactorCredentialsTable,
+  usersTable
+} from '../db/schema';
+import { type AccountExport, type DeleteMyAccountInput } from '../schema';
+import { and, asc, count, eq, gt, inArray, isNull, ne, or } from 'drizzle-orm';
+import { generateToken } from '../utils/tokens';
+import { deleteStoredImages, deleteStoredImagesUnder } from '../utils/images';
+import { toPublicUser } from '../utils/users';
+import { getMatchRequestsByUser } from './get_match_requests';
+import { getBookingsByUser } from './get_bookings';
+import { getInterestsByUser } from './get_interests';
+import { getFieldReviewsByAuthor } from './field_reviews';
+import { avatarPrefix } from './upload_images';
+import { getUserById } from './get_user';
+
+export async function exportMyData(userId: number): Promise<AccountExport> {
+  try {
+    const profile = toPublicUser(await getUserById(userId));
+
+    const [teams, memberships, match_requests, bookings, interests, messages, ratings, field_reviews] = await Promise.all([
+      db.select().from(teamsTable).where(eq(teamsTable.captain_id, userId)).execute(),
+      db.select().from(teamMembersTable).where(eq(teamMembersTable.user_id, userId)).execute(),
+      getMatchRequestsByUser(userId),
+      getBookingsByUser(userId),
+      getInterestsByUser(userId),
+      db.select()
+        .from(messagesTable)
+        .where(or(eq(messagesTable.sender_id, userId), eq(messagesTable.receiver_id, userId)))
+        .orderBy(asc(messagesTable.created_at))
+        .execute(),
+      db.select().from(ratingsTable).where(eq(ratingsTable.rater_id, userId)).execute(),
+      getFieldReviewsByAuthor(userId)
+    ]);
+
+    return {
+      exported_at: new Date(),
+      profile,
+      teams,
+      memberships,
+      match_requests,
+      bookings,
+      interests,
+      messages,
+      ratings,
+      field_reviews
+    };
+  } catch (error) {
+    console.error('Data export failed:', error);
+    throw error;
+  }
+}
+
+// The user row is kept as an anonymous placeholder, so the other side of their messages,
+// ratings and past bookings stays intact but no longer points at a person.
+export async function deleteMyAccount(input: DeleteMyAccountInput, userId: number): Promise<boolean> {
+  try {
+    const user = await getUserById(userId);
+
+    if (!await Bun.password.verify(input.current_password, user.password_hash)) {
+      throw new Error('Current password is incorrect');
+    }
+
+    const now = new Date();
+
+    const futureConfirmedBookings = await db.select({ total: count() })
+      .from(bookingsTable)
+      .innerJoin(fieldSlotsTable, eq(bookingsTable.slot_id, fieldSlotsTable.id))
+      .where(and(
+        eq(bookingsTable.user_id, userId),
+        eq(bookingsTable.status, 'confirmed'),
+        gt(fieldSlotsTable.start_time, now)
+      ))
+      .execute();
+
+    if (futureConfirmedBookings[0].total > 0) {
+      throw new Error('You have upcoming confirmed bookings - cancel them or wait until they are over before deleting your account');
+    }
+
+    // Players keep playing on these fields, so they have to be archived, deleted or handed over first.
+    // Archived fields stay behind with the placeholder owner
+    const activeFields = await db.select({ total: count() })
+      .from(fieldsTable)
+      .where(and(eq(fieldsTable.owner_id, userId), isNull(fieldsTable.archived_at)))
+      .execute();
+
+    if (activeFields[0].total > 0) {
+      throw new Error('You still own active fields - archive or delete them, or contact support to transfer them, before deleting your account');
+    }
+
+    const upcomingFieldBookings = await db.select({ total: count() })
+      .from(bookingsTable)
+      .innerJoin(fieldSlotsTable, eq(bookingsTable.slot_id, fieldSlotsTable.id))
+      .innerJoin(fieldsTable, eq(fieldSlotsTable.field_id, fieldsTable.id))
+      .where(and(
+        eq(fieldsTable.owner_id, userId),
+        inArray(bookingsTable.status, ['pending', 'confirmed']),
+        gt(fieldSlotsTable.end_time, now)
+      ))
+      .execute();
+
+    if (upcomingFieldBookings[0].total > 0) {
+      throw new Error('Your archived fields still have upcoming bookings - wait until they are over before deleting your account');
+    }
+
+    if (user.role === 'admin') {
+      const admins = await db.select({ total: count() })
+        .from(usersTable)
+        .where(and(eq(usersTable.role, 'admin'), ne(usersTable.id, userId), isNull(usersTable.deleted_at)))
+        .execute();
+
+      if (admins[0].total === 0) {
+        throw new Error('You are the only admin - promote another admin before deleting your account');
+      }
+    }
+
+    const disbandedLogos = await db.transaction(async (tx) => {
+      const logos: (string | null)[] = [];
+      const captainedTeams = await tx.select()
+        .from(teamsTable)
+        .where(eq(teamsTable.captain_id, userId))
+        .execute();
+
+      for (const team of captainedTeams) {
+        // The longest-standing member takes over as captain
+        const successors = await tx.select()
+          .from(teamMembersTable)
+          .where(and(eq(teamMembersTable.team_id, team.id), ne(teamMembersTable.user_id, userId)))
+          .orderBy(asc(teamMembersTable.joined_at), asc(teamMembersTable.id))
+          .limit(1)
+          .execute();
+
+        if (successors.length > 0) {
+          await tx.update(teamsTable)
+            .set({ captain_id: successors[0].user_id, updated_at: now })
+            .where(eq(teamsTable.id, team.id))
+            .execute();
+          continue;
+        }
+
+        // Nobody left to take over: disband the team, keeping bookings and match requests without it
+        await tx.update(bookingsTable)
+          .set({ team_id: null, updated_at: now })
+          .where(eq(bookingsTable.team_id, team.id))
+          .execute();
+        await tx.update(matchRequestsTable)
+          .set({ team_id: null, is_active: false, updated_at: now })
+          .where(eq(matchRequestsTable.team_id, team.id))
+          .execute();
+        await tx.delete(ratingsTable).where(eq(ratingsTable.rated_team_id, team.id)).execute();
+        await tx.delete(teamMembersTable).where(eq(teamMembersTable.team_id, team.id)).execute();
+        await tx.delete(teamsTable).where(eq(teamsTable.id, team.id)).execute();
+        logos.push(team.logo_url, team.logo_thumbnail_url);
+      }
+
+      await tx.delete(teamMembersTable).where(eq(teamMembersTable.user_id, userId)).execute();
+
+      await tx.update(matchRequestsTable)
+        .set({ is_active: false, updated_at: now })
+        .where(eq(matchRequestsTable.creator_id, userId))
+        .execute();
+
+      await tx.delete(interestsTable).where(eq(interestsTable.user_id, userId)).execute();
+
+      // Pending requests for future slots are withdrawn; past bookings stay in the owners' records
+      const futureSlots = tx.select({ id: fieldSlotsTable.id })
+        .from(fieldSlotsTable)
+        .where(gt(fieldSlotsTable.start_time, now));
+      await tx.update(bookingsTable)
+        .set({ status: 'cancelled', updated_at: now })
+        .where(and(
+          eq(bookingsTable.user_id, userId),
+          eq(bookingsTable.status, 'pending'),
+          inArray(bookingsTable.slot_id, futureSlots)
+        ))
+        .execute();
+
+      await tx.delete(sessionsTable).where(eq(sessionsTable.user_id, userId)).execute();
+      await tx.delete(apiKeysTable).where(eq(apiKeysTable.user_id, userId)).execute();
+      await tx.delete(calendarFeedsTable).where(eq(calendarFeedsTable.user_id, userId)).execute();
+      await tx.delete(twoFactorCredentialsTable).where(eq(twoFactorCredentialsTable.user_id, userId)).execute();
+      await tx.delete(recoveryCodesTable).where(eq(recoveryCodesTable.user_id, userId)).execute();
+      await tx.delete(twoFactorChallengesTable).where(eq(twoFactorChallengesTable.user_id, userId)).execute();
+      await tx.delete(passwordResetTokensTable).where(eq(passwordResetTokensTable.user_id, userId)).execute();
+      await tx.delete(emailVerificationTokensTable).where(eq(emailVerificationTokensTable.user_id, userId)).execute();
+      await tx.delete(loginAttemptsTable).where(eq(loginAttemptsTable.email, user.email)).execute();
+
+      await tx.update(usersTable)
+        .set({
+          // .invalid is reserved, so the placeholder can never receive mail or collide with a real signup
+          email: `deleted-user-${userId}@deleted.invalid`,
+          password_hash: await Bun.password.hash(generateToken()),
+          first_name: 'Deleted',
+          last_name: 'User',
+          role: 'player', // A placeholder must never keep admin or owner rights
+          phone: null,
+          avatar_url: null,
+          avatar_thumbnail_url: null,
+          email_verified_at: null,
+          two_factor_enabled_at: null,
+          suspended_at: null,
+          suspended_until: null,
+          suspension_reason: null,
+          deleted_at: now,
+          updated_at: now
+        })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      return logos;
+    });
+
+    await deleteStoredImagesUnder(avatarPrefix(userId), user.avatar_url, user.avatar_thumbnail_url);
+    await deleteStoredImages(...disbandedLogos);
+
+    return true;
+  } catch (error) {
+    console.error('Account deletion failed:', error);
+    throw error;
+  }
+}
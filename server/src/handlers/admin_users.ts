@@ -0,0 +1,241 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import {
+  type ChangeUserRoleInput,
+  type PublicUser,
+  type SearchUsersInput,
+  type SearchUsersResult,
+  type SuspendUserInput,
+  type User,
+  type UserOverview
+} from '../schema';
+import { and, asc, count, eq, gt, ilike, isNotNull, isNull, or, sql, type SQL } from 'drizzle-orm';
+import { generateToken } from '../utils/tokens';
+import { requestPasswordReset } from './password_reset';
+import { getTeamsByUser } from './get_teams';
+import { getFieldsByOwner } from './get_fields';
+import { getBookingsByUser } from './get_bookings';
+import { recordAuditEvent } from './audit_log';
+import { toPublicUser } from '../utils/users';
+import { getUserById } from './get_user';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+export async function searchUsers(input: SearchUsersInput): Promise<SearchUsersResult> {
+  try {
+    const conditions: SQL[] = [];
+
+    if (input.query) {
+      const pattern = `%${input.query.trim()}%`;
+      conditions.push(or(
+        ilike(usersTable.email, pattern),
+        ilike(usersTable.first_name, pattern),
+        ilike(usersTable.last_name, pattern),
+        ilike(sql`${usersTable.first_name} || ' ' || ${usersTable.last_name}`, pattern)
+      )!);
+    }
+
+    if (input.role) {
+      conditions.push(eq(usersTable.role, input.role));
+    }
+
+    // Mirrors isSuspended: expired suspensions count as active accounts
+    const activeSuspension = and(
+      isNotNull(usersTable.suspended_at),
+      or(isNull(usersTable.suspended_until), gt(usersTable.suspended_until, new Date()))
+    )!;
+    if (input.suspended === true) {
+      conditions.push(activeSuspension);
+    } else if (input.suspended === false) {
+      conditions.push(sql`not (${activeSuspension})`);
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [users, totals] = await Promise.all([
+      db.select()
+        .from(usersTable)
+        .where(where)
+        .orderBy(asc(usersTable.email))
+        .limit(input.limit ?? DEFAULT_SEARCH_LIMIT)
+        .offset(input.offset ?? 0)
+        .execute(),
+      db.select({ total: count() })
+        .from(usersTable)
+        .where(where)
+        .execute()
+    ]);
+
+    return {
+      users: users.map(toPublicUser),
+      total: totals[0].total
+    };
+  } catch (error) {
+    console.error('User search failed:', error);
+    throw error;
+  }
+}
+
+const suspensionFields = (user: User) => ({
+  suspended_at: user.suspended_at,
+  suspended_until: user.suspended_until,
+  suspension_reason: user.suspension_reason
+});
+
+export async function changeUserRole(input: ChangeUserRoleInput, adminId: number): Promise<PublicUser> {
+  try {
+    // Prevents the last admin from accidentally locking everyone out of the console
+    if (input.user_id === adminId) {
+      throw new Error('You cannot change your own role');
+    }
+
+    const user = await getUserById(input.user_id);
+
+    const result = await db.update(usersTable)
+      .set({ role: input.role, updated_at: new Date() })
+      .where(eq(usersTable.id, input.user_id))
+      .returning()
+      .execute();
+
+    if (user.role !== input.role) {
+      await recordAuditEvent({
+        actorId: adminId,
+        action: 'user.role_changed',
+        entityType: 'user',
+        entityId: input.user_id,
+        before: { role: user.role },
+        after: { role: input.role }
+      });
+    }
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('Role change failed:', error);
+    throw error;
+  }
+}
+
+export async function suspendUser(input: SuspendUserInput, adminId: number): Promise<PublicUser> {
+  try {
+    if (input.user_id === adminId) {
+      throw new Error('You cannot suspend your own account');
+    }
+
+    if (input.until && input.until <= new Date()) {
+      throw new Error('Suspension end date must be in the future');
+    }
+
+    const user = await getUserById(input.user_id);
+
+    const result = await db.update(usersTable)
+      .set({
+        suspended_at: new Date(),
+        suspended_until: input.until ?? null,
+        suspension_reason: input.reason,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, input.user_id))
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      actorId: adminId,
+      action: 'user.suspended',
+      entityType: 'user',
+      entityId: input.user_id,
+      before: suspensionFields(user),
+      after: suspensionFields(result[0])
+    });
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('User suspension failed:', error);
+    throw error;
+  }
+}
+
+export async function unsuspendUser(userId: number, adminId: number): Promise<PublicUser> {
+  try {
+    const user = await getUserById(userId);
+
+    const result = await db.update(usersTable)
+      .set({
+        suspended_at: null,
+        suspended_until: null,
+        suspension_reason: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    if (user.suspended_at !== null) {
+      await recordAuditEvent({
+        actorId: adminId,
+        action: 'user.unsuspended',
+        entityType: 'user',
+        entityId: userId,
+        before: suspensionFields(user),
+        after: suspensionFields(result[0])
+      });
+    }
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('User unsuspension failed:', error);
+    throw error;
+  }
+}
+
+// Locks the current password, signs the user out everywhere and emails them a reset link
+export async function forcePasswordReset(userId: number, adminId: number): Promise<boolean> {
+  try {
+    const user = await getUserById(userId);
+
+    const revokedSessions = await db.transaction(async (tx) => {
+      // A hash of a random value nobody knows, so the old password stops working immediately
+      await tx.update(usersTable)
+        .set({ password_hash: await Bun.password.hash(generateToken()), updated_at: new Date() })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      const revoked = await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.user_id, userId))
+        .returning({ id: sessionsTable.id })
+        .execute();
+
+      return revoked.length;
+    });
+
+    await recordAuditEvent({
+      actorId: adminId,
+      action: 'user.password_reset_forced',
+      entityType: 'user',
+      entityId: userId,
+      before: { active_sessions: revokedSessions },
+      after: { active_sessions: 0, password_locked: true }
+    });
+
+    return await requestPasswordReset({ email: user.email });
+  } catch (error) {
+    console.error('Forced password reset failed:', error);
+    throw error;
+  }
+}
+
+export async function getUserOverview(userId: number): Promise<UserOverview> {
+  try {
+    const user = await getUserById(userId);
+
+    const [teams, fields, bookings] = await Promise.all([
+      getTeamsByUser(userId),
+      getFieldsByOwner(userId),
+      getBookingsByUser(userId)
+    ]);
+
+    return { user: toPublicUser(user), teams, fields, bookings };
+  } catch (error) {
+    console.error('Failed to fetch user overview:', error);
+    throw error;
+  }
+}
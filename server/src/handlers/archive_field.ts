@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { fieldsTable } from '../db/schema';
+import { type Field } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+const setArchivedAt = async (fieldId: number, ownerId: number, archivedAt: Date | null, action: string): Promise<Field> => {
+  const existing = await db.select()
+    .from(fieldsTable)
+    .where(and(eq(fieldsTable.id, fieldId), eq(fieldsTable.owner_id, ownerId)))
+    .execute();
+
+  if (existing.length === 0) {
+    throw new Error(`Field not found or you do not have permission to ${action} it`);
+  }
+
+  // Archiving an archived field keeps the original date
+  const result = await db.update(fieldsTable)
+    .set({
+      archived_at: archivedAt && (existing[0].archived_at ?? archivedAt),
+      updated_at: new Date()
+    })
+    .where(eq(fieldsTable.id, fieldId))
+    .returning()
+    .execute();
+
+  // Convert numeric fields from string to number
+  return {
+    ...result[0],
+    hourly_rate: parseFloat(result[0].hourly_rate)
+  };
+};
+
+// Archived fields drop out of the public listings and can't take new bookings; existing bookings stand
+export async function archiveField(fieldId: number, ownerId: number): Promise<Field> {
+  try {
+    return await setArchivedAt(fieldId, ownerId, new Date(), 'archive');
+  } catch (error) {
+    console.error('Field archiving failed:', error);
+    throw error;
+  }
+}
+
+export async function unarchiveField(fieldId: number, ownerId: number): Promise<Field> {
+  try {
+    return await setArchivedAt(fieldId, ownerId, null, 'unarchive');
+  } catch (error) {
+    console.error('Field unarchiving failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,97 @@
+import { db } from '../db';
+import { auditEventsTable, usersTable } from '../db/schema';
+import {
+  type AuditAction,
+  type AuditEntityType,
+  type AuditEvent,
+  type AuditEventsResult,
+  type GetAuditEventsInput
+} from '../schema';
+import { and, count, desc, eq, gte, lte, type SQL } from 'drizzle-orm';
+
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+
+export interface AuditEventInput {
+  actorId: number | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: number;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// Called by the audited handlers once their change has been written
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  await db.insert(auditEventsTable)
+    .values({
+      actor_id: event.actorId,
+      action: event.action,
+      entity_type: event.entityType,
+      entity_id: event.entityId,
+      before: event.before ?? null,
+      after: event.after ?? null
+    })
+    .execute();
+}
+
+export async function getAuditEvents(input: GetAuditEventsInput): Promise<AuditEventsResult> {
+  try {
+    const conditions: SQL[] = [];
+
+    if (input.actor_id !== undefined) {
+      conditions.push(eq(auditEventsTable.actor_id, input.actor_id));
+    }
+
+    if (input.action) {
+      conditions.push(eq(auditEventsTable.action, input.action));
+    }
+
+    if (input.entity_type) {
+      conditions.push(eq(auditEventsTable.entity_type, input.entity_type));
+    }
+
+    if (input.entity_id !== undefined) {
+      conditions.push(eq(auditEventsTable.entity_id, input.entity_id));
+    }
+
+    if (input.from) {
+      conditions.push(gte(auditEventsTable.created_at, input.from));
+    }
+
+    if (input.to) {
+      conditions.push(lte(auditEventsTable.created_at, input.to));
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, totals] = await Promise.all([
+      db.select({
+        event: auditEventsTable,
+        actor_email: usersTable.email
+      })
+        .from(auditEventsTable)
+        .leftJoin(usersTable, eq(auditEventsTable.actor_id, usersTable.id))
+        .where(where)
+        .orderBy(desc(auditEventsTable.created_at), desc(auditEventsTable.id))
+        .limit(input.limit ?? DEFAULT_AUDIT_PAGE_SIZE)
+        .offset(input.offset ?? 0)
+        .execute(),
+      db.select({ total: count() })
+        .from(auditEventsTable)
+        .where(where)
+        .execute()
+    ]);
+
+    const events: AuditEvent[] = rows.map(({ event, actor_email }) => ({
+      ...event,
+      actor_email,
+      before: event.before as Record<string, unknown> | null,
+      after: event.after as Record<string, unknown> | null
+    }));
+
+    return { events, total: totals[0].total };
+  } catch (error) {
+    console.error('Failed to fetch audit events:', error);
+    throw error;
+  }
+}
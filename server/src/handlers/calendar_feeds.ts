@@ -0,0 +1,240 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { db } from '../db';
+import {
+  bookingsTable,
+  calendarFeedsTable,
+  fieldSlotsTable,
+  fieldsTable,
+  teamMembersTable,
+  teamsTable,
+  usersTable
+} from '../db/schema';
+import { type CalendarFeed, type CreateCalendarFeedInput, type CreatedCalendarFeed } from '../schema';
+import { and, asc, desc, eq, gte, inArray, isNull, lt, or, type SQL } from 'drizzle-orm';
+import { generateToken, hashToken } from '../utils/tokens';
+import { isSuspended } from '../utils/suspension';
+import { toICalendar, type CalendarEvent } from '../utils/ical';
+import { appUrl } from '../mailer';
+
+// Feeds are served by the API server under this prefix (see serveCalendarFeed)
+const FEED_PATH = '/calendar/';
+const FEED_URL_PATTERN = /^\/calendar\/([A-Za-z0-9_-]+)\.ics$/;
+
+// Bookings older than this drop out of the feed to keep it small
+export const FEED_HISTORY_DAYS = 90;
+
+// Calendar apps poll every few minutes, so last_accessed_at is refreshed at most hourly
+const LAST_ACCESSED_INTERVAL_MS = 60 * 60 * 1000;
+
+const STATUS_LABELS = { pending: 'Pending', confirmed: 'Confirmed', cancelled: 'Cancelled' } as const;
+const EVENT_STATUSES = { pending: 'TENTATIVE', confirmed: 'CONFIRMED', cancelled: 'CANCELLED' } as const;
+
+const toCalendarFeed = ({ token_hash: _tokenHash, ...feed }: typeof calendarFeedsTable.$inferSelect): CalendarFeed => feed;
+
+// The client reaches the API through the /api proxy
+export const calendarFeedUrl = (token: string): string => appUrl(`/api${FEED_PATH}${token}.ics`);
+
+// Creating a feed replaces any active one for the same calendar, so a leaked URL can be reset in one step
+export async function createCalendarFeed(input: CreateCalendarFeedInput, userId: number): Promise<CreatedCalendarFeed> {
+  try {
+    const fieldId = input.field_id ?? null;
+
+    if (fieldId !== null) {
+      const fields = await db.select({ id: fieldsTable.id })
+        .from(fieldsTable)
+        .where(and(eq(fieldsTable.id, fieldId), eq(fieldsTable.owner_id, userId)))
+        .execute();
+
+      if (fields.length === 0) {
+        throw new Error('Field not found or you do not have permission to share its calendar');
+      }
+    }
+
+    const token = generateToken();
+
+    const feed = await db.transaction(async (tx) => {
+      await tx.update(calendarFeedsTable)
+        .set({ revoked_at: new Date() })
+        .where(and(
+          eq(calendarFeedsTable.user_id, userId),
+          fieldId === null ? isNull(calendarFeedsTable.field_id) : eq(calendarFeedsTable.field_id, fieldId),
+          isNull(calendarFeedsTable.revoked_at)
+        ))
+        .execute();
+
+      const result = await tx.insert(calendarFeedsTable)
+        .values({ user_id: userId, field_id: fieldId, token_hash: hashToken(token) })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    return { feed: toCalendarFeed(feed), url: calendarFeedUrl(token) };
+  } catch (error) {
+    console.error('Calendar feed creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getMyCalendarFeeds(userId: number): Promise<CalendarFeed[]> {
+  try {
+    const results = await db.select()
+      .from(calendarFeedsTable)
+      .where(eq(calendarFeedsTable.user_id, userId))
+      .orderBy(desc(calendarFeedsTable.created_at), desc(calendarFeedsTable.id))
+      .execute();
+
+    return results.map(toCalendarFeed);
+  } catch (error) {
+    console.error('Failed to fetch calendar feeds:', error);
+    throw error;
+  }
+}
+
+export async function revokeCalendarFeed(feedId: number, userId: number): Promise<CalendarFeed> {
+  try {
+    const result = await db.update(calendarFeedsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(calendarFeedsTable.id, feedId),
+        eq(calendarFeedsTable.user_id, userId),
+        isNull(calendarFeedsTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Calendar feed not found');
+    }
+
+    return toCalendarFeed(result[0]);
+  } catch (error) {
+    console.error('Calendar feed revocation failed:', error);
+    throw error;
+  }
+}
+
+// Builds the .ics document for a feed token, or null when the token is unknown, revoked or its owner suspended
+export async function renderCalendarFeed(token: string, now: Date = new Date()): Promise<string | null> {
+  try {
+    const results = await db.select({ feed: calendarFeedsTable, user: usersTable })
+      .from(calendarFeedsTable)
+      .innerJoin(usersTable, eq(calendarFeedsTable.user_id, usersTable.id))
+      .where(and(eq(calendarFeedsTable.token_hash, hashToken(token)), isNull(calendarFeedsTable.revoked_at)))
+      .execute();
+
+    if (results.length === 0 || isSuspended(results[0].user, now)) {
+      return null;
+    }
+
+    const { feed, user } = results[0];
+
+    // A field feed shows every booking on the field; a personal one the user's bookings and their teams'
+    let scope: SQL | undefined;
+    let calendarName: string;
+    if (feed.field_id !== null) {
+      const fields = await db.select({ name: fieldsTable.name })
+        .from(fieldsTable)
+        .where(eq(fieldsTable.id, feed.field_id))
+        .execute();
+
+      scope = eq(fieldSlotsTable.field_id, feed.field_id);
+      calendarName = fields[0].name;
+    } else {
+      const captained = db.select({ id: teamsTable.id }).from(teamsTable).where(eq(teamsTable.captain_id, user.id));
+      const joined = db.select({ id: teamMembersTable.team_id }).from(teamMembersTable).where(eq(teamMembersTable.user_id, user.id));
+
+      scope = or(
+        eq(bookingsTable.user_id, user.id),
+        inArray(bookingsTable.team_id, captained),
+        inArray(bookingsTable.team_id, joined)
+      );
+      calendarName = 'My football bookings';
+    }
+
+    const rows = await db.select({
+      booking: bookingsTable,
+      slot: fieldSlotsTable,
+      field: fieldsTable,
+      team_name: teamsTable.name,
+      booker_first_name: usersTable.first_name,
+      booker_last_name: usersTable.last_name
+    })
+      .from(bookingsTable)
+      .innerJoin(fieldSlotsTable, eq(bookingsTable.slot_id, fieldSlotsTable.id))
+      .innerJoin(fieldsTable, eq(fieldSlotsTable.field_id, fieldsTable.id))
+      .innerJoin(usersTable, eq(bookingsTable.user_id, usersTable.id))
+      .leftJoin(teamsTable, eq(bookingsTable.team_id, teamsTable.id))
+      .where(and(scope, gte(fieldSlotsTable.start_time, new Date(now.getTime() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000))))
+      .orderBy(asc(fieldSlotsTable.start_time), asc(bookingsTable.id))
+      .execute();
+
+    const events: CalendarEvent[] = rows.map(({ booking, slot, field, team_name, booker_first_name, booker_last_name }) => {
+      const bookedBy = `${booker_first_name} ${booker_last_name}`;
+      const details = [
+        `Status: ${STATUS_LABELS[booking.status]}`,
+        ...(team_name ? [`Team: ${team_name}`] : []),
+        `Booked by: ${bookedBy}`,
+        `Price: $${booking.total_price}`,
+        ...(booking.notes ? [`Notes: ${booking.notes}`] : [])
+      ];
+
+      return {
+        uid: `booking-${booking.id}@turf-match-finder`,
+        start: slot.start_time,
+        end: slot.end_time,
+        summary: feed.field_id !== null
+          ? `⚽ ${team_name ?? bookedBy}`
+          : `⚽ ${field.name}${team_name ? ` (${team_name})` : ''}`,
+        description: details.join('\n'),
+        location: field.address,
+        status: EVENT_STATUSES[booking.status],
+        updated_at: booking.updated_at
+      };
+    });
+
+    await db.update(calendarFeedsTable)
+      .set({ last_accessed_at: now })
+      .where(and(
+        eq(calendarFeedsTable.id, feed.id),
+        or(
+          isNull(calendarFeedsTable.last_accessed_at),
+          lt(calendarFeedsTable.last_accessed_at, new Date(now.getTime() - LAST_ACCESSED_INTERVAL_MS))
+        )
+      ))
+      .execute();
+
+    return toICalendar(calendarName, events, now);
+  } catch (error) {
+    console.error('Failed to render calendar feed:', error);
+    throw error;
+  }
+}
+
+// HTTP middleware: answers GET /calendar/<token>.ics for calendar apps, which can't send a bearer token
+export async function serveCalendarFeed(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  if (req.method !== 'GET' || !req.url?.startsWith(FEED_PATH)) {
+    return false;
+  }
+
+  const match = FEED_URL_PATTERN.exec(req.url.split('?')[0]);
+
+  try {
+    const calendar = match ? await renderCalendarFeed(match[1]) : null;
+    if (!calendar) {
+      res.statusCode = 404;
+      res.end();
+      return true;
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.end(calendar);
+  } catch {
+    res.statusCode = 500;
+    res.end();
+  }
+
+  return true;
+}
@@ -1,7 +1,9 @@
 import { db } from '../db';
-import { bookingsTable, fieldSlotsTable, teamsTable, usersTable } from '../db/schema';
+import { bookingsTable, fieldSlotsTable, fieldsTable, teamsTable, usersTable } from '../db/schema';
 import { type CreateBookingInput, type Booking } from '../schema';
 import { eq, and } from 'drizzle-orm';
+import { quoteSlotPrice } from './pricing_rules';
+import { slotOutsideClosures } from './field_closures';
 
 export async function createBooking(input: CreateBookingInput, userId: number): Promise<Booking> {
   try {
@@ -30,6 +32,24 @@ export async function createBooking(input: CreateBookingInput, userId: number):
       throw new Error(`Field slot with id ${input.slot_id} is not available`);
     }
 
+    const fields = await db.select({ archived_at: fieldsTable.archived_at })
+      .from(fieldsTable)
+      .where(eq(fieldsTable.id, fieldSlot.field_id))
+      .execute();
+
+    if (fields[0].archived_at !== null) {
+      throw new Error('The field is archived and no longer takes bookings');
+    }
+
+    const open = await db.select({ id: fieldSlotsTable.id })
+      .from(fieldSlotsTable)
+      .where(and(eq(fieldSlotsTable.id, input.slot_id), slotOutsideClosures()))
+      .execute();
+
+    if (open.length === 0) {
+      throw new Error('The field is closed during this slot');
+    }
+
     // If team_id is provided, verify that the team exists and the user is a member
     if (input.team_id) {
       const team = await db.select()
@@ -71,8 +91,8 @@ export async function createBooking(input: CreateBookingInput, userId: number):
       }
     }
 
-    // Calculate total price from the slot price
-    const totalPrice = parseFloat(fieldSlot.price);
+    // Charge what the slot is quoted at now, which includes any last-minute discount
+    const { total: totalPrice } = await quoteSlotPrice(fieldSlot.id);
 
     // Create the booking
     const result = await db.insert(bookingsTable)
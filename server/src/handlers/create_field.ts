@@ -1,17 +1,53 @@
+import { db } from '../db';
+import { fieldsTable } from '../db/schema';
 import { type CreateFieldInput, type Field } from '../schema';
+import { resolveLocation } from '../geocoder';
+import { getOwnedVenue, sharedPitchAttributes } from './venues';
 
-export async function createField(input: CreateFieldInput, ownerId: number): Promise<Field> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to create a new field for a field owner
-  // and persist it in the database.
-  return Promise.resolve({
-    id: 0, // Placeholder ID
+// Resolves the address, location and amenities of a new field, taken from its venue when it has one
+const fieldLocation = async (input: CreateFieldInput, ownerId: number) => {
+  if (input.venue_id != null) {
+    const venue = await getOwnedVenue(input.venue_id, ownerId, 'add pitches to it');
+    return { venue_id: venue.id, ...sharedPitchAttributes(venue) };
+  }
+
+  if (!input.address) {
+    throw new Error('A field needs an address unless it is part of a venue');
+  }
+
+  const location = await resolveLocation(input.latitude, input.longitude, input.address);
+  return {
     owner_id: ownerId,
-    name: input.name,
     address: input.address,
-    description: input.description || null,
-    hourly_rate: input.hourly_rate,
-    created_at: new Date(),
-    updated_at: new Date()
-  } as Field);
-}
\ No newline at end of file
+    latitude: location?.latitude ?? null,
+    longitude: location?.longitude ?? null,
+    amenities: [...new Set(input.amenities ?? [])]
+  };
+};
+
+export async function createField(input: CreateFieldInput, ownerId: number): Promise<Field> {
+  try {
+    const result = await db.insert(fieldsTable)
+      .values({
+        ...await fieldLocation(input, ownerId),
+        name: input.name,
+        description: input.description || null,
+        hourly_rate: input.hourly_rate.toString(), // Convert number to string for numeric column
+        surface: input.surface ?? null,
+        formats: [...new Set(input.formats ?? [])],
+        is_indoor: input.is_indoor ?? false
+      })
+      .returning()
+      .execute();
+
+    // Convert numeric fields back to numbers before returning
+    const field = result[0];
+    return {
+      ...field,
+      hourly_rate: parseFloat(field.hourly_rate)
+    };
+  } catch (error) {
+    console.error('Field creation failed:', error);
+    throw error;
+  }
+}
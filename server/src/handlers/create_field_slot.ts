@@ -1,20 +1,26 @@
 import { db } from '../db';
 import { fieldSlotsTable, fieldsTable } from '../db/schema';
 import { type CreateFieldSlotInput, type FieldSlot } from '../schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
+import { rethrowSlotOverlap, validateSlotTimes } from '../utils/slot_validation';
 
-export const createFieldSlot = async (input: CreateFieldSlotInput): Promise<FieldSlot> => {
+export const createFieldSlot = async (input: CreateFieldSlotInput, ownerId: number): Promise<FieldSlot> => {
   try {
-    // Verify that the field exists
+    // Verify that the field exists and belongs to the owner
     const field = await db.select()
       .from(fieldsTable)
-      .where(eq(fieldsTable.id, input.field_id))
+      .where(and(
+        eq(fieldsTable.id, input.field_id),
+        eq(fieldsTable.owner_id, ownerId)
+      ))
       .execute();
 
     if (field.length === 0) {
-      throw new Error('Field not found');
+      throw new Error('Field not found or you do not have permission to add slots to it');
     }
 
+    validateSlotTimes(input.start_time, input.end_time);
+
     // Insert field slot record
     const result = await db.insert(fieldSlotsTable)
       .values({
@@ -25,13 +31,15 @@ export const createFieldSlot = async (input: CreateFieldSlotInput): Promise<Fiel
         is_available: true // Default value
       })
       .returning()
-      .execute();
+      .execute()
+      .catch(rethrowSlotOverlap);
 
     // Convert numeric fields back to numbers before returning
     const fieldSlot = result[0];
     return {
       ...fieldSlot,
-      price: parseFloat(fieldSlot.price) // Convert string back to number
+      price: parseFloat(fieldSlot.price), // Convert string back to number
+      base_price: null // Prices entered directly aren't derived from pricing rules
     };
   } catch (error) {
     console.error('Field slot creation failed:', error);
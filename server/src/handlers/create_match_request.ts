@@ -1,9 +1,12 @@
 import { db } from '../db';
 import { matchRequestsTable } from '../db/schema';
 import { type CreateMatchRequestInput, type MatchRequest } from '../schema';
+import { resolveLocation } from '../geocoder';
 
 export const createMatchRequest = async (input: CreateMatchRequestInput, creatorId: number): Promise<MatchRequest> => {
   try {
+    const location = await resolveLocation(input.preferred_latitude, input.preferred_longitude, input.preferred_location);
+
     // Insert match request record
     const result = await db.insert(matchRequestsTable)
       .values({
@@ -14,6 +17,8 @@ export const createMatchRequest = async (input: CreateMatchRequestInput, creator
         description: input.description || null,
         preferred_date: input.preferred_date || null,
         preferred_location: input.preferred_location || null,
+        preferred_latitude: location?.latitude ?? null,
+        preferred_longitude: location?.longitude ?? null,
         skill_level: input.skill_level,
         max_fee: input.max_fee ? input.max_fee.toString() : null, // Convert number to string for numeric column
         players_needed: input.players_needed || null,
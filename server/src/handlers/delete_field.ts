@@ -0,0 +1,80 @@
+import { db } from '../db';
+import { bookingsTable, fieldPhotosTable, fieldSlotsTable, fieldsTable } from '../db/schema';
+import { and, count, eq, gt, inArray } from 'drizzle-orm';
+import { deleteStoredImages } from '../utils/images';
+
+// Deletes the field with its slots and their interests, its cancelled and lapsed pending bookings, and
+// everything else hanging off it (photos, hours, closures, pricing rules, reviews, calendar feeds).
+// Confirmed bookings are payment and history records, so fields with any - and fields with upcoming
+// pending bookings - have to be archived instead
+export async function deleteField(fieldId: number, ownerId: number, now: Date = new Date()): Promise<boolean> {
+  try {
+    const photos = await db.transaction(async (tx) => {
+      // Locking the field, and its slots against new bookings (their foreign key check waits on the
+      // slot lock), keeps a booking from landing between the check below and the delete
+      const fields = await tx.select({ id: fieldsTable.id })
+        .from(fieldsTable)
+        .where(and(eq(fieldsTable.id, fieldId), eq(fieldsTable.owner_id, ownerId)))
+        .for('update')
+        .execute();
+
+      if (fields.length === 0) {
+        throw new Error('Field not found or you do not have permission to delete it');
+      }
+
+      await tx.select({ id: fieldSlotsTable.id })
+        .from(fieldSlotsTable)
+        .where(eq(fieldSlotsTable.field_id, fieldId))
+        .for('update')
+        .execute();
+
+      const confirmedBookings = await tx.select({ total: count() })
+        .from(bookingsTable)
+        .innerJoin(fieldSlotsTable, eq(bookingsTable.slot_id, fieldSlotsTable.id))
+        .where(and(eq(fieldSlotsTable.field_id, fieldId), eq(bookingsTable.status, 'confirmed')))
+        .execute();
+
+      if (confirmedBookings[0].total > 0) {
+        throw new Error('The field has confirmed bookings on record - archive it instead to keep their history');
+      }
+
+      const upcomingBookings = await tx.select({ total: count() })
+        .from(bookingsTable)
+        .innerJoin(fieldSlotsTable, eq(bookingsTable.slot_id, fieldSlotsTable.id))
+        .where(and(
+          eq(fieldSlotsTable.field_id, fieldId),
+          eq(bookingsTable.status, 'pending'),
+          gt(fieldSlotsTable.end_time, now)
+        ))
+        .execute();
+
+      if (upcomingBookings[0].total > 0) {
+        throw new Error('The field has upcoming bookings - archive it instead, or delete it once they are over');
+      }
+
+      const fieldSlots = tx.select({ id: fieldSlotsTable.id })
+        .from(fieldSlotsTable)
+        .where(eq(fieldSlotsTable.field_id, fieldId));
+      await tx.delete(bookingsTable).where(inArray(bookingsTable.slot_id, fieldSlots)).execute();
+
+      const removed = await tx.select()
+        .from(fieldPhotosTable)
+        .where(eq(fieldPhotosTable.field_id, fieldId))
+        .execute();
+
+      // Slots, their interests and the rest of the field's rows go with it
+      await tx.delete(fieldsTable).where(eq(fieldsTable.id, fieldId)).execute();
+
+      return removed;
+    });
+
+    for (const photo of photos) {
+      await deleteStoredImages(photo.url, photo.thumbnail_url);
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Field deletion failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,121 @@
+import { db } from '../db';
+import { emailVerificationTokensTable, usersTable } from '../db/schema';
+import { type PublicUser, type User, type VerifyEmailInput } from '../schema';
+import { and, count, desc, eq, gt, isNull } from 'drizzle-orm';
+import { generateToken, hashToken } from '../utils/tokens';
+import { appUrl, getMailer } from '../mailer';
+import { toPublicUser } from '../utils/users';
+import { getUserById } from './get_user';
+
+// Verification links are valid for 24 hours
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Resend throttling: one email per minute, at most five per day
+export const VERIFICATION_RESEND_INTERVAL_MS = 60 * 1000;
+export const MAX_VERIFICATION_EMAILS_PER_DAY = 5;
+
+export async function sendVerificationEmail(user: User): Promise<void> {
+  try {
+    const token = generateToken();
+
+    await db.insert(emailVerificationTokensTable)
+      .values({
+        user_id: user.id,
+        email: user.email,
+        token_hash: hashToken(token),
+        expires_at: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS)
+      })
+      .execute();
+
+    await getMailer().send({
+      to: user.email,
+      subject: 'Confirm your email address',
+      body: `Hi ${user.first_name},\n\n` +
+        `Please confirm your email address by opening the link below. It expires in 24 hours.\n\n` +
+        `${appUrl(`/?verify_token=${token}`)}`
+    });
+  } catch (error) {
+    console.error('Failed to send verification email:', error);
+    throw error;
+  }
+}
+
+export async function verifyEmail(input: VerifyEmailInput): Promise<PublicUser> {
+  try {
+    return await db.transaction(async (tx) => {
+      const claimed = await tx.update(emailVerificationTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(
+          eq(emailVerificationTokensTable.token_hash, hashToken(input.token)),
+          isNull(emailVerificationTokensTable.used_at),
+          gt(emailVerificationTokensTable.expires_at, new Date())
+        ))
+        .returning()
+        .execute();
+
+      if (claimed.length === 0) {
+        throw new Error('Invalid or expired verification token');
+      }
+
+      // A token only verifies the address it was sent to, not one the user has since switched to
+      const updated = await tx.update(usersTable)
+        .set({ email_verified_at: new Date(), updated_at: new Date() })
+        .where(and(
+          eq(usersTable.id, claimed[0].user_id),
+          eq(usersTable.email, claimed[0].email)
+        ))
+        .returning()
+        .execute();
+
+      if (updated.length === 0) {
+        throw new Error('Invalid or expired verification token');
+      }
+
+      return toPublicUser(updated[0]);
+    });
+  } catch (error) {
+    console.error('Email verification failed:', error);
+    throw error;
+  }
+}
+
+export async function resendVerificationEmail(userId: number): Promise<boolean> {
+  try {
+    const user = await getUserById(userId);
+
+    if (user.email_verified_at) {
+      throw new Error('Email is already verified');
+    }
+
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const [latest, sentToday] = await Promise.all([
+      db.select({ created_at: emailVerificationTokensTable.created_at })
+        .from(emailVerificationTokensTable)
+        .where(eq(emailVerificationTokensTable.user_id, userId))
+        .orderBy(desc(emailVerificationTokensTable.created_at))
+        .limit(1)
+        .execute(),
+      db.select({ total: count() })
+        .from(emailVerificationTokensTable)
+        .where(and(
+          eq(emailVerificationTokensTable.user_id, userId),
+          gt(emailVerificationTokensTable.created_at, dayAgo)
+        ))
+        .execute()
+    ]);
+
+    if (latest.length > 0 && Date.now() - latest[0].created_at.getTime() < VERIFICATION_RESEND_INTERVAL_MS) {
+      throw new Error('Please wait a minute before requesting another verification email');
+    }
+
+    if (sentToday[0].total >= MAX_VERIFICATION_EMAILS_PER_DAY) {
+      throw new Error('Too many verification emails requested today, please try again tomorrow');
+    }
+
+    await sendVerificationEmail(user);
+    return true;
+  } catch (error) {
+    console.error('Failed to resend verification email:', error);
+    throw error;
+  }
+}
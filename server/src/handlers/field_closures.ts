@@ -0,0 +1,190 @@
+import { db } from '../db';
+import { bookingsTable, fieldClosuresTable, fieldSlotsTable, fieldsTable, usersTable } from '../db/schema';
+import { type ClosureAffectedBooking, type CreateFieldClosureInput, type FieldClosure, type FieldSlot } from '../schema';
+import { and, asc, eq, gt, inArray, isNull, lt, ne, notExists, type SQL } from 'drizzle-orm';
+import { appUrl, getMailer } from '../mailer';
+import { formatZoned } from '../utils/time';
+import { slotNotBooked } from './get_bookings';
+
+// Alternatives offered to each holder of a booking hit by a closure, soonest first
+export const ALTERNATIVE_SLOTS_OFFERED = 5;
+
+const toFieldSlot = (slot: typeof fieldSlotsTable.$inferSelect): FieldSlot => ({
+  ...slot,
+  price: parseFloat(slot.price),
+  base_price: slot.base_price === null ? null : parseFloat(slot.base_price)
+});
+
+// Condition on fieldSlotsTable: the slot doesn't overlap any closure of its field
+export const slotOutsideClosures = (): SQL => notExists(
+  db.select({ id: fieldClosuresTable.id })
+    .from(fieldClosuresTable)
+    .where(and(
+      eq(fieldClosuresTable.field_id, fieldSlotsTable.field_id),
+      lt(fieldClosuresTable.starts_at, fieldSlotsTable.end_time),
+      gt(fieldClosuresTable.ends_at, fieldSlotsTable.start_time)
+    ))
+);
+
+export async function createFieldClosure(input: CreateFieldClosureInput, ownerId: number): Promise<FieldClosure> {
+  try {
+    const fields = await db.select()
+      .from(fieldsTable)
+      .where(and(eq(fieldsTable.id, input.field_id), eq(fieldsTable.owner_id, ownerId)))
+      .execute();
+
+    if (fields.length === 0) {
+      throw new Error('Field not found or you do not have permission to close it');
+    }
+
+    if (input.ends_at <= input.starts_at) {
+      throw new Error('A closure must end after it starts');
+    }
+
+    const field = fields[0];
+
+    const result = await db.insert(fieldClosuresTable)
+      .values({
+        field_id: input.field_id,
+        starts_at: input.starts_at,
+        ends_at: input.ends_at,
+        reason: input.reason || null
+      })
+      .returning()
+      .execute();
+
+    const closure = result[0];
+
+    // Let everyone holding an upcoming booking in the window know, so they can cancel or move it
+    const affected = await db.select({ slot: fieldSlotsTable, user: usersTable })
+      .from(bookingsTable)
+      .innerJoin(fieldSlotsTable, eq(bookingsTable.slot_id, fieldSlotsTable.id))
+      .innerJoin(usersTable, eq(bookingsTable.user_id, usersTable.id))
+      .where(and(
+        eq(fieldSlotsTable.field_id, field.id),
+        inArray(bookingsTable.status, ['pending', 'confirmed']),
+        lt(fieldSlotsTable.start_time, closure.ends_at),
+        gt(fieldSlotsTable.end_time, closure.starts_at),
+        gt(fieldSlotsTable.start_time, new Date())
+      ))
+      .orderBy(asc(fieldSlotsTable.start_time))
+      .execute();
+
+    for (const { slot, user } of affected) {
+      await getMailer().send({
+        to: user.email,
+        subject: `${field.name} is closed during your booking`,
+        body: `Hi ${user.first_name},\n\n` +
+          `${field.name} is closed from ${formatZoned(closure.starts_at, field.timezone)} ` +
+          `to ${formatZoned(closure.ends_at, field.timezone)}` +
+          `${closure.reason ? ` (${closure.reason})` : ''}, ` +
+          `which covers your booking on ${formatZoned(slot.start_time, field.timezone)}.\n\n` +
+          `You can cancel the booking or move it to another slot here:\n\n` +
+          `${appUrl('/')}`
+      });
+    }
+
+    return closure;
+  } catch (error) {
+    console.error('Field closure creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getFieldClosures(fieldId: number): Promise<FieldClosure[]> {
+  try {
+    return await db.select()
+      .from(fieldClosuresTable)
+      .where(eq(fieldClosuresTable.field_id, fieldId))
+      .orderBy(asc(fieldClosuresTable.starts_at))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch field closures:', error);
+    throw error;
+  }
+}
+
+export async function deleteFieldClosure(closureId: number, ownerId: number): Promise<boolean> {
+  try {
+    const closures = await db.select({ id: fieldClosuresTable.id })
+      .from(fieldClosuresTable)
+      .innerJoin(fieldsTable, eq(fieldClosuresTable.field_id, fieldsTable.id))
+      .where(and(eq(fieldClosuresTable.id, closureId), eq(fieldsTable.owner_id, ownerId)))
+      .execute();
+
+    if (closures.length === 0) {
+      throw new Error('Closure not found');
+    }
+
+    await db.delete(fieldClosuresTable).where(eq(fieldClosuresTable.id, closureId)).execute();
+
+    return true;
+  } catch (error) {
+    console.error('Field closure deletion failed:', error);
+    throw error;
+  }
+}
+
+// Open, unbooked slots a booking could move to: at the same field, or another pitch at the same venue
+const alternativeSlotConditions = (field: { id: number; venue_id: number | null }, now: Date): SQL[] => [
+  field.venue_id === null ? eq(fieldSlotsTable.field_id, field.id) : eq(fieldsTable.venue_id, field.venue_id),
+  isNull(fieldsTable.archived_at),
+  eq(fieldSlotsTable.is_available, true),
+  gt(fieldSlotsTable.start_time, now),
+  slotOutsideClosures(),
+  slotNotBooked()
+];
+
+// The user's upcoming pending and confirmed bookings that a closure has since covered
+export async function getClosureAffectedBookings(userId: number, now: Date = new Date()): Promise<ClosureAffectedBooking[]> {
+  try {
+    const rows = await db.select({ booking: bookingsTable, slot: fieldSlotsTable, field: fieldsTable, closure: fieldClosuresTable })
+      .from(bookingsTable)
+      .innerJoin(fieldSlotsTable, eq(bookingsTable.slot_id, fieldSlotsTable.id))
+      .innerJoin(fieldsTable, eq(fieldSlotsTable.field_id, fieldsTable.id))
+      .innerJoin(fieldClosuresTable, and(
+        eq(fieldClosuresTable.field_id, fieldSlotsTable.field_id),
+        lt(fieldClosuresTable.starts_at, fieldSlotsTable.end_time),
+        gt(fieldClosuresTable.ends_at, fieldSlotsTable.start_time)
+      ))
+      .where(and(
+        eq(bookingsTable.user_id, userId),
+        inArray(bookingsTable.status, ['pending', 'confirmed']),
+        gt(fieldSlotsTable.start_time, now)
+      ))
+      .orderBy(asc(fieldSlotsTable.start_time), asc(fieldClosuresTable.starts_at))
+      .execute();
+
+    const affected: ClosureAffectedBooking[] = [];
+    for (const { booking, slot, field, closure } of rows) {
+      // A booking covered by several closures is listed once, with the earliest
+      if (affected.some(entry => entry.booking.id === booking.id)) {
+        continue;
+      }
+
+      const alternatives = await db.select({ slot: fieldSlotsTable })
+        .from(fieldSlotsTable)
+        .innerJoin(fieldsTable, eq(fieldSlotsTable.field_id, fieldsTable.id))
+        .where(and(
+          ne(fieldSlotsTable.id, slot.id),
+          ...alternativeSlotConditions(field, now)
+        ))
+        .orderBy(asc(fieldSlotsTable.start_time), asc(fieldsTable.name))
+        .limit(ALTERNATIVE_SLOTS_OFFERED)
+        .execute();
+
+      affected.push({
+        booking: { ...booking, total_price: parseFloat(booking.total_price) },
+        slot: toFieldSlot(slot),
+        field_name: field.name,
+        closure,
+        alternative_slots: alternatives.map(row => toFieldSlot(row.slot))
+      });
+    }
+
+    return affected;
+  } catch (error) {
+    console.error('Failed to fetch bookings affected by closures:', error);
+    throw error;
+  }
+}
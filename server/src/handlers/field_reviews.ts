@@ -0,0 +1,182 @@
+import { db } from '../db';
+import { bookingsTable, fieldReviewsTable, fieldSlotsTable, fieldsTable, usersTable } from '../db/schema';
+import {
+  type CreateFieldReviewInput,
+  type FieldRatingSummary,
+  type FieldReview,
+  type FieldReviews,
+  type ReplyToFieldReviewInput
+} from '../schema';
+import { and, avg, count, desc, eq, lte, sql, type SQL } from 'drizzle-orm';
+
+// A review's overall rating is the mean of its three scores
+const reviewRatingSql = sql<number>`(${fieldReviewsTable.pitch_quality} + ${fieldReviewsTable.facilities} + ${fieldReviewsTable.value}) / 3.0`;
+
+const roundRating = (rating: number): number => Math.round(rating * 100) / 100;
+
+// avg() returns a string representation of decimal, or null without rows
+export const parseAverage = (average: string | null): number | null => average === null ? null : roundRating(parseFloat(average));
+
+// Average rating and review count per field, for joining onto field listings
+export const fieldRatingsSubquery = () => db.select({
+  field_id: fieldReviewsTable.field_id,
+  average_rating: sql<string | null>`avg(${reviewRatingSql})`.as('average_rating'),
+  review_count: count().as('review_count')
+})
+  .from(fieldReviewsTable)
+  .groupBy(fieldReviewsTable.field_id)
+  .as('field_ratings');
+
+const selectReviews = (where: SQL) => db.select({
+  review: fieldReviewsTable,
+  author_first_name: usersTable.first_name,
+  author_last_name: usersTable.last_name
+})
+  .from(fieldReviewsTable)
+  .innerJoin(usersTable, eq(fieldReviewsTable.author_id, usersTable.id))
+  .where(where)
+  .orderBy(desc(fieldReviewsTable.created_at), desc(fieldReviewsTable.id))
+  .execute()
+  .then(rows => rows.map(({ review, author_first_name, author_last_name }): FieldReview => ({
+    ...review,
+    author_name: `${author_first_name} ${author_last_name.charAt(0)}.`.trim(),
+    rating: roundRating((review.pitch_quality + review.facilities + review.value) / 3)
+  })));
+
+export async function createFieldReview(input: CreateFieldReviewInput, authorId: number, now: Date = new Date()): Promise<FieldReview> {
+  try {
+    const fields = await db.select()
+      .from(fieldsTable)
+      .where(eq(fieldsTable.id, input.field_id))
+      .execute();
+
+    if (fields.length === 0) {
+      throw new Error('Field not found');
+    }
+
+    if (fields[0].owner_id === authorId) {
+      throw new Error('You cannot review your own field');
+    }
+
+    // A completed booking is a confirmed one whose slot has ended
+    const completedBookings = await db.select({ total: count() })
+      .from(bookingsTable)
+      .innerJoin(fieldSlotsTable, eq(bookingsTable.slot_id, fieldSlotsTable.id))
+      .where(and(
+        eq(fieldSlotsTable.field_id, input.field_id),
+        eq(bookingsTable.user_id, authorId),
+        eq(bookingsTable.status, 'confirmed'),
+        lte(fieldSlotsTable.end_time, now)
+      ))
+      .execute();
+
+    if (completedBookings[0].total === 0) {
+      throw new Error('You can review a field once you have played a booking there');
+    }
+
+    const existing = await db.select({ id: fieldReviewsTable.id })
+      .from(fieldReviewsTable)
+      .where(and(eq(fieldReviewsTable.field_id, input.field_id), eq(fieldReviewsTable.author_id, authorId)))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('You have already reviewed this field');
+    }
+
+    const result = await db.insert(fieldReviewsTable)
+      .values({
+        field_id: input.field_id,
+        author_id: authorId,
+        pitch_quality: input.pitch_quality,
+        facilities: input.facilities,
+        value: input.value,
+        comment: input.comment || null
+      })
+      .returning()
+      .execute();
+
+    const reviews = await selectReviews(eq(fieldReviewsTable.id, result[0].id));
+    return reviews[0];
+  } catch (error) {
+    console.error('Field review creation failed:', error);
+    throw error;
+  }
+}
+
+// Replying again replaces the earlier reply
+export async function replyToFieldReview(input: ReplyToFieldReviewInput, ownerId: number): Promise<FieldReview> {
+  try {
+    const reviews = await db.select({ review: fieldReviewsTable, field: fieldsTable })
+      .from(fieldReviewsTable)
+      .innerJoin(fieldsTable, eq(fieldReviewsTable.field_id, fieldsTable.id))
+      .where(eq(fieldReviewsTable.id, input.review_id))
+      .execute();
+
+    if (reviews.length === 0 || reviews[0].field.owner_id !== ownerId) {
+      throw new Error('Review not found or you do not have permission to reply to it');
+    }
+
+    await db.update(fieldReviewsTable)
+      .set({ owner_reply: input.reply, replied_at: new Date() })
+      .where(eq(fieldReviewsTable.id, input.review_id))
+      .execute();
+
+    const replied = await selectReviews(eq(fieldReviewsTable.id, input.review_id));
+    return replied[0];
+  } catch (error) {
+    console.error('Field review reply failed:', error);
+    throw error;
+  }
+}
+
+export async function getFieldRatingSummary(fieldId: number): Promise<FieldRatingSummary> {
+  try {
+    const result = await db.select({
+      review_count: count(),
+      average_rating: sql<string | null>`avg(${reviewRatingSql})`,
+      pitch_quality: avg(fieldReviewsTable.pitch_quality),
+      facilities: avg(fieldReviewsTable.facilities),
+      value: avg(fieldReviewsTable.value)
+    })
+      .from(fieldReviewsTable)
+      .where(eq(fieldReviewsTable.field_id, fieldId))
+      .execute();
+
+    const summary = result[0];
+    return {
+      field_id: fieldId,
+      review_count: summary.review_count,
+      average_rating: parseAverage(summary.average_rating),
+      pitch_quality: parseAverage(summary.pitch_quality),
+      facilities: parseAverage(summary.facilities),
+      value: parseAverage(summary.value)
+    };
+  } catch (error) {
+    console.error('Failed to get field rating summary:', error);
+    throw error;
+  }
+}
+
+// Newest first
+export async function getFieldReviews(fieldId: number): Promise<FieldReviews> {
+  try {
+    const [summary, reviews] = await Promise.all([
+      getFieldRatingSummary(fieldId),
+      selectReviews(eq(fieldReviewsTable.field_id, fieldId))
+    ]);
+
+    return { summary, reviews };
+  } catch (error) {
+    console.error('Failed to get field reviews:', error);
+    throw error;
+  }
+}
+
+export async function getFieldReviewsByAuthor(authorId: number): Promise<FieldReview[]> {
+  try {
+    return await selectReviews(eq(fieldReviewsTable.author_id, authorId));
+  } catch (error) {
+    console.error('Failed to get field reviews by author:', error);
+    throw error;
+  }
+}
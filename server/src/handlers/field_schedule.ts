@@ -0,0 +1,256 @@
+import { db } from '../db';
+import { fieldClosuresTable, fieldOpeningHoursTable, fieldSlotsTable, fieldsTable, venueOpeningHoursTable } from '../db/schema';
+import {
+  type FieldSchedule,
+  type GenerateFieldSlotsInput,
+  type OpeningHours,
+  type PlannedSlot,
+  type SetFieldScheduleInput,
+  type SlotGenerationPreview,
+  type SlotGenerationResult
+} from '../schema';
+import { and, asc, eq, gt, lt } from 'drizzle-orm';
+import { addDays, dayOfWeek, daysBetween, minutesOfDay, zonedTimeToUtc } from '../utils/time';
+import { rethrowSlotOverlap } from '../utils/slot_validation';
+import { calendarAdjustments, totalPrice } from '../utils/pricing';
+import { getPricingRules } from './pricing_rules';
+
+// Keeps a single generation run to a size an owner can review in the preview
+export const MAX_GENERATION_DAYS = 92;
+
+const getOwnedField = async (fieldId: number, ownerId: number) => {
+  const fields = await db.select()
+    .from(fieldsTable)
+    .where(and(eq(fieldsTable.id, fieldId), eq(fieldsTable.owner_id, ownerId)))
+    .execute();
+
+  if (fields.length === 0) {
+    throw new Error('Field not found or you do not have permission to manage it');
+  }
+
+  return fields[0];
+};
+
+// Sorts a weekly schedule, rejecting ranges that end before they start or overlap on the same day
+export const sortOpeningHours = (openingHours: OpeningHours[]): OpeningHours[] => {
+  const sorted = [...openingHours].sort((a, b) =>
+    a.day_of_week - b.day_of_week || minutesOfDay(a.opens_at) - minutesOfDay(b.opens_at)
+  );
+
+  sorted.forEach((hours, index) => {
+    if (minutesOfDay(hours.closes_at) <= minutesOfDay(hours.opens_at)) {
+      throw new Error('Opening hours must close after they open');
+    }
+
+    const previous = sorted[index - 1];
+    if (previous && previous.day_of_week === hours.day_of_week && minutesOfDay(hours.opens_at) < minutesOfDay(previous.closes_at)) {
+      throw new Error('Opening hours on the same day must not overlap');
+    }
+  });
+
+  return sorted;
+};
+
+// A pitch without opening hours of its own uses its venue's
+export async function getFieldSchedule(fieldId: number): Promise<FieldSchedule> {
+  try {
+    const fields = await db.select()
+      .from(fieldsTable)
+      .where(eq(fieldsTable.id, fieldId))
+      .execute();
+
+    if (fields.length === 0) {
+      throw new Error('Field not found');
+    }
+
+    const field = fields[0];
+
+    const hoursColumns = (table: typeof fieldOpeningHoursTable | typeof venueOpeningHoursTable) =>
+      ({ day_of_week: table.day_of_week, opens_at: table.opens_at, closes_at: table.closes_at });
+
+    let openingHours: OpeningHours[] = await db.select(hoursColumns(fieldOpeningHoursTable))
+      .from(fieldOpeningHoursTable)
+      .where(eq(fieldOpeningHoursTable.field_id, fieldId))
+      .orderBy(asc(fieldOpeningHoursTable.day_of_week), asc(fieldOpeningHoursTable.opens_at))
+      .execute();
+
+    const usesVenueHours = openingHours.length === 0 && field.venue_id !== null;
+    if (usesVenueHours) {
+      openingHours = await db.select(hoursColumns(venueOpeningHoursTable))
+        .from(venueOpeningHoursTable)
+        .where(eq(venueOpeningHoursTable.venue_id, field.venue_id!))
+        .orderBy(asc(venueOpeningHoursTable.day_of_week), asc(venueOpeningHoursTable.opens_at))
+        .execute();
+    }
+
+    return {
+      field_id: fieldId,
+      slot_length_minutes: field.slot_length_minutes,
+      timezone: field.timezone,
+      opening_hours: openingHours,
+      uses_venue_hours: usesVenueHours
+    };
+  } catch (error) {
+    console.error('Failed to fetch field schedule:', error);
+    throw error;
+  }
+}
+
+export async function setFieldSchedule(input: SetFieldScheduleInput, ownerId: number): Promise<FieldSchedule> {
+  try {
+    const field = await getOwnedField(input.field_id, ownerId);
+
+    // The venue's schedule decides the timezone of all its pitches
+    if (field.venue_id !== null && input.timezone !== field.timezone) {
+      throw new Error('A pitch uses its venue\'s time zone - change it in the venue\'s opening hours');
+    }
+
+    const sorted = sortOpeningHours(input.opening_hours);
+
+    await db.transaction(async (tx) => {
+      await tx.update(fieldsTable)
+        .set({ slot_length_minutes: input.slot_length_minutes, timezone: input.timezone, updated_at: new Date() })
+        .where(eq(fieldsTable.id, input.field_id))
+        .execute();
+
+      await tx.delete(fieldOpeningHoursTable).where(eq(fieldOpeningHoursTable.field_id, input.field_id)).execute();
+
+      if (sorted.length > 0) {
+        await tx.insert(fieldOpeningHoursTable)
+          .values(sorted.map(hours => ({ field_id: input.field_id, ...hours })))
+          .execute();
+      }
+    });
+
+    return getFieldSchedule(input.field_id);
+  } catch (error) {
+    console.error('Field schedule update failed:', error);
+    throw error;
+  }
+}
+
+// Works out which slots a generation run would create, without writing anything
+const planSlots = async (input: GenerateFieldSlotsInput, ownerId: number): Promise<SlotGenerationPreview> => {
+  const field = await getOwnedField(input.field_id, ownerId);
+  const days = daysBetween(input.from, input.to) + 1;
+
+  if (days < 1) {
+    throw new Error('The end date must not be before the start date');
+  }
+
+  if (days > MAX_GENERATION_DAYS) {
+    throw new Error(`Slots can be generated for at most ${MAX_GENERATION_DAYS} days at a time`);
+  }
+
+  const schedule = await getFieldSchedule(field.id);
+  if (schedule.opening_hours.length === 0) {
+    throw new Error('Set the field\'s opening hours before generating slots');
+  }
+
+  const length = field.slot_length_minutes;
+  const basePrice = input.price ?? Math.round(parseFloat(field.hourly_rate) * length / 60 * 100) / 100;
+  const rules = await getPricingRules(field.id);
+  const now = new Date();
+
+  const candidates: PlannedSlot[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDays(input.from, offset);
+    const weekday = dayOfWeek(date);
+
+    for (const hours of schedule.opening_hours.filter(h => h.day_of_week === weekday)) {
+      const closes = minutesOfDay(hours.closes_at);
+      for (let start = minutesOfDay(hours.opens_at); start + length <= closes; start += length) {
+        const startTime = zonedTimeToUtc(date, start, field.timezone);
+        if (startTime > now) {
+          const adjustments = calendarAdjustments(rules, basePrice, startTime, field.timezone);
+          candidates.push({
+            start_time: startTime,
+            end_time: zonedTimeToUtc(date, start + length, field.timezone),
+            base_price: basePrice,
+            price_adjustments: adjustments,
+            price: totalPrice(basePrice, adjustments)
+          });
+        }
+      }
+    }
+  }
+
+  if (candidates.length === 0) {
+    return { slots: [], skipped_existing: 0, skipped_closed: 0 };
+  }
+
+  const rangeStart = candidates[0].start_time;
+  const rangeEnd = candidates[candidates.length - 1].end_time;
+
+  const [existing, closures] = await Promise.all([
+    db.select({ start: fieldSlotsTable.start_time, end: fieldSlotsTable.end_time })
+      .from(fieldSlotsTable)
+      .where(and(
+        eq(fieldSlotsTable.field_id, field.id),
+        lt(fieldSlotsTable.start_time, rangeEnd),
+        gt(fieldSlotsTable.end_time, rangeStart)
+      ))
+      .execute(),
+    db.select({ start: fieldClosuresTable.starts_at, end: fieldClosuresTable.ends_at })
+      .from(fieldClosuresTable)
+      .where(and(
+        eq(fieldClosuresTable.field_id, field.id),
+        lt(fieldClosuresTable.starts_at, rangeEnd),
+        gt(fieldClosuresTable.ends_at, rangeStart)
+      ))
+      .execute()
+  ]);
+
+  const overlaps = (slot: PlannedSlot, period: { start: Date; end: Date }) =>
+    slot.start_time < period.end && slot.end_time > period.start;
+
+  const preview: SlotGenerationPreview = { slots: [], skipped_existing: 0, skipped_closed: 0 };
+  for (const slot of candidates) {
+    if (closures.some(closure => overlaps(slot, closure))) {
+      preview.skipped_closed++;
+    } else if (existing.some(existingSlot => overlaps(slot, existingSlot))) {
+      preview.skipped_existing++;
+    } else {
+      preview.slots.push(slot);
+    }
+  }
+
+  return preview;
+};
+
+export async function previewFieldSlots(input: GenerateFieldSlotsInput, ownerId: number): Promise<SlotGenerationPreview> {
+  try {
+    return await planSlots(input, ownerId);
+  } catch (error) {
+    console.error('Slot generation preview failed:', error);
+    throw error;
+  }
+}
+
+export async function generateFieldSlots(input: GenerateFieldSlotsInput, ownerId: number): Promise<SlotGenerationResult> {
+  try {
+    const { slots, skipped_existing, skipped_closed } = await planSlots(input, ownerId);
+
+    const created = slots.length === 0 ? [] : await db.insert(fieldSlotsTable)
+      .values(slots.map(slot => ({
+        field_id: input.field_id,
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+        price: slot.price.toString(), // Convert number to string for numeric column
+        base_price: slot.base_price.toString(),
+        price_adjustments: slot.price_adjustments
+      })))
+      .returning()
+      .execute()
+      .catch(rethrowSlotOverlap); // Another run created an overlapping slot since the plan was made
+
+    return {
+      created: created.map(slot => ({ ...slot, price: parseFloat(slot.price), base_price: parseFloat(slot.base_price!) })),
+      skipped_existing,
+      skipped_closed
+    };
+  } catch (error) {
+    console.error('Slot generation failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,17 @@
 import { db } from '../db';
 import { bookingsTable, fieldSlotsTable, fieldsTable } from '../db/schema';
 import { type Booking } from '../schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray, notExists, type SQL } from 'drizzle-orm';
+
+// Condition on fieldSlotsTable: no pending or confirmed booking holds the slot
+export const slotNotBooked = (): SQL => notExists(
+  db.select({ id: bookingsTable.id })
+    .from(bookingsTable)
+    .where(and(
+      eq(bookingsTable.slot_id, fieldSlotsTable.id),
+      inArray(bookingsTable.status, ['pending', 'confirmed'])
+    ))
+);
 
 export async function getBookingsByUser(userId: number): Promise<Booking[]> {
   try {
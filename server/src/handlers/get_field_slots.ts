@@ -1,19 +1,25 @@
 import { db } from '../db';
-import { fieldSlotsTable } from '../db/schema';
-import { type FieldSlot } from '../schema';
-import { eq } from 'drizzle-orm';
+import { fieldSlotsTable, fieldsTable } from '../db/schema';
+import { type FieldSearchInput, type FieldSlot } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { fieldSearchConditions } from './get_fields';
+import { slotOutsideClosures } from './field_closures';
 
-export async function getAvailableFieldSlots(): Promise<FieldSlot[]> {
+// The optional filter applies to the slot's field, as in searchFields. Slots in a closure are left out
+export async function getAvailableFieldSlots(filter: FieldSearchInput = {}): Promise<FieldSlot[]> {
   try {
-    const results = await db.select()
+    const results = await db.select({ slot: fieldSlotsTable })
       .from(fieldSlotsTable)
-      .where(eq(fieldSlotsTable.is_available, true))
-      .execute();
+      .innerJoin(fieldsTable, eq(fieldSlotsTable.field_id, fieldsTable.id))
+      .where(and(eq(fieldSlotsTable.is_available, true), slotOutsideClosures(), ...fieldSearchConditions(filter)))
+      .execute()
+      .then(rows => rows.map(row => row.slot));
 
     // Convert numeric fields from string to number
     return results.map(slot => ({
       ...slot,
-      price: parseFloat(slot.price)
+      price: parseFloat(slot.price),
+      base_price: slot.base_price === null ? null : parseFloat(slot.base_price)
     }));
   } catch (error) {
     console.error('Failed to fetch available field slots:', error);
@@ -31,7 +37,8 @@ export async function getFieldSlotsByField(fieldId: number): Promise<FieldSlot[]
     // Convert numeric fields from string to number
     return results.map(slot => ({
       ...slot,
-      price: parseFloat(slot.price)
+      price: parseFloat(slot.price),
+      base_price: slot.base_price === null ? null : parseFloat(slot.base_price)
     }));
   } catch (error) {
     console.error('Failed to fetch field slots by field:', error);
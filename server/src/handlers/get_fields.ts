@@ -1,12 +1,16 @@
 import { db } from '../db';
 import { fieldsTable } from '../db/schema';
-import { type Field } from '../schema';
-import { eq } from 'drizzle-orm';
+import { type Field, type FieldSearchInput, type FieldWithDistance, type SearchFieldsInput } from '../schema';
+import { and, arrayContains, asc, desc, eq, isNull, lte, sql, type SQL } from 'drizzle-orm';
+import { distanceKmSql } from '../utils/geo';
+import { fieldRatingsSubquery, parseAverage } from './field_reviews';
 
+// Archived fields are left out here and in searches, but still listed for their owner
 export async function getFields(): Promise<Field[]> {
   try {
     const results = await db.select()
       .from(fieldsTable)
+      .where(isNull(fieldsTable.archived_at))
       .execute();
 
     // Convert numeric fields from string to number
@@ -36,4 +40,77 @@ export async function getFieldsByOwner(ownerId: number): Promise<Field[]> {
     console.error('Failed to fetch fields by owner:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Conditions on fieldsTable for the given search filters, shared with the slot search.
+// Archived fields never match
+export const fieldSearchConditions = (input: FieldSearchInput): SQL[] => {
+  const conditions: SQL[] = [isNull(fieldsTable.archived_at)];
+
+  // Fields without coordinates never match a location filter
+  if (input.near) {
+    conditions.push(lte(distanceKmSql(fieldsTable.latitude, fieldsTable.longitude, input.near), input.near.radius_km));
+  }
+
+  if (input.surface) {
+    conditions.push(eq(fieldsTable.surface, input.surface));
+  }
+
+  if (input.format) {
+    conditions.push(arrayContains(fieldsTable.formats, [input.format]));
+  }
+
+  if (input.is_indoor !== undefined) {
+    conditions.push(eq(fieldsTable.is_indoor, input.is_indoor));
+  }
+
+  if (input.amenities && input.amenities.length > 0) {
+    conditions.push(arrayContains(fieldsTable.amenities, input.amenities));
+  }
+
+  return conditions;
+};
+
+// Nearest first when searching around a point, otherwise by name, unless another sort is asked for.
+// Sorting by rating puts unreviewed fields last; sorting by distance needs a point
+export async function searchFields(input: SearchFieldsInput = {}): Promise<FieldWithDistance[]> {
+  try {
+    const distance = input.near
+      ? distanceKmSql(fieldsTable.latitude, fieldsTable.longitude, input.near)
+      : sql<number | null>`null`;
+    const ratings = fieldRatingsSubquery();
+    const sort = input.sort ?? (input.near ? 'distance' : 'name');
+
+    const order: SQL[] = [];
+    if (sort === 'rating') {
+      order.push(sql`${ratings.average_rating} desc nulls last`, desc(sql`coalesce(${ratings.review_count}, 0)`));
+    }
+    if (input.near && sort !== 'name') {
+      order.push(asc(distance));
+    }
+
+    const results = await db.select({
+      field: fieldsTable,
+      distance_km: distance,
+      average_rating: ratings.average_rating,
+      review_count: ratings.review_count
+    })
+      .from(fieldsTable)
+      .leftJoin(ratings, eq(ratings.field_id, fieldsTable.id))
+      .where(and(...fieldSearchConditions(input)))
+      .orderBy(...order, asc(fieldsTable.name), asc(fieldsTable.id))
+      .execute();
+
+    // Convert numeric fields from string to number
+    return results.map(({ field, distance_km, average_rating, review_count }) => ({
+      ...field,
+      hourly_rate: parseFloat(field.hourly_rate),
+      distance_km: distance_km === null ? null : Number(distance_km),
+      average_rating: parseAverage(average_rating),
+      review_count: review_count ?? 0
+    }));
+  } catch (error) {
+    console.error('Field search failed:', error);
+    throw error;
+  }
+}
@@ -1,13 +1,24 @@
 import { db } from '../db';
 import { matchRequestsTable } from '../db/schema';
-import { type MatchRequest, type MatchRequestType } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { type MatchRequest, type MatchRequestType, type NearbyFilter } from '../schema';
+import { eq, and, lte, type SQL } from 'drizzle-orm';
+import { distanceKmSql } from '../utils/geo';
 
-export async function getMatchRequests(): Promise<MatchRequest[]> {
+// With a nearby filter, only requests whose preferred location has coordinates can match
+export async function getMatchRequests(near?: NearbyFilter): Promise<MatchRequest[]> {
   try {
+    const conditions: SQL[] = [eq(matchRequestsTable.is_active, true)];
+
+    if (near) {
+      conditions.push(lte(
+        distanceKmSql(matchRequestsTable.preferred_latitude, matchRequestsTable.preferred_longitude, near),
+        near.radius_km
+      ));
+    }
+
     const results = await db.select()
       .from(matchRequestsTable)
-      .where(eq(matchRequestsTable.is_active, true))
+      .where(and(...conditions))
       .execute();
 
     // Convert numeric fields back to numbers
@@ -31,6 +31,8 @@ export async function getTeamsByUser(userId: number): Promise<Team[]> {
       name: teamsTable.name,
       description: teamsTable.description,
       skill_level: teamsTable.skill_level,
+      logo_url: teamsTable.logo_url,
+      logo_thumbnail_url: teamsTable.logo_thumbnail_url,
       created_at: teamsTable.created_at,
       updated_at: teamsTable.updated_at
     })
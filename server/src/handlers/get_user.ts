@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Loads the full users row, password hash included - strip it with toPublicUser before returning it to a caller
+export async function getUserById(userId: number): Promise<User> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error('User not found');
+  }
+
+  return users[0];
+}
@@ -1,38 +1,118 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { loginAttemptsTable, usersTable } from '../db/schema';
 import { type LoginInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import { and, count, desc, eq, gt, type SQL } from 'drizzle-orm';
+import { isSuspended, suspensionMessage } from '../utils/suspension';
+import { recordAuditEvent } from './audit_log';
 
-export const login = async (input: LoginInput): Promise<User> => {
+// Failed attempts allowed inside the window before further logins are refused
+export const MAX_FAILED_LOGINS_PER_ACCOUNT = 5;
+export const MAX_FAILED_LOGINS_PER_IP = 20;
+export const LOGIN_LOCKOUT_WINDOW_MS = 15 * 60 * 1000;
+
+// Unknown emails are verified against this hash so response timing does not reveal which accounts exist
+let timingHash: Promise<string> | null = null;
+const getTimingHash = () => (timingHash ??= Bun.password.hash('timing-equalizer'));
+
+const countFailures = async (conditions: SQL[]): Promise<number> => {
+  const result = await db.select({ failures: count() })
+    .from(loginAttemptsTable)
+    .where(and(eq(loginAttemptsTable.succeeded, false), ...conditions))
+    .execute();
+
+  return result[0].failures;
+};
+
+// Account failures only count since the last successful login inside the window
+const isAccountLocked = async (email: string, windowStart: Date): Promise<boolean> => {
+  const lastSuccess = await db.select({ created_at: loginAttemptsTable.created_at })
+    .from(loginAttemptsTable)
+    .where(and(
+      eq(loginAttemptsTable.email, email),
+      eq(loginAttemptsTable.succeeded, true),
+      gt(loginAttemptsTable.created_at, windowStart)
+    ))
+    .orderBy(desc(loginAttemptsTable.created_at))
+    .limit(1)
+    .execute();
+
+  const since = lastSuccess.length > 0 ? lastSuccess[0].created_at : windowStart;
+  const failures = await countFailures([
+    eq(loginAttemptsTable.email, email),
+    gt(loginAttemptsTable.created_at, since)
+  ]);
+
+  return failures >= MAX_FAILED_LOGINS_PER_ACCOUNT;
+};
+
+const isIpLocked = async (ipAddress: string, windowStart: Date): Promise<boolean> => {
+  const failures = await countFailures([
+    eq(loginAttemptsTable.ip_address, ipAddress),
+    gt(loginAttemptsTable.created_at, windowStart)
+  ]);
+
+  return failures >= MAX_FAILED_LOGINS_PER_IP;
+};
+
+export const login = async (input: LoginInput, ipAddress: string | null = null): Promise<User> => {
   try {
+    // Emails are stored lowercased by register
+    const email = input.email.toLowerCase();
+    const windowStart = new Date(Date.now() - LOGIN_LOCKOUT_WINDOW_MS);
+
+    // Locked accounts and IPs are refused before the password is checked
+    const [accountLocked, ipLocked] = await Promise.all([
+      isAccountLocked(email, windowStart),
+      ipAddress ? isIpLocked(ipAddress, windowStart) : Promise.resolve(false)
+    ]);
+
+    if (accountLocked || ipLocked) {
+      throw new Error('Too many failed login attempts, please try again later');
+    }
+
     // Find user by email
     const users = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.email, input.email))
+      .where(eq(usersTable.email, email))
       .execute();
 
-    if (users.length === 0) {
+    const user = users.length > 0 ? users[0] : null;
+    const isValidPassword = user
+      ? await Bun.password.verify(input.password, user.password_hash)
+      : await Bun.password.verify(input.password, await getTimingHash()).then(() => false);
+
+    await db.insert(loginAttemptsTable)
+      .values({
+        email,
+        ip_address: ipAddress,
+        succeeded: isValidPassword
+      })
+      .execute();
+
+    // Unknown email and wrong password are indistinguishable to the caller
+    if (!user || !isValidPassword) {
       throw new Error('Invalid credentials');
     }
 
-    const user = users[0];
-
-    // In a real implementation, you would verify the password hash here
-    // For now, we'll assume password verification is handled elsewhere
-    // Example: const isValidPassword = await bcrypt.compare(input.password, user.password_hash);
-    // if (!isValidPassword) {
-    //   throw new Error('Invalid credentials');
-    // }
+    // Only revealed to callers who know the password
+    if (isSuspended(user)) {
+      throw new Error(suspensionMessage(user));
+    }
 
-    // Simple password check for demo - in production use proper hashing
-    if (input.password.length < 6) {
-      throw new Error('Invalid credentials');
+    // Two-factor logins are recorded by verifyTwoFactorLogin once the second step succeeds
+    if (!user.two_factor_enabled_at) {
+      await recordAuditEvent({
+        actorId: user.id,
+        action: 'user.login',
+        entityType: 'user',
+        entityId: user.id,
+        after: { ip_address: ipAddress, two_factor: false }
+      });
     }
 
-    // Return user data (no numeric fields to convert in users table)
-    return user as User;
+    return user;
   } catch (error) {
     console.error('Login failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
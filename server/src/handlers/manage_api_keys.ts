@@ -0,0 +1,124 @@
+import { db } from '../db';
+import { apiKeysTable, usersTable } from '../db/schema';
+import { type ApiKey, type ApiKeyScope, type CreateApiKeyInput, type CreatedApiKey, type User } from '../schema';
+import { and, count, desc, eq, isNull, lt, or } from 'drizzle-orm';
+import { generateToken, hashToken } from '../utils/tokens';
+
+// Keys are sent as bearer tokens like sessions; the prefix tells createContext which kind it got
+export const API_KEY_PREFIX = 'tmk_';
+const DISPLAYED_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+export const MAX_ACTIVE_API_KEYS = 10;
+
+// last_used_at is refreshed at most this often, so a busy sync job doesn't write on every call
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export const isApiKey = (token: string): boolean => token.startsWith(API_KEY_PREFIX);
+
+const toApiKey = ({ key_hash: _keyHash, ...apiKey }: typeof apiKeysTable.$inferSelect): ApiKey => apiKey;
+
+export async function createApiKey(input: CreateApiKeyInput, userId: number): Promise<CreatedApiKey> {
+  try {
+    const active = await db.select({ total: count() })
+      .from(apiKeysTable)
+      .where(and(eq(apiKeysTable.user_id, userId), isNull(apiKeysTable.revoked_at)))
+      .execute();
+
+    if (active[0].total >= MAX_ACTIVE_API_KEYS) {
+      throw new Error(`You can have at most ${MAX_ACTIVE_API_KEYS} active API keys`);
+    }
+
+    const key = `${API_KEY_PREFIX}${generateToken()}`;
+
+    const result = await db.insert(apiKeysTable)
+      .values({
+        user_id: userId,
+        name: input.name,
+        key_prefix: key.slice(0, DISPLAYED_PREFIX_LENGTH),
+        key_hash: hashToken(key),
+        scopes: [...new Set(input.scopes)]
+      })
+      .returning()
+      .execute();
+
+    return { api_key: toApiKey(result[0]), key };
+  } catch (error) {
+    console.error('API key creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getMyApiKeys(userId: number): Promise<ApiKey[]> {
+  try {
+    const results = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.user_id, userId))
+      .orderBy(desc(apiKeysTable.created_at), desc(apiKeysTable.id))
+      .execute();
+
+    return results.map(toApiKey);
+  } catch (error) {
+    console.error('Failed to fetch API keys:', error);
+    throw error;
+  }
+}
+
+export async function revokeApiKey(apiKeyId: number, userId: number): Promise<ApiKey> {
+  try {
+    const result = await db.update(apiKeysTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(apiKeysTable.id, apiKeyId),
+        eq(apiKeysTable.user_id, userId),
+        isNull(apiKeysTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('API key not found');
+    }
+
+    return toApiKey(result[0]);
+  } catch (error) {
+    console.error('API key revocation failed:', error);
+    throw error;
+  }
+}
+
+// Resolves a bearer API key into its owner and scopes, or null when it is unknown or revoked
+export async function getApiKeyUser(key: string): Promise<{ user: User; apiKeyId: number; scopes: ApiKeyScope[] } | null> {
+  try {
+    const keyHash = hashToken(key);
+    const results = await db.select({ user: usersTable, apiKey: apiKeysTable })
+      .from(apiKeysTable)
+      .innerJoin(usersTable, eq(apiKeysTable.user_id, usersTable.id))
+      .where(and(
+        eq(apiKeysTable.key_hash, keyHash),
+        isNull(apiKeysTable.revoked_at)
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const { user, apiKey } = results[0];
+    const now = new Date();
+
+    await db.update(apiKeysTable)
+      .set({ last_used_at: now })
+      .where(and(
+        eq(apiKeysTable.id, apiKey.id),
+        or(
+          isNull(apiKeysTable.last_used_at),
+          lt(apiKeysTable.last_used_at, new Date(now.getTime() - LAST_USED_INTERVAL_MS))
+        )
+      ))
+      .execute();
+
+    return { user, apiKeyId: apiKey.id, scopes: apiKey.scopes };
+  } catch (error) {
+    console.error('Failed to resolve API key:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+import { db } from '../db';
+import { fieldPhotosTable, fieldsTable } from '../db/schema';
+import { type AddFieldPhotoInput, type FieldPhoto } from '../schema';
+import { and, asc, count, eq, max } from 'drizzle-orm';
+import { deleteStoredImages, storeImage } from '../utils/images';
+
+export const MAX_PHOTOS_PER_FIELD = 12;
+
+export async function addFieldPhoto(input: AddFieldPhotoInput, ownerId: number): Promise<FieldPhoto> {
+  try {
+    // Verify that the field exists and belongs to the owner
+    const field = await db.select()
+      .from(fieldsTable)
+      .where(and(
+        eq(fieldsTable.id, input.field_id),
+        eq(fieldsTable.owner_id, ownerId)
+      ))
+      .execute();
+
+    if (field.length === 0) {
+      throw new Error('Field not found or you do not have permission to add photos to it');
+    }
+
+    const existing = await db.select({ total: count(), last: max(fieldPhotosTable.position) })
+      .from(fieldPhotosTable)
+      .where(eq(fieldPhotosTable.field_id, input.field_id))
+      .execute();
+
+    if (existing[0].total >= MAX_PHOTOS_PER_FIELD) {
+      throw new Error(`A field can have at most ${MAX_PHOTOS_PER_FIELD} photos`);
+    }
+
+    const image = await storeImage(input, `fields/${input.field_id}`);
+
+    // New photos are appended after the last one - removals leave gaps, so the count can collide
+    const result = await db.insert(fieldPhotosTable)
+      .values({
+        field_id: input.field_id,
+        url: image.url,
+        thumbnail_url: image.thumbnail_url,
+        width: image.width,
+        height: image.height,
+        position: (existing[0].last ?? -1) + 1
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Field photo upload failed:', error);
+    throw error;
+  }
+}
+
+export async function removeFieldPhoto(photoId: number, ownerId: number): Promise<boolean> {
+  try {
+    const photos = await db.select({ photo: fieldPhotosTable, field: fieldsTable })
+      .from(fieldPhotosTable)
+      .innerJoin(fieldsTable, eq(fieldPhotosTable.field_id, fieldsTable.id))
+      .where(eq(fieldPhotosTable.id, photoId))
+      .execute();
+
+    if (photos.length === 0 || photos[0].field.owner_id !== ownerId) {
+      throw new Error('Photo not found or you do not have permission to remove it');
+    }
+
+    const { photo } = photos[0];
+
+    await db.delete(fieldPhotosTable)
+      .where(eq(fieldPhotosTable.id, photoId))
+      .execute();
+
+    await deleteStoredImages(photo.url, photo.thumbnail_url);
+
+    return true;
+  } catch (error) {
+    console.error('Field photo removal failed:', error);
+    throw error;
+  }
+}
+
+export async function getFieldPhotos(fieldId: number): Promise<FieldPhoto[]> {
+  try {
+    return await db.select()
+      .from(fieldPhotosTable)
+      .where(eq(fieldPhotosTable.field_id, fieldId))
+      .orderBy(asc(fieldPhotosTable.position), asc(fieldPhotosTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch field photos:', error);
+    throw error;
+  }
+}
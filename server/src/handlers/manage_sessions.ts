@@ -0,0 +1,144 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type AuthResponse, type DeviceSession, type User } from '../schema';
+import { and, desc, eq, gt, lt, ne } from 'drizzle-orm';
+import { generateToken, hashToken } from '../utils/tokens';
+import { toPublicUser } from '../utils/users';
+
+// Sessions are valid for 30 days from login
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// last_seen_at is refreshed at most this often, so busy clients don't write on every request
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+export async function createSession(user: User, ipAddress: string | null = null, userAgent: string | null = null): Promise<AuthResponse> {
+  try {
+    // The raw token is returned to the client once; only its hash is persisted
+    const token = generateToken();
+    const expires_at = new Date(Date.now() + SESSION_TTL_MS);
+
+    await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashToken(token),
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        expires_at
+      })
+      .execute();
+
+    return { user: toPublicUser(user), token, expires_at };
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getSessionUser(token: string): Promise<User | null> {
+  try {
+    const tokenHash = hashToken(token);
+    const results = await db.select({ user: usersTable })
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.token_hash, tokenHash),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    await db.update(sessionsTable)
+      .set({ last_seen_at: new Date() })
+      .where(and(
+        eq(sessionsTable.token_hash, tokenHash),
+        lt(sessionsTable.last_seen_at, new Date(Date.now() - LAST_SEEN_INTERVAL_MS))
+      ))
+      .execute();
+
+    return results[0].user;
+  } catch (error) {
+    console.error('Failed to resolve session:', error);
+    throw error;
+  }
+}
+
+export async function endSession(token: string): Promise<boolean> {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Failed to end session:', error);
+    throw error;
+  }
+}
+
+export async function getMySessions(userId: number, currentToken: string | null): Promise<DeviceSession[]> {
+  try {
+    const currentHash = currentToken ? hashToken(currentToken) : null;
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .orderBy(desc(sessionsTable.last_seen_at))
+      .execute();
+
+    return sessions.map(({ token_hash, ...session }) => ({
+      ...session,
+      is_current: token_hash === currentHash
+    }));
+  } catch (error) {
+    console.error('Failed to fetch sessions:', error);
+    throw error;
+  }
+}
+
+export async function revokeSession(sessionId: number, userId: number): Promise<boolean> {
+  try {
+    // Scoped to the user so nobody can end someone else's session by id
+    const result = await db.delete(sessionsTable)
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.user_id, userId)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Session not found');
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+// Ends every session of the user except the one making the request; returns how many were ended
+export async function revokeAllOtherSessions(userId: number, currentToken: string | null): Promise<number> {
+  try {
+    const conditions = [eq(sessionsTable.user_id, userId)];
+    if (currentToken) {
+      conditions.push(ne(sessionsTable.token_hash, hashToken(currentToken)));
+    }
+
+    const result = await db.delete(sessionsTable)
+      .where(and(...conditions))
+      .returning()
+      .execute();
+
+    return result.length;
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
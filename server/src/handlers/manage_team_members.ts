@@ -2,6 +2,7 @@ import { db } from '../db';
 import { teamMembersTable, teamsTable, usersTable } from '../db/schema';
 import { type AddTeamMemberInput, type TeamMember } from '../schema';
 import { eq, and } from 'drizzle-orm';
+import { recordAuditEvent } from './audit_log';
 
 export async function addTeamMember(input: AddTeamMemberInput, captainId: number): Promise<TeamMember> {
   try {
@@ -107,6 +108,17 @@ export async function removeTeamMember(teamId: number, userId: number, captainId
       .returning()
       .execute();
 
+    if (result.length > 0) {
+      await recordAuditEvent({
+        actorId: captainId,
+        action: 'team.member_removed',
+        entityType: 'team',
+        entityId: teamId,
+        before: { user_id: userId },
+        after: null
+      });
+    }
+
     return result.length > 0;
   } catch (error) {
     console.error('Failed to remove team member:', error);
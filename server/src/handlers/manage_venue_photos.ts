@@ -0,0 +1,83 @@
+import { db } from '../db';
+import { venuePhotosTable, venuesTable } from '../db/schema';
+import { type AddVenuePhotoInput, type VenuePhoto } from '../schema';
+import { asc, count, eq } from 'drizzle-orm';
+import { deleteStoredImages, storeImage } from '../utils/images';
+import { getOwnedVenue } from './venues';
+
+export const MAX_PHOTOS_PER_VENUE = 12;
+
+export async function addVenuePhoto(input: AddVenuePhotoInput, ownerId: number): Promise<VenuePhoto> {
+  try {
+    await getOwnedVenue(input.venue_id, ownerId, 'add photos to it');
+
+    const existing = await db.select({ total: count() })
+      .from(venuePhotosTable)
+      .where(eq(venuePhotosTable.venue_id, input.venue_id))
+      .execute();
+
+    if (existing[0].total >= MAX_PHOTOS_PER_VENUE) {
+      throw new Error(`A venue can have at most ${MAX_PHOTOS_PER_VENUE} photos`);
+    }
+
+    const image = await storeImage(input, `venues/${input.venue_id}`);
+
+    // New photos are appended to the end of the gallery
+    const result = await db.insert(venuePhotosTable)
+      .values({
+        venue_id: input.venue_id,
+        url: image.url,
+        thumbnail_url: image.thumbnail_url,
+        width: image.width,
+        height: image.height,
+        position: existing[0].total
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Venue photo upload failed:', error);
+    throw error;
+  }
+}
+
+export async function removeVenuePhoto(photoId: number, ownerId: number): Promise<boolean> {
+  try {
+    const photos = await db.select({ photo: venuePhotosTable, venue: venuesTable })
+      .from(venuePhotosTable)
+      .innerJoin(venuesTable, eq(venuePhotosTable.venue_id, venuesTable.id))
+      .where(eq(venuePhotosTable.id, photoId))
+      .execute();
+
+    if (photos.length === 0 || photos[0].venue.owner_id !== ownerId) {
+      throw new Error('Photo not found or you do not have permission to remove it');
+    }
+
+    const { photo } = photos[0];
+
+    await db.delete(venuePhotosTable)
+      .where(eq(venuePhotosTable.id, photoId))
+      .execute();
+
+    await deleteStoredImages(photo.url, photo.thumbnail_url);
+
+    return true;
+  } catch (error) {
+    console.error('Venue photo removal failed:', error);
+    throw error;
+  }
+}
+
+export async function getVenuePhotos(venueId: number): Promise<VenuePhoto[]> {
+  try {
+    return await db.select()
+      .from(venuePhotosTable)
+      .where(eq(venuePhotosTable.venue_id, venueId))
+      .orderBy(asc(venuePhotosTable.position), asc(venuePhotosTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch venue photos:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,116 @@
+import { db } from '../db';
+import { bookingsTable, fieldSlotsTable, fieldsTable } from '../db/schema';
+import { type Booking, type MoveBookingInput } from '../schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { recordAuditEvent } from './audit_log';
+import { quoteSlotPrice } from './pricing_rules';
+import { slotOutsideClosures } from './field_closures';
+
+// Only the holder can move a booking, to an open, unbooked slot at the same field or another pitch at the same venue
+export async function moveBooking(input: MoveBookingInput, userId: number, now: Date = new Date()): Promise<Booking> {
+  try {
+    const bookings = await db.select({ booking: bookingsTable, field: fieldsTable })
+      .from(bookingsTable)
+      .innerJoin(fieldSlotsTable, eq(bookingsTable.slot_id, fieldSlotsTable.id))
+      .innerJoin(fieldsTable, eq(fieldSlotsTable.field_id, fieldsTable.id))
+      .where(eq(bookingsTable.id, input.booking_id))
+      .execute();
+
+    if (bookings.length === 0 || bookings[0].booking.user_id !== userId) {
+      throw new Error('Booking not found or you do not have permission to move it');
+    }
+
+    const { booking, field } = bookings[0];
+
+    if (booking.status === 'cancelled') {
+      throw new Error('Cancelled bookings cannot be moved');
+    }
+
+    const targets = await db.select({ slot: fieldSlotsTable, field: fieldsTable })
+      .from(fieldSlotsTable)
+      .innerJoin(fieldsTable, eq(fieldSlotsTable.field_id, fieldsTable.id))
+      .where(eq(fieldSlotsTable.id, input.slot_id))
+      .execute();
+
+    if (targets.length === 0) {
+      throw new Error(`Field slot with id ${input.slot_id} not found`);
+    }
+
+    const target = targets[0];
+    const sameVenue = field.venue_id !== null && target.field.venue_id === field.venue_id;
+
+    if (target.field.id !== field.id && !sameVenue) {
+      throw new Error('A booking can only move to another slot at the same field or venue');
+    }
+
+    if (target.slot.id === booking.slot_id) {
+      throw new Error('The booking is already for this slot');
+    }
+
+    if (target.field.archived_at !== null) {
+      throw new Error('The field is archived and no longer takes bookings');
+    }
+
+    if (!target.slot.is_available || target.slot.start_time <= now) {
+      throw new Error(`Field slot with id ${input.slot_id} is not available`);
+    }
+
+    // The new slot is charged at its current quote, as when booking it directly
+    const { total: totalPrice } = await quoteSlotPrice(target.slot.id, now);
+
+    const updated = await db.transaction(async (tx) => {
+      // Locking the target slot keeps two holders from moving onto it at the same time
+      await tx.select({ id: fieldSlotsTable.id })
+        .from(fieldSlotsTable)
+        .where(eq(fieldSlotsTable.id, target.slot.id))
+        .for('update')
+        .execute();
+
+      const open = await tx.select({ id: fieldSlotsTable.id })
+        .from(fieldSlotsTable)
+        .where(and(eq(fieldSlotsTable.id, target.slot.id), slotOutsideClosures()))
+        .execute();
+
+      if (open.length === 0) {
+        throw new Error('The field is closed during this slot');
+      }
+
+      const holders = await tx.select({ id: bookingsTable.id })
+        .from(bookingsTable)
+        .where(and(eq(bookingsTable.slot_id, target.slot.id), inArray(bookingsTable.status, ['pending', 'confirmed'])))
+        .execute();
+
+      if (holders.length > 0) {
+        throw new Error(`Field slot with id ${input.slot_id} is already booked`);
+      }
+
+      // Pointing the booking at the new slot frees the old one and takes the new one
+      return tx.update(bookingsTable)
+        .set({
+          slot_id: target.slot.id,
+          total_price: totalPrice.toString(),
+          updated_at: now
+        })
+        .where(eq(bookingsTable.id, booking.id))
+        .returning()
+        .execute();
+    });
+
+    await recordAuditEvent({
+      actorId: userId,
+      action: 'booking.moved',
+      entityType: 'booking',
+      entityId: booking.id,
+      before: { slot_id: booking.slot_id },
+      after: { slot_id: target.slot.id }
+    });
+
+    return {
+      ...updated[0],
+      total_price: parseFloat(updated[0].total_price)
+    };
+  } catch (error) {
+    console.error('Booking move failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,99 @@
+import { db } from '../db';
+import { passwordResetTokensTable, sessionsTable, usersTable } from '../db/schema';
+import { type RequestPasswordResetInput, type ResetPasswordInput } from '../schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { generateToken, hashToken } from '../utils/tokens';
+import { appUrl, getMailer } from '../mailer';
+
+// Reset links are valid for one hour
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+export async function requestPasswordReset(input: RequestPasswordResetInput): Promise<boolean> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email.toLowerCase()))
+      .execute();
+
+    // Report success for unknown emails too, so the endpoint cannot be used to probe for accounts
+    if (users.length === 0) {
+      return true;
+    }
+
+    const user = users[0];
+    const token = generateToken();
+
+    await db.transaction(async (tx) => {
+      // Only the most recently requested link stays usable
+      await tx.update(passwordResetTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(
+          eq(passwordResetTokensTable.user_id, user.id),
+          isNull(passwordResetTokensTable.used_at)
+        ))
+        .execute();
+
+      await tx.insert(passwordResetTokensTable)
+        .values({
+          user_id: user.id,
+          token_hash: hashToken(token),
+          expires_at: new Date(Date.now() + RESET_TOKEN_TTL_MS)
+        })
+        .execute();
+    });
+
+    await getMailer().send({
+      to: user.email,
+      subject: 'Reset your password',
+      body: `Hi ${user.first_name},\n\n` +
+        `Use the link below to choose a new password. It expires in one hour.\n\n` +
+        `${appUrl(`/?reset_token=${token}`)}\n\n` +
+        `If you did not ask for this, you can ignore this email.`
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
+
+export async function resetPassword(input: ResetPasswordInput): Promise<boolean> {
+  try {
+    const password_hash = await Bun.password.hash(input.password);
+
+    return await db.transaction(async (tx) => {
+      // Claim the token atomically so it can only be used once
+      const claimed = await tx.update(passwordResetTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(
+          eq(passwordResetTokensTable.token_hash, hashToken(input.token)),
+          isNull(passwordResetTokensTable.used_at),
+          gt(passwordResetTokensTable.expires_at, new Date())
+        ))
+        .returning()
+        .execute();
+
+      if (claimed.length === 0) {
+        throw new Error('Invalid or expired reset token');
+      }
+
+      const userId = claimed[0].user_id;
+
+      await tx.update(usersTable)
+        .set({ password_hash, updated_at: new Date() })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      // Sign out everywhere - whoever knew the old password loses access
+      await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.user_id, userId))
+        .execute();
+
+      return true;
+    });
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,135 @@
+import { db } from '../db';
+import { fieldPricingRulesTable, fieldSlotsTable, fieldsTable } from '../db/schema';
+import { type CreatePricingRuleInput, type PricingRule, type SlotPriceQuote } from '../schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { minutesOfDay } from '../utils/time';
+import { lastMinuteAdjustment, totalPrice } from '../utils/pricing';
+
+const toPricingRule = (rule: typeof fieldPricingRulesTable.$inferSelect): PricingRule => ({
+  ...rule,
+  adjustment_percent: parseFloat(rule.adjustment_percent)
+});
+
+// The conditions each rule type needs; anything else sent along is dropped rather than stored
+const ruleConditions = (input: CreatePricingRuleInput) => {
+  switch (input.type) {
+    case 'peak':
+    case 'off_peak':
+      if (!input.starts_at || !input.ends_at) {
+        throw new Error('Peak and off-peak rules need a start and end time');
+      }
+      if (minutesOfDay(input.ends_at) <= minutesOfDay(input.starts_at)) {
+        throw new Error('A peak or off-peak window must end after it starts');
+      }
+      return { days_of_week: [...new Set(input.days_of_week ?? [])].sort((a, b) => a - b), starts_at: input.starts_at, ends_at: input.ends_at };
+    case 'holiday':
+      if (!input.holiday_date) {
+        throw new Error('Holiday rules need a date');
+      }
+      return { holiday_date: input.holiday_date };
+    case 'last_minute':
+      if (!input.hours_before) {
+        throw new Error('Last-minute rules need the number of hours before kick-off');
+      }
+      return { hours_before: input.hours_before };
+    default:
+      return {};
+  }
+};
+
+export async function createPricingRule(input: CreatePricingRuleInput, ownerId: number): Promise<PricingRule> {
+  try {
+    const fields = await db.select({ id: fieldsTable.id })
+      .from(fieldsTable)
+      .where(and(eq(fieldsTable.id, input.field_id), eq(fieldsTable.owner_id, ownerId)))
+      .execute();
+
+    if (fields.length === 0) {
+      throw new Error('Field not found or you do not have permission to price it');
+    }
+
+    const result = await db.insert(fieldPricingRulesTable)
+      .values({
+        field_id: input.field_id,
+        type: input.type,
+        name: input.name,
+        adjustment_percent: input.adjustment_percent.toString(), // Convert number to string for numeric column
+        ...ruleConditions(input)
+      })
+      .returning()
+      .execute();
+
+    return toPricingRule(result[0]);
+  } catch (error) {
+    console.error('Pricing rule creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getPricingRules(fieldId: number): Promise<PricingRule[]> {
+  try {
+    const rules = await db.select()
+      .from(fieldPricingRulesTable)
+      .where(eq(fieldPricingRulesTable.field_id, fieldId))
+      .orderBy(asc(fieldPricingRulesTable.created_at), asc(fieldPricingRulesTable.id))
+      .execute();
+
+    return rules.map(toPricingRule);
+  } catch (error) {
+    console.error('Failed to fetch pricing rules:', error);
+    throw error;
+  }
+}
+
+export async function deletePricingRule(ruleId: number, ownerId: number): Promise<boolean> {
+  try {
+    const rules = await db.select({ id: fieldPricingRulesTable.id })
+      .from(fieldPricingRulesTable)
+      .innerJoin(fieldsTable, eq(fieldPricingRulesTable.field_id, fieldsTable.id))
+      .where(and(eq(fieldPricingRulesTable.id, ruleId), eq(fieldsTable.owner_id, ownerId)))
+      .execute();
+
+    if (rules.length === 0) {
+      throw new Error('Pricing rule not found');
+    }
+
+    await db.delete(fieldPricingRulesTable).where(eq(fieldPricingRulesTable.id, ruleId)).execute();
+
+    return true;
+  } catch (error) {
+    console.error('Pricing rule deletion failed:', error);
+    throw error;
+  }
+}
+
+// What booking the slot now would cost: the adjustments stored at generation plus any last-minute discount.
+// Slots priced by hand have no base price and are quoted as-is apart from last-minute rules.
+export async function quoteSlotPrice(slotId: number, now: Date = new Date()): Promise<SlotPriceQuote> {
+  try {
+    const slots = await db.select()
+      .from(fieldSlotsTable)
+      .where(eq(fieldSlotsTable.id, slotId))
+      .execute();
+
+    if (slots.length === 0) {
+      throw new Error(`Field slot with id ${slotId} not found`);
+    }
+
+    const slot = slots[0];
+    const basePrice = parseFloat(slot.base_price ?? slot.price);
+    const rules = await getPricingRules(slot.field_id);
+    const lastMinute = lastMinuteAdjustment(rules, basePrice, slot.start_time, now);
+    const adjustments = lastMinute ? [...slot.price_adjustments, lastMinute] : slot.price_adjustments;
+
+    return {
+      slot_id: slot.id,
+      base_price: basePrice,
+      adjustments,
+      total: totalPrice(basePrice, adjustments),
+      quoted_at: now
+    };
+  } catch (error) {
+    console.error('Slot price quote failed:', error);
+    throw error;
+  }
+}
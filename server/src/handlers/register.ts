@@ -2,6 +2,7 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type RegisterInput, type User } from '../schema';
 import { eq } from 'drizzle-orm';
+import { sendVerificationEmail } from './email_verification';
 
 export const register = async (input: RegisterInput): Promise<User> => {
   try {
@@ -31,6 +32,9 @@ export const register = async (input: RegisterInput): Promise<User> => {
       .returning()
       .execute();
 
+    // New accounts start unverified until the emailed link is followed
+    await sendVerificationEmail(result[0]);
+
     return result[0];
   } catch (error) {
     console.error('User registration failed:', error);
@@ -0,0 +1,274 @@
+import { db } from '../db';
+import { bookingsTable, fieldClosuresTable, fieldSlotsTable, fieldsTable, teamsTable, usersTable } from '../db/schema';
+import {
+  type CsvFile,
+  type SlotExportInput,
+  type SlotImportInput,
+  type SlotImportReport,
+  type SlotImportResult,
+  type SlotImportRow
+} from '../schema';
+import { and, asc, eq, gt, gte, inArray, lt } from 'drizzle-orm';
+import { parseCsv, toCsv } from '../utils/csv';
+import { addDays, daysBetween, zonedParts, zonedTimeToUtc } from '../utils/time';
+import { rethrowSlotOverlap, SlotValidationError, validateSlotTimes } from '../utils/slot_validation';
+
+export const MAX_IMPORT_ROWS = 2000;
+export const MAX_EXPORT_DAYS = 366;
+
+const IMPORT_COLUMNS = ['field', 'start', 'end', 'price'];
+
+// "2030-01-07 18:00" as typed into a spreadsheet; read in the field's timezone
+const LOCAL_DATE_TIME = /^(\d{4}-\d{2}-\d{2})[ T]([01]\d|2[0-3]):([0-5]\d)$/;
+// Full ISO timestamps carry their own offset and are taken as-is
+const ZONED_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/;
+const PRICE = /^\d+(\.\d{1,2})?$/;
+
+const parseSlotTime = (value: string, timeZone: string): Date | null => {
+  const local = LOCAL_DATE_TIME.exec(value);
+  if (local) {
+    // Rejects dates such as 2030-02-31, which would otherwise roll over into March
+    return addDays(local[1], 0) === local[1]
+      ? zonedTimeToUtc(local[1], Number(local[2]) * 60 + Number(local[3]), timeZone)
+      : null;
+  }
+
+  const zoned = ZONED_DATE_TIME.test(value) ? new Date(value) : null;
+  return zoned && !isNaN(zoned.getTime()) ? zoned : null;
+};
+
+const formatLocal = (instant: Date, timeZone: string): string => {
+  const { date, minutes } = zonedParts(instant, timeZone);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return `${date} ${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+// Validates every row without writing anything, so the owner sees all problems at once
+const planImport = async (input: SlotImportInput, ownerId: number): Promise<SlotImportReport> => {
+  const [header, ...records] = parseCsv(input.csv);
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+
+  if (IMPORT_COLUMNS.some(column => !columns.includes(column))) {
+    throw new Error(`The CSV file needs a header row with the columns ${IMPORT_COLUMNS.join(', ')}`);
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`A CSV file can hold at most ${MAX_IMPORT_ROWS} slots`);
+  }
+
+  const fields = await db.select({ id: fieldsTable.id, name: fieldsTable.name, timezone: fieldsTable.timezone })
+    .from(fieldsTable)
+    .where(eq(fieldsTable.owner_id, ownerId))
+    .execute();
+
+  // Fields can be given by id or, as spreadsheets tend to, by name
+  const findFields = (value: string) => fields.filter(field =>
+    field.id.toString() === value || field.name.trim().toLowerCase() === value.toLowerCase()
+  );
+
+  const now = new Date();
+  const rows: SlotImportRow[] = [];
+
+  records.forEach((record, index) => {
+    const cell = (column: string) => (record[columns.indexOf(column)] ?? '').trim();
+    if (record.every(value => value.trim() === '')) {
+      return;
+    }
+
+    const row: SlotImportRow = { row: index + 2, field_id: null, start_time: null, end_time: null, price: null, errors: [] };
+    rows.push(row);
+
+    const matches = findFields(cell('field'));
+    if (matches.length === 0) {
+      row.errors.push(`"${cell('field')}" is not one of your fields`);
+    } else if (matches.length > 1) {
+      row.errors.push(`"${cell('field')}" matches more than one of your fields; use the field id instead`);
+    } else {
+      row.field_id = matches[0].id;
+      row.start_time = parseSlotTime(cell('start'), matches[0].timezone);
+      row.end_time = parseSlotTime(cell('end'), matches[0].timezone);
+
+      if (!row.start_time) {
+        row.errors.push('Start must be a date and time like 2030-01-07 18:00');
+      }
+      if (!row.end_time) {
+        row.errors.push('End must be a date and time like 2030-01-07 19:00');
+      }
+    }
+
+    if (PRICE.test(cell('price'))) {
+      row.price = parseFloat(cell('price'));
+    } else {
+      row.errors.push('Price must be a number like 45 or 45.50');
+    }
+
+    if (row.start_time && row.end_time) {
+      try {
+        validateSlotTimes(row.start_time, row.end_time, now);
+      } catch (error) {
+        if (!(error instanceof SlotValidationError)) {
+          throw error;
+        }
+        row.errors.push(error.message);
+      }
+    }
+  });
+
+  const timed = rows.filter(row => row.field_id !== null && row.start_time && row.end_time && row.end_time > row.start_time);
+  if (timed.length > 0) {
+    const fieldIds = [...new Set(timed.map(row => row.field_id!))];
+    const rangeStart = new Date(Math.min(...timed.map(row => row.start_time!.getTime())));
+    const rangeEnd = new Date(Math.max(...timed.map(row => row.end_time!.getTime())));
+
+    const [existing, closures] = await Promise.all([
+      db.select({ field_id: fieldSlotsTable.field_id, start: fieldSlotsTable.start_time, end: fieldSlotsTable.end_time })
+        .from(fieldSlotsTable)
+        .where(and(
+          inArray(fieldSlotsTable.field_id, fieldIds),
+          lt(fieldSlotsTable.start_time, rangeEnd),
+          gt(fieldSlotsTable.end_time, rangeStart)
+        ))
+        .execute(),
+      db.select({ field_id: fieldClosuresTable.field_id, start: fieldClosuresTable.starts_at, end: fieldClosuresTable.ends_at })
+        .from(fieldClosuresTable)
+        .where(and(
+          inArray(fieldClosuresTable.field_id, fieldIds),
+          lt(fieldClosuresTable.starts_at, rangeEnd),
+          gt(fieldClosuresTable.ends_at, rangeStart)
+        ))
+        .execute()
+    ]);
+
+    const overlaps = (row: SlotImportRow, period: { field_id: number | null; start: Date; end: Date }) =>
+      row.field_id === period.field_id && row.start_time! < period.end && row.end_time! > period.start;
+
+    timed.forEach(row => {
+      if (existing.some(slot => overlaps(row, slot))) {
+        row.errors.push('Overlaps a slot that already exists on this field');
+      }
+      if (closures.some(closure => overlaps(row, closure))) {
+        row.errors.push('Falls within a closure of this field');
+      }
+
+      const clashes = timed.filter(other => other !== row && overlaps(row, { field_id: other.field_id, start: other.start_time!, end: other.end_time! }));
+      if (clashes.length > 0) {
+        row.errors.push(`Overlaps row ${clashes.map(other => other.row).join(', ')} of this file`);
+      }
+    });
+  }
+
+  const errorCount = rows.filter(row => row.errors.length > 0).length;
+  return { rows, valid_count: rows.length - errorCount, error_count: errorCount };
+};
+
+export async function previewSlotImport(input: SlotImportInput, ownerId: number): Promise<SlotImportReport> {
+  try {
+    return await planImport(input, ownerId);
+  } catch (error) {
+    console.error('Slot import preview failed:', error);
+    throw error;
+  }
+}
+
+// All or nothing: a file with any invalid row is rejected whole, so it can be fixed and uploaded again
+export async function importSlots(input: SlotImportInput, ownerId: number): Promise<SlotImportResult> {
+  try {
+    const report = await planImport(input, ownerId);
+
+    if (report.error_count > 0) {
+      throw new Error(`The CSV file has ${report.error_count} rows with errors; fix them and import again`);
+    }
+
+    if (report.rows.length === 0) {
+      throw new Error('The CSV file has no slots to import');
+    }
+
+    // A single statement, so a slot created elsewhere since the check rolls back the whole file
+    const created = await db.insert(fieldSlotsTable)
+      .values(report.rows.map(row => ({
+        field_id: row.field_id!,
+        start_time: row.start_time!,
+        end_time: row.end_time!,
+        price: row.price!.toString() // Convert number to string for numeric column
+      })))
+      .returning()
+      .execute()
+      .catch(rethrowSlotOverlap);
+
+    return {
+      created: created.map(slot => ({ ...slot, price: parseFloat(slot.price), base_price: null }))
+    };
+  } catch (error) {
+    console.error('Slot import failed:', error);
+    throw error;
+  }
+}
+
+export async function exportFieldSlotsCsv(input: SlotExportInput, ownerId: number): Promise<CsvFile> {
+  try {
+    const fields = await db.select()
+      .from(fieldsTable)
+      .where(and(eq(fieldsTable.id, input.field_id), eq(fieldsTable.owner_id, ownerId)))
+      .execute();
+
+    if (fields.length === 0) {
+      throw new Error('Field not found or you do not have permission to export it');
+    }
+
+    const field = fields[0];
+    const days = daysBetween(input.from, input.to) + 1;
+
+    if (days < 1) {
+      throw new Error('The end date must not be before the start date');
+    }
+
+    if (days > MAX_EXPORT_DAYS) {
+      throw new Error(`At most ${MAX_EXPORT_DAYS} days can be exported at a time`);
+    }
+
+    const results = await db.select({
+      slot: fieldSlotsTable,
+      booking: bookingsTable,
+      first_name: usersTable.first_name,
+      last_name: usersTable.last_name,
+      team_name: teamsTable.name
+    })
+      .from(fieldSlotsTable)
+      .leftJoin(bookingsTable, eq(bookingsTable.slot_id, fieldSlotsTable.id))
+      .leftJoin(usersTable, eq(bookingsTable.user_id, usersTable.id))
+      .leftJoin(teamsTable, eq(bookingsTable.team_id, teamsTable.id))
+      .where(and(
+        eq(fieldSlotsTable.field_id, field.id),
+        gte(fieldSlotsTable.start_time, zonedTimeToUtc(input.from, 0, field.timezone)),
+        lt(fieldSlotsTable.start_time, zonedTimeToUtc(input.to, 24 * 60, field.timezone))
+      ))
+      .orderBy(asc(fieldSlotsTable.start_time), asc(bookingsTable.id))
+      .execute();
+
+    // The first four columns match the import format, so an export can be edited and uploaded again
+    const content = toCsv([
+      ['field', 'start', 'end', 'price', 'available', 'booking_id', 'booking_status', 'booked_by', 'team', 'total_price', 'notes'],
+      ...results.map(({ slot, booking, first_name, last_name, team_name }) => [
+        field.name,
+        formatLocal(slot.start_time, field.timezone),
+        formatLocal(slot.end_time, field.timezone),
+        slot.price,
+        slot.is_available ? 'yes' : 'no',
+        booking?.id ?? null,
+        booking?.status ?? null,
+        booking ? `${first_name} ${last_name}` : null,
+        team_name,
+        booking?.total_price ?? null,
+        booking?.notes ?? null
+      ])
+    ]);
+
+    const slug = field.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || `field-${field.id}`;
+
+    return { filename: `${slug}-${input.from}-to-${input.to}.csv`, content };
+  } catch (error) {
+    console.error('Slot export failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,308 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { recoveryCodesTable, twoFactorChallengesTable, twoFactorCredentialsTable, usersTable } from '../db/schema';
+import {
+  type DisableTwoFactorInput,
+  type PublicUser,
+  type RecoveryCodes,
+  type TwoFactorChallenge,
+  type TwoFactorCodeInput,
+  type TwoFactorSetup,
+  type User,
+  type VerifyTwoFactorLoginInput
+} from '../schema';
+import { and, eq, gt, isNotNull, isNull, lt, or, sql } from 'drizzle-orm';
+import { generateToken, hashToken } from '../utils/tokens';
+import { base32Encode, generateTotpSecret, totpProvisioningUri, verifyTotp } from '../utils/totp';
+import { isTwoFactorRequired } from './two_factor_policy';
+import { isSuspended, suspensionMessage } from '../utils/suspension';
+import { recordAuditEvent } from './audit_log';
+import { toPublicUser } from '../utils/users';
+import { getUserById } from './get_user';
+
+const TOTP_ISSUER = process.env['TOTP_ISSUER'] || 'Football Community';
+export const RECOVERY_CODE_COUNT = 10;
+// The second login step has to be completed within 5 minutes of the password check
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// Recovery codes look like "k3j9d-x7qp2"; dashes, spaces and case are ignored when checking them
+const generateRecoveryCode = (): string => {
+  const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[\s-]/g, '');
+
+// Replaces all of the user's recovery codes; the plain codes are only ever returned here
+const issueRecoveryCodes = async (userId: number): Promise<RecoveryCodes> => {
+  const recovery_codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    await tx.insert(recoveryCodesTable)
+      .values(recovery_codes.map(code => ({
+        user_id: userId,
+        code_hash: hashToken(normalizeRecoveryCode(code))
+      })))
+      .execute();
+  });
+
+  return { recovery_codes };
+};
+
+// Checks an authenticator code or consumes a recovery code for a user with confirmed two-factor
+const checkSecondFactor = async (userId: number, code: string): Promise<boolean> => {
+  const credentials = await db.select()
+    .from(twoFactorCredentialsTable)
+    .where(and(
+      eq(twoFactorCredentialsTable.user_id, userId),
+      isNotNull(twoFactorCredentialsTable.confirmed_at)
+    ))
+    .execute();
+
+  if (credentials.length === 0) {
+    return false;
+  }
+
+  const credential = credentials[0];
+  const step = verifyTotp(credential.secret, code, credential.last_used_step);
+  if (step !== null) {
+    // Conditional update, so a concurrent request cannot use the same code twice
+    const claimed = await db.update(twoFactorCredentialsTable)
+      .set({ last_used_step: step })
+      .where(and(
+        eq(twoFactorCredentialsTable.id, credential.id),
+        or(
+          isNull(twoFactorCredentialsTable.last_used_step),
+          lt(twoFactorCredentialsTable.last_used_step, step)
+        )
+      ))
+      .returning()
+      .execute();
+
+    return claimed.length > 0;
+  }
+
+  const usedCodes = await db.update(recoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(recoveryCodesTable.user_id, userId),
+      eq(recoveryCodesTable.code_hash, hashToken(normalizeRecoveryCode(code))),
+      isNull(recoveryCodesTable.used_at)
+    ))
+    .returning()
+    .execute();
+
+  return usedCodes.length > 0;
+};
+
+export async function beginTwoFactorSetup(userId: number): Promise<TwoFactorSetup> {
+  try {
+    const user = await getUserById(userId);
+
+    if (user.two_factor_enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    // Starting over replaces any secret from an enrollment that was never confirmed
+    const secret = generateTotpSecret();
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorCredentialsTable.user_id,
+        set: { secret, confirmed_at: null, last_used_step: null, created_at: new Date() }
+      })
+      .execute();
+
+    return {
+      secret,
+      otpauth_url: totpProvisioningUri(secret, user.email, TOTP_ISSUER)
+    };
+  } catch (error) {
+    console.error('Two-factor setup failed:', error);
+    throw error;
+  }
+}
+
+export async function confirmTwoFactorSetup(input: TwoFactorCodeInput, userId: number): Promise<RecoveryCodes> {
+  try {
+    const credentials = await db.select()
+      .from(twoFactorCredentialsTable)
+      .where(and(
+        eq(twoFactorCredentialsTable.user_id, userId),
+        isNull(twoFactorCredentialsTable.confirmed_at)
+      ))
+      .execute();
+
+    if (credentials.length === 0) {
+      throw new Error('No two-factor setup in progress');
+    }
+
+    const step = verifyTotp(credentials[0].secret, input.code);
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      await tx.update(twoFactorCredentialsTable)
+        .set({ confirmed_at: now, last_used_step: step })
+        .where(eq(twoFactorCredentialsTable.id, credentials[0].id))
+        .execute();
+
+      await tx.update(usersTable)
+        .set({ two_factor_enabled_at: now, updated_at: now })
+        .where(eq(usersTable.id, userId))
+        .execute();
+    });
+
+    return await issueRecoveryCodes(userId);
+  } catch (error) {
+    console.error('Two-factor confirmation failed:', error);
+    throw error;
+  }
+}
+
+export async function disableTwoFactor(input: DisableTwoFactorInput, userId: number): Promise<PublicUser> {
+  try {
+    const user = await getUserById(userId);
+
+    if (!user.two_factor_enabled_at) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (await isTwoFactorRequired(user.role)) {
+      throw new Error('Two-factor authentication is required for your role');
+    }
+
+    if (!await Bun.password.verify(input.current_password, user.password_hash)) {
+      throw new Error('Current password is incorrect');
+    }
+
+    if (!await checkSecondFactor(userId, input.code)) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const result = await db.transaction(async (tx) => {
+      await tx.delete(twoFactorCredentialsTable)
+        .where(eq(twoFactorCredentialsTable.user_id, userId))
+        .execute();
+
+      await tx.delete(recoveryCodesTable)
+        .where(eq(recoveryCodesTable.user_id, userId))
+        .execute();
+
+      return tx.update(usersTable)
+        .set({ two_factor_enabled_at: null, updated_at: new Date() })
+        .where(eq(usersTable.id, userId))
+        .returning()
+        .execute();
+    });
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('Disabling two-factor failed:', error);
+    throw error;
+  }
+}
+
+export async function regenerateRecoveryCodes(input: TwoFactorCodeInput, userId: number): Promise<RecoveryCodes> {
+  try {
+    const user = await getUserById(userId);
+
+    if (!user.two_factor_enabled_at) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (!await checkSecondFactor(userId, input.code)) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    return await issueRecoveryCodes(userId);
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+}
+
+// Issued by login in place of a session once the password has been verified
+export async function createTwoFactorChallenge(user: User): Promise<TwoFactorChallenge> {
+  try {
+    const challenge_token = generateToken();
+    const expires_at = new Date(Date.now() + CHALLENGE_TTL_MS);
+
+    await db.insert(twoFactorChallengesTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashToken(challenge_token),
+        expires_at
+      })
+      .execute();
+
+    return { two_factor_required: true, challenge_token, expires_at };
+  } catch (error) {
+    console.error('Two-factor challenge creation failed:', error);
+    throw error;
+  }
+}
+
+export async function verifyTwoFactorLogin(input: VerifyTwoFactorLoginInput, ipAddress: string | null = null): Promise<User> {
+  try {
+    // Counting the attempt up front caps guesses even when requests race each other
+    const challenges = await db.update(twoFactorChallengesTable)
+      .set({ attempts: sql`${twoFactorChallengesTable.attempts} + 1` })
+      .where(and(
+        eq(twoFactorChallengesTable.token_hash, hashToken(input.challenge_token)),
+        isNull(twoFactorChallengesTable.used_at),
+        gt(twoFactorChallengesTable.expires_at, new Date()),
+        lt(twoFactorChallengesTable.attempts, MAX_CHALLENGE_ATTEMPTS)
+      ))
+      .returning()
+      .execute();
+
+    if (challenges.length === 0) {
+      throw new Error('Invalid or expired two-factor challenge, please log in again');
+    }
+
+    const challenge = challenges[0];
+    if (!await checkSecondFactor(challenge.user_id, input.code)) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const claimed = await db.update(twoFactorChallengesTable)
+      .set({ used_at: new Date() })
+      .where(and(
+        eq(twoFactorChallengesTable.id, challenge.id),
+        isNull(twoFactorChallengesTable.used_at)
+      ))
+      .returning()
+      .execute();
+
+    if (claimed.length === 0) {
+      throw new Error('Invalid or expired two-factor challenge, please log in again');
+    }
+
+    // The account may have been suspended after the password step
+    const user = await getUserById(challenge.user_id);
+    if (isSuspended(user)) {
+      throw new Error(suspensionMessage(user));
+    }
+
+    await recordAuditEvent({
+      actorId: user.id,
+      action: 'user.login',
+      entityType: 'user',
+      entityId: user.id,
+      after: { ip_address: ipAddress, two_factor: true }
+    });
+
+    return user;
+  } catch (error) {
+    console.error('Two-factor login failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { appSettingsTable, usersTable } from '../db/schema';
+import { type TwoFactorPolicy, type UserRole, twoFactorPolicySchema } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const TWO_FACTOR_POLICY_KEY = 'two_factor_policy';
+
+const DEFAULT_TWO_FACTOR_POLICY: TwoFactorPolicy = { required_roles: [] };
+
+export async function getTwoFactorPolicy(): Promise<TwoFactorPolicy> {
+  try {
+    const settings = await db.select()
+      .from(appSettingsTable)
+      .where(eq(appSettingsTable.key, TWO_FACTOR_POLICY_KEY))
+      .execute();
+
+    if (settings.length === 0) {
+      return DEFAULT_TWO_FACTOR_POLICY;
+    }
+
+    return twoFactorPolicySchema.parse(settings[0].value);
+  } catch (error) {
+    console.error('Failed to fetch two-factor policy:', error);
+    throw error;
+  }
+}
+
+export async function updateTwoFactorPolicy(input: TwoFactorPolicy, adminId: number): Promise<TwoFactorPolicy> {
+  try {
+    const admins = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, adminId))
+      .execute();
+
+    // Otherwise the admin would immediately lose access to the admin procedures, including this one
+    if (input.required_roles.includes('admin') && !admins[0]?.two_factor_enabled_at) {
+      throw new Error('Enable two-factor authentication on your own account before requiring it for admins');
+    }
+
+    const policy: TwoFactorPolicy = { required_roles: [...new Set(input.required_roles)] };
+
+    await db.insert(appSettingsTable)
+      .values({
+        key: TWO_FACTOR_POLICY_KEY,
+        value: policy,
+        updated_by: adminId
+      })
+      .onConflictDoUpdate({
+        target: appSettingsTable.key,
+        set: { value: policy, updated_by: adminId, updated_at: new Date() }
+      })
+      .execute();
+
+    return policy;
+  } catch (error) {
+    console.error('Two-factor policy update failed:', error);
+    throw error;
+  }
+}
+
+export async function isTwoFactorRequired(role: UserRole): Promise<boolean> {
+  const policy = await getTwoFactorPolicy();
+  return (policy.required_roles as UserRole[]).includes(role);
+}
@@ -2,6 +2,7 @@ import { db } from '../db';
 import { bookingsTable, fieldSlotsTable, fieldsTable } from '../db/schema';
 import { type Booking, type BookingStatus } from '../schema';
 import { eq } from 'drizzle-orm';
+import { recordAuditEvent } from './audit_log';
 
 export async function updateBookingStatus(bookingId: number, status: BookingStatus, userId: number): Promise<Booking> {
   try {
@@ -28,6 +29,11 @@ export async function updateBookingStatus(bookingId: number, status: BookingStat
       throw new Error('Unauthorized to update this booking');
     }
 
+    // Confirmation is the owner's call (reviews rely on it); the booker can only cancel
+    if (field.owner_id !== userId && status !== 'cancelled') {
+      throw new Error('Only the field owner can confirm or reopen a booking - you can only cancel it');
+    }
+
     // Update the booking status and updated_at timestamp
     const updatedBookings = await db.update(bookingsTable)
       .set({ 
@@ -40,6 +46,17 @@ export async function updateBookingStatus(bookingId: number, status: BookingStat
 
     const updatedBooking = updatedBookings[0];
 
+    if (booking.status !== status) {
+      await recordAuditEvent({
+        actorId: userId,
+        action: 'booking.status_changed',
+        entityType: 'booking',
+        entityId: bookingId,
+        before: { status: booking.status },
+        after: { status }
+      });
+    }
+
     // Convert numeric fields back to numbers before returning
     return {
       ...updatedBooking,
@@ -2,6 +2,9 @@ import { db } from '../db';
 import { fieldsTable } from '../db/schema';
 import { type UpdateFieldInput, type Field } from '../schema';
 import { eq, and } from 'drizzle-orm';
+import { recordAuditEvent } from './audit_log';
+import { resolveLocation } from '../geocoder';
+import { getOwnedVenue, sharedPitchAttributes } from './venues';
 
 export const updateField = async (input: UpdateFieldInput, ownerId: number): Promise<Field> => {
   try {
@@ -18,11 +21,26 @@ export const updateField = async (input: UpdateFieldInput, ownerId: number): Pro
       throw new Error('Field not found or you do not have permission to update it');
     }
 
+    // Pitches at a venue share its address, location and amenities, which are edited on the venue
+    const venueId = input.venue_id !== undefined ? input.venue_id : existingField[0].venue_id;
+    const sharedChanges = [input.address, input.latitude, input.longitude, input.amenities].some(value => value !== undefined);
+    if (venueId !== null && sharedChanges) {
+      throw new Error('Edit the venue to change a pitch\'s address, location or amenities');
+    }
+
     // Build update object with only provided fields
     const updateData: any = {
       updated_at: new Date()
     };
 
+    // Joining a venue takes on its details; leaving one keeps them
+    if (input.venue_id !== undefined) {
+      updateData.venue_id = input.venue_id;
+      if (input.venue_id !== null) {
+        Object.assign(updateData, sharedPitchAttributes(await getOwnedVenue(input.venue_id, ownerId, 'add pitches to it')));
+      }
+    }
+
     if (input.name !== undefined) {
       updateData.name = input.name;
     }
@@ -39,6 +57,33 @@ export const updateField = async (input: UpdateFieldInput, ownerId: number): Pro
       updateData.hourly_rate = input.hourly_rate.toString(); // Convert number to string for numeric column
     }
 
+    if (input.surface !== undefined) {
+      updateData.surface = input.surface;
+    }
+
+    if (input.formats !== undefined) {
+      updateData.formats = [...new Set(input.formats)];
+    }
+
+    if (input.is_indoor !== undefined) {
+      updateData.is_indoor = input.is_indoor;
+    }
+
+    if (input.amenities !== undefined) {
+      updateData.amenities = [...new Set(input.amenities)];
+    }
+
+    // Explicit coordinates win; a new address without them is geocoded again
+    if (input.latitude !== undefined || input.longitude !== undefined) {
+      const location = await resolveLocation(input.latitude, input.longitude, null);
+      updateData.latitude = location?.latitude ?? null;
+      updateData.longitude = location?.longitude ?? null;
+    } else if (input.address !== undefined && input.address !== existingField[0].address) {
+      const location = await resolveLocation(null, null, input.address);
+      updateData.latitude = location?.latitude ?? null;
+      updateData.longitude = location?.longitude ?? null;
+    }
+
     // Update the field
     const result = await db.update(fieldsTable)
       .set(updateData)
@@ -55,9 +100,23 @@ export const updateField = async (input: UpdateFieldInput, ownerId: number): Pro
 
     // Convert numeric fields back to numbers before returning
     const updatedField = result[0];
+    const previousRate = parseFloat(existingField[0].hourly_rate);
+    const hourlyRate = parseFloat(updatedField.hourly_rate); // Convert string back to number
+
+    if (hourlyRate !== previousRate) {
+      await recordAuditEvent({
+        actorId: ownerId,
+        action: 'field.price_changed',
+        entityType: 'field',
+        entityId: updatedField.id,
+        before: { hourly_rate: previousRate },
+        after: { hourly_rate: hourlyRate }
+      });
+    }
+
     return {
       ...updatedField,
-      hourly_rate: parseFloat(updatedField.hourly_rate) // Convert string back to number
+      hourly_rate: hourlyRate
     };
   } catch (error) {
     console.error('Field update failed:', error);
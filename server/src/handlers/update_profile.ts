@@ -0,0 +1,117 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type ChangeEmailInput, type ChangePasswordInput, type PublicUser, type UpdateProfileInput } from '../schema';
+import { toPublicUser } from '../utils/users';
+import { eq } from 'drizzle-orm';
+import { sendVerificationEmail } from './email_verification';
+import { revokeAllOtherSessions } from './manage_sessions';
+import { getUserById } from './get_user';
+
+export async function updateProfile(input: UpdateProfileInput, userId: number): Promise<PublicUser> {
+  try {
+    await getUserById(userId);
+
+    // Build update object with only provided fields
+    const updateData: Partial<typeof usersTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.first_name !== undefined) {
+      updateData.first_name = input.first_name;
+    }
+
+    if (input.last_name !== undefined) {
+      updateData.last_name = input.last_name;
+    }
+
+    if (input.phone !== undefined) {
+      updateData.phone = input.phone || null; // Store empty strings as null
+    }
+
+    if (input.avatar_url !== undefined) {
+      // A hand-entered URL has no generated thumbnail
+      updateData.avatar_url = input.avatar_url;
+      updateData.avatar_thumbnail_url = null;
+    }
+
+    const result = await db.update(usersTable)
+      .set(updateData)
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('Profile update failed:', error);
+    throw error;
+  }
+}
+
+export async function changePassword(input: ChangePasswordInput, userId: number, currentToken: string | null = null): Promise<boolean> {
+  try {
+    const user = await getUserById(userId);
+
+    if (!await Bun.password.verify(input.current_password, user.password_hash)) {
+      throw new Error('Current password is incorrect');
+    }
+
+    await db.update(usersTable)
+      .set({
+        password_hash: await Bun.password.hash(input.new_password),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    // Sign out every other device; the session that changed the password stays signed in
+    await revokeAllOtherSessions(userId, currentToken);
+
+    return true;
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+}
+
+export async function changeEmail(input: ChangeEmailInput, userId: number): Promise<PublicUser> {
+  try {
+    const user = await getUserById(userId);
+    const email = input.email.toLowerCase();
+
+    if (!await Bun.password.verify(input.current_password, user.password_hash)) {
+      throw new Error('Current password is incorrect');
+    }
+
+    if (email === user.email) {
+      throw new Error('New email is the same as the current one');
+    }
+
+    const existingUsers = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.email, email))
+      .execute();
+
+    if (existingUsers.length > 0) {
+      throw new Error('User with this email already exists');
+    }
+
+    // The new address has to be confirmed again before verified-only actions are unlocked
+    const result = await db.update(usersTable)
+      .set({
+        email,
+        email_verified_at: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    const updatedUser = result[0];
+    await sendVerificationEmail(updatedUser);
+
+    return toPublicUser(updatedUser);
+  } catch (error) {
+    console.error('Email change failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,72 @@
+import { db } from '../db';
+import { teamsTable, usersTable } from '../db/schema';
+import { type ImageUploadInput, type Team, type PublicUser, type UploadTeamLogoInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { deleteStoredImages, deleteStoredImagesUnder, storeImage } from '../utils/images';
+import { toPublicUser } from '../utils/users';
+import { getUserById } from './get_user';
+
+// Avatar URLs can be set by hand in the profile, so only files under this prefix are ever removed
+export const avatarPrefix = (userId: number): string => `avatars/${userId}`;
+
+export async function uploadAvatar(input: ImageUploadInput, userId: number): Promise<PublicUser> {
+  try {
+    const previous = await getUserById(userId);
+    const image = await storeImage(input, avatarPrefix(userId));
+
+    const result = await db.update(usersTable)
+      .set({
+        avatar_url: image.url,
+        avatar_thumbnail_url: image.thumbnail_url,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    // Replaced files are only removed once the new ones are referenced
+    await deleteStoredImagesUnder(avatarPrefix(userId), previous.avatar_url, previous.avatar_thumbnail_url);
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('Avatar upload failed:', error);
+    throw error;
+  }
+}
+
+export async function uploadTeamLogo(input: UploadTeamLogoInput, captainId: number): Promise<Team> {
+  try {
+    const teams = await db.select()
+      .from(teamsTable)
+      .where(eq(teamsTable.id, input.team_id))
+      .execute();
+
+    if (teams.length === 0) {
+      throw new Error('Team not found');
+    }
+
+    const previous = teams[0];
+    if (previous.captain_id !== captainId) {
+      throw new Error('Only the team captain can change the team logo');
+    }
+
+    const image = await storeImage(input, `teams/${input.team_id}`);
+
+    const result = await db.update(teamsTable)
+      .set({
+        logo_url: image.url,
+        logo_thumbnail_url: image.thumbnail_url,
+        updated_at: new Date()
+      })
+      .where(eq(teamsTable.id, input.team_id))
+      .returning()
+      .execute();
+
+    await deleteStoredImages(previous.logo_url, previous.logo_thumbnail_url);
+
+    return result[0];
+  } catch (error) {
+    console.error('Team logo upload failed:', error);
+    throw error;
+  }
+}
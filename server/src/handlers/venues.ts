@@ -0,0 +1,292 @@
+import { db } from '../db';
+import { fieldSlotsTable, fieldsTable, venueOpeningHoursTable, venuePhotosTable, venuesTable } from '../db/schema';
+import {
+  type CreateVenueInput,
+  type FieldSearchInput,
+  type SetVenueScheduleInput,
+  type UpdateVenueInput,
+  type Venue,
+  type VenueAvailability,
+  type VenueSchedule,
+  type VenueWithPitches
+} from '../schema';
+import { and, asc, count, eq, gt, inArray } from 'drizzle-orm';
+import { resolveLocation } from '../geocoder';
+import { deleteStoredImages } from '../utils/images';
+import { fieldSearchConditions } from './get_fields';
+import { sortOpeningHours } from './field_schedule';
+import { slotOutsideClosures } from './field_closures';
+import { slotNotBooked } from './get_bookings';
+
+// Venue details every pitch at the venue carries a copy of, so field searches need no join
+export const sharedPitchAttributes = (venue: typeof venuesTable.$inferSelect) => ({
+  owner_id: venue.owner_id,
+  address: venue.address,
+  latitude: venue.latitude,
+  longitude: venue.longitude,
+  amenities: venue.amenities,
+  timezone: venue.timezone
+});
+
+export const getOwnedVenue = async (venueId: number, ownerId: number, action: string) => {
+  const venues = await db.select()
+    .from(venuesTable)
+    .where(and(eq(venuesTable.id, venueId), eq(venuesTable.owner_id, ownerId)))
+    .execute();
+
+  if (venues.length === 0) {
+    throw new Error(`Venue not found or you do not have permission to ${action}`);
+  }
+
+  return venues[0];
+};
+
+export async function createVenue(input: CreateVenueInput, ownerId: number): Promise<Venue> {
+  try {
+    const location = await resolveLocation(input.latitude, input.longitude, input.address);
+
+    const result = await db.insert(venuesTable)
+      .values({
+        owner_id: ownerId,
+        name: input.name,
+        address: input.address,
+        description: input.description || null,
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
+        amenities: [...new Set(input.amenities ?? [])]
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Venue creation failed:', error);
+    throw error;
+  }
+}
+
+// Changes to the address, location or amenities are copied to the venue's pitches
+export async function updateVenue(input: UpdateVenueInput, ownerId: number): Promise<Venue> {
+  try {
+    const existing = await getOwnedVenue(input.id, ownerId, 'update it');
+
+    const updateData: Partial<typeof venuesTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.name !== undefined) {
+      updateData.name = input.name;
+    }
+
+    if (input.address !== undefined) {
+      updateData.address = input.address;
+    }
+
+    if (input.description !== undefined) {
+      updateData.description = input.description;
+    }
+
+    if (input.amenities !== undefined) {
+      updateData.amenities = [...new Set(input.amenities)];
+    }
+
+    // Explicit coordinates win; a new address without them is geocoded again
+    if (input.latitude !== undefined || input.longitude !== undefined) {
+      const location = await resolveLocation(input.latitude, input.longitude, null);
+      updateData.latitude = location?.latitude ?? null;
+      updateData.longitude = location?.longitude ?? null;
+    } else if (input.address !== undefined && input.address !== existing.address) {
+      const location = await resolveLocation(null, null, input.address);
+      updateData.latitude = location?.latitude ?? null;
+      updateData.longitude = location?.longitude ?? null;
+    }
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(venuesTable)
+        .set(updateData)
+        .where(eq(venuesTable.id, input.id))
+        .returning()
+        .execute();
+
+      await tx.update(fieldsTable)
+        .set({ ...sharedPitchAttributes(result[0]), updated_at: new Date() })
+        .where(eq(fieldsTable.venue_id, input.id))
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Venue update failed:', error);
+    throw error;
+  }
+}
+
+// Pitches have to be moved or made standalone first, so no slots or bookings are lost with the venue
+export async function deleteVenue(venueId: number, ownerId: number): Promise<boolean> {
+  try {
+    await getOwnedVenue(venueId, ownerId, 'delete it');
+
+    const pitches = await db.select({ total: count() })
+      .from(fieldsTable)
+      .where(eq(fieldsTable.venue_id, venueId))
+      .execute();
+
+    if (pitches[0].total > 0) {
+      throw new Error('Move or remove the venue\'s pitches before deleting it');
+    }
+
+    const photos = await db.delete(venuePhotosTable)
+      .where(eq(venuePhotosTable.venue_id, venueId))
+      .returning()
+      .execute();
+
+    await db.delete(venuesTable)
+      .where(eq(venuesTable.id, venueId))
+      .execute();
+
+    for (const photo of photos) {
+      await deleteStoredImages(photo.url, photo.thumbnail_url);
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Venue deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getVenues(): Promise<Venue[]> {
+  try {
+    return await db.select()
+      .from(venuesTable)
+      .orderBy(asc(venuesTable.name), asc(venuesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch venues:', error);
+    throw error;
+  }
+}
+
+export async function getVenuesByOwner(ownerId: number): Promise<VenueWithPitches[]> {
+  try {
+    const venues = await db.select()
+      .from(venuesTable)
+      .where(eq(venuesTable.owner_id, ownerId))
+      .orderBy(asc(venuesTable.name), asc(venuesTable.id))
+      .execute();
+
+    const pitches = venues.length === 0 ? [] : await db.select()
+      .from(fieldsTable)
+      .where(inArray(fieldsTable.venue_id, venues.map(venue => venue.id)))
+      .orderBy(asc(fieldsTable.name), asc(fieldsTable.id))
+      .execute();
+
+    // Convert numeric fields from string to number
+    return venues.map(venue => ({
+      ...venue,
+      pitches: pitches
+        .filter(pitch => pitch.venue_id === venue.id)
+        .map(pitch => ({ ...pitch, hourly_rate: parseFloat(pitch.hourly_rate) }))
+    }));
+  } catch (error) {
+    console.error('Failed to fetch venues by owner:', error);
+    throw error;
+  }
+}
+
+export async function getVenueSchedule(venueId: number): Promise<VenueSchedule> {
+  try {
+    const venues = await db.select()
+      .from(venuesTable)
+      .where(eq(venuesTable.id, venueId))
+      .execute();
+
+    if (venues.length === 0) {
+      throw new Error('Venue not found');
+    }
+
+    const openingHours = await db.select()
+      .from(venueOpeningHoursTable)
+      .where(eq(venueOpeningHoursTable.venue_id, venueId))
+      .orderBy(asc(venueOpeningHoursTable.day_of_week), asc(venueOpeningHoursTable.opens_at))
+      .execute();
+
+    return {
+      venue_id: venueId,
+      timezone: venues[0].timezone,
+      opening_hours: openingHours.map(({ day_of_week, opens_at, closes_at }) => ({ day_of_week, opens_at, closes_at }))
+    };
+  } catch (error) {
+    console.error('Failed to fetch venue schedule:', error);
+    throw error;
+  }
+}
+
+export async function setVenueSchedule(input: SetVenueScheduleInput, ownerId: number): Promise<VenueSchedule> {
+  try {
+    await getOwnedVenue(input.venue_id, ownerId, 'manage it');
+
+    const sorted = sortOpeningHours(input.opening_hours);
+
+    await db.transaction(async (tx) => {
+      await tx.update(venuesTable)
+        .set({ timezone: input.timezone, updated_at: new Date() })
+        .where(eq(venuesTable.id, input.venue_id))
+        .execute();
+
+      await tx.update(fieldsTable)
+        .set({ timezone: input.timezone, updated_at: new Date() })
+        .where(eq(fieldsTable.venue_id, input.venue_id))
+        .execute();
+
+      await tx.delete(venueOpeningHoursTable).where(eq(venueOpeningHoursTable.venue_id, input.venue_id)).execute();
+
+      if (sorted.length > 0) {
+        await tx.insert(venueOpeningHoursTable)
+          .values(sorted.map(hours => ({ venue_id: input.venue_id, ...hours })))
+          .execute();
+      }
+    });
+
+    return getVenueSchedule(input.venue_id);
+  } catch (error) {
+    console.error('Venue schedule update failed:', error);
+    throw error;
+  }
+}
+
+// Upcoming free, unbooked slots at venues, grouped by venue and start time; the filter applies to the pitches
+export async function getVenueAvailability(filter: FieldSearchInput = {}, now: Date = new Date()): Promise<VenueAvailability[]> {
+  try {
+    const rows = await db.select({ slot: fieldSlotsTable, venue: venuesTable })
+      .from(fieldSlotsTable)
+      .innerJoin(fieldsTable, eq(fieldSlotsTable.field_id, fieldsTable.id))
+      .innerJoin(venuesTable, eq(fieldsTable.venue_id, venuesTable.id))
+      .where(and(
+        eq(fieldSlotsTable.is_available, true),
+        gt(fieldSlotsTable.start_time, now),
+        slotOutsideClosures(),
+        slotNotBooked(),
+        ...fieldSearchConditions(filter)
+      ))
+      .orderBy(asc(fieldSlotsTable.start_time), asc(venuesTable.name), asc(venuesTable.id), asc(fieldsTable.name))
+      .execute();
+
+    const groups = new Map<string, VenueAvailability>();
+    for (const { slot, venue } of rows) {
+      const key = `${venue.id}:${slot.start_time.getTime()}`;
+      const group = groups.get(key) ?? { venue, start_time: slot.start_time, slots: [] };
+      group.slots.push({
+        ...slot,
+        price: parseFloat(slot.price),
+        base_price: slot.base_price === null ? null : parseFloat(slot.base_price)
+      });
+      groups.set(key, group);
+    }
+
+    return [...groups.values()];
+  } catch (error) {
+    console.error('Failed to fetch venue availability:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,12 @@
+import { applyDatabaseConstraints } from '../db/constraints';
+
+applyDatabaseConstraints()
+  .then(() => {
+    console.log('Database constraints applied');
+    process.exit(0);
+  })
+  .catch(error => {
+    // A non-zero exit fails the db:push chain, and the db-push service with it
+    console.error('Applying database constraints failed:', error);
+    process.exit(1);
+  });
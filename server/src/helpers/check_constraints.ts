@@ -0,0 +1,16 @@
+import { findSlotConflicts } from '../db/constraints';
+
+// Runs before drizzle-kit push: rows the slot constraints would reject are reported instead of failing the push midway
+findSlotConflicts()
+  .then(conflicts => {
+    if (conflicts.length > 0) {
+      console.error(`Cannot add the slot constraints until these ${conflicts.length} slot conflicts are fixed:`);
+      conflicts.forEach(conflict => console.error(`  ${conflict}`));
+      process.exit(1);
+    }
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('Checking existing slots failed:', error);
+    process.exit(1);
+  });
@@ -1,36 +1,118 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
 import { z } from 'zod';
+import { router, publicProcedure, sessionProcedure, protectedProcedure, verifiedProcedure, ownerProcedure, adminProcedure, createContext, rateLimit, retryAfterResponseMeta } from './trpc';
+import { serveUpload } from './storage';
+import { RATE_LIMITS } from './rate_limit';
+import { toPublicUser } from './utils/users';
 
 // Import schemas
 import {
   registerInputSchema,
   loginInputSchema,
+  requestPasswordResetInputSchema,
+  resetPasswordInputSchema,
+  verifyEmailInputSchema,
+  updateProfileInputSchema,
+  changePasswordInputSchema,
+  deleteMyAccountInputSchema,
+  changeEmailInputSchema,
+  twoFactorCodeInputSchema,
+  disableTwoFactorInputSchema,
+  verifyTwoFactorLoginInputSchema,
+  twoFactorPolicySchema,
+  searchUsersInputSchema,
+  changeUserRoleInputSchema,
+  suspendUserInputSchema,
+  createApiKeyInputSchema,
+  createCalendarFeedInputSchema,
+  getAuditEventsInputSchema,
+  imageUploadInputSchema,
+  uploadTeamLogoInputSchema,
+  addFieldPhotoInputSchema,
+  createVenueInputSchema,
+  updateVenueInputSchema,
+  setVenueScheduleInputSchema,
+  addVenuePhotoInputSchema,
   createFieldInputSchema,
   updateFieldInputSchema,
   createFieldSlotInputSchema,
+  setFieldScheduleInputSchema,
+  generateFieldSlotsInputSchema,
+  createFieldClosureInputSchema,
+  createPricingRuleInputSchema,
+  slotImportInputSchema,
+  slotExportInputSchema,
   createTeamInputSchema,
   addTeamMemberInputSchema,
   createMatchRequestInputSchema,
   createBookingInputSchema,
+  moveBookingInputSchema,
   createInterestInputSchema,
   sendMessageInputSchema,
   createRatingInputSchema,
+  createFieldReviewInputSchema,
+  replyToFieldReviewInputSchema,
   matchRequestTypeSchema,
-  bookingStatusSchema
+  bookingStatusSchema,
+  nearbyFilterSchema,
+  fieldSearchInputSchema,
+  searchFieldsInputSchema
 } from './schema';
 
 // Import handlers
 import { register } from './handlers/register';
 import { login } from './handlers/login';
+import { createSession, endSession, getMySessions, revokeSession, revokeAllOtherSessions } from './handlers/manage_sessions';
+import { requestPasswordReset, resetPassword } from './handlers/password_reset';
+import { verifyEmail, resendVerificationEmail } from './handlers/email_verification';
+import {
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  createTwoFactorChallenge,
+  verifyTwoFactorLogin
+} from './handlers/two_factor';
+import { getTwoFactorPolicy, updateTwoFactorPolicy } from './handlers/two_factor_policy';
+import {
+  searchUsers,
+  changeUserRole,
+  suspendUser,
+  unsuspendUser,
+  forcePasswordReset,
+  getUserOverview
+} from './handlers/admin_users';
+import { getAuditEvents } from './handlers/audit_log';
+import { createApiKey, getMyApiKeys, revokeApiKey } from './handlers/manage_api_keys';
+import { createCalendarFeed, getMyCalendarFeeds, revokeCalendarFeed, serveCalendarFeed } from './handlers/calendar_feeds';
+import { updateProfile, changePassword, changeEmail } from './handlers/update_profile';
+import { exportMyData, deleteMyAccount } from './handlers/account_data';
+import { uploadAvatar, uploadTeamLogo } from './handlers/upload_images';
+import {
+  createVenue,
+  updateVenue,
+  deleteVenue,
+  getVenues,
+  getVenuesByOwner,
+  getVenueSchedule,
+  setVenueSchedule,
+  getVenueAvailability
+} from './handlers/venues';
+import { addVenuePhoto, removeVenuePhoto, getVenuePhotos } from './handlers/manage_venue_photos';
 import { createField } from './handlers/create_field';
-import { getFields, getFieldsByOwner } from './handlers/get_fields';
+import { getFields, getFieldsByOwner, searchFields } from './handlers/get_fields';
+import { archiveField, unarchiveField } from './handlers/archive_field';
+import { deleteField } from './handlers/delete_field';
 import { updateField } from './handlers/update_field';
+import { addFieldPhoto, removeFieldPhoto, getFieldPhotos } from './handlers/manage_field_photos';
 import { createFieldSlot } from './handlers/create_field_slot';
 import { getAvailableFieldSlots, getFieldSlotsByField } from './handlers/get_field_slots';
+import { getFieldSchedule, setFieldSchedule, previewFieldSlots, generateFieldSlots } from './handlers/field_schedule';
+import { createFieldClosure, getFieldClosures, deleteFieldClosure, getClosureAffectedBookings } from './handlers/field_closures';
+import { createPricingRule, getPricingRules, deletePricingRule, quoteSlotPrice } from './handlers/pricing_rules';
+import { previewSlotImport, importSlots, exportFieldSlotsCsv } from './handlers/slot_csv';
 import { createTeam } from './handlers/create_team';
 import { getTeams, getTeamsByUser } from './handlers/get_teams';
 import { addTeamMember, removeTeamMember, getTeamMembers } from './handlers/manage_team_members';
@@ -39,21 +121,16 @@ import { getMatchRequests, getMatchRequestsByType, getMatchRequestsByUser } from
 import { createBooking } from './handlers/create_booking';
 import { getBookingsByUser, getBookingsByFieldOwner } from './handlers/get_bookings';
 import { updateBookingStatus } from './handlers/update_booking_status';
+import { moveBooking } from './handlers/move_booking';
 import { createInterest } from './handlers/create_interest';
 import { getInterestsByMatchRequest, getInterestsByFieldSlot, getInterestsByUser } from './handlers/get_interests';
 import { sendMessage } from './handlers/send_message';
 import { getMessagesBetweenUsers, getConversations, markMessagesAsRead } from './handlers/get_messages';
 import { createRating } from './handlers/create_rating';
 import { getRatingsByTeam, getAverageRatingByTeam } from './handlers/get_ratings';
+import { createFieldReview, replyToFieldReview, getFieldReviews } from './handlers/field_reviews';
 
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
-const appRouter = router({
+export const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
@@ -61,45 +138,332 @@ const appRouter = router({
 
   // Authentication
   register: publicProcedure
+    .use(rateLimit('register', RATE_LIMITS.register))
     .input(registerInputSchema)
-    .mutation(({ input }) => register(input)),
+    .mutation(async ({ input, ctx }) => createSession(await register(input), ctx.ip, ctx.userAgent)),
   
   login: publicProcedure
+    .use(rateLimit('login', RATE_LIMITS.login))
     .input(loginInputSchema)
-    .mutation(({ input }) => login(input)),
+    .mutation(async ({ input, ctx }) => {
+      const user = await login(input, ctx.ip);
+      // Accounts with two-factor enabled get a challenge to complete with verifyTwoFactorLogin
+      return user.two_factor_enabled_at
+        ? createTwoFactorChallenge(user)
+        : createSession(user, ctx.ip, ctx.userAgent);
+    }),
+
+  verifyTwoFactorLogin: publicProcedure
+    .input(verifyTwoFactorLoginInputSchema)
+    .mutation(async ({ input, ctx }) => createSession(await verifyTwoFactorLogin(input, ctx.ip), ctx.ip, ctx.userAgent)),
+
+  logout: sessionProcedure
+    .mutation(({ ctx }) => endSession(ctx.token)),
+
+  me: protectedProcedure
+    .query(({ ctx }) => toPublicUser(ctx.user)),
+
+  getMySessions: protectedProcedure
+    .query(({ ctx }) => getMySessions(ctx.user.id, ctx.token)),
+
+  revokeSession: protectedProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(({ input, ctx }) => revokeSession(input.sessionId, ctx.user.id)),
+
+  revokeAllOtherSessions: protectedProcedure
+    .mutation(({ ctx }) => revokeAllOtherSessions(ctx.user.id, ctx.token)),
+
+  requestPasswordReset: publicProcedure
+    .use(rateLimit('requestPasswordReset', RATE_LIMITS.requestPasswordReset))
+    .input(requestPasswordResetInputSchema)
+    .mutation(({ input }) => requestPasswordReset(input)),
+
+  resetPassword: publicProcedure
+    .use(rateLimit('resetPassword', RATE_LIMITS.resetPassword))
+    .input(resetPasswordInputSchema)
+    .mutation(({ input }) => resetPassword(input)),
+
+  verifyEmail: publicProcedure
+    .input(verifyEmailInputSchema)
+    .mutation(({ input }) => verifyEmail(input)),
+
+  resendVerificationEmail: protectedProcedure
+    .mutation(({ ctx }) => resendVerificationEmail(ctx.user.id)),
+
+  // Profile
+  updateProfile: protectedProcedure
+    .input(updateProfileInputSchema)
+    .mutation(({ input, ctx }) => updateProfile(input, ctx.user.id)),
+
+  changePassword: protectedProcedure
+    .input(changePasswordInputSchema)
+    .mutation(({ input, ctx }) => changePassword(input, ctx.user.id, ctx.token)),
+
+  changeEmail: protectedProcedure
+    .input(changeEmailInputSchema)
+    .mutation(({ input, ctx }) => changeEmail(input, ctx.user.id)),
+
+  uploadAvatar: protectedProcedure
+    .input(imageUploadInputSchema)
+    .mutation(({ input, ctx }) => uploadAvatar(input, ctx.user.id)),
+
+  exportMyData: protectedProcedure
+    .query(({ ctx }) => exportMyData(ctx.user.id)),
+
+  // Suspended accounts can still leave
+  deleteMyAccount: sessionProcedure
+    .input(deleteMyAccountInputSchema)
+    .mutation(({ input, ctx }) => deleteMyAccount(input, ctx.user.id)),
+
+  // Two-factor authentication
+  beginTwoFactorSetup: protectedProcedure
+    .mutation(({ ctx }) => beginTwoFactorSetup(ctx.user.id)),
+
+  confirmTwoFactorSetup: protectedProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ input, ctx }) => confirmTwoFactorSetup(input, ctx.user.id)),
+
+  disableTwoFactor: protectedProcedure
+    .input(disableTwoFactorInputSchema)
+    .mutation(({ input, ctx }) => disableTwoFactor(input, ctx.user.id)),
+
+  regenerateRecoveryCodes: protectedProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ input, ctx }) => regenerateRecoveryCodes(input, ctx.user.id)),
+
+  getTwoFactorPolicy: protectedProcedure
+    .query(() => getTwoFactorPolicy()),
+
+  updateTwoFactorPolicy: adminProcedure
+    .input(twoFactorPolicySchema)
+    .mutation(({ input, ctx }) => updateTwoFactorPolicy(input, ctx.user.id)),
+
+  // Admin console
+  searchUsers: adminProcedure
+    .input(searchUsersInputSchema)
+    .query(({ input }) => searchUsers(input)),
+
+  getUserOverview: adminProcedure
+    .input(z.object({ userId: z.number() }))
+    .query(({ input }) => getUserOverview(input.userId)),
+
+  changeUserRole: adminProcedure
+    .input(changeUserRoleInputSchema)
+    .mutation(({ input, ctx }) => changeUserRole(input, ctx.user.id)),
+
+  suspendUser: adminProcedure
+    .input(suspendUserInputSchema)
+    .mutation(({ input, ctx }) => suspendUser(input, ctx.user.id)),
+
+  unsuspendUser: adminProcedure
+    .input(z.object({ userId: z.number() }))
+    .mutation(({ input, ctx }) => unsuspendUser(input.userId, ctx.user.id)),
+
+  forcePasswordReset: adminProcedure
+    .input(z.object({ userId: z.number() }))
+    .mutation(({ input, ctx }) => forcePasswordReset(input.userId, ctx.user.id)),
+
+  getAuditEvents: adminProcedure
+    .input(getAuditEventsInputSchema)
+    .query(({ input }) => getAuditEvents(input)),
+
+  // API keys for field owner integrations
+  createApiKey: ownerProcedure
+    .input(createApiKeyInputSchema)
+    .mutation(({ input, ctx }) => createApiKey(input, ctx.user.id)),
+
+  getMyApiKeys: ownerProcedure
+    .query(({ ctx }) => getMyApiKeys(ctx.user.id)),
+
+  revokeApiKey: ownerProcedure
+    .input(z.object({ apiKeyId: z.number() }))
+    .mutation(({ input, ctx }) => revokeApiKey(input.apiKeyId, ctx.user.id)),
+
+  // Calendar feeds; without a field_id the feed holds the user's own bookings
+  createCalendarFeed: protectedProcedure
+    .input(createCalendarFeedInputSchema)
+    .mutation(({ input, ctx }) => createCalendarFeed(input, ctx.user.id)),
+
+  getMyCalendarFeeds: protectedProcedure
+    .query(({ ctx }) => getMyCalendarFeeds(ctx.user.id)),
+
+  revokeCalendarFeed: protectedProcedure
+    .input(z.object({ feedId: z.number() }))
+    .mutation(({ input, ctx }) => revokeCalendarFeed(input.feedId, ctx.user.id)),
+
+  // Venues; their pitches are fields with a venue_id
+  createVenue: ownerProcedure
+    .input(createVenueInputSchema)
+    .mutation(({ input, ctx }) => createVenue(input, ctx.user.id)),
+
+  updateVenue: ownerProcedure
+    .input(updateVenueInputSchema)
+    .mutation(({ input, ctx }) => updateVenue(input, ctx.user.id)),
+
+  deleteVenue: ownerProcedure
+    .input(z.object({ venueId: z.number() }))
+    .mutation(({ input, ctx }) => deleteVenue(input.venueId, ctx.user.id)),
+
+  getVenues: publicProcedure
+    .query(() => getVenues()),
+
+  getVenuesByOwner: publicProcedure
+    .input(z.object({ ownerId: z.number() }))
+    .query(({ input }) => getVenuesByOwner(input.ownerId)),
+
+  getVenueSchedule: publicProcedure
+    .input(z.object({ venueId: z.number() }))
+    .query(({ input }) => getVenueSchedule(input.venueId)),
+
+  setVenueSchedule: ownerProcedure
+    .input(setVenueScheduleInputSchema)
+    .mutation(({ input, ctx }) => setVenueSchedule(input, ctx.user.id)),
+
+  getVenueAvailability: publicProcedure
+    .input(fieldSearchInputSchema.optional())
+    .query(({ input }) => getVenueAvailability(input)),
+
+  addVenuePhoto: ownerProcedure
+    .input(addVenuePhotoInputSchema)
+    .mutation(({ input, ctx }) => addVenuePhoto(input, ctx.user.id)),
+
+  removeVenuePhoto: ownerProcedure
+    .input(z.object({ photoId: z.number() }))
+    .mutation(({ input, ctx }) => removeVenuePhoto(input.photoId, ctx.user.id)),
+
+  getVenuePhotos: publicProcedure
+    .input(z.object({ venueId: z.number() }))
+    .query(({ input }) => getVenuePhotos(input.venueId)),
 
   // Field management
-  createField: publicProcedure
+  createField: ownerProcedure
     .input(createFieldInputSchema)
-    .mutation(({ input }) => createField(input, 1)), // TODO: Get user ID from context
+    .mutation(({ input, ctx }) => createField(input, ctx.user.id)),
 
   getFields: publicProcedure
     .query(() => getFields()),
 
-  getFieldsByOwner: publicProcedure
-    .input(z.object({ ownerId: z.number() }))
-    .query(({ input }) => getFieldsByOwner(input.ownerId)),
+  searchFields: publicProcedure
+    .input(searchFieldsInputSchema)
+    .query(({ input }) => searchFields(input)),
+
+  // Includes archived fields, so only ever for the calling owner
+  getFieldsByOwner: ownerProcedure
+    .query(({ ctx }) => getFieldsByOwner(ctx.user.id)),
 
-  updateField: publicProcedure
+  updateField: ownerProcedure
     .input(updateFieldInputSchema)
-    .mutation(({ input }) => updateField(input, 1)), // TODO: Get user ID from context
+    .mutation(({ input, ctx }) => updateField(input, ctx.user.id)),
+
+  archiveField: ownerProcedure
+    .input(z.object({ fieldId: z.number() }))
+    .mutation(({ input, ctx }) => archiveField(input.fieldId, ctx.user.id)),
+
+  unarchiveField: ownerProcedure
+    .input(z.object({ fieldId: z.number() }))
+    .mutation(({ input, ctx }) => unarchiveField(input.fieldId, ctx.user.id)),
+
+  deleteField: ownerProcedure
+    .input(z.object({ fieldId: z.number() }))
+    .mutation(({ input, ctx }) => deleteField(input.fieldId, ctx.user.id)),
+
+  // Field photos
+  addFieldPhoto: ownerProcedure
+    .input(addFieldPhotoInputSchema)
+    .mutation(({ input, ctx }) => addFieldPhoto(input, ctx.user.id)),
+
+  removeFieldPhoto: ownerProcedure
+    .input(z.object({ photoId: z.number() }))
+    .mutation(({ input, ctx }) => removeFieldPhoto(input.photoId, ctx.user.id)),
+
+  getFieldPhotos: publicProcedure
+    .input(z.object({ fieldId: z.number() }))
+    .query(({ input }) => getFieldPhotos(input.fieldId)),
 
   // Field slot management
-  createFieldSlot: publicProcedure
+  createFieldSlot: ownerProcedure
+    .meta({ apiKeyScope: 'slots:write' })
     .input(createFieldSlotInputSchema)
-    .mutation(({ input }) => createFieldSlot(input)),
+    .mutation(({ input, ctx }) => createFieldSlot(input, ctx.user.id)),
+
+  // Opening hours and slot generation
+  getFieldSchedule: publicProcedure
+    .input(z.object({ fieldId: z.number() }))
+    .query(({ input }) => getFieldSchedule(input.fieldId)),
+
+  setFieldSchedule: ownerProcedure
+    .input(setFieldScheduleInputSchema)
+    .mutation(({ input, ctx }) => setFieldSchedule(input, ctx.user.id)),
+
+  previewFieldSlots: ownerProcedure
+    .meta({ apiKeyScope: 'slots:read' })
+    .input(generateFieldSlotsInputSchema)
+    .query(({ input, ctx }) => previewFieldSlots(input, ctx.user.id)),
+
+  generateFieldSlots: ownerProcedure
+    .meta({ apiKeyScope: 'slots:write' })
+    .input(generateFieldSlotsInputSchema)
+    .mutation(({ input, ctx }) => generateFieldSlots(input, ctx.user.id)),
+
+  // CSV import and export. The preview is a mutation too, as a file is too large for a query string
+  previewSlotImport: ownerProcedure
+    .meta({ apiKeyScope: 'slots:read' })
+    .input(slotImportInputSchema)
+    .mutation(({ input, ctx }) => previewSlotImport(input, ctx.user.id)),
+
+  importSlots: ownerProcedure
+    .meta({ apiKeyScope: 'slots:write' })
+    .input(slotImportInputSchema)
+    .mutation(({ input, ctx }) => importSlots(input, ctx.user.id)),
+
+  exportFieldSlotsCsv: ownerProcedure
+    .meta({ apiKeyScope: 'bookings:read' })
+    .input(slotExportInputSchema)
+    .query(({ input, ctx }) => exportFieldSlotsCsv(input, ctx.user.id)),
+
+  // Field closures
+  createFieldClosure: ownerProcedure
+    .input(createFieldClosureInputSchema)
+    .mutation(({ input, ctx }) => createFieldClosure(input, ctx.user.id)),
+
+  getFieldClosures: publicProcedure
+    .input(z.object({ fieldId: z.number() }))
+    .query(({ input }) => getFieldClosures(input.fieldId)),
+
+  deleteFieldClosure: ownerProcedure
+    .input(z.object({ closureId: z.number() }))
+    .mutation(({ input, ctx }) => deleteFieldClosure(input.closureId, ctx.user.id)),
+
+  // Pricing rules
+  createPricingRule: ownerProcedure
+    .input(createPricingRuleInputSchema)
+    .mutation(({ input, ctx }) => createPricingRule(input, ctx.user.id)),
+
+  getPricingRules: publicProcedure
+    .input(z.object({ fieldId: z.number() }))
+    .query(({ input }) => getPricingRules(input.fieldId)),
+
+  deletePricingRule: ownerProcedure
+    .input(z.object({ ruleId: z.number() }))
+    .mutation(({ input, ctx }) => deletePricingRule(input.ruleId, ctx.user.id)),
+
+  quoteSlotPrice: publicProcedure
+    .input(z.object({ slotId: z.number() }))
+    .query(({ input }) => quoteSlotPrice(input.slotId)),
 
   getAvailableFieldSlots: publicProcedure
-    .query(() => getAvailableFieldSlots()),
+    .input(fieldSearchInputSchema.optional())
+    .query(({ input }) => getAvailableFieldSlots(input)),
 
   getFieldSlotsByField: publicProcedure
+    .meta({ apiKeyScope: 'slots:read' })
     .input(z.object({ fieldId: z.number() }))
     .query(({ input }) => getFieldSlotsByField(input.fieldId)),
 
   // Team management
-  createTeam: publicProcedure
+  createTeam: protectedProcedure
     .input(createTeamInputSchema)
-    .mutation(({ input }) => createTeam(input, 1)), // TODO: Get user ID from context
+    .mutation(({ input, ctx }) => createTeam(input, ctx.user.id)),
 
   getTeams: publicProcedure
     .query(() => getTeams()),
@@ -108,25 +472,30 @@ const appRouter = router({
     .input(z.object({ userId: z.number() }))
     .query(({ input }) => getTeamsByUser(input.userId)),
 
-  addTeamMember: publicProcedure
+  addTeamMember: protectedProcedure
     .input(addTeamMemberInputSchema)
-    .mutation(({ input }) => addTeamMember(input, 1)), // TODO: Get user ID from context
+    .mutation(({ input, ctx }) => addTeamMember(input, ctx.user.id)),
 
-  removeTeamMember: publicProcedure
+  removeTeamMember: protectedProcedure
     .input(z.object({ teamId: z.number(), userId: z.number() }))
-    .mutation(({ input }) => removeTeamMember(input.teamId, input.userId, 1)), // TODO: Get user ID from context
+    .mutation(({ input, ctx }) => removeTeamMember(input.teamId, input.userId, ctx.user.id)),
 
   getTeamMembers: publicProcedure
     .input(z.object({ teamId: z.number() }))
     .query(({ input }) => getTeamMembers(input.teamId)),
 
+  uploadTeamLogo: protectedProcedure
+    .input(uploadTeamLogoInputSchema)
+    .mutation(({ input, ctx }) => uploadTeamLogo(input, ctx.user.id)),
+
   // Match requests
-  createMatchRequest: publicProcedure
+  createMatchRequest: protectedProcedure
     .input(createMatchRequestInputSchema)
-    .mutation(({ input }) => createMatchRequest(input, 1)), // TODO: Get user ID from context
+    .mutation(({ input, ctx }) => createMatchRequest(input, ctx.user.id)),
 
   getMatchRequests: publicProcedure
-    .query(() => getMatchRequests()),
+    .input(nearbyFilterSchema.optional())
+    .query(({ input }) => getMatchRequests(input)),
 
   getMatchRequestsByType: publicProcedure
     .input(z.object({ type: matchRequestTypeSchema }))
@@ -137,26 +506,39 @@ const appRouter = router({
     .query(({ input }) => getMatchRequestsByUser(input.userId)),
 
   // Bookings
-  createBooking: publicProcedure
+  createBooking: verifiedProcedure
     .input(createBookingInputSchema)
-    .mutation(({ input }) => createBooking(input, 1)), // TODO: Get user ID from context
+    .mutation(({ input, ctx }) => createBooking(input, ctx.user.id)),
 
-  getBookingsByUser: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getBookingsByUser(input.userId)),
+  getBookingsByUser: protectedProcedure
+    .query(({ ctx }) => getBookingsByUser(ctx.user.id)),
+
+  getMyFieldBookings: ownerProcedure
+    .meta({ apiKeyScope: 'bookings:read' })
+    .query(({ ctx }) => getBookingsByFieldOwner(ctx.user.id)),
 
-  getBookingsByFieldOwner: publicProcedure
+  getBookingsByFieldOwner: adminProcedure
     .input(z.object({ ownerId: z.number() }))
     .query(({ input }) => getBookingsByFieldOwner(input.ownerId)),
 
-  updateBookingStatus: publicProcedure
+  updateBookingStatus: protectedProcedure
+    .meta({ apiKeyScope: 'bookings:write' })
     .input(z.object({ bookingId: z.number(), status: bookingStatusSchema }))
-    .mutation(({ input }) => updateBookingStatus(input.bookingId, input.status, 1)), // TODO: Get user ID from context
+    .mutation(({ input, ctx }) => updateBookingStatus(input.bookingId, input.status, ctx.user.id)),
+
+  moveBooking: protectedProcedure
+    .meta({ apiKeyScope: 'bookings:write' })
+    .input(moveBookingInputSchema)
+    .mutation(({ input, ctx }) => moveBooking(input, ctx.user.id)),
+
+  getMyClosureAffectedBookings: protectedProcedure
+    .query(({ ctx }) => getClosureAffectedBookings(ctx.user.id)),
 
   // Interests
-  createInterest: publicProcedure
+  createInterest: protectedProcedure
+    .use(rateLimit('createInterest', RATE_LIMITS.createInterest))
     .input(createInterestInputSchema)
-    .mutation(({ input }) => createInterest(input, 1)), // TODO: Get user ID from context
+    .mutation(({ input, ctx }) => createInterest(input, ctx.user.id)),
 
   getInterestsByMatchRequest: publicProcedure
     .input(z.object({ matchRequestId: z.number() }))
@@ -166,31 +548,30 @@ const appRouter = router({
     .input(z.object({ fieldSlotId: z.number() }))
     .query(({ input }) => getInterestsByFieldSlot(input.fieldSlotId)),
 
-  getInterestsByUser: publicProcedure
-    .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getInterestsByUser(input.userId)),
+  getInterestsByUser: protectedProcedure
+    .query(({ ctx }) => getInterestsByUser(ctx.user.id)),
 
   // Messages
-  sendMessage: publicProcedure
+  sendMessage: verifiedProcedure
+    .use(rateLimit('sendMessage', RATE_LIMITS.sendMessage))
     .input(sendMessageInputSchema)
-    .mutation(({ input }) => sendMessage(input, 1)), // TODO: Get user ID from context
+    .mutation(({ input, ctx }) => sendMessage(input, ctx.user.id)),
 
-  getMessagesBetweenUsers: publicProcedure
-    .input(z.object({ userId1: z.number(), userId2: z.number() }))
-    .query(({ input }) => getMessagesBetweenUsers(input.userId1, input.userId2)),
-
-  getConversations: publicProcedure
+  getMessagesBetweenUsers: protectedProcedure
     .input(z.object({ userId: z.number() }))
-    .query(({ input }) => getConversations(input.userId)),
+    .query(({ input, ctx }) => getMessagesBetweenUsers(ctx.user.id, input.userId)),
+
+  getConversations: protectedProcedure
+    .query(({ ctx }) => getConversations(ctx.user.id)),
 
-  markMessagesAsRead: publicProcedure
-    .input(z.object({ senderId: z.number(), receiverId: z.number() }))
-    .mutation(({ input }) => markMessagesAsRead(input.senderId, input.receiverId)),
+  markMessagesAsRead: protectedProcedure
+    .input(z.object({ senderId: z.number() }))
+    .mutation(({ input, ctx }) => markMessagesAsRead(input.senderId, ctx.user.id)),
 
   // Ratings
-  createRating: publicProcedure
+  createRating: protectedProcedure
     .input(createRatingInputSchema)
-    .mutation(({ input }) => createRating(input, 1)), // TODO: Get user ID from context
+    .mutation(({ input, ctx }) => createRating(input, ctx.user.id)),
 
   getRatingsByTeam: publicProcedure
     .input(z.object({ teamId: z.number() }))
@@ -199,6 +580,19 @@ const appRouter = router({
   getAverageRatingByTeam: publicProcedure
     .input(z.object({ teamId: z.number() }))
     .query(({ input }) => getAverageRatingByTeam(input.teamId)),
+
+  // Field reviews
+  createFieldReview: protectedProcedure
+    .input(createFieldReviewInputSchema)
+    .mutation(({ input, ctx }) => createFieldReview(input, ctx.user.id)),
+
+  replyToFieldReview: ownerProcedure
+    .input(replyToFieldReviewInputSchema)
+    .mutation(({ input, ctx }) => replyToFieldReview(input, ctx.user.id)),
+
+  getFieldReviews: publicProcedure
+    .input(z.object({ fieldId: z.number() }))
+    .query(({ input }) => getFieldReviews(input.fieldId)),
 });
 
 export type AppRouter = typeof appRouter;
@@ -207,15 +601,32 @@ async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      // Uploaded files and calendar feeds are served from the same port as the API
+      serveUpload(req, res)
+        .then(handled => handled || serveCalendarFeed(req, res))
+        .then(handled => {
+          if (!handled) {
+            cors()(req, res, next);
+          }
+        })
+        .catch(error => {
+          // A failing file or feed response must not become an unhandled rejection that stops the server
+          console.error('Request middleware failed:', error);
+          if (!res.headersSent) {
+            res.statusCode = 500;
+          }
+          res.end();
+        });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
+    responseMeta: retryAfterResponseMeta,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
 }
 
-start();
\ No newline at end of file
+// Only listen when run as the entry point, so tests can import the router
+if (import.meta.main) {
+  start();
+}
@@ -0,0 +1,29 @@
+import { db } from './db';
+import { mailOutboxTable } from './db/schema';
+import { type MailMessage } from './schema';
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Default mailer: records every message in the mail_outbox table instead of talking to SMTP
+export const outboxMailer: Mailer = {
+  async send(message) {
+    await db.insert(mailOutboxTable)
+      .values(message)
+      .execute();
+  }
+};
+
+let activeMailer: Mailer = outboxMailer;
+
+export const getMailer = (): Mailer => activeMailer;
+
+// Swap in a real transport (SMTP, API provider) at startup
+export const setMailer = (mailer: Mailer): void => {
+  activeMailer = mailer;
+};
+
+// Base URL used when building links that go out in emails
+export const appUrl = (path: string): string =>
+  `${process.env['APP_URL'] || 'http://localhost'}${path}`;
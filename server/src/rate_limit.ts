@@ -0,0 +1,173 @@
+import { db } from './db';
+import { rateLimitBucketsTable } from './db/schema';
+import { eq } from 'drizzle-orm';
+
+// A bucket holds up to `capacity` requests and regains `refillPerMinute` of them every minute
+export interface TokenBucketConfig {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+// Buckets applied to one procedure; any of them may be left out. perEmail keys on the email address
+// in the input, for public procedures that act on an account without being signed in to it
+export interface RateLimitConfig {
+  perUser?: TokenBucketConfig;
+  perIp?: TokenBucketConfig;
+  perEmail?: TokenBucketConfig;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimitStore {
+  consume(key: string, bucket: TokenBucketConfig, now?: number): Promise<RateLimitResult>;
+}
+
+export const RATE_LIMITS = {
+  login: { perIp: { capacity: 10, refillPerMinute: 5 } },
+  register: { perIp: { capacity: 5, refillPerMinute: 1 } },
+  requestPasswordReset: {
+    perIp: { capacity: 5, refillPerMinute: 1 },
+    perEmail: { capacity: 3, refillPerMinute: 0.2 }
+  },
+  resetPassword: { perIp: { capacity: 10, refillPerMinute: 2 } },
+  sendMessage: {
+    perUser: { capacity: 20, refillPerMinute: 10 },
+    perIp: { capacity: 60, refillPerMinute: 30 }
+  },
+  createInterest: {
+    perUser: { capacity: 10, refillPerMinute: 5 },
+    perIp: { capacity: 30, refillPerMinute: 15 }
+  }
+} satisfies Record<string, RateLimitConfig>;
+
+interface BucketState {
+  tokens: number;
+  refilledAt: number;
+}
+
+// Carried as the cause of TOO_MANY_REQUESTS errors so the response can say when to retry
+export class RateLimitExceededError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(`Too many requests, please try again in ${retryAfterSeconds} seconds`);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+// The memory store forgets buckets that have refilled completely once it holds this many
+const MEMORY_STORE_SWEEP_SIZE = 10_000;
+
+// Tops the bucket up for the time elapsed since it was last refilled, then tries to take one token
+const takeToken = (state: BucketState | null, bucket: TokenBucketConfig, now: number): { state: BucketState; result: RateLimitResult } => {
+  const refillPerMs = bucket.refillPerMinute / 60_000;
+  const elapsed = state ? Math.max(0, now - state.refilledAt) : 0;
+  const tokens = state ? Math.min(bucket.capacity, state.tokens + elapsed * refillPerMs) : bucket.capacity;
+
+  if (tokens >= 1) {
+    return { state: { tokens: tokens - 1, refilledAt: now }, result: { allowed: true, retryAfterMs: 0 } };
+  }
+
+  return {
+    state: { tokens, refilledAt: now },
+    result: { allowed: false, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) }
+  };
+};
+
+// Default store: buckets live in process memory, so each server instance counts separately
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const buckets = new Map<string, BucketState & { fullAt: number }>();
+
+  const sweep = (now: number) => {
+    for (const [key, state] of buckets) {
+      if (state.fullAt <= now) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  return {
+    async consume(key, bucket, now = Date.now()) {
+      if (buckets.size >= MEMORY_STORE_SWEEP_SIZE) {
+        sweep(now);
+      }
+
+      const { state, result } = takeToken(buckets.get(key) ?? null, bucket, now);
+      const fullAt = now + (bucket.capacity - state.tokens) / (bucket.refillPerMinute / 60_000);
+      buckets.set(key, { ...state, fullAt });
+      return result;
+    }
+  };
+};
+
+// Shared store for multi-instance deployments: buckets are rows in rate_limit_buckets
+export const createPostgresRateLimitStore = (): RateLimitStore => ({
+  async consume(key, bucket, now = Date.now()) {
+    return db.transaction(async (tx) => {
+      await tx.insert(rateLimitBucketsTable)
+        .values({ key, tokens: bucket.capacity, refilled_at: new Date(now) })
+        .onConflictDoNothing()
+        .execute();
+
+      // The row lock serializes concurrent requests for the same bucket
+      const rows = await tx.select()
+        .from(rateLimitBucketsTable)
+        .where(eq(rateLimitBucketsTable.key, key))
+        .for('update')
+        .execute();
+
+      const { state, result } = takeToken(
+        { tokens: rows[0].tokens, refilledAt: rows[0].refilled_at.getTime() },
+        bucket,
+        now
+      );
+
+      await tx.update(rateLimitBucketsTable)
+        .set({ tokens: state.tokens, refilled_at: new Date(state.refilledAt) })
+        .where(eq(rateLimitBucketsTable.key, key))
+        .execute();
+
+      return result;
+    });
+  }
+});
+
+let activeStore: RateLimitStore = process.env['RATE_LIMIT_STORE'] === 'postgres'
+  ? createPostgresRateLimitStore()
+  : createMemoryRateLimitStore();
+
+export const getRateLimitStore = (): RateLimitStore => activeStore;
+
+// Swap in another store at startup, or a fresh one between tests
+export const setRateLimitStore = (store: RateLimitStore): void => {
+  activeStore = store;
+};
+
+// Checks every bucket that applies to the caller; the longest wait wins when more than one is empty
+export async function checkRateLimit(
+  name: string,
+  config: RateLimitConfig,
+  caller: { userId: number | null; ip: string | null; email?: string | null }
+): Promise<RateLimitResult> {
+  const checks: Promise<RateLimitResult>[] = [];
+
+  if (config.perIp && caller.ip) {
+    checks.push(activeStore.consume(`${name}:ip:${caller.ip}`, config.perIp));
+  }
+
+  if (config.perUser && caller.userId !== null) {
+    checks.push(activeStore.consume(`${name}:user:${caller.userId}`, config.perUser));
+  }
+
+  if (config.perEmail && caller.email) {
+    checks.push(activeStore.consume(`${name}:email:${caller.email.toLowerCase()}`, config.perEmail));
+  }
+
+  const results = await Promise.all(checks);
+  const denied = results.filter(result => !result.allowed);
+
+  return denied.length > 0
+    ? { allowed: false, retryAfterMs: Math.max(...denied.map(result => result.retryAfterMs)) }
+    : { allowed: true, retryAfterMs: 0 };
+}
@@ -1,9 +1,14 @@
 import { z } from 'zod';
+import { isValidTimeZone } from './utils/time';
 
 // User role enum
 export const userRoleSchema = z.enum(['player', 'field_owner', 'admin']);
 export type UserRole = z.infer<typeof userRoleSchema>;
 
+// Roles open to self-registration; admins are only made through changeUserRole
+export const registrationRoleSchema = z.enum(['player', 'field_owner']);
+export type RegistrationRole = z.infer<typeof registrationRoleSchema>;
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
@@ -14,19 +19,31 @@ export const userSchema = z.object({
   role: userRoleSchema,
   phone: z.string().nullable(),
   avatar_url: z.string().nullable(),
+  avatar_thumbnail_url: z.string().nullable(),
+  email_verified_at: z.coerce.date().nullable(),
+  two_factor_enabled_at: z.coerce.date().nullable(),
+  suspended_at: z.coerce.date().nullable(),
+  suspended_until: z.coerce.date().nullable(),
+  suspension_reason: z.string().nullable(),
+  deleted_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// Users as sent to any caller - password hashes never leave the server
+export const publicUserSchema = userSchema.omit({ password_hash: true });
+
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
 // Auth schemas
 export const registerInputSchema = z.object({
   email: z.string().email(),
   password: z.string().min(6),
   first_name: z.string(),
   last_name: z.string(),
-  role: userRoleSchema,
+  role: registrationRoleSchema,
   phone: z.string().optional()
 });
 
@@ -39,39 +56,467 @@ export const loginInputSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+// Login attempt schema
+export const loginAttemptSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  ip_address: z.string().nullable(),
+  succeeded: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type LoginAttempt = z.infer<typeof loginAttemptSchema>;
+
+// Profile schemas
+export const updateProfileInputSchema = z.object({
+  first_name: z.string().min(1).optional(),
+  last_name: z.string().min(1).optional(),
+  phone: z.string().nullable().optional(),
+  avatar_url: z.string().url().nullable().optional()
+});
+
+export type UpdateProfileInput = z.infer<typeof updateProfileInputSchema>;
+
+export const changePasswordInputSchema = z.object({
+  current_password: z.string(),
+  new_password: z.string().min(6)
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+export const changeEmailInputSchema = z.object({
+  email: z.string().email(),
+  current_password: z.string()
+});
+
+export type ChangeEmailInput = z.infer<typeof changeEmailInputSchema>;
+
+// Image upload schemas - file contents travel base64-encoded inside the tRPC payload
+export const imageContentTypeSchema = z.enum(['image/jpeg', 'image/png', 'image/webp']);
+export type ImageContentType = z.infer<typeof imageContentTypeSchema>;
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Base64 takes 4 characters for every 3 bytes, so anything longer cannot decode to an allowed image
+export const imageUploadInputSchema = z.object({
+  content_type: imageContentTypeSchema,
+  data: z.string().min(1).max(Math.ceil(MAX_IMAGE_BYTES / 3) * 4)
+});
+
+export type ImageUploadInput = z.infer<typeof imageUploadInputSchema>;
+
+export const storedImageSchema = z.object({
+  url: z.string(),
+  thumbnail_url: z.string(),
+  width: z.number().int(),
+  height: z.number().int()
+});
+
+export type StoredImage = z.infer<typeof storedImageSchema>;
+
+// Session schema
+export const sessionSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  token_hash: z.string(),
+  user_agent: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  last_seen_at: z.coerce.date(),
+  expires_at: z.coerce.date(),
+  created_at: z.coerce.date()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+// A session as listed to its owner - the token hash never leaves the server
+export const deviceSessionSchema = sessionSchema.omit({ token_hash: true }).extend({
+  is_current: z.boolean()
+});
+
+export type DeviceSession = z.infer<typeof deviceSessionSchema>;
+
+// Returned by login/register - the token is only ever sent to the client once
+export const authResponseSchema = z.object({
+  user: publicUserSchema,
+  token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type AuthResponse = z.infer<typeof authResponseSchema>;
+
+// API key schemas
+// Each scope unlocks the procedures that declare it in their meta
+export const apiKeyScopeSchema = z.enum(['slots:read', 'slots:write', 'bookings:read', 'bookings:write']);
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
+// API keys as listed to their owner - the hash never leaves the server
+export const apiKeySchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  name: z.string(),
+  key_prefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  last_used_at: z.coerce.date().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+export const createApiKeyInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1)
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeyInputSchema>;
+
+// The full key is only ever returned here, right after creation
+export const createdApiKeySchema = z.object({
+  api_key: apiKeySchema,
+  key: z.string()
+});
+
+export type CreatedApiKey = z.infer<typeof createdApiKeySchema>;
+
+// Calendar feed schemas
+// Feeds as listed to their owner - like API keys, the secret URL is only shown once
+export const calendarFeedSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  field_id: z.number().nullable(), // Null for the user's own bookings
+  last_accessed_at: z.coerce.date().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type CalendarFeed = z.infer<typeof calendarFeedSchema>;
+
+export const createCalendarFeedInputSchema = z.object({
+  field_id: z.number().nullable().optional()
+});
+
+export type CreateCalendarFeedInput = z.infer<typeof createCalendarFeedInputSchema>;
+
+export const createdCalendarFeedSchema = z.object({
+  feed: calendarFeedSchema,
+  url: z.string()
+});
+
+export type CreatedCalendarFeed = z.infer<typeof createdCalendarFeedSchema>;
+
+// Two-factor authentication schemas
+export const twoFactorSetupSchema = z.object({
+  secret: z.string(),
+  otpauth_url: z.string()
+});
+
+export type TwoFactorSetup = z.infer<typeof twoFactorSetupSchema>;
+
+// Accepts either a 6-digit authenticator code or a recovery code
+export const twoFactorCodeInputSchema = z.object({
+  code: z.string().min(6).max(32)
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeInputSchema>;
+
+export const recoveryCodesSchema = z.object({
+  recovery_codes: z.array(z.string())
+});
+
+export type RecoveryCodes = z.infer<typeof recoveryCodesSchema>;
+
+export const disableTwoFactorInputSchema = twoFactorCodeInputSchema.extend({
+  current_password: z.string()
+});
+
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorInputSchema>;
+
+// Returned by login instead of a session when the account has two-factor enabled
+export const twoFactorChallengeSchema = z.object({
+  two_factor_required: z.literal(true),
+  challenge_token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>;
+
+export const loginResponseSchema = z.union([authResponseSchema, twoFactorChallengeSchema]);
+
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+
+export const verifyTwoFactorLoginInputSchema = twoFactorCodeInputSchema.extend({
+  challenge_token: z.string()
+});
+
+export type VerifyTwoFactorLoginInput = z.infer<typeof verifyTwoFactorLoginInputSchema>;
+
+// Roles an admin can require two-factor authentication for
+export const twoFactorPolicyRoleSchema = z.enum(['field_owner', 'admin']);
+
+export const twoFactorPolicySchema = z.object({
+  required_roles: z.array(twoFactorPolicyRoleSchema)
+});
+
+export type TwoFactorPolicy = z.infer<typeof twoFactorPolicySchema>;
+
+// Password reset schemas
+export const passwordResetTokenSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  token_hash: z.string(),
+  expires_at: z.coerce.date(),
+  used_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type PasswordResetToken = z.infer<typeof passwordResetTokenSchema>;
+
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email()
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+export const resetPasswordInputSchema = z.object({
+  token: z.string(),
+  password: z.string().min(6)
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+// Email verification schemas
+export const emailVerificationTokenSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  email: z.string().email(),
+  token_hash: z.string(),
+  expires_at: z.coerce.date(),
+  used_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type EmailVerificationToken = z.infer<typeof emailVerificationTokenSchema>;
+
+export const verifyEmailInputSchema = z.object({
+  token: z.string()
+});
+
+export type VerifyEmailInput = z.infer<typeof verifyEmailInputSchema>;
+
+// Outbound mail schema
+export const mailMessageSchema = z.object({
+  to: z.string().email(),
+  subject: z.string(),
+  body: z.string()
+});
+
+export type MailMessage = z.infer<typeof mailMessageSchema>;
+
+export const outboxMailSchema = mailMessageSchema.extend({
+  id: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type OutboxMail = z.infer<typeof outboxMailSchema>;
+
+// Location schemas
+export const latitudeSchema = z.number().min(-90).max(90);
+export const longitudeSchema = z.number().min(-180).max(180);
+
+export const geoPointSchema = z.object({
+  latitude: latitudeSchema,
+  longitude: longitudeSchema
+});
+
+export type GeoPoint = z.infer<typeof geoPointSchema>;
+
+// "Within radius_km of this point" - used by the field, slot and match request searches
+export const nearbyFilterSchema = geoPointSchema.extend({
+  radius_km: z.number().positive().max(500)
+});
+
+export type NearbyFilter = z.infer<typeof nearbyFilterSchema>;
+
+// Field attribute schemas
+export const fieldSurfaceSchema = z.enum(['artificial_turf', 'natural_grass', 'hybrid', 'hard_court']);
+export type FieldSurface = z.infer<typeof fieldSurfaceSchema>;
+
+export const fieldFormatSchema = z.enum(['5v5', '7v7', '9v9', '11v11']);
+export type FieldFormat = z.infer<typeof fieldFormatSchema>;
+
+export const fieldAmenitySchema = z.enum(['floodlights', 'changing_rooms', 'showers', 'parking', 'equipment_hire', 'cafe']);
+export type FieldAmenity = z.infer<typeof fieldAmenitySchema>;
+
 // Field schema
 export const fieldSchema = z.object({
   id: z.number(),
   owner_id: z.number(),
+  venue_id: z.number().nullable(),
   name: z.string(),
   address: z.string(),
   description: z.string().nullable(),
   hourly_rate: z.number(),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
+  surface: fieldSurfaceSchema.nullable(),
+  formats: z.array(fieldFormatSchema),
+  is_indoor: z.boolean(),
+  amenities: z.array(fieldAmenitySchema),
+  slot_length_minutes: z.number().int(),
+  timezone: z.string(),
+  archived_at: z.coerce.date().nullable(), // Archived fields are hidden from players but keep their bookings
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Field = z.infer<typeof fieldSchema>;
 
+// A pitch added to a venue takes the venue's address, location and amenities instead of its own
 export const createFieldInputSchema = z.object({
+  venue_id: z.number().nullable().optional(),
   name: z.string(),
-  address: z.string(),
+  address: z.string().optional(), // Required for standalone fields
   description: z.string().nullable().optional(),
-  hourly_rate: z.number().positive()
+  hourly_rate: z.number().positive(),
+  // Both or neither; when left out the address is geocoded
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
+  surface: fieldSurfaceSchema.nullable().optional(),
+  formats: z.array(fieldFormatSchema).optional(),
+  is_indoor: z.boolean().optional(),
+  amenities: z.array(fieldAmenitySchema).optional()
 });
 
 export type CreateFieldInput = z.infer<typeof createFieldInputSchema>;
 
 export const updateFieldInputSchema = z.object({
   id: z.number(),
+  venue_id: z.number().nullable().optional(), // Null makes the pitch standalone, keeping the venue's details
   name: z.string().optional(),
   address: z.string().optional(),
   description: z.string().nullable().optional(),
-  hourly_rate: z.number().positive().optional()
+  hourly_rate: z.number().positive().optional(),
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
+  surface: fieldSurfaceSchema.nullable().optional(),
+  formats: z.array(fieldFormatSchema).optional(),
+  is_indoor: z.boolean().optional(),
+  amenities: z.array(fieldAmenitySchema).optional()
 });
 
 export type UpdateFieldInput = z.infer<typeof updateFieldInputSchema>;
 
+// Shared by searchFields and getAvailableFieldSlots; every given filter must match
+export const fieldSearchInputSchema = z.object({
+  near: nearbyFilterSchema.optional(),
+  surface: fieldSurfaceSchema.optional(),
+  format: fieldFormatSchema.optional(),
+  is_indoor: z.boolean().optional(),
+  amenities: z.array(fieldAmenitySchema).optional() // Fields must have all of them
+});
+
+export type FieldSearchInput = z.infer<typeof fieldSearchInputSchema>;
+
+// How searchFields orders its results; by default nearest first when searching around a point, otherwise by name
+export const fieldSortSchema = z.enum(['name', 'distance', 'rating']);
+export type FieldSort = z.infer<typeof fieldSortSchema>;
+
+export const searchFieldsInputSchema = fieldSearchInputSchema.extend({
+  sort: fieldSortSchema.optional()
+});
+
+export type SearchFieldsInput = z.infer<typeof searchFieldsInputSchema>;
+
+// distance_km is null when the search has no location, average_rating while the field has no reviews
+export const fieldWithDistanceSchema = fieldSchema.extend({
+  distance_km: z.number().nullable(),
+  average_rating: z.number().nullable(),
+  review_count: z.number().int()
+});
+
+export type FieldWithDistance = z.infer<typeof fieldWithDistanceSchema>;
+
+// Field photo schema
+export const fieldPhotoSchema = z.object({
+  id: z.number(),
+  field_id: z.number(),
+  url: z.string(),
+  thumbnail_url: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+  position: z.number().int(),
+  created_at: z.coerce.date()
+});
+
+export type FieldPhoto = z.infer<typeof fieldPhotoSchema>;
+
+export const addFieldPhotoInputSchema = imageUploadInputSchema.extend({
+  field_id: z.number()
+});
+
+export type AddFieldPhotoInput = z.infer<typeof addFieldPhotoInputSchema>;
+
+// Wall-clock times and dates, read in the field's time zone
+export const timeOfDaySchema = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Times must be HH:MM');
+export const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+// Pricing schemas
+export const pricingRuleTypeSchema = z.enum(['peak', 'off_peak', 'weekend', 'holiday', 'last_minute']);
+export type PricingRuleType = z.infer<typeof pricingRuleTypeSchema>;
+
+export const pricingRuleSchema = z.object({
+  id: z.number(),
+  field_id: z.number(),
+  type: pricingRuleTypeSchema,
+  name: z.string(),
+  adjustment_percent: z.number(),
+  days_of_week: z.array(z.number().int()),
+  starts_at: z.string().nullable(),
+  ends_at: z.string().nullable(),
+  holiday_date: z.string().nullable(),
+  hours_before: z.number().int().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type PricingRule = z.infer<typeof pricingRuleSchema>;
+
+// Which of the conditions are required depends on the type, see createPricingRule
+export const createPricingRuleInputSchema = z.object({
+  field_id: z.number(),
+  type: pricingRuleTypeSchema,
+  name: z.string().min(1).max(100),
+  adjustment_percent: z.number().min(-100).max(500),
+  days_of_week: z.array(z.number().int().min(0).max(6)).optional(),
+  starts_at: timeOfDaySchema.nullable().optional(),
+  ends_at: timeOfDaySchema.nullable().optional(),
+  holiday_date: calendarDateSchema.nullable().optional(),
+  hours_before: z.number().int().positive().max(168).nullable().optional()
+});
+
+export type CreatePricingRuleInput = z.infer<typeof createPricingRuleInputSchema>;
+
+// One rule's effect on a price; amount is in currency, negative for discounts
+export const priceAdjustmentSchema = z.object({
+  rule_id: z.number(),
+  type: pricingRuleTypeSchema,
+  name: z.string(),
+  percent: z.number(),
+  amount: z.number()
+});
+
+export type PriceAdjustment = z.infer<typeof priceAdjustmentSchema>;
+
+export const slotPriceQuoteSchema = z.object({
+  slot_id: z.number(),
+  base_price: z.number(),
+  adjustments: z.array(priceAdjustmentSchema),
+  total: z.number(),
+  quoted_at: z.coerce.date()
+});
+
+export type SlotPriceQuote = z.infer<typeof slotPriceQuoteSchema>;
+
 // Field slot schema
 export const fieldSlotSchema = z.object({
   id: z.number(),
@@ -79,6 +524,8 @@ export const fieldSlotSchema = z.object({
   start_time: z.coerce.date(),
   end_time: z.coerce.date(),
   price: z.number(),
+  base_price: z.number().nullable(), // Null when the price was entered directly
+  price_adjustments: z.array(priceAdjustmentSchema),
   is_available: z.boolean(),
   created_at: z.coerce.date()
 });
@@ -94,6 +541,239 @@ export const createFieldSlotInputSchema = z.object({
 
 export type CreateFieldSlotInput = z.infer<typeof createFieldSlotInputSchema>;
 
+// Sent in the error data of rejected slots, so forms can tell which rule was broken
+export const slotValidationErrorCodeSchema = z.enum(['INVALID_RANGE', 'IN_PAST', 'TOO_SHORT', 'TOO_LONG', 'OVERLAP']);
+export type SlotValidationErrorCode = z.infer<typeof slotValidationErrorCodeSchema>;
+
+// Field schedule schemas
+export const openingHoursSchema = z.object({
+  day_of_week: z.number().int().min(0).max(6), // 0 = Sunday
+  opens_at: timeOfDaySchema,
+  closes_at: timeOfDaySchema
+});
+
+export type OpeningHours = z.infer<typeof openingHoursSchema>;
+
+export const fieldScheduleSchema = z.object({
+  field_id: z.number(),
+  slot_length_minutes: z.number().int(),
+  timezone: z.string(),
+  opening_hours: z.array(openingHoursSchema),
+  uses_venue_hours: z.boolean() // The pitch has no hours of its own, so its venue's apply
+});
+
+export type FieldSchedule = z.infer<typeof fieldScheduleSchema>;
+
+// Replaces the field's whole weekly schedule; a pitch saved without hours falls back to its venue's
+export const setFieldScheduleInputSchema = z.object({
+  field_id: z.number(),
+  slot_length_minutes: z.number().int().min(15).max(480),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown time zone'),
+  opening_hours: z.array(openingHoursSchema).max(50)
+});
+
+export type SetFieldScheduleInput = z.infer<typeof setFieldScheduleInputSchema>;
+
+// Dates are inclusive and read in the field's timezone; price defaults to the hourly rate pro rata
+export const generateFieldSlotsInputSchema = z.object({
+  field_id: z.number(),
+  from: calendarDateSchema,
+  to: calendarDateSchema,
+  price: z.number().positive().optional()
+});
+
+export type GenerateFieldSlotsInput = z.infer<typeof generateFieldSlotsInputSchema>;
+
+export const plannedSlotSchema = z.object({
+  start_time: z.coerce.date(),
+  end_time: z.coerce.date(),
+  base_price: z.number(),
+  price_adjustments: z.array(priceAdjustmentSchema),
+  price: z.number()
+});
+
+export type PlannedSlot = z.infer<typeof plannedSlotSchema>;
+
+export const slotGenerationPreviewSchema = z.object({
+  slots: z.array(plannedSlotSchema),
+  skipped_existing: z.number(), // Overlap a slot the field already has
+  skipped_closed: z.number() // Fall in a closure
+});
+
+export type SlotGenerationPreview = z.infer<typeof slotGenerationPreviewSchema>;
+
+export const slotGenerationResultSchema = z.object({
+  created: z.array(fieldSlotSchema),
+  skipped_existing: z.number(),
+  skipped_closed: z.number()
+});
+
+export type SlotGenerationResult = z.infer<typeof slotGenerationResultSchema>;
+
+// Field closure schemas
+export const fieldClosureSchema = z.object({
+  id: z.number(),
+  field_id: z.number(),
+  starts_at: z.coerce.date(),
+  ends_at: z.coerce.date(),
+  reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type FieldClosure = z.infer<typeof fieldClosureSchema>;
+
+export const createFieldClosureInputSchema = z.object({
+  field_id: z.number(),
+  starts_at: z.coerce.date(),
+  ends_at: z.coerce.date(),
+  reason: z.string().max(200).nullable().optional()
+});
+
+export type CreateFieldClosureInput = z.infer<typeof createFieldClosureInputSchema>;
+
+// Venue schemas
+// A venue groups pitches under one address; they share its photos, amenities and opening hours
+export const venueSchema = z.object({
+  id: z.number(),
+  owner_id: z.number(),
+  name: z.string(),
+  address: z.string(),
+  description: z.string().nullable(),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
+  amenities: z.array(fieldAmenitySchema),
+  timezone: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Venue = z.infer<typeof venueSchema>;
+
+export const venueWithPitchesSchema = venueSchema.extend({
+  pitches: z.array(fieldSchema)
+});
+
+export type VenueWithPitches = z.infer<typeof venueWithPitchesSchema>;
+
+export const createVenueInputSchema = z.object({
+  name: z.string().min(1),
+  address: z.string().min(1),
+  description: z.string().nullable().optional(),
+  // Both or neither; when left out the address is geocoded
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
+  amenities: z.array(fieldAmenitySchema).optional()
+});
+
+export type CreateVenueInput = z.infer<typeof createVenueInputSchema>;
+
+export const updateVenueInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  address: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
+  amenities: z.array(fieldAmenitySchema).optional()
+});
+
+export type UpdateVenueInput = z.infer<typeof updateVenueInputSchema>;
+
+export const venueScheduleSchema = z.object({
+  venue_id: z.number(),
+  timezone: z.string(),
+  opening_hours: z.array(openingHoursSchema)
+});
+
+export type VenueSchedule = z.infer<typeof venueScheduleSchema>;
+
+// Replaces the venue's weekly schedule and moves its pitches to the new timezone
+export const setVenueScheduleInputSchema = z.object({
+  venue_id: z.number(),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown time zone'),
+  opening_hours: z.array(openingHoursSchema).max(50)
+});
+
+export type SetVenueScheduleInput = z.infer<typeof setVenueScheduleInputSchema>;
+
+export const venuePhotoSchema = z.object({
+  id: z.number(),
+  venue_id: z.number(),
+  url: z.string(),
+  thumbnail_url: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+  position: z.number().int(),
+  created_at: z.coerce.date()
+});
+
+export type VenuePhoto = z.infer<typeof venuePhotoSchema>;
+
+export const addVenuePhotoInputSchema = imageUploadInputSchema.extend({
+  venue_id: z.number()
+});
+
+export type AddVenuePhotoInput = z.infer<typeof addVenuePhotoInputSchema>;
+
+// Free pitches of one venue starting at the same time, e.g. "3 pitches free at 19:00"
+export const venueAvailabilitySchema = z.object({
+  venue: venueSchema,
+  start_time: z.coerce.date(),
+  slots: z.array(fieldSlotSchema)
+});
+
+export type VenueAvailability = z.infer<typeof venueAvailabilitySchema>;
+
+// Slot CSV schemas
+// Columns are field (id or name), start, end and price, see handlers/slot_csv.ts
+export const slotImportInputSchema = z.object({
+  csv: z.string().min(1).max(1_000_000)
+});
+
+export type SlotImportInput = z.infer<typeof slotImportInputSchema>;
+
+// One data row of the file; row is the line number as a spreadsheet shows it, counting the header
+export const slotImportRowSchema = z.object({
+  row: z.number().int(),
+  field_id: z.number().nullable(),
+  start_time: z.coerce.date().nullable(),
+  end_time: z.coerce.date().nullable(),
+  price: z.number().nullable(),
+  errors: z.array(z.string())
+});
+
+export type SlotImportRow = z.infer<typeof slotImportRowSchema>;
+
+export const slotImportReportSchema = z.object({
+  rows: z.array(slotImportRowSchema),
+  valid_count: z.number(),
+  error_count: z.number()
+});
+
+export type SlotImportReport = z.infer<typeof slotImportReportSchema>;
+
+export const slotImportResultSchema = z.object({
+  created: z.array(fieldSlotSchema)
+});
+
+export type SlotImportResult = z.infer<typeof slotImportResultSchema>;
+
+// Dates are inclusive and read in the field's timezone
+export const slotExportInputSchema = z.object({
+  field_id: z.number(),
+  from: calendarDateSchema,
+  to: calendarDateSchema
+});
+
+export type SlotExportInput = z.infer<typeof slotExportInputSchema>;
+
+export const csvFileSchema = z.object({
+  filename: z.string(),
+  content: z.string()
+});
+
+export type CsvFile = z.infer<typeof csvFileSchema>;
+
 // Team schema
 export const teamSchema = z.object({
   id: z.number(),
@@ -101,6 +781,8 @@ export const teamSchema = z.object({
   name: z.string(),
   description: z.string().nullable(),
   skill_level: z.number().int().min(1).max(10),
+  logo_url: z.string().nullable(),
+  logo_thumbnail_url: z.string().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -132,6 +814,12 @@ export const addTeamMemberInputSchema = z.object({
 
 export type AddTeamMemberInput = z.infer<typeof addTeamMemberInputSchema>;
 
+export const uploadTeamLogoInputSchema = imageUploadInputSchema.extend({
+  team_id: z.number()
+});
+
+export type UploadTeamLogoInput = z.infer<typeof uploadTeamLogoInputSchema>;
+
 // Match request type enum
 export const matchRequestTypeSchema = z.enum(['find_opponent', 'find_players']);
 export type MatchRequestType = z.infer<typeof matchRequestTypeSchema>;
@@ -146,6 +834,8 @@ export const matchRequestSchema = z.object({
   description: z.string().nullable(),
   preferred_date: z.coerce.date().nullable(),
   preferred_location: z.string().nullable(),
+  preferred_latitude: z.number().nullable(),
+  preferred_longitude: z.number().nullable(),
   skill_level: z.number().int().min(1).max(10),
   max_fee: z.number().nullable(),
   players_needed: z.number().int().nullable(),
@@ -163,6 +853,8 @@ export const createMatchRequestInputSchema = z.object({
   description: z.string().nullable().optional(),
   preferred_date: z.coerce.date().optional(),
   preferred_location: z.string().optional(),
+  preferred_latitude: latitudeSchema.optional(), // Both or neither; otherwise preferred_location is geocoded
+  preferred_longitude: longitudeSchema.optional(),
   skill_level: z.number().int().min(1).max(10),
   max_fee: z.number().positive().optional(),
   players_needed: z.number().int().positive().optional()
@@ -197,6 +889,26 @@ export const createBookingInputSchema = z.object({
 
 export type CreateBookingInput = z.infer<typeof createBookingInputSchema>;
 
+// Moves a booking to another slot at the same field or venue
+export const moveBookingInputSchema = z.object({
+  booking_id: z.number(),
+  slot_id: z.number()
+});
+
+export type MoveBookingInput = z.infer<typeof moveBookingInputSchema>;
+
+// A pending or confirmed booking whose slot falls in a closure of its field.
+// The holder can cancel it or move it to one of the alternative slots
+export const closureAffectedBookingSchema = z.object({
+  booking: bookingSchema,
+  slot: fieldSlotSchema,
+  field_name: z.string(),
+  closure: fieldClosureSchema,
+  alternative_slots: z.array(fieldSlotSchema)
+});
+
+export type ClosureAffectedBooking = z.infer<typeof closureAffectedBookingSchema>;
+
 // Interest type enum
 export const interestTypeSchema = z.enum(['match_request', 'field_slot']);
 export type InterestType = z.infer<typeof interestTypeSchema>;
@@ -260,4 +972,179 @@ export const createRatingInputSchema = z.object({
   comment: z.string().optional()
 });
 
-export type CreateRatingInput = z.infer<typeof createRatingInputSchema>;
\ No newline at end of file
+export type CreateRatingInput = z.infer<typeof createRatingInputSchema>;
+
+// Field review schemas
+export const reviewScoreSchema = z.number().int().min(1).max(5);
+
+export const fieldReviewSchema = z.object({
+  id: z.number(),
+  field_id: z.number(),
+  author_id: z.number(),
+  author_name: z.string(), // First name and last initial
+  pitch_quality: reviewScoreSchema,
+  facilities: reviewScoreSchema,
+  value: reviewScoreSchema,
+  rating: z.number(), // Mean of the three scores
+  comment: z.string().nullable(),
+  owner_reply: z.string().nullable(),
+  replied_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type FieldReview = z.infer<typeof fieldReviewSchema>;
+
+// Only players with a completed booking at the field can review it
+export const createFieldReviewInputSchema = z.object({
+  field_id: z.number(),
+  pitch_quality: reviewScoreSchema,
+  facilities: reviewScoreSchema,
+  value: reviewScoreSchema,
+  comment: z.string().max(2000).nullable().optional()
+});
+
+export type CreateFieldReviewInput = z.infer<typeof createFieldReviewInputSchema>;
+
+export const replyToFieldReviewInputSchema = z.object({
+  review_id: z.number(),
+  reply: z.string().trim().min(1).max(2000)
+});
+
+export type ReplyToFieldReviewInput = z.infer<typeof replyToFieldReviewInputSchema>;
+
+// Averages are null while the field has no reviews
+export const fieldRatingSummarySchema = z.object({
+  field_id: z.number(),
+  review_count: z.number().int(),
+  average_rating: z.number().nullable(),
+  pitch_quality: z.number().nullable(),
+  facilities: z.number().nullable(),
+  value: z.number().nullable()
+});
+
+export type FieldRatingSummary = z.infer<typeof fieldRatingSummarySchema>;
+
+export const fieldReviewsSchema = z.object({
+  summary: fieldRatingSummarySchema,
+  reviews: z.array(fieldReviewSchema)
+});
+
+export type FieldReviews = z.infer<typeof fieldReviewsSchema>;
+
+// Admin schemas
+export const searchUsersInputSchema = z.object({
+  query: z.string().optional(), // Matches email, first or last name
+  role: userRoleSchema.optional(),
+  suspended: z.boolean().optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+  offset: z.number().int().nonnegative().optional()
+});
+
+export type SearchUsersInput = z.infer<typeof searchUsersInputSchema>;
+
+export const searchUsersResultSchema = z.object({
+  users: z.array(publicUserSchema),
+  total: z.number().int()
+});
+
+export type SearchUsersResult = z.infer<typeof searchUsersResultSchema>;
+
+export const changeUserRoleInputSchema = z.object({
+  user_id: z.number(),
+  role: userRoleSchema
+});
+
+export type ChangeUserRoleInput = z.infer<typeof changeUserRoleInputSchema>;
+
+export const suspendUserInputSchema = z.object({
+  user_id: z.number(),
+  reason: z.string().min(1),
+  until: z.coerce.date().nullable().optional() // Omitted or null bans the account indefinitely
+});
+
+export type SuspendUserInput = z.infer<typeof suspendUserInputSchema>;
+
+export const userOverviewSchema = z.object({
+  user: publicUserSchema,
+  teams: z.array(teamSchema),
+  fields: z.array(fieldSchema),
+  bookings: z.array(bookingSchema)
+});
+
+export type UserOverview = z.infer<typeof userOverviewSchema>;
+
+// Audit log schemas
+export const auditActionSchema = z.enum([
+  'user.login',
+  'user.role_changed',
+  'user.suspended',
+  'user.unsuspended',
+  'user.password_reset_forced',
+  'booking.status_changed',
+  'booking.moved',
+  'team.member_removed',
+  'field.price_changed'
+]);
+
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+export const auditEntityTypeSchema = z.enum(['user', 'booking', 'team', 'field']);
+
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+
+export const auditEventSchema = z.object({
+  id: z.number(),
+  actor_id: z.number().nullable(), // Null once the acting user has been deleted
+  actor_email: z.string().nullable(),
+  action: auditActionSchema,
+  entity_type: auditEntityTypeSchema,
+  entity_id: z.number(),
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+
+export const getAuditEventsInputSchema = z.object({
+  actor_id: z.number().optional(),
+  action: auditActionSchema.optional(),
+  entity_type: auditEntityTypeSchema.optional(),
+  entity_id: z.number().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+  offset: z.number().int().nonnegative().optional()
+});
+
+export type GetAuditEventsInput = z.infer<typeof getAuditEventsInputSchema>;
+
+export const auditEventsResultSchema = z.object({
+  events: z.array(auditEventSchema),
+  total: z.number().int()
+});
+
+export type AuditEventsResult = z.infer<typeof auditEventsResultSchema>;
+
+// Account data schemas
+// Everything we store about a user, as returned by exportMyData
+export const accountExportSchema = z.object({
+  exported_at: z.coerce.date(),
+  profile: publicUserSchema,
+  teams: z.array(teamSchema), // Teams the user captains
+  memberships: z.array(teamMemberSchema),
+  match_requests: z.array(matchRequestSchema),
+  bookings: z.array(bookingSchema),
+  interests: z.array(interestSchema),
+  messages: z.array(messageSchema), // Sent and received
+  ratings: z.array(ratingSchema), // Ratings the user gave
+  field_reviews: z.array(fieldReviewSchema) // Reviews the user wrote
+});
+
+export type AccountExport = z.infer<typeof accountExportSchema>;
+
+export const deleteMyAccountInputSchema = z.object({
+  current_password: z.string()
+});
+
+export type DeleteMyAccountInput = z.infer<typeof deleteMyAccountInputSchema>;
@@ -0,0 +1,102 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join, normalize } from 'path';
+import { type IncomingMessage, type ServerResponse } from 'http';
+
+export interface StorageDriver {
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<Uint8Array | null>;
+  delete(key: string): Promise<void>;
+  url(key: string): string;
+}
+
+// Files are served by the API server under this prefix (see serveUpload)
+const UPLOADS_PATH = '/uploads/';
+
+// Keys come from our own code, but never let one escape the storage root
+const resolveKey = (rootDir: string, key: string): string => {
+  const path = normalize(join(rootDir, key));
+  if (!path.startsWith(normalize(rootDir) + '/')) {
+    throw new Error('Invalid storage key');
+  }
+  return path;
+};
+
+// Default driver: writes under UPLOAD_DIR on the local disk
+export const createLocalDiskStorage = (rootDir: string): StorageDriver => ({
+  async put(key, data) {
+    const path = resolveKey(rootDir, key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  },
+
+  async get(key) {
+    try {
+      return await readFile(resolveKey(rootDir, key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await rm(resolveKey(rootDir, key), { force: true });
+  },
+
+  url(key) {
+    // The client reaches the API through the /api proxy
+    return `/api${UPLOADS_PATH}${key}`;
+  }
+});
+
+let activeStorage: StorageDriver = createLocalDiskStorage(process.env['UPLOAD_DIR'] || join(process.cwd(), 'uploads'));
+
+export const getStorage = (): StorageDriver => activeStorage;
+
+// Swap in another backend (S3, GCS) at startup
+export const setStorage = (storage: StorageDriver): void => {
+  activeStorage = storage;
+};
+
+// Recovers the storage key from a URL produced by StorageDriver.url
+export const keyFromUrl = (url: string): string | null => {
+  const index = url.indexOf(UPLOADS_PATH);
+  return index === -1 ? null : url.slice(index + UPLOADS_PATH.length);
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+// HTTP middleware: answers GET /uploads/<key> from the active storage driver
+export async function serveUpload(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  if (req.method !== 'GET' || !req.url?.startsWith(UPLOADS_PATH)) {
+    return false;
+  }
+
+  try {
+    // Malformed escapes like %E0 throw here and are answered with a 400
+    const key = decodeURIComponent(req.url.slice(UPLOADS_PATH.length).split('?')[0]);
+    const data = await getStorage().get(key);
+    if (!data) {
+      res.statusCode = 404;
+      res.end();
+      return true;
+    }
+
+    const extension = key.split('.').pop() || '';
+    res.setHeader('Content-Type', CONTENT_TYPES[extension] || 'application/octet-stream');
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.end(data);
+  } catch (error) {
+    console.error('Failed to serve upload:', error);
+    res.statusCode = 400;
+    res.end();
+  }
+
+  return true;
+}
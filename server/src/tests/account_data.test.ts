@@ -0,0 +1,284 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  sessionsTable,
+  fieldsTable,
+  fieldSlotsTable,
+  bookingsTable,
+  teamsTable,
+  teamMembersTable,
+  matchRequestsTable,
+  interestsTable,
+  messagesTable,
+  ratingsTable
+} from '../db/schema';
+import { type User } from '../schema';
+import { exportMyData, deleteMyAccount } from '../handlers/account_data';
+import { archiveField } from '../handlers/archive_field';
+import { createSession, getSessionUser } from '../handlers/manage_sessions';
+import { login } from '../handlers/login';
+import { register } from '../handlers/register';
+import { eq } from 'drizzle-orm';
+
+const PASSWORD = 'password123';
+
+describe('account data', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let player: User;
+  let teammate: User;
+  let owner: User;
+  let fieldId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'pat@example.com', password_hash: await Bun.password.hash(PASSWORD), first_name: 'Pat', last_name: 'Player', role: 'player', phone: '555-0100' },
+        { email: 'tess@example.com', password_hash: 'hash', first_name: 'Tess', last_name: 'Teammate', role: 'player' },
+        { email: 'olive@example.com', password_hash: await Bun.password.hash(PASSWORD), first_name: 'Olive', last_name: 'Owner', role: 'field_owner' }
+      ])
+      .returning()
+      .execute();
+
+    [player, teammate, owner] = users;
+
+    const fields = await db.insert(fieldsTable)
+      .values({ owner_id: owner.id, name: 'Central Pitch', address: '1 Main St', hourly_rate: '50.00' })
+      .returning()
+      .execute();
+
+    fieldId = fields[0].id;
+  });
+
+  const createSlot = async (start: Date) => {
+    const slots = await db.insert(fieldSlotsTable)
+      .values({ field_id: fieldId, start_time: start, end_time: new Date(start.getTime() + 60 * 60 * 1000), price: '50.00' })
+      .returning()
+      .execute();
+
+    return slots[0];
+  };
+
+  const createTeam = async (captainId: number, memberIds: number[] = []) => {
+    const teams = await db.insert(teamsTable)
+      .values({ captain_id: captainId, name: 'Rovers', skill_level: 5 })
+      .returning()
+      .execute();
+
+    for (const userId of [captainId, ...memberIds]) {
+      await db.insert(teamMembersTable).values({ team_id: teams[0].id, user_id: userId }).execute();
+    }
+
+    return teams[0];
+  };
+
+  const inFuture = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  const inPast = () => new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+  describe('exportMyData', () => {
+    it('should include everything stored about the user', async () => {
+      const team = await createTeam(player.id, [teammate.id]);
+      const slot = await createSlot(inFuture());
+      await db.insert(bookingsTable).values({ slot_id: slot.id, user_id: player.id, team_id: team.id, total_price: '50.00' }).execute();
+      const requests = await db.insert(matchRequestsTable)
+        .values({ creator_id: player.id, team_id: team.id, type: 'find_opponent', title: 'Friendly', skill_level: 5, max_fee: '25.50' })
+        .returning()
+        .execute();
+      await db.insert(interestsTable).values({ user_id: player.id, type: 'field_slot', field_slot_id: slot.id }).execute();
+      await db.insert(messagesTable)
+        .values([
+          { sender_id: player.id, receiver_id: teammate.id, content: 'Game on Friday?' },
+          { sender_id: teammate.id, receiver_id: player.id, content: 'Sure!' },
+          { sender_id: teammate.id, receiver_id: owner.id, content: 'Not about Pat' }
+        ])
+        .execute();
+      const otherTeam = await createTeam(teammate.id);
+      await db.insert(ratingsTable).values({ rater_id: player.id, rated_team_id: otherTeam.id, rating: 4, comment: 'Fair play' }).execute();
+
+      const archive = await exportMyData(player.id);
+
+      expect(archive.exported_at).toBeInstanceOf(Date);
+      expect(archive.profile.email).toEqual('pat@example.com');
+      expect(archive.profile).not.toHaveProperty('password_hash');
+      expect(archive.teams.map(t => t.id)).toEqual([team.id]);
+      expect(archive.memberships.map(m => m.team_id)).toEqual([team.id]);
+      expect(archive.match_requests.map(r => r.id)).toEqual([requests[0].id]);
+      expect(archive.match_requests[0].max_fee).toEqual(25.5);
+      expect(archive.bookings).toHaveLength(1);
+      expect(archive.bookings[0].total_price).toEqual(50);
+      expect(archive.interests).toHaveLength(1);
+      expect(archive.messages.map(m => m.content)).toEqual(['Game on Friday?', 'Sure!']);
+      expect(archive.ratings.map(r => r.comment)).toEqual(['Fair play']);
+    });
+
+    it('should serialize to JSON', async () => {
+      const archive = await exportMyData(player.id);
+
+      expect(JSON.parse(JSON.stringify(archive)).profile.first_name).toEqual('Pat');
+    });
+  });
+
+  describe('deleteMyAccount', () => {
+    it('should require the current password', async () => {
+      await expect(deleteMyAccount({ current_password: 'wrong' }, player.id)).rejects.toThrow(/password is incorrect/i);
+    });
+
+    it('should anonymize the account and sign it out everywhere', async () => {
+      const { token } = await createSession(player);
+
+      const result = await deleteMyAccount({ current_password: PASSWORD }, player.id);
+
+      expect(result).toBe(true);
+      const rows = await db.select().from(usersTable).where(eq(usersTable.id, player.id)).execute();
+      expect(rows[0].email).toEqual(`deleted-user-${player.id}@deleted.invalid`);
+      expect(rows[0].first_name).toEqual('Deleted');
+      expect(rows[0].last_name).toEqual('User');
+      expect(rows[0].phone).toBeNull();
+      expect(rows[0].deleted_at).toBeInstanceOf(Date);
+      expect(await getSessionUser(token)).toBeNull();
+      expect(await db.select().from(sessionsTable).where(eq(sessionsTable.user_id, player.id)).execute()).toHaveLength(0);
+      await expect(login({ email: 'pat@example.com', password: PASSWORD })).rejects.toThrow(/invalid credentials/i);
+    });
+
+    it('should free the email address for a new signup', async () => {
+      await deleteMyAccount({ current_password: PASSWORD }, player.id);
+
+      const newUser = await register({ email: 'pat@example.com', password: PASSWORD, first_name: 'Pat', last_name: 'Again', role: 'player' });
+      expect(newUser.id).not.toEqual(player.id);
+    });
+
+    it('should keep messages and ratings but detach them from the person', async () => {
+      const otherTeam = await createTeam(teammate.id);
+      await db.insert(messagesTable).values({ sender_id: player.id, receiver_id: teammate.id, content: 'See you there' }).execute();
+      await db.insert(ratingsTable).values({ rater_id: player.id, rated_team_id: otherTeam.id, rating: 5 }).execute();
+
+      await deleteMyAccount({ current_password: PASSWORD }, player.id);
+
+      const messages = await db.select({ message: messagesTable, sender: usersTable })
+        .from(messagesTable)
+        .innerJoin(usersTable, eq(messagesTable.sender_id, usersTable.id))
+        .execute();
+      expect(messages[0].message.content).toEqual('See you there');
+      expect(messages[0].sender.first_name).toEqual('Deleted');
+
+      const ratings = await db.select().from(ratingsTable).execute();
+      expect(ratings).toHaveLength(1);
+    });
+
+    it('should hand captained teams to the longest-standing member', async () => {
+      const latecomers = await db.insert(usersTable)
+        .values({ email: 'late@example.com', password_hash: 'hash', first_name: 'Lee', last_name: 'Late', role: 'player' })
+        .returning()
+        .execute();
+      const team = await createTeam(player.id, [teammate.id]);
+      await db.insert(teamMembersTable).values({ team_id: team.id, user_id: latecomers[0].id }).execute();
+
+      await deleteMyAccount({ current_password: PASSWORD }, player.id);
+
+      const teams = await db.select().from(teamsTable).where(eq(teamsTable.id, team.id)).execute();
+      expect(teams[0].captain_id).toEqual(teammate.id);
+      const members = await db.select().from(teamMembersTable).where(eq(teamMembersTable.team_id, team.id)).execute();
+      expect(members.map(m => m.user_id).sort()).toEqual([teammate.id, latecomers[0].id].sort());
+    });
+
+    it('should disband captained teams nobody else is in', async () => {
+      const team = await createTeam(player.id);
+      const slot = await createSlot(inPast());
+      await db.insert(bookingsTable).values({ slot_id: slot.id, user_id: player.id, team_id: team.id, status: 'confirmed', total_price: '50.00' }).execute();
+      await db.insert(matchRequestsTable).values({ creator_id: teammate.id, team_id: team.id, type: 'find_players', title: 'Need one', skill_level: 3 }).execute();
+      await db.insert(ratingsTable).values({ rater_id: teammate.id, rated_team_id: team.id, rating: 3 }).execute();
+
+      await deleteMyAccount({ current_password: PASSWORD }, player.id);
+
+      expect(await db.select().from(teamsTable).where(eq(teamsTable.id, team.id)).execute()).toHaveLength(0);
+      const bookings = await db.select().from(bookingsTable).execute();
+      expect(bookings[0].team_id).toBeNull();
+      expect(bookings[0].status).toEqual('confirmed');
+      const requests = await db.select().from(matchRequestsTable).execute();
+      expect(requests[0].team_id).toBeNull();
+      expect(requests[0].is_active).toBe(false);
+      expect(await db.select().from(ratingsTable).execute()).toHaveLength(0);
+    });
+
+    it('should leave teams, withdraw match requests, interests and pending bookings', async () => {
+      const team = await createTeam(teammate.id, [player.id]);
+      const futureSlot = await createSlot(inFuture());
+      const pastSlot = await createSlot(inPast());
+      await db.insert(bookingsTable)
+        .values([
+          { slot_id: futureSlot.id, user_id: player.id, status: 'pending', total_price: '50.00' },
+          { slot_id: pastSlot.id, user_id: player.id, status: 'confirmed', total_price: '50.00' }
+        ])
+        .execute();
+      await db.insert(matchRequestsTable).values({ creator_id: player.id, type: 'find_opponent', title: 'Friendly', skill_level: 5 }).execute();
+      await db.insert(interestsTable).values({ user_id: player.id, type: 'field_slot', field_slot_id: futureSlot.id }).execute();
+
+      await deleteMyAccount({ current_password: PASSWORD }, player.id);
+
+      expect(await db.select().from(teamMembersTable).where(eq(teamMembersTable.user_id, player.id)).execute()).toHaveLength(0);
+      expect((await db.select().from(teamsTable).where(eq(teamsTable.id, team.id)).execute())[0].captain_id).toEqual(teammate.id);
+      expect((await db.select().from(matchRequestsTable).execute())[0].is_active).toBe(false);
+      expect(await db.select().from(interestsTable).execute()).toHaveLength(0);
+
+      const bookings = await db.select().from(bookingsTable).where(eq(bookingsTable.user_id, player.id)).execute();
+      expect(bookings.find(b => b.slot_id === futureSlot.id)?.status).toEqual('cancelled');
+      expect(bookings.find(b => b.slot_id === pastSlot.id)?.status).toEqual('confirmed');
+    });
+
+    it('should be blocked while future confirmed bookings exist', async () => {
+      const slot = await createSlot(inFuture());
+      await db.insert(bookingsTable).values({ slot_id: slot.id, user_id: player.id, status: 'confirmed', total_price: '50.00' }).execute();
+
+      await expect(deleteMyAccount({ current_password: PASSWORD }, player.id)).rejects.toThrow(/upcoming confirmed bookings/i);
+
+      const rows = await db.select().from(usersTable).where(eq(usersTable.id, player.id)).execute();
+      expect(rows[0].deleted_at).toBeNull();
+    });
+
+    it('should be blocked while the user owns fields', async () => {
+      await expect(deleteMyAccount({ current_password: PASSWORD }, owner.id)).rejects.toThrow(/own active fields/i);
+    });
+
+    it('should leave archived fields behind once their bookings are over', async () => {
+      await archiveField(fieldId, owner.id);
+      const slot = await createSlot(inFuture());
+      await db.insert(bookingsTable).values({ slot_id: slot.id, user_id: player.id, status: 'confirmed', total_price: '50.00' }).execute();
+
+      await expect(deleteMyAccount({ current_password: PASSWORD }, owner.id)).rejects.toThrow(/archived fields still have upcoming bookings/i);
+
+      await db.update(bookingsTable).set({ status: 'cancelled' }).execute();
+      expect(await deleteMyAccount({ current_password: PASSWORD }, owner.id)).toBe(true);
+
+      const fields = await db.select().from(fieldsTable).where(eq(fieldsTable.id, fieldId)).execute();
+      expect(fields[0].owner_id).toEqual(owner.id);
+    });
+
+    it('should not let the only admin delete their account', async () => {
+      const admins = await db.insert(usersTable)
+        .values({ email: 'ada@example.com', password_hash: await Bun.password.hash(PASSWORD), first_name: 'Ada', last_name: 'Admin', role: 'admin' })
+        .returning()
+        .execute();
+
+      await expect(deleteMyAccount({ current_password: PASSWORD }, admins[0].id)).rejects.toThrow(/only admin/i);
+    });
+
+    it('should not count deleted admins towards the remaining admins', async () => {
+      const admins = await db.insert(usersTable)
+        .values([
+          { email: 'ada@example.com', password_hash: await Bun.password.hash(PASSWORD), first_name: 'Ada', last_name: 'Admin', role: 'admin' },
+          { email: 'alan@example.com', password_hash: await Bun.password.hash(PASSWORD), first_name: 'Alan', last_name: 'Admin', role: 'admin' }
+        ])
+        .returning()
+        .execute();
+
+      expect(await deleteMyAccount({ current_password: PASSWORD }, admins[0].id)).toBe(true);
+
+      const rows = await db.select().from(usersTable).where(eq(usersTable.id, admins[0].id)).execute();
+      expect(rows[0].role).toEqual('player');
+      await expect(deleteMyAccount({ current_password: PASSWORD }, admins[1].id)).rejects.toThrow(/only admin/i);
+    });
+  });
+});
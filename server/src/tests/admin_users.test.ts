@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { auditEventsTable, usersTable, sessionsTable, fieldsTable, fieldSlotsTable, bookingsTable, teamsTable, mailOutboxTable } from '../db/schema';
+import { type User } from '../schema';
+import {
+  searchUsers,
+  changeUserRole,
+  suspendUser,
+  unsuspendUser,
+  forcePasswordReset,
+  getUserOverview
+} from '../handlers/admin_users';
+import { createSession, getSessionUser } from '../handlers/manage_sessions';
+import { login } from '../handlers/login';
+import { asc, eq } from 'drizzle-orm';
+
+describe('admin users', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: User;
+  let player: User;
+  let owner: User;
+
+  beforeEach(async () => {
+    const inserted = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', password_hash: 'hash', first_name: 'Ada', last_name: 'Admin', role: 'admin' },
+        { email: 'pat@example.com', password_hash: await Bun.password.hash('password123'), first_name: 'Pat', last_name: 'Player', role: 'player' },
+        { email: 'olive@example.com', password_hash: 'hash', first_name: 'Olive', last_name: 'Owner', role: 'field_owner' }
+      ])
+      .returning()
+      .execute();
+
+    [admin, player, owner] = inserted;
+  });
+
+  describe('searchUsers', () => {
+    it('should list every user without password hashes', async () => {
+      const result = await searchUsers({});
+
+      expect(result.total).toEqual(3);
+      expect(result.users.map(user => user.email)).toEqual(['admin@example.com', 'olive@example.com', 'pat@example.com']);
+      expect(result.users[0]).not.toHaveProperty('password_hash');
+    });
+
+    it('should match email and names case-insensitively', async () => {
+      expect((await searchUsers({ query: 'OLIVE' })).users.map(user => user.id)).toEqual([owner.id]);
+      expect((await searchUsers({ query: 'pat player' })).users.map(user => user.id)).toEqual([player.id]);
+      expect((await searchUsers({ query: 'example.com' })).total).toEqual(3);
+    });
+
+    it('should filter by role and suspension', async () => {
+      await suspendUser({ user_id: player.id, reason: 'Spam' }, admin.id);
+
+      expect((await searchUsers({ role: 'field_owner' })).users.map(user => user.id)).toEqual([owner.id]);
+      expect((await searchUsers({ suspended: true })).users.map(user => user.id)).toEqual([player.id]);
+      expect((await searchUsers({ suspended: false })).total).toEqual(2);
+    });
+
+    it('should page the results', async () => {
+      const result = await searchUsers({ limit: 2, offset: 2 });
+
+      expect(result.total).toEqual(3);
+      expect(result.users.map(user => user.email)).toEqual(['pat@example.com']);
+    });
+  });
+
+  describe('changeUserRole', () => {
+    it('should change another user\'s role', async () => {
+      const result = await changeUserRole({ user_id: player.id, role: 'field_owner' }, admin.id);
+
+      expect(result.role).toEqual('field_owner');
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, player.id)).execute();
+      expect(users[0].role).toEqual('field_owner');
+    });
+
+    it('should not let admins change their own role', async () => {
+      await expect(changeUserRole({ user_id: admin.id, role: 'player' }, admin.id)).rejects.toThrow(/your own role/i);
+    });
+
+    it('should throw for a non-existent user', async () => {
+      await expect(changeUserRole({ user_id: 99999, role: 'player' }, admin.id)).rejects.toThrow(/user not found/i);
+    });
+  });
+
+  describe('suspendUser and unsuspendUser', () => {
+    it('should ban a user indefinitely and block their login', async () => {
+      const result = await suspendUser({ user_id: player.id, reason: 'Abusive messages' }, admin.id);
+
+      expect(result.suspended_at).toBeInstanceOf(Date);
+      expect(result.suspended_until).toBeNull();
+      expect(result.suspension_reason).toEqual('Abusive messages');
+      await expect(login({ email: 'pat@example.com', password: 'password123' })).rejects.toThrow(/banned/i);
+    });
+
+    it('should suspend a user until a given date', async () => {
+      const until = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+      const result = await suspendUser({ user_id: player.id, reason: 'No-shows', until }, admin.id);
+
+      expect(result.suspended_until).toEqual(until);
+      await expect(login({ email: 'pat@example.com', password: 'password123' })).rejects.toThrow(/suspended until/i);
+    });
+
+    it('should reject an end date in the past', async () => {
+      await expect(suspendUser({ user_id: player.id, reason: 'Spam', until: new Date(Date.now() - 1000) }, admin.id))
+        .rejects.toThrow(/in the future/i);
+    });
+
+    it('should not let admins suspend themselves', async () => {
+      await expect(suspendUser({ user_id: admin.id, reason: 'Oops' }, admin.id)).rejects.toThrow(/your own account/i);
+    });
+
+    it('should lift a suspension', async () => {
+      await suspendUser({ user_id: player.id, reason: 'Spam' }, admin.id);
+
+      const result = await unsuspendUser(player.id, admin.id);
+
+      expect(result.suspended_at).toBeNull();
+      expect(result.suspension_reason).toBeNull();
+      const loggedIn = await login({ email: 'pat@example.com', password: 'password123' });
+      expect(loggedIn.id).toEqual(player.id);
+    });
+
+    it('should audit suspensions and lifted suspensions', async () => {
+      const until = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      const suspended = await suspendUser({ user_id: player.id, reason: 'Spam', until }, admin.id);
+      await unsuspendUser(player.id, admin.id);
+      await unsuspendUser(player.id, admin.id); // Nothing to lift, nothing to record
+
+      const events = await db.select().from(auditEventsTable).orderBy(asc(auditEventsTable.id)).execute();
+      const cleared = { suspended_at: null, suspended_until: null, suspension_reason: null };
+      const applied = {
+        suspended_at: suspended.suspended_at!.toISOString(),
+        suspended_until: until.toISOString(),
+        suspension_reason: 'Spam'
+      };
+      expect(events.map(e => [e.actor_id, e.action, e.entity_id, e.before, e.after])).toEqual([
+        [admin.id, 'user.suspended', player.id, cleared, applied],
+        [admin.id, 'user.unsuspended', player.id, applied, cleared]
+      ]);
+    });
+  });
+
+  describe('forcePasswordReset', () => {
+    it('should invalidate the password, end sessions and email a reset link', async () => {
+      const { token } = await createSession(player);
+
+      const result = await forcePasswordReset(player.id, admin.id);
+
+      expect(result).toBe(true);
+      expect(await getSessionUser(token)).toBeNull();
+      expect(await db.select().from(sessionsTable).execute()).toHaveLength(0);
+      await expect(login({ email: 'pat@example.com', password: 'password123' })).rejects.toThrow(/invalid credentials/i);
+
+      const mails = await db.select().from(mailOutboxTable).execute();
+      expect(mails).toHaveLength(1);
+      expect(mails[0].to).toEqual('pat@example.com');
+      expect(mails[0].body).toContain('reset_token=');
+
+      const events = await db.select().from(auditEventsTable).execute();
+      expect(events.map(e => [e.actor_id, e.action, e.entity_id, e.before, e.after])).toEqual([
+        [admin.id, 'user.password_reset_forced', player.id, { active_sessions: 1 }, { active_sessions: 0, password_locked: true }]
+      ]);
+    });
+
+    it('should throw for a non-existent user', async () => {
+      await expect(forcePasswordReset(99999, admin.id)).rejects.toThrow(/user not found/i);
+    });
+  });
+
+  describe('getUserOverview', () => {
+    it('should return the user\'s teams, fields and bookings', async () => {
+      const fields = await db.insert(fieldsTable)
+        .values({ owner_id: owner.id, name: 'Main Pitch', address: '1 Main St', hourly_rate: '50.00' })
+        .returning()
+        .execute();
+      const slots = await db.insert(fieldSlotsTable)
+        .values({ field_id: fields[0].id, start_time: new Date('2030-01-01T18:00:00Z'), end_time: new Date('2030-01-01T19:00:00Z'), price: '50.00' })
+        .returning()
+        .execute();
+      await db.insert(bookingsTable)
+        .values({ slot_id: slots[0].id, user_id: owner.id, total_price: '50.00' })
+        .execute();
+      await db.insert(teamsTable)
+        .values({ name: 'Owners XI', captain_id: owner.id, skill_level: 5 })
+        .execute();
+
+      const result = await getUserOverview(owner.id);
+
+      expect(result.user.id).toEqual(owner.id);
+      expect(result.user).not.toHaveProperty('password_hash');
+      expect(result.fields.map(field => field.name)).toEqual(['Main Pitch']);
+      expect(result.teams.map(team => team.name)).toEqual(['Owners XI']);
+      expect(result.bookings).toHaveLength(1);
+      expect(result.bookings[0].total_price).toEqual(50);
+    });
+
+    it('should throw for a non-existent user', async () => {
+      await expect(getUserOverview(99999)).rejects.toThrow(/user not found/i);
+    });
+  });
+});
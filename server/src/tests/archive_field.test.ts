@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { bookingsTable, fieldSlotsTable, usersTable } from '../db/schema';
+import { type Field } from '../schema';
+import { archiveField, unarchiveField } from '../handlers/archive_field';
+import { createField } from '../handlers/create_field';
+import { getFields, getFieldsByOwner, searchFields } from '../handlers/get_fields';
+import { getAvailableFieldSlots } from '../handlers/get_field_slots';
+import { createBooking } from '../handlers/create_booking';
+import { getBookingsByUser } from '../handlers/get_bookings';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('archiveField', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let otherOwnerId: number;
+  let playerId: number;
+  let field: Field;
+  let otherField: Field;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password_hash: 'hash', first_name: 'Field', last_name: 'Owner', role: 'field_owner' },
+        { email: 'other@test.com', password_hash: 'hash', first_name: 'Other', last_name: 'Owner', role: 'field_owner' },
+        { email: 'player@test.com', password_hash: 'hash', first_name: 'Sam', last_name: 'Player', role: 'player' }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    otherOwnerId = users[1].id;
+    playerId = users[2].id;
+
+    field = await createField({ name: 'Riverside', address: '1 River Rd', hourly_rate: 50 }, ownerId);
+    otherField = await createField({ name: 'Hall', address: '2 Hall St', hourly_rate: 40 }, ownerId);
+  });
+
+  const createSlot = async (fieldId: number, offset: number) => {
+    const start = new Date(Date.now() + offset);
+    const slots = await db.insert(fieldSlotsTable)
+      .values({ field_id: fieldId, start_time: start, end_time: new Date(start.getTime() + HOUR), price: '50.00' })
+      .returning()
+      .execute();
+    return slots[0];
+  };
+
+  it('should hide an archived field from players but not from its owner', async () => {
+    await createSlot(field.id, 24 * HOUR);
+    const open = await createSlot(otherField.id, 24 * HOUR);
+
+    const archived = await archiveField(field.id, ownerId);
+
+    expect(archived.archived_at).toBeInstanceOf(Date);
+    expect(typeof archived.hourly_rate).toEqual('number');
+    expect((await getFields()).map(f => f.id)).toEqual([otherField.id]);
+    expect((await searchFields()).map(f => f.id)).toEqual([otherField.id]);
+    expect((await getAvailableFieldSlots()).map(s => s.id)).toEqual([open.id]);
+    expect((await getFieldsByOwner(ownerId)).map(f => f.id).sort()).toEqual([field.id, otherField.id].sort());
+  });
+
+  it('should honor existing bookings but reject new ones', async () => {
+    const booked = await createSlot(field.id, 24 * HOUR);
+    const free = await createSlot(field.id, 48 * HOUR);
+    await db.insert(bookingsTable).values({ slot_id: booked.id, user_id: playerId, status: 'confirmed', total_price: '50.00' }).execute();
+
+    await archiveField(field.id, ownerId);
+
+    const bookings = await getBookingsByUser(playerId);
+    expect(bookings.map(b => [b.slot_id, b.status])).toEqual([[booked.id, 'confirmed']]);
+    await expect(createBooking({ slot_id: free.id }, playerId)).rejects.toThrow(/archived/i);
+  });
+
+  it('should keep the original date when archived again and restore the field when unarchived', async () => {
+    const first = await archiveField(field.id, ownerId);
+    const again = await archiveField(field.id, ownerId);
+    expect(again.archived_at).toEqual(first.archived_at);
+
+    const restored = await unarchiveField(field.id, ownerId);
+
+    expect(restored.archived_at).toBeNull();
+    expect((await getFields()).map(f => f.id).sort()).toEqual([field.id, otherField.id].sort());
+  });
+
+  it('should only let the owner archive or unarchive', async () => {
+    await expect(archiveField(field.id, otherOwnerId)).rejects.toThrow(/do not have permission to archive/i);
+    await expect(unarchiveField(field.id, otherOwnerId)).rejects.toThrow(/do not have permission to unarchive/i);
+    await expect(archiveField(99999, ownerId)).rejects.toThrow(/not found/i);
+  });
+});
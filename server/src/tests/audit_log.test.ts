@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  fieldsTable,
+  fieldSlotsTable,
+  bookingsTable,
+  teamsTable,
+  teamMembersTable,
+  auditEventsTable
+} from '../db/schema';
+import { type User } from '../schema';
+import { getAuditEvents, recordAuditEvent } from '../handlers/audit_log';
+import { updateBookingStatus } from '../handlers/update_booking_status';
+import { removeTeamMember } from '../handlers/manage_team_members';
+import { updateField } from '../handlers/update_field';
+import { changeUserRole } from '../handlers/admin_users';
+import { login } from '../handlers/login';
+import { eq } from 'drizzle-orm';
+
+describe('audit log', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let admin: User;
+  let owner: User;
+  let player: User;
+
+  beforeEach(async () => {
+    const inserted = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', password_hash: 'hash', first_name: 'Ada', last_name: 'Admin', role: 'admin' },
+        { email: 'owner@example.com', password_hash: 'hash', first_name: 'Olive', last_name: 'Owner', role: 'field_owner' },
+        { email: 'player@example.com', password_hash: await Bun.password.hash('password123'), first_name: 'Pat', last_name: 'Player', role: 'player' }
+      ])
+      .returning()
+      .execute();
+
+    [admin, owner, player] = inserted;
+  });
+
+  const createBooking = async () => {
+    const fields = await db.insert(fieldsTable)
+      .values({ owner_id: owner.id, name: 'Central Pitch', address: '1 Main St', hourly_rate: '50.00' })
+      .returning()
+      .execute();
+
+    const slots = await db.insert(fieldSlotsTable)
+      .values({
+        field_id: fields[0].id,
+        start_time: new Date('2030-01-01T10:00:00Z'),
+        end_time: new Date('2030-01-01T11:00:00Z'),
+        price: '50.00'
+      })
+      .returning()
+      .execute();
+
+    const bookings = await db.insert(bookingsTable)
+      .values({ slot_id: slots[0].id, user_id: player.id, total_price: '50.00' })
+      .returning()
+      .execute();
+
+    return { field: fields[0], booking: bookings[0] };
+  };
+
+  describe('audited handlers', () => {
+    it('should record booking status changes with the previous status', async () => {
+      const { booking } = await createBooking();
+
+      await updateBookingStatus(booking.id, 'cancelled', player.id);
+
+      const { events } = await getAuditEvents({ entity_type: 'booking' });
+      expect(events).toHaveLength(1);
+      expect(events[0].action).toEqual('booking.status_changed');
+      expect(events[0].actor_id).toEqual(player.id);
+      expect(events[0].actor_email).toEqual('player@example.com');
+      expect(events[0].entity_id).toEqual(booking.id);
+      expect(events[0].before).toEqual({ status: 'pending' });
+      expect(events[0].after).toEqual({ status: 'cancelled' });
+      expect(events[0].created_at).toBeInstanceOf(Date);
+    });
+
+    it('should not record a booking update that keeps the same status', async () => {
+      const { booking } = await createBooking();
+
+      await updateBookingStatus(booking.id, 'pending', owner.id);
+
+      expect((await getAuditEvents({})).total).toEqual(0);
+    });
+
+    it('should record team member removals', async () => {
+      const teams = await db.insert(teamsTable)
+        .values({ captain_id: owner.id, name: 'Rovers', skill_level: 5 })
+        .returning()
+        .execute();
+      await db.insert(teamMembersTable)
+        .values({ team_id: teams[0].id, user_id: player.id })
+        .execute();
+
+      await removeTeamMember(teams[0].id, player.id, owner.id);
+
+      const { events } = await getAuditEvents({ action: 'team.member_removed' });
+      expect(events).toHaveLength(1);
+      expect(events[0].actor_id).toEqual(owner.id);
+      expect(events[0].entity_type).toEqual('team');
+      expect(events[0].entity_id).toEqual(teams[0].id);
+      expect(events[0].before).toEqual({ user_id: player.id });
+      expect(events[0].after).toBeNull();
+    });
+
+    it('should record field price edits but not other field edits', async () => {
+      const { field } = await createBooking();
+
+      await updateField({ id: field.id, name: 'Renamed Pitch' }, owner.id);
+      await updateField({ id: field.id, hourly_rate: 65.5 }, owner.id);
+
+      const { events } = await getAuditEvents({ entity_type: 'field' });
+      expect(events).toHaveLength(1);
+      expect(events[0].action).toEqual('field.price_changed');
+      expect(events[0].before).toEqual({ hourly_rate: 50 });
+      expect(events[0].after).toEqual({ hourly_rate: 65.5 });
+    });
+
+    it('should record role changes', async () => {
+      await changeUserRole({ user_id: player.id, role: 'field_owner' }, admin.id);
+
+      const { events } = await getAuditEvents({ action: 'user.role_changed' });
+      expect(events).toHaveLength(1);
+      expect(events[0].actor_id).toEqual(admin.id);
+      expect(events[0].entity_id).toEqual(player.id);
+      expect(events[0].before).toEqual({ role: 'player' });
+      expect(events[0].after).toEqual({ role: 'field_owner' });
+    });
+
+    it('should record successful logins only', async () => {
+      await expect(login({ email: 'player@example.com', password: 'wrong-password' }, '10.0.0.1')).rejects.toThrow(/invalid credentials/i);
+      await login({ email: 'player@example.com', password: 'password123' }, '10.0.0.1');
+
+      const { events } = await getAuditEvents({ action: 'user.login' });
+      expect(events).toHaveLength(1);
+      expect(events[0].actor_id).toEqual(player.id);
+      expect(events[0].after).toEqual({ ip_address: '10.0.0.1', two_factor: false });
+    });
+
+    it('should not record anything when the change is rejected', async () => {
+      const { booking } = await createBooking();
+
+      await expect(updateBookingStatus(booking.id, 'cancelled', admin.id)).rejects.toThrow(/unauthorized/i);
+
+      expect((await getAuditEvents({})).total).toEqual(0);
+    });
+  });
+
+  describe('getAuditEvents', () => {
+    beforeEach(async () => {
+      for (let i = 0; i < 5; i++) {
+        await recordAuditEvent({
+          actorId: admin.id,
+          action: 'user.role_changed',
+          entityType: 'user',
+          entityId: player.id,
+          before: { role: 'player' },
+          after: { role: 'field_owner' }
+        });
+      }
+      await recordAuditEvent({ actorId: owner.id, action: 'user.login', entityType: 'user', entityId: owner.id });
+    });
+
+    it('should return the newest events first', async () => {
+      const { events, total } = await getAuditEvents({});
+
+      expect(total).toEqual(6);
+      expect(events[0].action).toEqual('user.login');
+      expect(events.map(event => event.id)).toEqual([...events.map(event => event.id)].sort((a, b) => b - a));
+    });
+
+    it('should filter by actor and entity', async () => {
+      expect((await getAuditEvents({ actor_id: owner.id })).total).toEqual(1);
+      expect((await getAuditEvents({ entity_type: 'user', entity_id: player.id })).total).toEqual(5);
+      expect((await getAuditEvents({ entity_type: 'booking' })).total).toEqual(0);
+    });
+
+    it('should filter by time range', async () => {
+      const past = new Date(Date.now() - 60 * 60 * 1000);
+      await db.update(auditEventsTable)
+        .set({ created_at: past })
+        .where(eq(auditEventsTable.actor_id, owner.id))
+        .execute();
+
+      expect((await getAuditEvents({ to: new Date(past.getTime() + 1000) })).total).toEqual(1);
+      expect((await getAuditEvents({ from: new Date(past.getTime() + 1000) })).total).toEqual(5);
+    });
+
+    it('should page through results while reporting the full total', async () => {
+      const firstPage = await getAuditEvents({ limit: 4 });
+      const secondPage = await getAuditEvents({ limit: 4, offset: 4 });
+
+      expect(firstPage.events).toHaveLength(4);
+      expect(secondPage.events).toHaveLength(2);
+      expect(secondPage.total).toEqual(6);
+      expect(new Set([...firstPage.events, ...secondPage.events].map(event => event.id)).size).toEqual(6);
+    });
+
+    it('should keep events when the actor is deleted', async () => {
+      await db.delete(usersTable).where(eq(usersTable.id, owner.id)).execute();
+
+      const { events } = await getAuditEvents({ action: 'user.login' });
+      expect(events).toHaveLength(1);
+      expect(events[0].actor_id).toBeNull();
+      expect(events[0].actor_email).toBeNull();
+    });
+  });
+});
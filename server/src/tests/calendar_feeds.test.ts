@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, fieldsTable, fieldSlotsTable, bookingsTable, teamsTable, teamMembersTable, calendarFeedsTable } from '../db/schema';
+import { type User } from '../schema';
+import {
+  createCalendarFeed,
+  getMyCalendarFeeds,
+  revokeCalendarFeed,
+  renderCalendarFeed,
+  serveCalendarFeed,
+  FEED_HISTORY_DAYS
+} from '../handlers/calendar_feeds';
+import { toICalendar } from '../utils/ical';
+import { eq } from 'drizzle-orm';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const tokenOf = (url: string) => url.slice(url.lastIndexOf('/') + 1, -'.ics'.length);
+
+// Unfolds continuation lines so assertions can look at whole properties
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+describe('toICalendar', () => {
+  it('should escape text and fold long lines without splitting characters', () => {
+    const calendar = toICalendar('Pitch; A, B', [{
+      uid: 'booking-1@turf-match-finder',
+      start: new Date('2030-01-07T18:00:00Z'),
+      end: new Date('2030-01-07T19:00:00Z'),
+      summary: '⚽ Sunday Legends',
+      description: `Notes: ${'é'.repeat(80)}\nBring bibs`,
+      location: null,
+      status: 'CONFIRMED',
+      updated_at: new Date('2029-12-01T10:00:00Z')
+    }], new Date('2029-12-02T10:00:00Z'));
+
+    const lines = calendar.split('\r\n');
+    expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(lines[0]).toEqual('BEGIN:VCALENDAR');
+    expect(calendar).toContain('X-WR-CALNAME:Pitch\\; A\\, B');
+    expect(calendar).toContain('DTSTART:20300107T180000Z');
+    expect(calendar).toContain('DTSTAMP:20291202T100000Z');
+    expect(calendar).not.toContain('LOCATION');
+    expect(unfold(calendar)).toContain(`DESCRIPTION:Notes: ${'é'.repeat(80)}\\nBring bibs`);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
+
+describe('calendar feeds', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let owner: User;
+  let captain: User;
+  let member: User;
+  let stranger: User;
+  let fieldId: number;
+  let otherFieldId: number;
+
+  const createBookedSlot = async (field: number, startsInDays: number, values: Partial<typeof bookingsTable.$inferInsert> = {}) => {
+    const start = new Date(Date.now() + startsInDays * DAY);
+    const slots = await db.insert(fieldSlotsTable)
+      .values({ field_id: field, start_time: start, end_time: new Date(start.getTime() + 60 * 60 * 1000), price: '60.00', is_available: false })
+      .returning()
+      .execute();
+    const bookings = await db.insert(bookingsTable)
+      .values({ slot_id: slots[0].id, user_id: stranger.id, total_price: '60.00', ...values })
+      .returning()
+      .execute();
+
+    return bookings[0];
+  };
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', first_name: 'Olive', last_name: 'Owner', role: 'field_owner' },
+        { email: 'captain@example.com', password_hash: 'hash', first_name: 'Cara', last_name: 'Captain', role: 'player' },
+        { email: 'member@example.com', password_hash: 'hash', first_name: 'Max', last_name: 'Member', role: 'player' },
+        { email: 'stranger@example.com', password_hash: 'hash', first_name: 'Sam', last_name: 'Stranger', role: 'player' }
+      ])
+      .returning()
+      .execute();
+
+    [owner, captain, member, stranger] = users;
+
+    const fields = await db.insert(fieldsTable)
+      .values([
+        { owner_id: owner.id, name: 'Central Pitch', address: '1 Main St', hourly_rate: '60.00' },
+        { owner_id: owner.id, name: 'Riverside', address: '2 River Rd', hourly_rate: '50.00' }
+      ])
+      .returning()
+      .execute();
+
+    [fieldId, otherFieldId] = fields.map(field => field.id);
+  });
+
+  describe('createCalendarFeed', () => {
+    it('should return a secret URL once and list the feed without it', async () => {
+      const created = await createCalendarFeed({ field_id: fieldId }, owner.id);
+
+      expect(created.url).toMatch(/^http:\/\/localhost\/api\/calendar\/[A-Za-z0-9_-]+\.ics$/);
+      expect(created.feed).toMatchObject({ user_id: owner.id, field_id: fieldId, revoked_at: null });
+      expect(created.feed).not.toHaveProperty('token_hash');
+
+      const feeds = await getMyCalendarFeeds(owner.id);
+      expect(feeds).toEqual([created.feed]);
+
+      const stored = await db.select().from(calendarFeedsTable).execute();
+      expect(stored[0].token_hash).not.toContain(tokenOf(created.url));
+    });
+
+    it('should only let the owner share a field\'s calendar', async () => {
+      await expect(createCalendarFeed({ field_id: fieldId }, captain.id)).rejects.toThrow(/do not have permission/i);
+    });
+
+    it('should replace the active feed for the same calendar', async () => {
+      const first = await createCalendarFeed({}, captain.id);
+      const fieldFeed = await createCalendarFeed({ field_id: fieldId }, owner.id);
+      const second = await createCalendarFeed({ field_id: null }, captain.id);
+
+      expect(await renderCalendarFeed(tokenOf(first.url))).toBeNull();
+      expect(await renderCalendarFeed(tokenOf(second.url))).toContain('BEGIN:VCALENDAR');
+      expect(await renderCalendarFeed(tokenOf(fieldFeed.url))).toContain('BEGIN:VCALENDAR');
+
+      const feeds = await getMyCalendarFeeds(captain.id);
+      expect(feeds.map(feed => feed.revoked_at === null)).toEqual([true, false]);
+    });
+  });
+
+  describe('renderCalendarFeed', () => {
+    it('should list the field\'s bookings with status, team and notes', async () => {
+      const teams = await db.insert(teamsTable)
+        .values({ captain_id: captain.id, name: 'Sunday Legends', skill_level: 5 })
+        .returning()
+        .execute();
+      const booked = await createBookedSlot(fieldId, 3, { user_id: captain.id, team_id: teams[0].id, notes: 'Bring bibs, please' });
+      const cancelled = await createBookedSlot(fieldId, 4, { status: 'cancelled' });
+      await createBookedSlot(otherFieldId, 3);
+      await createBookedSlot(fieldId, -(FEED_HISTORY_DAYS + 1));
+
+      const { url } = await createCalendarFeed({ field_id: fieldId }, owner.id);
+      const calendar = unfold((await renderCalendarFeed(tokenOf(url)))!);
+
+      expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(calendar).toContain('X-WR-CALNAME:Central Pitch');
+      expect(calendar).toContain(`UID:booking-${booked.id}@turf-match-finder`);
+      expect(calendar).toContain('SUMMARY:⚽ Sunday Legends');
+      expect(calendar).toContain('DESCRIPTION:Status: Pending\\nTeam: Sunday Legends\\nBooked by: Cara Captain\\nPrice: $60.00\\nNotes: Bring bibs\\, please');
+      expect(calendar).toContain('LOCATION:1 Main St');
+      expect(calendar).toContain('STATUS:TENTATIVE');
+      expect(calendar).toContain(`UID:booking-${cancelled.id}@turf-match-finder`);
+      expect(calendar).toContain('STATUS:CANCELLED');
+    });
+
+    it('should list a user\'s own bookings and those of their teams', async () => {
+      const teams = await db.insert(teamsTable)
+        .values([
+          { captain_id: captain.id, name: 'Sunday Legends', skill_level: 5 },
+          { captain_id: stranger.id, name: 'Strangers FC', skill_level: 5 }
+        ])
+        .returning()
+        .execute();
+      await db.insert(teamMembersTable).values({ team_id: teams[0].id, user_id: member.id }).execute();
+
+      const own = await createBookedSlot(fieldId, 1, { user_id: member.id, status: 'confirmed' });
+      const teamBooking = await createBookedSlot(otherFieldId, 2, { user_id: captain.id, team_id: teams[0].id });
+      const unrelated = await createBookedSlot(fieldId, 3, { team_id: teams[1].id });
+
+      const { url } = await createCalendarFeed({}, member.id);
+      const calendar = unfold((await renderCalendarFeed(tokenOf(url)))!);
+
+      expect(calendar).toContain(`UID:booking-${own.id}@turf-match-finder`);
+      expect(calendar).toContain(`UID:booking-${teamBooking.id}@turf-match-finder`);
+      expect(calendar).toContain('SUMMARY:⚽ Riverside (Sunday Legends)');
+      expect(calendar).not.toContain(`UID:booking-${unrelated.id}@`);
+    });
+
+    it('should stop serving revoked feeds and feeds of suspended users', async () => {
+      const revoked = await createCalendarFeed({}, captain.id);
+      await revokeCalendarFeed(revoked.feed.id, captain.id);
+      expect(await renderCalendarFeed(tokenOf(revoked.url))).toBeNull();
+      await expect(revokeCalendarFeed(revoked.feed.id, captain.id)).rejects.toThrow(/not found/i);
+
+      const suspended = await createCalendarFeed({}, member.id);
+      await db.update(usersTable).set({ suspended_at: new Date() }).where(eq(usersTable.id, member.id)).execute();
+      expect(await renderCalendarFeed(tokenOf(suspended.url))).toBeNull();
+
+      expect(await renderCalendarFeed('unknown-token')).toBeNull();
+    });
+
+    it('should record when a calendar app last fetched the feed', async () => {
+      const { url, feed } = await createCalendarFeed({}, captain.id);
+      await renderCalendarFeed(tokenOf(url));
+
+      const stored = await db.select().from(calendarFeedsTable).where(eq(calendarFeedsTable.id, feed.id)).execute();
+      expect(stored[0].last_accessed_at).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('serveCalendarFeed', () => {
+    const request = async (url: string) => {
+      const headers: Record<string, string> = {};
+      let body = '';
+      const res = {
+        statusCode: 200,
+        setHeader: (name: string, value: string) => { headers[name] = value; },
+        end: (data?: string) => { body = data ?? ''; }
+      };
+
+      const handled = await serveCalendarFeed({ method: 'GET', url } as IncomingMessage, res as unknown as ServerResponse);
+      return { handled, status: res.statusCode, headers, body };
+    };
+
+    it('should answer feed URLs and leave other requests to the API', async () => {
+      const { url } = await createCalendarFeed({}, captain.id);
+
+      const served = await request(`/calendar/${tokenOf(url)}.ics`);
+      expect(served.handled).toBe(true);
+      expect(served.status).toEqual(200);
+      expect(served.headers['Content-Type']).toEqual('text/calendar; charset=utf-8');
+      expect(served.body).toContain('BEGIN:VCALENDAR');
+
+      expect((await request('/calendar/not-a-token.ics')).status).toEqual(404);
+      expect((await request('/calendar/../etc/passwd')).status).toEqual(404);
+      expect((await request('/healthcheck')).handled).toBe(false);
+    });
+  });
+});
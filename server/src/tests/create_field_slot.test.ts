@@ -2,9 +2,11 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { fieldSlotsTable, fieldsTable, usersTable } from '../db/schema';
-import { type CreateFieldSlotInput } from '../schema';
+import { type CreateFieldSlotInput, type SlotValidationErrorCode } from '../schema';
 import { createFieldSlot } from '../handlers/create_field_slot';
-import { eq } from 'drizzle-orm';
+import { SlotValidationError } from '../utils/slot_validation';
+import { findSlotConflicts } from '../db/constraints';
+import { eq, sql } from 'drizzle-orm';
 
 // Helper function to create a test user
 async function createTestUser() {
@@ -52,14 +54,14 @@ describe('createFieldSlot', () => {
 
   const testInput: CreateFieldSlotInput = {
     field_id: 1, // Will be overridden in tests
-    start_time: new Date('2024-01-15T10:00:00Z'),
-    end_time: new Date('2024-01-15T12:00:00Z'),
+    start_time: new Date('2030-01-15T10:00:00Z'),
+    end_time: new Date('2030-01-15T12:00:00Z'),
     price: 100.00
   };
 
   it('should create a field slot successfully', async () => {
     const input = { ...testInput, field_id: testField.id };
-    const result = await createFieldSlot(input);
+    const result = await createFieldSlot(input, testUser.id);
 
     // Basic field validation
     expect(result.field_id).toEqual(testField.id);
@@ -74,7 +76,7 @@ describe('createFieldSlot', () => {
 
   it('should save field slot to database', async () => {
     const input = { ...testInput, field_id: testField.id };
-    const result = await createFieldSlot(input);
+    const result = await createFieldSlot(input, testUser.id);
 
     // Query using proper drizzle syntax
     const fieldSlots = await db.select()
@@ -93,7 +95,7 @@ describe('createFieldSlot', () => {
 
   it('should handle different price values correctly', async () => {
     const input = { ...testInput, field_id: testField.id, price: 75.50 };
-    const result = await createFieldSlot(input);
+    const result = await createFieldSlot(input, testUser.id);
 
     expect(result.price).toEqual(75.50);
     expect(typeof result.price).toBe('number');
@@ -108,8 +110,8 @@ describe('createFieldSlot', () => {
   });
 
   it('should handle different time ranges correctly', async () => {
-    const startTime = new Date('2024-02-20T14:00:00Z');
-    const endTime = new Date('2024-02-20T16:30:00Z');
+    const startTime = new Date('2030-02-20T14:00:00Z');
+    const endTime = new Date('2030-02-20T16:30:00Z');
     const input = {
       ...testInput,
       field_id: testField.id,
@@ -117,7 +119,7 @@ describe('createFieldSlot', () => {
       end_time: endTime
     };
     
-    const result = await createFieldSlot(input);
+    const result = await createFieldSlot(input, testUser.id);
 
     expect(result.start_time).toEqual(startTime);
     expect(result.end_time).toEqual(endTime);
@@ -135,26 +137,50 @@ describe('createFieldSlot', () => {
   it('should throw error when field does not exist', async () => {
     const input = { ...testInput, field_id: 99999 }; // Non-existent field ID
 
-    await expect(createFieldSlot(input)).rejects.toThrow(/field not found/i);
+    await expect(createFieldSlot(input, testUser.id)).rejects.toThrow(/field not found/i);
+  });
+
+  it('should throw error when the field belongs to another owner', async () => {
+    const otherOwner = await db.insert(usersTable)
+      .values({
+        email: 'other-owner@test.com',
+        password_hash: 'hashed_password',
+        first_name: 'Other',
+        last_name: 'Owner',
+        role: 'field_owner'
+      })
+      .returning()
+      .execute();
+
+    const input = { ...testInput, field_id: testField.id };
+
+    await expect(createFieldSlot(input, otherOwner[0].id)).rejects.toThrow(/do not have permission/i);
+
+    const fieldSlots = await db.select()
+      .from(fieldSlotsTable)
+      .where(eq(fieldSlotsTable.field_id, testField.id))
+      .execute();
+
+    expect(fieldSlots).toHaveLength(0);
   });
 
   it('should create multiple slots for the same field', async () => {
     const input1 = { 
       ...testInput, 
       field_id: testField.id,
-      start_time: new Date('2024-01-15T10:00:00Z'),
-      end_time: new Date('2024-01-15T12:00:00Z')
+      start_time: new Date('2030-01-15T10:00:00Z'),
+      end_time: new Date('2030-01-15T12:00:00Z')
     };
     const input2 = { 
       ...testInput, 
       field_id: testField.id,
-      start_time: new Date('2024-01-15T14:00:00Z'),
-      end_time: new Date('2024-01-15T16:00:00Z'),
+      start_time: new Date('2030-01-15T14:00:00Z'),
+      end_time: new Date('2030-01-15T16:00:00Z'),
       price: 120.00
     };
 
-    const result1 = await createFieldSlot(input1);
-    const result2 = await createFieldSlot(input2);
+    const result1 = await createFieldSlot(input1, testUser.id);
+    const result2 = await createFieldSlot(input2, testUser.id);
 
     expect(result1.id).toBeDefined();
     expect(result2.id).toBeDefined();
@@ -171,4 +197,83 @@ describe('createFieldSlot', () => {
 
     expect(allSlots).toHaveLength(2);
   });
-});
\ No newline at end of file
+
+  describe('validation', () => {
+    const slotAt = (start: string, end: string): CreateFieldSlotInput => ({
+      ...testInput,
+      field_id: testField.id,
+      start_time: new Date(start),
+      end_time: new Date(end)
+    });
+
+    const expectSlotError = async (input: CreateFieldSlotInput, code: SlotValidationErrorCode, message: RegExp) => {
+      const error = await createFieldSlot(input, testUser.id).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(SlotValidationError);
+      expect((error as SlotValidationError).code).toEqual(code);
+      expect((error as SlotValidationError).message).toMatch(message);
+    };
+
+    it('should reject slots that end before they start', async () => {
+      await expectSlotError(slotAt('2030-01-15T12:00:00Z', '2030-01-15T10:00:00Z'), 'INVALID_RANGE', /end after it starts/i);
+      await expectSlotError(slotAt('2030-01-15T12:00:00Z', '2030-01-15T12:00:00Z'), 'INVALID_RANGE', /end after it starts/i);
+    });
+
+    it('should reject slots in the past', async () => {
+      await expectSlotError(slotAt('2020-01-15T10:00:00Z', '2020-01-15T11:00:00Z'), 'IN_PAST', /in the past/i);
+    });
+
+    it('should enforce the minimum and maximum duration', async () => {
+      await expectSlotError(slotAt('2030-01-15T10:00:00Z', '2030-01-15T10:10:00Z'), 'TOO_SHORT', /at least 15 minutes/i);
+      await expectSlotError(slotAt('2030-01-15T10:00:00Z', '2030-01-15T19:00:00Z'), 'TOO_LONG', /at most 8 hours/i);
+    });
+
+    it('should reject slots overlapping another slot on the same field', async () => {
+      await createFieldSlot(slotAt('2030-01-15T10:00:00Z', '2030-01-15T12:00:00Z'), testUser.id);
+
+      await expectSlotError(slotAt('2030-01-15T11:00:00Z', '2030-01-15T13:00:00Z'), 'OVERLAP', /overlaps another slot/i);
+      await expectSlotError(slotAt('2030-01-15T09:00:00Z', '2030-01-15T14:00:00Z'), 'OVERLAP', /overlaps another slot/i);
+
+      // Back-to-back slots are fine, as are overlapping slots on another field
+      await createFieldSlot(slotAt('2030-01-15T12:00:00Z', '2030-01-15T13:00:00Z'), testUser.id);
+      const otherField = await createTestField(testUser.id);
+      await createFieldSlot({ ...slotAt('2030-01-15T11:00:00Z', '2030-01-15T13:00:00Z'), field_id: otherField.id }, testUser.id);
+    });
+
+    it('should enforce ordering and overlap in the database itself', async () => {
+      const insert = (start: string, end: string) => db.insert(fieldSlotsTable)
+        .values({ field_id: testField.id, start_time: new Date(start), end_time: new Date(end), price: '50.00' })
+        .execute();
+
+      await insert('2030-01-15T10:00:00Z', '2030-01-15T12:00:00Z');
+
+      await expect(insert('2030-01-15T11:00:00Z', '2030-01-15T13:00:00Z')).rejects.toThrow();
+      await expect(insert('2030-01-16T12:00:00Z', '2030-01-16T10:00:00Z')).rejects.toThrow();
+
+      const constraints = await db.execute(sql`select conname from pg_constraint where conrelid = 'field_slots'::regclass order by conname`);
+      expect(constraints.rows.map(row => row['conname'])).toEqual(expect.arrayContaining(['field_slots_no_overlap', 'field_slots_time_order']));
+    });
+
+    it('should report existing slots that would block the constraints', async () => {
+      expect(await findSlotConflicts()).toEqual([]);
+
+      // Data from before the constraints existed
+      await db.execute(sql`alter table field_slots drop constraint field_slots_no_overlap`);
+      await db.execute(sql`alter table field_slots drop constraint field_slots_time_order`);
+      const insert = (start: string, end: string) => db.insert(fieldSlotsTable)
+        .values({ field_id: testField.id, start_time: new Date(start), end_time: new Date(end), price: '50.00' })
+        .returning()
+        .execute()
+        .then(rows => rows[0].id);
+
+      const first = await insert('2030-01-15T10:00:00Z', '2030-01-15T12:00:00Z');
+      const second = await insert('2030-01-15T11:00:00Z', '2030-01-15T13:00:00Z');
+      await insert('2030-01-15T13:00:00Z', '2030-01-15T14:00:00Z'); // Touching is fine
+      const reversed = await insert('2030-01-16T12:00:00Z', '2030-01-16T10:00:00Z');
+
+      const conflicts = await findSlotConflicts();
+      expect(conflicts).toHaveLength(2);
+      expect(conflicts[0]).toStartWith(`Slot ${reversed} of field ${testField.id} does not end after it starts`);
+      expect(conflicts[1]).toEqual(`Slots ${first} and ${second} of field ${testField.id} overlap`);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  bookingsTable,
+  fieldClosuresTable,
+  fieldPhotosTable,
+  fieldReviewsTable,
+  fieldSlotsTable,
+  fieldsTable,
+  interestsTable,
+  usersTable
+} from '../db/schema';
+import { type Field } from '../schema';
+import { deleteField } from '../handlers/delete_field';
+import { createField } from '../handlers/create_field';
+import { addFieldPhoto } from '../handlers/manage_field_photos';
+import { createLocalDiskStorage, getStorage, setStorage } from '../storage';
+import { eq } from 'drizzle-orm';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('deleteField', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let otherOwnerId: number;
+  let playerId: number;
+  let field: Field;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password_hash: 'hash', first_name: 'Field', last_name: 'Owner', role: 'field_owner' },
+        { email: 'other@test.com', password_hash: 'hash', first_name: 'Other', last_name: 'Owner', role: 'field_owner' },
+        { email: 'player@test.com', password_hash: 'hash', first_name: 'Sam', last_name: 'Player', role: 'player' }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    otherOwnerId = users[1].id;
+    playerId = users[2].id;
+
+    field = await createField({ name: 'Riverside', address: '1 River Rd', hourly_rate: 50 }, ownerId);
+  });
+
+  const createSlot = async (fieldId: number, offset: number) => {
+    const start = new Date(Date.now() + offset);
+    const slots = await db.insert(fieldSlotsTable)
+      .values({ field_id: fieldId, start_time: start, end_time: new Date(start.getTime() + HOUR), price: '50.00' })
+      .returning()
+      .execute();
+    return slots[0];
+  };
+
+  const book = (slotId: number, status: 'pending' | 'confirmed' | 'cancelled') =>
+    db.insert(bookingsTable).values({ slot_id: slotId, user_id: playerId, status, total_price: '50.00' }).execute();
+
+  it('should refuse while pending bookings are still to come', async () => {
+    const pending = await createSlot(field.id, 24 * HOUR);
+    await book(pending.id, 'pending');
+
+    await expect(deleteField(field.id, ownerId)).rejects.toThrow(/upcoming bookings - archive it instead/i);
+
+    // A booking under way still counts
+    await db.update(bookingsTable).set({ status: 'cancelled' }).execute();
+    const ongoing = await createSlot(field.id, -HOUR / 2);
+    await book(ongoing.id, 'pending');
+    await expect(deleteField(field.id, ownerId)).rejects.toThrow(/upcoming bookings/i);
+
+    expect(await db.select().from(fieldsTable).where(eq(fieldsTable.id, field.id)).execute()).toHaveLength(1);
+  });
+
+  it('should refuse once the field has any confirmed booking, past ones included', async () => {
+    const past = await createSlot(field.id, -48 * HOUR);
+    await book(past.id, 'confirmed');
+
+    await expect(deleteField(field.id, ownerId)).rejects.toThrow(/confirmed bookings on record - archive it instead/i);
+
+    expect(await db.select().from(bookingsTable).execute()).toHaveLength(1);
+    expect(await db.select().from(fieldsTable).where(eq(fieldsTable.id, field.id)).execute()).toHaveLength(1);
+  });
+
+  it('should delete slots, their interests and lapsed bookings, and the rest of the field\'s rows', async () => {
+    const past = await createSlot(field.id, -48 * HOUR);
+    const future = await createSlot(field.id, 48 * HOUR);
+    await book(past.id, 'pending');
+    await book(future.id, 'cancelled');
+    await db.insert(interestsTable).values({ user_id: playerId, type: 'field_slot', field_slot_id: future.id }).execute();
+    await db.insert(fieldClosuresTable).values({ field_id: field.id, starts_at: new Date(), ends_at: new Date(Date.now() + HOUR) }).execute();
+    await db.insert(fieldReviewsTable).values({ field_id: field.id, author_id: playerId, pitch_quality: 4, facilities: 4, value: 4 }).execute();
+
+    // Rows at other fields are left alone
+    const otherField = await createField({ name: 'Hall', address: '2 Hall St', hourly_rate: 40 }, ownerId);
+    const otherSlot = await createSlot(otherField.id, 48 * HOUR);
+    await book(otherSlot.id, 'confirmed');
+    await db.insert(interestsTable).values({ user_id: playerId, type: 'field_slot', field_slot_id: otherSlot.id }).execute();
+
+    expect(await deleteField(field.id, ownerId)).toBe(true);
+
+    expect(await db.select().from(fieldsTable).where(eq(fieldsTable.id, field.id)).execute()).toEqual([]);
+    expect((await db.select().from(fieldSlotsTable).execute()).map(s => s.id)).toEqual([otherSlot.id]);
+    expect((await db.select().from(interestsTable).execute()).map(i => i.field_slot_id)).toEqual([otherSlot.id]);
+    expect((await db.select().from(bookingsTable).execute()).map(b => b.slot_id)).toEqual([otherSlot.id]);
+    expect(await db.select().from(fieldClosuresTable).execute()).toEqual([]);
+    expect(await db.select().from(fieldReviewsTable).execute()).toEqual([]);
+  });
+
+  it('should not delete a booking made while the deletion was checking', async () => {
+    const slot = await createSlot(field.id, 24 * HOUR);
+
+    // Hold a booking open in another transaction until the deletion is waiting on it
+    let booked!: () => void;
+    let release!: () => void;
+    const bookedSignal = new Promise<void>(resolve => { booked = resolve; });
+    const releaseSignal = new Promise<void>(resolve => { release = resolve; });
+    const booking = db.transaction(async (tx) => {
+      await tx.insert(bookingsTable).values({ slot_id: slot.id, user_id: playerId, status: 'pending', total_price: '50.00' }).execute();
+      booked();
+      await releaseSignal;
+    });
+
+    await bookedSignal;
+    const deletion = deleteField(field.id, ownerId);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    release();
+    await booking;
+
+    await expect(deletion).rejects.toThrow(/upcoming bookings/i);
+    expect(await db.select().from(bookingsTable).execute()).toHaveLength(1);
+  });
+
+  it('should only let the owner delete the field', async () => {
+    await expect(deleteField(field.id, otherOwnerId)).rejects.toThrow(/do not have permission to delete/i);
+    await expect(deleteField(99999, ownerId)).rejects.toThrow(/not found/i);
+  });
+
+  describe('photos', () => {
+    let uploadDir: string;
+    let originalStorage: ReturnType<typeof getStorage>;
+
+    beforeEach(async () => {
+      originalStorage = getStorage();
+      uploadDir = await mkdtemp(join(tmpdir(), 'uploads-'));
+      setStorage(createLocalDiskStorage(uploadDir));
+    });
+
+    afterEach(async () => {
+      setStorage(originalStorage);
+      await rm(uploadDir, { recursive: true, force: true });
+    });
+
+    it('should remove the field\'s stored photos', async () => {
+      const image = await sharp({ create: { width: 800, height: 600, channels: 3, background: { r: 40, g: 160, b: 60 } } })
+        .jpeg()
+        .toBuffer();
+      await addFieldPhoto({ field_id: field.id, content_type: 'image/jpeg', data: image.toString('base64') }, ownerId);
+
+      await deleteField(field.id, ownerId);
+
+      expect(await db.select().from(fieldPhotosTable).execute()).toEqual([]);
+      const files = await readdir(uploadDir, { recursive: true, withFileTypes: true });
+      expect(files.filter(file => file.isFile())).toEqual([]);
+    });
+  });
+});
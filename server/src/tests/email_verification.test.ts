@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, emailVerificationTokensTable, mailOutboxTable } from '../db/schema';
+import { type User } from '../schema';
+import { sendVerificationEmail, verifyEmail, resendVerificationEmail, MAX_VERIFICATION_EMAILS_PER_DAY } from '../handlers/email_verification';
+import { hashToken } from '../utils/tokens';
+import { eq } from 'drizzle-orm';
+
+const latestVerifyToken = async (): Promise<string> => {
+  const mails = await db.select().from(mailOutboxTable).execute();
+  const match = mails[mails.length - 1].body.match(/verify_token=([\w-]+)/);
+  return match![1];
+};
+
+// Push every issued token back in time so the resend interval has elapsed
+const ageTokens = async (ms: number) => {
+  await db.update(emailVerificationTokensTable)
+    .set({ created_at: new Date(Date.now() - ms) })
+    .execute();
+};
+
+describe('email verification', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let user: User;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'player@example.com',
+        password_hash: 'hashed_password',
+        first_name: 'Test',
+        last_name: 'Player',
+        role: 'player'
+      })
+      .returning()
+      .execute();
+
+    user = users[0];
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should store a hashed token bound to the email and send a link', async () => {
+      await sendVerificationEmail(user);
+
+      const mails = await db.select().from(mailOutboxTable).execute();
+      expect(mails).toHaveLength(1);
+      expect(mails[0].to).toEqual('player@example.com');
+
+      const token = await latestVerifyToken();
+      const tokens = await db.select().from(emailVerificationTokensTable).execute();
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].user_id).toEqual(user.id);
+      expect(tokens[0].email).toEqual('player@example.com');
+      expect(tokens[0].token_hash).toEqual(hashToken(token));
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the user as verified', async () => {
+      await sendVerificationEmail(user);
+
+      const result = await verifyEmail({ token: await latestVerifyToken() });
+
+      expect(result.id).toEqual(user.id);
+      expect(result.email_verified_at).toBeInstanceOf(Date);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(users[0].email_verified_at).toBeInstanceOf(Date);
+    });
+
+    it('should only accept a token once', async () => {
+      await sendVerificationEmail(user);
+      const token = await latestVerifyToken();
+
+      await verifyEmail({ token });
+
+      await expect(verifyEmail({ token })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject an expired token', async () => {
+      await sendVerificationEmail(user);
+      const token = await latestVerifyToken();
+
+      await db.update(emailVerificationTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(verifyEmail({ token })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should not verify an address the user has since changed away from', async () => {
+      await sendVerificationEmail(user);
+      const token = await latestVerifyToken();
+
+      await db.update(usersTable)
+        .set({ email: 'changed@example.com' })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      await expect(verifyEmail({ token })).rejects.toThrow(/invalid or expired/i);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(users[0].email_verified_at).toBeNull();
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    it('should send a new verification email', async () => {
+      const result = await resendVerificationEmail(user.id);
+
+      expect(result).toBe(true);
+
+      const mails = await db.select().from(mailOutboxTable).execute();
+      expect(mails).toHaveLength(1);
+    });
+
+    it('should throttle resends within a minute', async () => {
+      await resendVerificationEmail(user.id);
+
+      await expect(resendVerificationEmail(user.id)).rejects.toThrow(/wait a minute/i);
+    });
+
+    it('should cap the number of emails per day', async () => {
+      for (let i = 0; i < MAX_VERIFICATION_EMAILS_PER_DAY; i++) {
+        await ageTokens(2 * 60 * 1000);
+        await resendVerificationEmail(user.id);
+      }
+
+      await ageTokens(2 * 60 * 1000);
+      await expect(resendVerificationEmail(user.id)).rejects.toThrow(/too many verification emails/i);
+    });
+
+    it('should refuse when the email is already verified', async () => {
+      await db.update(usersTable)
+        .set({ email_verified_at: new Date() })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      await expect(resendVerificationEmail(user.id)).rejects.toThrow(/already verified/i);
+    });
+
+    it('should throw for a non-existent user', async () => {
+      await expect(resendVerificationEmail(99999)).rejects.toThrow(/user not found/i);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, fieldSlotsTable } from '../db/schema';
+import { type User, type Field } from '../schema';
+import { createField } from '../handlers/create_field';
+import { updateField } from '../handlers/update_field';
+import { getFields, searchFields } from '../handlers/get_fields';
+import { getAvailableFieldSlots } from '../handlers/get_field_slots';
+
+describe('field attributes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let owner: User;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values({ email: 'owner@example.com', password_hash: 'hash', first_name: 'Olive', last_name: 'Owner', role: 'field_owner' })
+      .returning()
+      .execute();
+
+    owner = users[0];
+  });
+
+  describe('createField and updateField', () => {
+    it('should default to no attributes', async () => {
+      const field = await createField({ name: 'Plain', address: '1 Main St', hourly_rate: 50 }, owner.id);
+
+      expect(field.surface).toBeNull();
+      expect(field.formats).toEqual([]);
+      expect(field.is_indoor).toBe(false);
+      expect(field.amenities).toEqual([]);
+    });
+
+    it('should store attributes and drop duplicates', async () => {
+      const field = await createField({
+        name: 'Arena',
+        address: '1 Main St',
+        hourly_rate: 80,
+        surface: 'artificial_turf',
+        formats: ['5v5', '7v7', '5v5'],
+        is_indoor: true,
+        amenities: ['changing_rooms', 'parking', 'parking']
+      }, owner.id);
+
+      expect(field.surface).toEqual('artificial_turf');
+      expect(field.formats).toEqual(['5v5', '7v7']);
+      expect(field.is_indoor).toBe(true);
+      expect(field.amenities).toEqual(['changing_rooms', 'parking']);
+
+      const [stored] = await getFields();
+      expect(stored.formats).toEqual(['5v5', '7v7']);
+    });
+
+    it('should update only the attributes given', async () => {
+      const field = await createField({ name: 'Arena', address: '1 Main St', hourly_rate: 80, surface: 'natural_grass', formats: ['11v11'] }, owner.id);
+
+      const updated = await updateField({ id: field.id, amenities: ['floodlights'] }, owner.id);
+      expect(updated.surface).toEqual('natural_grass');
+      expect(updated.formats).toEqual(['11v11']);
+      expect(updated.amenities).toEqual(['floodlights']);
+
+      const cleared = await updateField({ id: field.id, surface: null, formats: [] }, owner.id);
+      expect(cleared.surface).toBeNull();
+      expect(cleared.formats).toEqual([]);
+      expect(cleared.amenities).toEqual(['floodlights']);
+    });
+  });
+
+  describe('searching', () => {
+    let turf: Field;
+    let grass: Field;
+    let hall: Field;
+
+    beforeEach(async () => {
+      turf = await createField({
+        name: 'Turf', address: 'A', hourly_rate: 60,
+        surface: 'artificial_turf', formats: ['5v5', '7v7'], amenities: ['floodlights', 'parking']
+      }, owner.id);
+      grass = await createField({
+        name: 'Grass', address: 'B', hourly_rate: 40,
+        surface: 'natural_grass', formats: ['11v11'], amenities: ['changing_rooms', 'showers', 'parking']
+      }, owner.id);
+      hall = await createField({
+        name: 'Hall', address: 'C', hourly_rate: 70,
+        surface: 'hard_court', formats: ['5v5'], is_indoor: true, amenities: ['changing_rooms']
+      }, owner.id);
+    });
+
+    it('should return every field by name without filters', async () => {
+      const results = await searchFields();
+
+      expect(results.map(f => f.name)).toEqual(['Grass', 'Hall', 'Turf']);
+      expect(results.every(f => f.distance_km === null)).toBe(true);
+    });
+
+    it('should filter on surface, format and indoor flag', async () => {
+      expect((await searchFields({ surface: 'natural_grass' })).map(f => f.id)).toEqual([grass.id]);
+      expect((await searchFields({ format: '5v5' })).map(f => f.id)).toEqual([hall.id, turf.id]);
+      expect((await searchFields({ is_indoor: true })).map(f => f.id)).toEqual([hall.id]);
+      expect((await searchFields({ is_indoor: false })).map(f => f.id)).toEqual([grass.id, turf.id]);
+      expect(await searchFields({ surface: 'hybrid' })).toEqual([]);
+    });
+
+    it('should require every requested amenity', async () => {
+      expect((await searchFields({ amenities: ['parking'] })).map(f => f.id)).toEqual([grass.id, turf.id]);
+      expect((await searchFields({ amenities: ['parking', 'changing_rooms'] })).map(f => f.id)).toEqual([grass.id]);
+      expect((await searchFields({ amenities: [] })).map(f => f.id)).toHaveLength(3);
+    });
+
+    it('should combine filters', async () => {
+      expect((await searchFields({ format: '5v5', amenities: ['floodlights'] })).map(f => f.id)).toEqual([turf.id]);
+      expect(await searchFields({ format: '11v11', is_indoor: true })).toEqual([]);
+    });
+
+    it('should filter available slots by their field\'s attributes', async () => {
+      const start = new Date('2030-01-01T19:00:00Z');
+      const end = new Date('2030-01-01T20:00:00Z');
+      await db.insert(fieldSlotsTable)
+        .values([turf, grass, hall].map(field => ({ field_id: field.id, start_time: start, end_time: end, price: '50.00' })))
+        .execute();
+
+      expect(await getAvailableFieldSlots()).toHaveLength(3);
+      expect((await getAvailableFieldSlots({ format: '5v5', is_indoor: false })).map(slot => slot.field_id)).toEqual([turf.id]);
+      expect((await getAvailableFieldSlots({ amenities: ['showers'] })).map(slot => slot.field_id)).toEqual([grass.id]);
+    });
+  });
+});
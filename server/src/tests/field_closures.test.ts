@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { auditEventsTable, bookingsTable, fieldSlotsTable, mailOutboxTable, usersTable } from '../db/schema';
+import { type Field } from '../schema';
+import { createFieldClosure, getClosureAffectedBookings } from '../handlers/field_closures';
+import { moveBooking } from '../handlers/move_booking';
+import { createBooking } from '../handlers/create_booking';
+import { createField } from '../handlers/create_field';
+import { createVenue, getVenueAvailability } from '../handlers/venues';
+import { getAvailableFieldSlots } from '../handlers/get_field_slots';
+import { eq } from 'drizzle-orm';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe('field closures', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let playerId: number;
+  let otherPlayerId: number;
+  let field: Field;
+  const base = new Date(Date.now() + 7 * DAY);
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password_hash: 'hash', first_name: 'Field', last_name: 'Owner', role: 'field_owner' },
+        { email: 'player@test.com', password_hash: 'hash', first_name: 'Sam', last_name: 'Player', role: 'player' },
+        { email: 'other@test.com', password_hash: 'hash', first_name: 'Alex', last_name: 'Keeper', role: 'player' }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    playerId = users[1].id;
+    otherPlayerId = users[2].id;
+
+    field = await createField({ name: 'Riverside', address: '1 River Rd', hourly_rate: 50 }, ownerId);
+  });
+
+  const createSlot = async (fieldId: number, offset: number) => {
+    const start = new Date(base.getTime() + offset);
+    const slots = await db.insert(fieldSlotsTable)
+      .values({ field_id: fieldId, start_time: start, end_time: new Date(start.getTime() + HOUR), price: '50.00' })
+      .returning()
+      .execute();
+    return slots[0];
+  };
+
+  const book = async (slotId: number, userId: number, status: 'pending' | 'confirmed' | 'cancelled' = 'confirmed') => {
+    const bookings = await db.insert(bookingsTable)
+      .values({ slot_id: slotId, user_id: userId, status, total_price: '50.00' })
+      .returning()
+      .execute();
+    return bookings[0];
+  };
+
+  // Closes the field for the day of base
+  const closeDay = (fieldId: number = field.id, reason: string | null = 'Resurfacing') =>
+    createFieldClosure({ field_id: fieldId, starts_at: base, ends_at: new Date(base.getTime() + DAY), reason }, ownerId);
+
+  describe('availability', () => {
+    it('should hide slots in a closure from the slot search', async () => {
+      const closed = await createSlot(field.id, 2 * HOUR);
+      const open = await createSlot(field.id, 2 * DAY);
+      await closeDay();
+
+      const slots = await getAvailableFieldSlots();
+      expect(slots.map(s => s.id)).toEqual([open.id]);
+      expect(slots.map(s => s.id)).not.toContain(closed.id);
+    });
+
+    it('should hide closed pitches from venue availability', async () => {
+      const venue = await createVenue({ name: 'Park', address: '1 Park Rd' }, ownerId);
+      const pitch1 = await createField({ venue_id: venue.id, name: 'Pitch 1', hourly_rate: 60 }, ownerId);
+      const pitch2 = await createField({ venue_id: venue.id, name: 'Pitch 2', hourly_rate: 60 }, ownerId);
+      await createSlot(pitch1.id, 2 * HOUR);
+      const open = await createSlot(pitch2.id, 2 * HOUR);
+      await closeDay(pitch1.id);
+
+      const groups = await getVenueAvailability();
+      expect(groups).toHaveLength(1);
+      expect(groups[0].slots.map(s => s.id)).toEqual([open.id]);
+    });
+
+    it('should reject new bookings in a closure', async () => {
+      const slot = await createSlot(field.id, 2 * HOUR);
+      await closeDay();
+
+      await expect(createBooking({ slot_id: slot.id }, playerId)).rejects.toThrow(/closed during this slot/i);
+    });
+  });
+
+  describe('notifications', () => {
+    it('should email holders of upcoming pending and confirmed bookings in the window', async () => {
+      await book((await createSlot(field.id, 2 * HOUR)).id, playerId);
+      await book((await createSlot(field.id, 4 * HOUR)).id, otherPlayerId, 'pending');
+      await book((await createSlot(field.id, 6 * HOUR)).id, otherPlayerId, 'cancelled');
+      await book((await createSlot(field.id, 2 * DAY)).id, playerId);
+
+      await closeDay();
+
+      const mails = await db.select().from(mailOutboxTable).execute();
+      expect(mails.map(m => m.to).sort()).toEqual(['other@test.com', 'player@test.com']);
+      expect(mails[0].subject).toEqual('Riverside is closed during your booking');
+      expect(mails[0].body).toContain('(Resurfacing)');
+    });
+  });
+
+  describe('getClosureAffectedBookings', () => {
+    it('should list affected bookings with alternatives at the same field', async () => {
+      const slot = await createSlot(field.id, 2 * HOUR);
+      const booking = await book(slot.id, playerId);
+      await createSlot(field.id, 3 * HOUR); // Also closed
+      const later = await createSlot(field.id, 2 * DAY);
+      const otherField = await createField({ name: 'Hall', address: '2 Hall St', hourly_rate: 40 }, ownerId);
+      await createSlot(otherField.id, 2 * DAY);
+      const evenLater = await createSlot(field.id, 3 * DAY);
+
+      await closeDay();
+
+      const affected = await getClosureAffectedBookings(playerId);
+      expect(affected).toHaveLength(1);
+      expect(affected[0].booking.id).toEqual(booking.id);
+      expect(affected[0].field_name).toEqual('Riverside');
+      expect(affected[0].closure.reason).toEqual('Resurfacing');
+      expect(affected[0].alternative_slots.map(s => s.id)).toEqual([later.id, evenLater.id]);
+      expect(await getClosureAffectedBookings(otherPlayerId)).toEqual([]);
+    });
+
+    it('should not offer slots someone else has booked', async () => {
+      await book((await createSlot(field.id, 2 * HOUR)).id, playerId);
+      const taken = await createSlot(field.id, 2 * DAY);
+      await book(taken.id, otherPlayerId, 'pending');
+      const open = await createSlot(field.id, 3 * DAY);
+
+      await closeDay();
+
+      const affected = await getClosureAffectedBookings(playerId);
+      expect(affected[0].alternative_slots.map(s => s.id)).toEqual([open.id]);
+    });
+  });
+
+  describe('moveBooking', () => {
+    it('should move a booking to an open slot at the same field', async () => {
+      const slot = await createSlot(field.id, 2 * HOUR);
+      const booking = await book(slot.id, playerId);
+      const later = await createSlot(field.id, 2 * DAY);
+      await closeDay();
+
+      const moved = await moveBooking({ booking_id: booking.id, slot_id: later.id }, playerId);
+
+      expect(moved.slot_id).toEqual(later.id);
+      expect(moved.status).toEqual('confirmed');
+      expect(await getClosureAffectedBookings(playerId)).toEqual([]);
+
+      const events = await db.select().from(auditEventsTable).where(eq(auditEventsTable.entity_id, booking.id)).execute();
+      expect(events.map(e => [e.action, e.before, e.after])).toEqual([
+        ['booking.moved', { slot_id: slot.id }, { slot_id: later.id }]
+      ]);
+    });
+
+    it('should allow moving to another pitch at the same venue', async () => {
+      const venue = await createVenue({ name: 'Park', address: '1 Park Rd' }, ownerId);
+      const pitch1 = await createField({ venue_id: venue.id, name: 'Pitch 1', hourly_rate: 60 }, ownerId);
+      const pitch2 = await createField({ venue_id: venue.id, name: 'Pitch 2', hourly_rate: 60 }, ownerId);
+      const booking = await book((await createSlot(pitch1.id, 2 * HOUR)).id, playerId);
+      const sibling = await createSlot(pitch2.id, 2 * HOUR);
+
+      const moved = await moveBooking({ booking_id: booking.id, slot_id: sibling.id }, playerId);
+      expect(moved.slot_id).toEqual(sibling.id);
+    });
+
+    it('should reject moves to slots that are elsewhere, closed or not open', async () => {
+      const booking = await book((await createSlot(field.id, 2 * DAY)).id, playerId);
+      const closed = await createSlot(field.id, 2 * HOUR);
+      await closeDay();
+      const otherField = await createField({ name: 'Hall', address: '2 Hall St', hourly_rate: 40 }, ownerId);
+      const elsewhere = await createSlot(otherField.id, 3 * DAY);
+      const unavailable = await createSlot(field.id, 4 * DAY);
+      await db.update(fieldSlotsTable).set({ is_available: false }).where(eq(fieldSlotsTable.id, unavailable.id)).execute();
+
+      await expect(moveBooking({ booking_id: booking.id, slot_id: closed.id }, playerId)).rejects.toThrow(/closed during this slot/i);
+      await expect(moveBooking({ booking_id: booking.id, slot_id: elsewhere.id }, playerId)).rejects.toThrow(/same field or venue/i);
+      await expect(moveBooking({ booking_id: booking.id, slot_id: unavailable.id }, playerId)).rejects.toThrow(/not available/i);
+      await expect(moveBooking({ booking_id: booking.id, slot_id: 99999 }, playerId)).rejects.toThrow(/not found/i);
+    });
+
+    it('should only let the holder move an active booking', async () => {
+      const booking = await book((await createSlot(field.id, 2 * HOUR)).id, playerId);
+      const cancelled = await book((await createSlot(field.id, 3 * HOUR)).id, playerId, 'cancelled');
+      const later = await createSlot(field.id, 2 * DAY);
+
+      await expect(moveBooking({ booking_id: booking.id, slot_id: later.id }, otherPlayerId)).rejects.toThrow(/do not have permission/i);
+      await expect(moveBooking({ booking_id: cancelled.id, slot_id: later.id }, playerId)).rejects.toThrow(/cancelled bookings cannot be moved/i);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { bookingsTable, fieldSlotsTable, usersTable } from '../db/schema';
+import { type Field } from '../schema';
+import { createFieldReview, replyToFieldReview, getFieldReviews } from '../handlers/field_reviews';
+import { createField } from '../handlers/create_field';
+import { searchFields } from '../handlers/get_fields';
+import { exportMyData } from '../handlers/account_data';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('field reviews', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let playerId: number;
+  let otherPlayerId: number;
+  let field: Field;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password_hash: 'hash', first_name: 'Field', last_name: 'Owner', role: 'field_owner' },
+        { email: 'player@test.com', password_hash: 'hash', first_name: 'Sam', last_name: 'Player', role: 'player' },
+        { email: 'other@test.com', password_hash: 'hash', first_name: 'Alex', last_name: 'Keeper', role: 'player' }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    playerId = users[1].id;
+    otherPlayerId = users[2].id;
+
+    field = await createField({ name: 'Riverside', address: '1 River Rd', hourly_rate: 50 }, ownerId);
+  });
+
+  const book = async (fieldId: number, userId: number, startOffset: number, status: 'pending' | 'confirmed' | 'cancelled' = 'confirmed') => {
+    const start = new Date(Date.now() + startOffset);
+    const slots = await db.insert(fieldSlotsTable)
+      .values({ field_id: fieldId, start_time: start, end_time: new Date(start.getTime() + HOUR), price: '50.00' })
+      .returning()
+      .execute();
+    await db.insert(bookingsTable).values({ slot_id: slots[0].id, user_id: userId, status, total_price: '50.00' }).execute();
+  };
+
+  const scores = { pitch_quality: 5, facilities: 3, value: 4 };
+
+  describe('createFieldReview', () => {
+    it('should let a player review a field they have played at', async () => {
+      await book(field.id, playerId, -3 * HOUR);
+
+      const review = await createFieldReview({ field_id: field.id, ...scores, comment: 'Great surface' }, playerId);
+
+      expect(review).toMatchObject({
+        field_id: field.id,
+        author_id: playerId,
+        author_name: 'Sam P.',
+        ...scores,
+        rating: 4,
+        comment: 'Great surface',
+        owner_reply: null,
+        replied_at: null
+      });
+    });
+
+    it('should require a completed booking at the field', async () => {
+      const input = { field_id: field.id, ...scores };
+      await expect(createFieldReview(input, playerId)).rejects.toThrow(/once you have played a booking there/i);
+
+      // Upcoming, pending and cancelled bookings don't count
+      await book(field.id, playerId, 24 * HOUR);
+      await book(field.id, playerId, -3 * HOUR, 'pending');
+      await book(field.id, playerId, -6 * HOUR, 'cancelled');
+      await expect(createFieldReview(input, playerId)).rejects.toThrow(/once you have played a booking there/i);
+
+      // Nor do bookings at another field
+      const otherField = await createField({ name: 'Hall', address: '2 Hall St', hourly_rate: 40 }, ownerId);
+      await book(otherField.id, playerId, -3 * HOUR);
+      await expect(createFieldReview(input, playerId)).rejects.toThrow(/once you have played a booking there/i);
+    });
+
+    it('should only allow one review per field and player', async () => {
+      await book(field.id, playerId, -3 * HOUR);
+      await createFieldReview({ field_id: field.id, ...scores }, playerId);
+
+      await expect(createFieldReview({ field_id: field.id, ...scores }, playerId)).rejects.toThrow(/already reviewed/i);
+    });
+
+    it('should not let owners review their own field', async () => {
+      await book(field.id, ownerId, -3 * HOUR);
+
+      await expect(createFieldReview({ field_id: field.id, ...scores }, ownerId)).rejects.toThrow(/your own field/i);
+      await expect(createFieldReview({ field_id: 99999, ...scores }, playerId)).rejects.toThrow(/field not found/i);
+    });
+  });
+
+  describe('replyToFieldReview', () => {
+    it('should let the owner reply to a review of their field', async () => {
+      await book(field.id, playerId, -3 * HOUR);
+      const review = await createFieldReview({ field_id: field.id, ...scores }, playerId);
+
+      const replied = await replyToFieldReview({ review_id: review.id, reply: 'Thanks for coming!' }, ownerId);
+
+      expect(replied.owner_reply).toEqual('Thanks for coming!');
+      expect(replied.replied_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject replies from anyone else', async () => {
+      await book(field.id, playerId, -3 * HOUR);
+      const review = await createFieldReview({ field_id: field.id, ...scores }, playerId);
+
+      await expect(replyToFieldReview({ review_id: review.id, reply: 'Hi' }, otherPlayerId)).rejects.toThrow(/do not have permission/i);
+      await expect(replyToFieldReview({ review_id: 99999, reply: 'Hi' }, ownerId)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('getFieldReviews', () => {
+    it('should summarize the ratings per category', async () => {
+      await book(field.id, playerId, -3 * HOUR);
+      await book(field.id, otherPlayerId, -6 * HOUR);
+      await createFieldReview({ field_id: field.id, ...scores }, playerId);
+      await createFieldReview({ field_id: field.id, pitch_quality: 4, facilities: 2, value: 3 }, otherPlayerId);
+
+      const { summary, reviews } = await getFieldReviews(field.id);
+
+      expect(summary).toEqual({
+        field_id: field.id,
+        review_count: 2,
+        average_rating: 3.5,
+        pitch_quality: 4.5,
+        facilities: 2.5,
+        value: 3.5
+      });
+      expect(reviews.map(r => r.author_name)).toEqual(['Alex K.', 'Sam P.']);
+    });
+
+    it('should have no averages without reviews', async () => {
+      const { summary, reviews } = await getFieldReviews(field.id);
+
+      expect(summary).toMatchObject({ review_count: 0, average_rating: null, pitch_quality: null });
+      expect(reviews).toEqual([]);
+    });
+  });
+
+  describe('searchFields', () => {
+    it('should include the average rating and sort by it', async () => {
+      const hall = await createField({ name: 'Hall', address: '2 Hall St', hourly_rate: 40 }, ownerId);
+      await createField({ name: 'Arena', address: '3 Arena Way', hourly_rate: 40 }, ownerId);
+      await book(field.id, playerId, -3 * HOUR);
+      await book(hall.id, playerId, -3 * HOUR);
+      await createFieldReview({ field_id: field.id, pitch_quality: 3, facilities: 3, value: 3 }, playerId);
+      await createFieldReview({ field_id: hall.id, pitch_quality: 5, facilities: 4, value: 5 }, playerId);
+
+      const byName = await searchFields();
+      expect(byName.map(f => [f.name, f.average_rating, f.review_count])).toEqual([
+        ['Arena', null, 0],
+        ['Hall', 4.67, 1],
+        ['Riverside', 3, 1]
+      ]);
+
+      const byRating = await searchFields({ sort: 'rating' });
+      expect(byRating.map(f => f.name)).toEqual(['Hall', 'Riverside', 'Arena']);
+    });
+  });
+
+  describe('exportMyData', () => {
+    it('should include the player\'s field reviews', async () => {
+      await book(field.id, playerId, -3 * HOUR);
+      await createFieldReview({ field_id: field.id, ...scores, comment: 'Great surface' }, playerId);
+
+      const archive = await exportMyData(playerId);
+
+      expect(archive.field_reviews.map(r => r.comment)).toEqual(['Great surface']);
+    });
+  });
+});
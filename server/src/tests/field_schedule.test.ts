@@ -0,0 +1,251 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, fieldsTable, fieldSlotsTable, fieldClosuresTable } from '../db/schema';
+import { type User, type SetFieldScheduleInput } from '../schema';
+import {
+  getFieldSchedule,
+  setFieldSchedule,
+  previewFieldSlots,
+  generateFieldSlots,
+  MAX_GENERATION_DAYS
+} from '../handlers/field_schedule';
+import { createFieldClosure, getFieldClosures, deleteFieldClosure } from '../handlers/field_closures';
+import { addDays } from '../utils/time';
+import { eq } from 'drizzle-orm';
+
+// 2030-01-07 is a Monday
+const MONDAY = '2030-01-07';
+
+describe('field schedule', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let owner: User;
+  let otherOwner: User;
+  let fieldId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', first_name: 'Olive', last_name: 'Owner', role: 'field_owner' },
+        { email: 'other@example.com', password_hash: 'hash', first_name: 'Oscar', last_name: 'Owner', role: 'field_owner' }
+      ])
+      .returning()
+      .execute();
+
+    [owner, otherOwner] = users;
+
+    const fields = await db.insert(fieldsTable)
+      .values({ owner_id: owner.id, name: 'Central Pitch', address: '1 Main St', hourly_rate: '60.00' })
+      .returning()
+      .execute();
+
+    fieldId = fields[0].id;
+  });
+
+  const weekdayEvenings = (overrides: Partial<SetFieldScheduleInput> = {}): SetFieldScheduleInput => ({
+    field_id: fieldId,
+    slot_length_minutes: 60,
+    timezone: 'UTC',
+    opening_hours: [1, 2, 3, 4, 5].map(day_of_week => ({ day_of_week, opens_at: '18:00', closes_at: '21:00' })),
+    ...overrides
+  });
+
+  describe('setFieldSchedule and getFieldSchedule', () => {
+    it('should default to one-hour slots in UTC with no opening hours', async () => {
+      const schedule = await getFieldSchedule(fieldId);
+
+      expect(schedule).toEqual({ field_id: fieldId, slot_length_minutes: 60, timezone: 'UTC', opening_hours: [], uses_venue_hours: false });
+    });
+
+    it('should replace the weekly schedule', async () => {
+      await setFieldSchedule(weekdayEvenings(), owner.id);
+
+      const schedule = await setFieldSchedule({
+        field_id: fieldId,
+        slot_length_minutes: 90,
+        timezone: 'Europe/London',
+        opening_hours: [
+          { day_of_week: 6, opens_at: '14:00', closes_at: '20:00' },
+          { day_of_week: 6, opens_at: '09:00', closes_at: '12:00' },
+          { day_of_week: 0, opens_at: '10:00', closes_at: '16:00' }
+        ]
+      }, owner.id);
+
+      expect(schedule.slot_length_minutes).toEqual(90);
+      expect(schedule.timezone).toEqual('Europe/London');
+      expect(schedule.opening_hours).toEqual([
+        { day_of_week: 0, opens_at: '10:00', closes_at: '16:00' },
+        { day_of_week: 6, opens_at: '09:00', closes_at: '12:00' },
+        { day_of_week: 6, opens_at: '14:00', closes_at: '20:00' }
+      ]);
+      expect(await getFieldSchedule(fieldId)).toEqual(schedule);
+    });
+
+    it('should reject ranges that close before they open or overlap', async () => {
+      await expect(setFieldSchedule(weekdayEvenings({
+        opening_hours: [{ day_of_week: 1, opens_at: '20:00', closes_at: '18:00' }]
+      }), owner.id)).rejects.toThrow(/close after they open/i);
+
+      await expect(setFieldSchedule(weekdayEvenings({
+        opening_hours: [
+          { day_of_week: 1, opens_at: '09:00', closes_at: '13:00' },
+          { day_of_week: 1, opens_at: '12:00', closes_at: '18:00' }
+        ]
+      }), owner.id)).rejects.toThrow(/must not overlap/i);
+    });
+
+    it('should only let the owner change the schedule', async () => {
+      await expect(setFieldSchedule(weekdayEvenings(), otherOwner.id)).rejects.toThrow(/do not have permission/i);
+    });
+  });
+
+  describe('previewFieldSlots', () => {
+    it('should plan slots inside the opening hours without creating them', async () => {
+      await setFieldSchedule(weekdayEvenings(), owner.id);
+
+      // Monday to Sunday: five weekdays with three evening slots each
+      const preview = await previewFieldSlots({ field_id: fieldId, from: MONDAY, to: addDays(MONDAY, 6) }, owner.id);
+
+      expect(preview.slots).toHaveLength(15);
+      expect(preview.slots[0].start_time).toEqual(new Date('2030-01-07T18:00:00Z'));
+      expect(preview.slots[0].end_time).toEqual(new Date('2030-01-07T19:00:00Z'));
+      expect(preview.slots[2].end_time).toEqual(new Date('2030-01-07T21:00:00Z'));
+      expect(preview.slots[0].price).toEqual(60);
+      expect(await db.select().from(fieldSlotsTable).execute()).toHaveLength(0);
+    });
+
+    it('should drop a trailing partial slot and price it pro rata', async () => {
+      await setFieldSchedule(weekdayEvenings({ slot_length_minutes: 90 }), owner.id);
+
+      const preview = await previewFieldSlots({ field_id: fieldId, from: MONDAY, to: MONDAY }, owner.id);
+
+      expect(preview.slots.map(slot => slot.start_time.toISOString())).toEqual([
+        '2030-01-07T18:00:00.000Z',
+        '2030-01-07T19:30:00.000Z'
+      ]);
+      expect(preview.slots[0].price).toEqual(90);
+    });
+
+    it('should use an explicit price', async () => {
+      await setFieldSchedule(weekdayEvenings(), owner.id);
+
+      const preview = await previewFieldSlots({ field_id: fieldId, from: MONDAY, to: MONDAY, price: 45.5 }, owner.id);
+
+      expect(preview.slots.every(slot => slot.price === 45.5)).toBe(true);
+    });
+
+    it('should read opening hours in the field\'s time zone across a DST change', async () => {
+      await setFieldSchedule({
+        field_id: fieldId,
+        slot_length_minutes: 60,
+        timezone: 'Europe/London',
+        opening_hours: [
+          { day_of_week: 6, opens_at: '10:00', closes_at: '11:00' },
+          { day_of_week: 0, opens_at: '10:00', closes_at: '11:00' }
+        ]
+      }, owner.id);
+
+      // Clocks go forward on Sunday 2030-03-31
+      const preview = await previewFieldSlots({ field_id: fieldId, from: '2030-03-30', to: '2030-03-31' }, owner.id);
+
+      expect(preview.slots.map(slot => slot.start_time.toISOString())).toEqual([
+        '2030-03-30T10:00:00.000Z',
+        '2030-03-31T09:00:00.000Z'
+      ]);
+    });
+
+    it('should skip slots that overlap existing ones or closures', async () => {
+      await setFieldSchedule(weekdayEvenings(), owner.id);
+      await db.insert(fieldSlotsTable)
+        .values({ field_id: fieldId, start_time: new Date('2030-01-07T18:30:00Z'), end_time: new Date('2030-01-07T19:30:00Z'), price: '60.00' })
+        .execute();
+      await createFieldClosure({
+        field_id: fieldId,
+        starts_at: new Date('2030-01-08T00:00:00Z'),
+        ends_at: new Date('2030-01-09T00:00:00Z'),
+        reason: 'Pitch maintenance'
+      }, owner.id);
+
+      const preview = await previewFieldSlots({ field_id: fieldId, from: MONDAY, to: addDays(MONDAY, 1) }, owner.id);
+
+      expect(preview.slots.map(slot => slot.start_time.toISOString())).toEqual(['2030-01-07T20:00:00.000Z']);
+      expect(preview.skipped_existing).toEqual(2);
+      expect(preview.skipped_closed).toEqual(3);
+    });
+
+    it('should skip slots in the past', async () => {
+      await setFieldSchedule(weekdayEvenings({
+        opening_hours: [0, 1, 2, 3, 4, 5, 6].map(day_of_week => ({ day_of_week, opens_at: '00:00', closes_at: '24:00' }))
+      }), owner.id);
+      const today = new Date().toISOString().slice(0, 10);
+
+      const preview = await previewFieldSlots({ field_id: fieldId, from: addDays(today, -1), to: today }, owner.id);
+
+      expect(preview.slots.length).toBeLessThanOrEqual(24);
+      expect(preview.slots.every(slot => slot.start_time > new Date())).toBe(true);
+    });
+
+    it('should validate the date range and require opening hours', async () => {
+      await expect(previewFieldSlots({ field_id: fieldId, from: MONDAY, to: MONDAY }, owner.id)).rejects.toThrow(/opening hours/i);
+
+      await setFieldSchedule(weekdayEvenings(), owner.id);
+      await expect(previewFieldSlots({ field_id: fieldId, from: MONDAY, to: addDays(MONDAY, -1) }, owner.id)).rejects.toThrow(/must not be before/i);
+      await expect(previewFieldSlots({ field_id: fieldId, from: MONDAY, to: addDays(MONDAY, MAX_GENERATION_DAYS) }, owner.id)).rejects.toThrow(/at most/i);
+      await expect(previewFieldSlots({ field_id: fieldId, from: MONDAY, to: MONDAY }, otherOwner.id)).rejects.toThrow(/do not have permission/i);
+    });
+  });
+
+  describe('generateFieldSlots', () => {
+    it('should create the previewed slots', async () => {
+      await setFieldSchedule(weekdayEvenings(), owner.id);
+      const input = { field_id: fieldId, from: MONDAY, to: addDays(MONDAY, 6) };
+      const preview = await previewFieldSlots(input, owner.id);
+
+      const result = await generateFieldSlots(input, owner.id);
+
+      expect(result.created).toHaveLength(preview.slots.length);
+      expect(result.created[0].field_id).toEqual(fieldId);
+      expect(result.created[0].price).toEqual(60);
+      expect(result.created[0].is_available).toBe(true);
+      const stored = await db.select().from(fieldSlotsTable).where(eq(fieldSlotsTable.field_id, fieldId)).execute();
+      expect(stored).toHaveLength(15);
+    });
+
+    it('should not duplicate slots when run twice', async () => {
+      await setFieldSchedule(weekdayEvenings(), owner.id);
+      const input = { field_id: fieldId, from: MONDAY, to: addDays(MONDAY, 6) };
+      await generateFieldSlots(input, owner.id);
+
+      const again = await generateFieldSlots(input, owner.id);
+
+      expect(again.created).toHaveLength(0);
+      expect(again.skipped_existing).toEqual(15);
+      expect(await db.select().from(fieldSlotsTable).execute()).toHaveLength(15);
+    });
+  });
+
+  describe('field closures', () => {
+    it('should list, validate and delete closures', async () => {
+      const closure = await createFieldClosure({
+        field_id: fieldId,
+        starts_at: new Date('2030-01-08T00:00:00Z'),
+        ends_at: new Date('2030-01-09T00:00:00Z')
+      }, owner.id);
+
+      expect(closure.reason).toBeNull();
+      expect((await getFieldClosures(fieldId)).map(c => c.id)).toEqual([closure.id]);
+
+      await expect(createFieldClosure({
+        field_id: fieldId,
+        starts_at: new Date('2030-01-09T00:00:00Z'),
+        ends_at: new Date('2030-01-08T00:00:00Z')
+      }, owner.id)).rejects.toThrow(/end after it starts/i);
+      await expect(deleteFieldClosure(closure.id, otherOwner.id)).rejects.toThrow(/not found/i);
+
+      expect(await deleteFieldClosure(closure.id, owner.id)).toBe(true);
+      expect(await db.select().from(fieldClosuresTable).execute()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, fieldSlotsTable, matchRequestsTable } from '../db/schema';
+import { type User } from '../schema';
+import { createField } from '../handlers/create_field';
+import { updateField } from '../handlers/update_field';
+import { searchFields } from '../handlers/get_fields';
+import { getAvailableFieldSlots } from '../handlers/get_field_slots';
+import { createMatchRequest } from '../handlers/create_match_request';
+import { getMatchRequests } from '../handlers/get_match_requests';
+import { offlineGeocoder, setGeocoder, resolveLocation } from '../geocoder';
+import { distanceKm } from '../utils/geo';
+
+// Central London and two points roughly 4 km and 59 km away
+const LONDON = { latitude: 51.5072, longitude: -0.1276 };
+const CAMDEN = { latitude: 51.539, longitude: -0.1426 };
+const READING = { latitude: 51.4543, longitude: -0.9781 };
+
+describe('geo search', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    setGeocoder(offlineGeocoder);
+    await resetDB();
+  });
+
+  let owner: User;
+  let player: User;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', first_name: 'Olive', last_name: 'Owner', role: 'field_owner' },
+        { email: 'player@example.com', password_hash: 'hash', first_name: 'Pat', last_name: 'Player', role: 'player' }
+      ])
+      .returning()
+      .execute();
+
+    [owner, player] = users;
+  });
+
+  describe('distanceKm', () => {
+    it('should compute great-circle distances', () => {
+      expect(distanceKm(LONDON, LONDON)).toEqual(0);
+      expect(distanceKm(LONDON, CAMDEN)).toBeCloseTo(3.8, 0);
+      expect(distanceKm(LONDON, READING)).toBeCloseTo(59.2, 0);
+    });
+  });
+
+  describe('resolveLocation', () => {
+    it('should prefer explicit coordinates over the address', async () => {
+      expect(await resolveLocation(1, 2, 'Somewhere (10, 20)')).toEqual({ latitude: 1, longitude: 2 });
+    });
+
+    it('should read coordinates written into the address with the offline geocoder', async () => {
+      expect(await resolveLocation(null, null, 'Riverside Park (51.5072, -0.1276)')).toEqual(LONDON);
+      expect(await resolveLocation(null, null, '1 Main St')).toBeNull();
+    });
+
+    it('should not read coordinates from plain street addresses', async () => {
+      expect(await resolveLocation(null, null, 'Unit 12, 45 Main Street')).toBeNull();
+      expect(await resolveLocation(null, null, 'Flat 3, 22 Baker Street, London')).toBeNull();
+      expect(await resolveLocation(null, null, 'Riverside Park (51, 0)')).toBeNull();
+    });
+
+    it('should require latitude and longitude together', async () => {
+      await expect(resolveLocation(51.5, null, null)).rejects.toThrow(/provided together/i);
+    });
+
+    it('should resolve to null when the geocoder fails', async () => {
+      setGeocoder({ geocode: async () => { throw new Error('Provider down'); } });
+
+      expect(await resolveLocation(null, null, '1 Main St')).toBeNull();
+    });
+  });
+
+  describe('createField and updateField', () => {
+    it('should store explicit coordinates', async () => {
+      const field = await createField({ name: 'Central', address: '1 Main St', hourly_rate: 50, ...LONDON }, owner.id);
+
+      expect(field.id).toBeGreaterThan(0);
+      expect(field.hourly_rate).toEqual(50);
+      expect(field.latitude).toEqual(LONDON.latitude);
+      expect(field.longitude).toEqual(LONDON.longitude);
+    });
+
+    it('should geocode the address when no coordinates are given', async () => {
+      setGeocoder({ geocode: async (address) => address.includes('Camden') ? CAMDEN : null });
+
+      const field = await createField({ name: 'North', address: 'Camden Town', hourly_rate: 40 }, owner.id);
+      expect(field.latitude).toEqual(CAMDEN.latitude);
+
+      const unknown = await createField({ name: 'Nowhere', address: 'Unknown Rd', hourly_rate: 40 }, owner.id);
+      expect(unknown.latitude).toBeNull();
+      expect(unknown.longitude).toBeNull();
+    });
+
+    it('should re-geocode when the address changes and keep explicit coordinates otherwise', async () => {
+      setGeocoder({ geocode: async (address) => address.includes('Reading') ? READING : null });
+      const field = await createField({ name: 'Central', address: '1 Main St', hourly_rate: 50, ...LONDON }, owner.id);
+
+      const renamed = await updateField({ id: field.id, name: 'Central Pitch' }, owner.id);
+      expect(renamed.latitude).toEqual(LONDON.latitude);
+
+      const moved = await updateField({ id: field.id, address: 'Reading Town Centre' }, owner.id);
+      expect(moved.latitude).toEqual(READING.latitude);
+
+      const pinned = await updateField({ id: field.id, ...CAMDEN }, owner.id);
+      expect(pinned.latitude).toEqual(CAMDEN.latitude);
+
+      const cleared = await updateField({ id: field.id, latitude: null, longitude: null }, owner.id);
+      expect(cleared.latitude).toBeNull();
+    });
+  });
+
+  describe('searchFields', () => {
+    it('should return fields within the radius, nearest first', async () => {
+      await createField({ name: 'Reading', address: 'Reading', hourly_rate: 30, ...READING }, owner.id);
+      await createField({ name: 'Camden', address: 'Camden', hourly_rate: 40, ...CAMDEN }, owner.id);
+      await createField({ name: 'Central', address: 'Central', hourly_rate: 50, ...LONDON }, owner.id);
+      await createField({ name: 'Unplaced', address: 'Unknown', hourly_rate: 50 }, owner.id);
+
+      const nearby = await searchFields({ near: { ...LONDON, radius_km: 10 } });
+      expect(nearby.map(f => f.name)).toEqual(['Central', 'Camden']);
+      expect(nearby[0].distance_km).toBeCloseTo(0, 5);
+      expect(nearby[1].distance_km).toBeCloseTo(distanceKm(LONDON, CAMDEN), 3);
+      expect(typeof nearby[1].hourly_rate).toEqual('number');
+
+      const wide = await searchFields({ near: { ...LONDON, radius_km: 100 } });
+      expect(wide.map(f => f.name)).toEqual(['Central', 'Camden', 'Reading']);
+    });
+  });
+
+  describe('nearby filters', () => {
+    it('should filter available slots by their field\'s location', async () => {
+      const central = await createField({ name: 'Central', address: 'Central', hourly_rate: 50, ...LONDON }, owner.id);
+      const reading = await createField({ name: 'Reading', address: 'Reading', hourly_rate: 30, ...READING }, owner.id);
+      const start = new Date('2030-01-01T10:00:00Z');
+      const end = new Date('2030-01-01T11:00:00Z');
+      await db.insert(fieldSlotsTable)
+        .values([
+          { field_id: central.id, start_time: start, end_time: end, price: '50.00' },
+          { field_id: reading.id, start_time: start, end_time: end, price: '30.00' }
+        ])
+        .execute();
+
+      expect(await getAvailableFieldSlots()).toHaveLength(2);
+
+      const nearby = await getAvailableFieldSlots({ near: { ...LONDON, radius_km: 10 } });
+      expect(nearby.map(slot => slot.field_id)).toEqual([central.id]);
+      expect(nearby[0].price).toEqual(50);
+    });
+
+    it('should filter match requests by their preferred location', async () => {
+      await createMatchRequest({ type: 'find_opponent', title: 'Near', skill_level: 5, preferred_location: 'Camden', preferred_latitude: CAMDEN.latitude, preferred_longitude: CAMDEN.longitude }, player.id);
+      await createMatchRequest({ type: 'find_opponent', title: 'Geocoded', skill_level: 5, preferred_location: 'Pitch (51.5072, -0.1276)' }, player.id);
+      await createMatchRequest({ type: 'find_opponent', title: 'Far', skill_level: 5, preferred_location: 'Reading (51.4543, -0.9781)' }, player.id);
+      await createMatchRequest({ type: 'find_opponent', title: 'Anywhere', skill_level: 5 }, player.id);
+
+      expect(await getMatchRequests()).toHaveLength(4);
+
+      const nearby = await getMatchRequests({ ...LONDON, radius_km: 10 });
+      expect(nearby.map(r => r.title).sort()).toEqual(['Geocoded', 'Near']);
+
+      const stored = await db.select().from(matchRequestsTable).execute();
+      expect(stored.find(r => r.title === 'Geocoded')?.preferred_latitude).toEqual(LONDON.latitude);
+    });
+  });
+});
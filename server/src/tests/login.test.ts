@@ -1,15 +1,16 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, loginAttemptsTable } from '../db/schema';
 import { type LoginInput } from '../schema';
-import { login } from '../handlers/login';
+import { login, MAX_FAILED_LOGINS_PER_ACCOUNT, MAX_FAILED_LOGINS_PER_IP, LOGIN_LOCKOUT_WINDOW_MS } from '../handlers/login';
 import { eq } from 'drizzle-orm';
 
+const testPassword = 'validpassword123';
+
 // Test user data
 const testUser = {
   email: 'test@example.com',
-  password_hash: 'hashed_password_123',
   first_name: 'John',
   last_name: 'Doe',
   role: 'player' as const,
@@ -19,7 +20,31 @@ const testUser = {
 // Valid login input
 const validLoginInput: LoginInput = {
   email: 'test@example.com',
-  password: 'validpassword123'
+  password: testPassword
+};
+
+const wrongPasswordInput: LoginInput = {
+  email: 'test@example.com',
+  password: 'wrongpassword'
+};
+
+const createUser = async (overrides: Partial<typeof usersTable.$inferInsert> = {}) => {
+  const result = await db.insert(usersTable)
+    .values({
+      ...testUser,
+      ...overrides,
+      password_hash: await Bun.password.hash(testPassword)
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const failLogins = async (times: number, input: LoginInput = wrongPasswordInput, ip: string | null = null) => {
+  for (let i = 0; i < times; i++) {
+    await expect(login(input, ip)).rejects.toThrow();
+  }
 };
 
 describe('login', () => {
@@ -27,10 +52,7 @@ describe('login', () => {
   afterEach(resetDB);
 
   it('should authenticate user with valid credentials', async () => {
-    // Create test user first
-    await db.insert(usersTable)
-      .values(testUser)
-      .execute();
+    await createUser();
 
     const result = await login(validLoginInput);
 
@@ -43,101 +65,151 @@ describe('login', () => {
     expect(result.id).toBeDefined();
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
-    
-    // Verify sensitive data is included (password_hash should be in response for auth purposes)
-    expect(result.password_hash).toEqual('hashed_password_123');
+  });
+
+  it('should accept the email regardless of case', async () => {
+    await createUser();
+
+    const result = await login({ ...validLoginInput, email: 'TEST@Example.com' });
+
+    expect(result.email).toEqual('test@example.com');
   });
 
   it('should reject login with non-existent email', async () => {
     const invalidInput: LoginInput = {
       email: 'nonexistent@example.com',
-      password: 'validpassword123'
+      password: testPassword
     };
 
     await expect(login(invalidInput)).rejects.toThrow(/invalid credentials/i);
   });
 
-  it('should reject login with invalid password format', async () => {
-    // Create test user first
-    await db.insert(usersTable)
-      .values(testUser)
-      .execute();
+  it('should reject login with wrong password', async () => {
+    await createUser();
 
-    const invalidInput: LoginInput = {
-      email: 'test@example.com',
-      password: '12345' // Too short
-    };
+    await expect(login(wrongPasswordInput)).rejects.toThrow(/invalid credentials/i);
+  });
 
-    await expect(login(invalidInput)).rejects.toThrow(/invalid credentials/i);
+  it('should reject a password that only differs in case', async () => {
+    await createUser();
+
+    await expect(login({ ...validLoginInput, password: testPassword.toUpperCase() })).rejects.toThrow(/invalid credentials/i);
   });
 
   it('should handle different user roles correctly', async () => {
-    const fieldOwnerUser = {
-      ...testUser,
+    await createUser({
       email: 'owner@example.com',
-      role: 'field_owner' as const,
+      role: 'field_owner',
       first_name: 'Jane',
       last_name: 'Smith'
-    };
-
-    await db.insert(usersTable)
-      .values(fieldOwnerUser)
-      .execute();
-
-    const ownerLoginInput: LoginInput = {
-      email: 'owner@example.com',
-      password: 'validpassword123'
-    };
+    });
 
-    const result = await login(ownerLoginInput);
+    const result = await login({ email: 'owner@example.com', password: testPassword });
 
     expect(result.role).toEqual('field_owner');
     expect(result.first_name).toEqual('Jane');
     expect(result.last_name).toEqual('Smith');
   });
 
-  it('should handle users with optional fields', async () => {
-    const minimalUser = {
-      email: 'minimal@example.com',
-      password_hash: 'hashed_password_123',
-      first_name: 'Min',
-      last_name: 'User',
-      role: 'admin' as const,
-      phone: null as string | null
-    };
+  it('should record successful and failed attempts', async () => {
+    await createUser();
+
+    await login(validLoginInput, '10.0.0.1');
+    await expect(login(wrongPasswordInput, '10.0.0.2')).rejects.toThrow(/invalid credentials/i);
 
-    await db.insert(usersTable)
-      .values(minimalUser)
+    const attempts = await db.select()
+      .from(loginAttemptsTable)
+      .where(eq(loginAttemptsTable.email, 'test@example.com'))
       .execute();
 
-    const minimalLoginInput: LoginInput = {
-      email: 'minimal@example.com',
-      password: 'validpassword123'
-    };
+    expect(attempts).toHaveLength(2);
+    expect(attempts.find(a => a.succeeded)?.ip_address).toEqual('10.0.0.1');
+    expect(attempts.find(a => !a.succeeded)?.ip_address).toEqual('10.0.0.2');
+  });
 
-    const result = await login(minimalLoginInput);
+  it('should lock the account after repeated failures, even with the correct password', async () => {
+    await createUser();
 
-    expect(result.phone).toBeNull();
-    expect(result.avatar_url).toBeNull();
-    expect(result.role).toEqual('admin');
+    await failLogins(MAX_FAILED_LOGINS_PER_ACCOUNT);
+
+    await expect(login(validLoginInput)).rejects.toThrow(/too many failed login attempts/i);
+  });
+
+  it('should lock unknown emails the same way as existing accounts', async () => {
+    const unknownInput: LoginInput = { email: 'ghost@example.com', password: 'whatever' };
+
+    await failLogins(MAX_FAILED_LOGINS_PER_ACCOUNT, unknownInput);
+
+    await expect(login(unknownInput)).rejects.toThrow(/too many failed login attempts/i);
+  });
+
+  it('should not lock the account below the failure threshold', async () => {
+    await createUser();
+
+    await failLogins(MAX_FAILED_LOGINS_PER_ACCOUNT - 1);
+
+    const result = await login(validLoginInput);
+    expect(result.email).toEqual('test@example.com');
+  });
+
+  it('should reset the account failure count after a successful login', async () => {
+    await createUser();
+
+    await failLogins(MAX_FAILED_LOGINS_PER_ACCOUNT - 1);
+    await login(validLoginInput);
+    await failLogins(MAX_FAILED_LOGINS_PER_ACCOUNT - 1);
+
+    const result = await login(validLoginInput);
+    expect(result.email).toEqual('test@example.com');
   });
 
-  it('should verify user exists in database after login', async () => {
-    // Create test user first
-    await db.insert(usersTable)
-      .values(testUser)
+  it('should unlock the account once the lockout window has passed', async () => {
+    await createUser();
+
+    await failLogins(MAX_FAILED_LOGINS_PER_ACCOUNT);
+
+    // Age every recorded attempt past the window
+    await db.update(loginAttemptsTable)
+      .set({ created_at: new Date(Date.now() - LOGIN_LOCKOUT_WINDOW_MS - 1000) })
       .execute();
 
     const result = await login(validLoginInput);
+    expect(result.email).toEqual('test@example.com');
+  });
+
+  it('should lock an IP address after repeated failures across accounts', async () => {
+    await createUser();
+
+    // Spread failures over many emails so no single account reaches its own limit
+    for (let i = 0; i < MAX_FAILED_LOGINS_PER_IP; i++) {
+      await expect(login({ email: `victim${i}@example.com`, password: 'guess' }, '10.0.0.9')).rejects.toThrow(/invalid credentials/i);
+    }
+
+    await expect(login(validLoginInput, '10.0.0.9')).rejects.toThrow(/too many failed login attempts/i);
+
+    // Other addresses are unaffected
+    const result = await login(validLoginInput, '10.0.0.10');
+    expect(result.email).toEqual('test@example.com');
+  });
+
+  it('should refuse a banned account after the password is checked', async () => {
+    await createUser({ suspended_at: new Date(), suspension_reason: 'Spam' });
+
+    await expect(login(wrongPasswordInput)).rejects.toThrow(/invalid credentials/i);
+    await expect(login(validLoginInput)).rejects.toThrow(/has been banned/i);
+  });
+
+  it('should refuse a suspended account until the suspension ends', async () => {
+    const user = await createUser({ suspended_at: new Date(), suspended_until: new Date(Date.now() + 60 * 60 * 1000) });
 
-    // Verify user exists in database
-    const dbUsers = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, result.id))
+    await expect(login(validLoginInput)).rejects.toThrow(/suspended until/i);
+
+    await db.update(usersTable)
+      .set({ suspended_until: new Date(Date.now() - 1000) })
+      .where(eq(usersTable.id, user.id))
       .execute();
 
-    expect(dbUsers).toHaveLength(1);
-    expect(dbUsers[0].email).toEqual('test@example.com');
-    expect(dbUsers[0].first_name).toEqual('John');
+    const result = await login(validLoginInput);
+    expect(result.id).toEqual(user.id);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, apiKeysTable, fieldsTable, fieldSlotsTable, bookingsTable } from '../db/schema';
+import { type User } from '../schema';
+import {
+  createApiKey,
+  getMyApiKeys,
+  revokeApiKey,
+  getApiKeyUser,
+  API_KEY_PREFIX,
+  MAX_ACTIVE_API_KEYS
+} from '../handlers/manage_api_keys';
+import { createSession } from '../handlers/manage_sessions';
+import { hashToken } from '../utils/tokens';
+import { appRouter } from '../index';
+import { createCallerFactory, createContext } from '../trpc';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+
+// Builds a caller the way the HTTP server would, from an Authorization header
+const callerWithToken = async (token: string) =>
+  createCaller(await createContext({ req: { headers: { authorization: `Bearer ${token}` } } } as CreateHTTPContextOptions));
+
+describe('manage API keys', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let owner: User;
+  let otherOwner: User;
+  let player: User;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', first_name: 'Olive', last_name: 'Owner', role: 'field_owner' },
+        { email: 'other@example.com', password_hash: 'hash', first_name: 'Oscar', last_name: 'Owner', role: 'field_owner' },
+        { email: 'player@example.com', password_hash: 'hash', first_name: 'Pat', last_name: 'Player', role: 'player' }
+      ])
+      .returning()
+      .execute();
+
+    [owner, otherOwner, player] = users;
+  });
+
+  describe('createApiKey', () => {
+    it('should return the key once and store only its hash', async () => {
+      const result = await createApiKey({ name: 'Spreadsheet sync', scopes: ['slots:read', 'slots:write'] }, owner.id);
+
+      expect(result.key.startsWith(API_KEY_PREFIX)).toBe(true);
+      expect(result.api_key.name).toEqual('Spreadsheet sync');
+      expect(result.api_key.scopes).toEqual(['slots:read', 'slots:write']);
+      expect(result.api_key.key_prefix).toEqual(result.key.slice(0, API_KEY_PREFIX.length + 8));
+      expect(result.api_key.last_used_at).toBeNull();
+      expect(result.api_key).not.toHaveProperty('key_hash');
+
+      const stored = await db.select().from(apiKeysTable).where(eq(apiKeysTable.id, result.api_key.id)).execute();
+      expect(stored[0].key_hash).toEqual(hashToken(result.key));
+      expect(stored[0].key_hash).not.toContain(result.key);
+    });
+
+    it('should drop duplicate scopes', async () => {
+      const result = await createApiKey({ name: 'Sync', scopes: ['bookings:read', 'bookings:read'] }, owner.id);
+
+      expect(result.api_key.scopes).toEqual(['bookings:read']);
+    });
+
+    it('should cap the number of active keys', async () => {
+      for (let i = 0; i < MAX_ACTIVE_API_KEYS; i++) {
+        await createApiKey({ name: `Key ${i}`, scopes: ['slots:read'] }, owner.id);
+      }
+
+      await expect(createApiKey({ name: 'One more', scopes: ['slots:read'] }, owner.id)).rejects.toThrow(/at most/i);
+
+      // Revoking a key frees a slot
+      const keys = await getMyApiKeys(owner.id);
+      await revokeApiKey(keys[0].id, owner.id);
+      await createApiKey({ name: 'Replacement', scopes: ['slots:read'] }, owner.id);
+    });
+  });
+
+  describe('getMyApiKeys and revokeApiKey', () => {
+    it('should list only the caller\'s keys, newest first', async () => {
+      await createApiKey({ name: 'First', scopes: ['slots:read'] }, owner.id);
+      await createApiKey({ name: 'Second', scopes: ['slots:read'] }, owner.id);
+      await createApiKey({ name: 'Theirs', scopes: ['slots:read'] }, otherOwner.id);
+
+      const keys = await getMyApiKeys(owner.id);
+      expect(keys.map(key => key.name)).toEqual(['Second', 'First']);
+    });
+
+    it('should revoke a key so it no longer authenticates', async () => {
+      const { api_key, key } = await createApiKey({ name: 'Sync', scopes: ['slots:read'] }, owner.id);
+
+      const revoked = await revokeApiKey(api_key.id, owner.id);
+
+      expect(revoked.revoked_at).toBeInstanceOf(Date);
+      expect(await getApiKeyUser(key)).toBeNull();
+      expect((await getMyApiKeys(owner.id))[0].revoked_at).toBeInstanceOf(Date);
+    });
+
+    it('should not revoke another owner\'s key or a key twice', async () => {
+      const { api_key } = await createApiKey({ name: 'Sync', scopes: ['slots:read'] }, owner.id);
+
+      await expect(revokeApiKey(api_key.id, otherOwner.id)).rejects.toThrow(/not found/i);
+
+      await revokeApiKey(api_key.id, owner.id);
+      await expect(revokeApiKey(api_key.id, owner.id)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('getApiKeyUser', () => {
+    it('should resolve the owner and scopes and record when the key was used', async () => {
+      const { api_key, key } = await createApiKey({ name: 'Sync', scopes: ['bookings:read'] }, owner.id);
+
+      const resolved = await getApiKeyUser(key);
+
+      expect(resolved?.user.id).toEqual(owner.id);
+      expect(resolved?.apiKeyId).toEqual(api_key.id);
+      expect(resolved?.scopes).toEqual(['bookings:read']);
+      expect((await getMyApiKeys(owner.id))[0].last_used_at).toBeInstanceOf(Date);
+    });
+
+    it('should return null for unknown keys', async () => {
+      expect(await getApiKeyUser(`${API_KEY_PREFIX}unknown`)).toBeNull();
+    });
+  });
+
+  describe('authenticating procedures', () => {
+    let fieldId: number;
+
+    beforeEach(async () => {
+      const fields = await db.insert(fieldsTable)
+        .values({ owner_id: owner.id, name: 'Central Pitch', address: '1 Main St', hourly_rate: '50.00' })
+        .returning()
+        .execute();
+
+      fieldId = fields[0].id;
+    });
+
+    const slotInput = () => ({
+      field_id: fieldId,
+      start_time: new Date('2030-01-01T10:00:00Z'),
+      end_time: new Date('2030-01-01T11:00:00Z'),
+      price: 50
+    });
+
+    it('should let a scoped key create and list slots', async () => {
+      const { key } = await createApiKey({ name: 'Sync', scopes: ['slots:read', 'slots:write'] }, owner.id);
+      const caller = await callerWithToken(key);
+
+      const slot = await caller.createFieldSlot(slotInput());
+      const slots = await caller.getFieldSlotsByField({ fieldId });
+
+      expect(slot.field_id).toEqual(fieldId);
+      expect(slots.map(s => s.id)).toEqual([slot.id]);
+    });
+
+    it('should let a scoped key read and update bookings on the owner\'s fields', async () => {
+      const slots = await db.insert(fieldSlotsTable)
+        .values({ ...slotInput(), price: '50.00' })
+        .returning()
+        .execute();
+      const bookings = await db.insert(bookingsTable)
+        .values({ slot_id: slots[0].id, user_id: player.id, total_price: '50.00' })
+        .returning()
+        .execute();
+      const { key } = await createApiKey({ name: 'Sync', scopes: ['bookings:read', 'bookings:write'] }, owner.id);
+      const caller = await callerWithToken(key);
+
+      expect((await caller.getMyFieldBookings()).map(booking => booking.id)).toEqual([bookings[0].id]);
+
+      const updated = await caller.updateBookingStatus({ bookingId: bookings[0].id, status: 'confirmed' });
+      expect(updated.status).toEqual('confirmed');
+    });
+
+    it('should reject procedures outside the key\'s scopes', async () => {
+      const { key } = await createApiKey({ name: 'Read only', scopes: ['slots:read'] }, owner.id);
+      const caller = await callerWithToken(key);
+
+      await expect(caller.createFieldSlot(slotInput())).rejects.toThrow(/not allowed/i);
+      await expect(caller.getMyFieldBookings()).rejects.toThrow(/not allowed/i);
+    });
+
+    it('should reject procedures that are not open to API keys at all', async () => {
+      const { key } = await createApiKey({ name: 'Everything', scopes: ['slots:read', 'slots:write', 'bookings:read', 'bookings:write'] }, owner.id);
+      const caller = await callerWithToken(key);
+
+      await expect(caller.me()).rejects.toThrow(/not allowed/i);
+      await expect(caller.getFields()).rejects.toThrow(/not allowed/i);
+      await expect(caller.createApiKey({ name: 'Escalation', scopes: ['slots:write'] })).rejects.toThrow(/not allowed/i);
+      await expect(caller.revokeAllOtherSessions()).rejects.toThrow(/not allowed/i);
+    });
+
+    it('should treat revoked keys as anonymous', async () => {
+      const { api_key, key } = await createApiKey({ name: 'Sync', scopes: ['slots:write'] }, owner.id);
+      await revokeApiKey(api_key.id, owner.id);
+      const caller = await callerWithToken(key);
+
+      await expect(caller.createFieldSlot(slotInput())).rejects.toThrow(/authentication required/i);
+    });
+
+    it('should still apply ownership checks to key calls', async () => {
+      const { key } = await createApiKey({ name: 'Sync', scopes: ['slots:write'] }, otherOwner.id);
+      const caller = await callerWithToken(key);
+
+      await expect(caller.createFieldSlot(slotInput())).rejects.toThrow(/do not have permission/i);
+    });
+
+    it('should leave session logins unaffected', async () => {
+      const { token } = await createSession(owner);
+      const caller = await callerWithToken(token);
+
+      expect((await caller.me()).id).toEqual(owner.id);
+      expect(await caller.getFields()).toHaveLength(1);
+    });
+  });
+});
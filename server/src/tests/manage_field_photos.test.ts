@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { fieldPhotosTable, fieldsTable, usersTable } from '../db/schema';
+import { addFieldPhoto, removeFieldPhoto, getFieldPhotos, MAX_PHOTOS_PER_FIELD } from '../handlers/manage_field_photos';
+import { createLocalDiskStorage, getStorage, keyFromUrl, setStorage, type StorageDriver } from '../storage';
+import { eq } from 'drizzle-orm';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+
+const createImage = async (width: number, height: number): Promise<string> => {
+  const buffer = await sharp({ create: { width, height, channels: 3, background: { r: 40, g: 160, b: 60 } } })
+    .jpeg()
+    .toBuffer();
+  return buffer.toString('base64');
+};
+
+describe('field photos', () => {
+  let uploadDir: string;
+  let originalStorage: StorageDriver;
+  let ownerId: number;
+  let otherOwnerId: number;
+  let fieldId: number;
+  let image: string;
+
+  beforeEach(async () => {
+    await createDB();
+
+    originalStorage = getStorage();
+    uploadDir = await mkdtemp(join(tmpdir(), 'uploads-'));
+    setStorage(createLocalDiskStorage(uploadDir));
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password_hash: 'hash', first_name: 'Field', last_name: 'Owner', role: 'field_owner' },
+        { email: 'other@test.com', password_hash: 'hash', first_name: 'Other', last_name: 'Owner', role: 'field_owner' }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    otherOwnerId = users[1].id;
+
+    const fields = await db.insert(fieldsTable)
+      .values({ owner_id: ownerId, name: 'Photo Field', address: '1 Pitch Road', hourly_rate: '50.00' })
+      .returning()
+      .execute();
+    fieldId = fields[0].id;
+
+    image = await createImage(800, 600);
+  });
+
+  afterEach(async () => {
+    setStorage(originalStorage);
+    await rm(uploadDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  describe('addFieldPhoto', () => {
+    it('should store the photo and record its dimensions', async () => {
+      const result = await addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, ownerId);
+
+      expect(result.field_id).toEqual(fieldId);
+      expect(result.url).toMatch(/^\/api\/uploads\/fields\/\d+\/.+\.jpg$/);
+      expect(result.thumbnail_url).toMatch(/_thumb\.webp$/);
+      expect(result.width).toEqual(800);
+      expect(result.height).toEqual(600);
+      expect(result.position).toEqual(0);
+      expect(result.created_at).toBeInstanceOf(Date);
+    });
+
+    it('should append photos to the end of the gallery', async () => {
+      await addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, ownerId);
+      const second = await addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, ownerId);
+
+      expect(second.position).toEqual(1);
+    });
+
+    it('should place new photos after the last one when earlier photos were removed', async () => {
+      const first = await addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, ownerId);
+      const second = await addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, ownerId);
+      await removeFieldPhoto(first.id, ownerId);
+
+      const third = await addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, ownerId);
+
+      expect(third.position).toEqual(second.position + 1);
+    });
+
+    it('should reject uploads for fields owned by someone else', async () => {
+      await expect(addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, otherOwnerId))
+        .rejects.toThrow(/do not have permission/i);
+    });
+
+    it('should limit the number of photos per field', async () => {
+      await db.insert(fieldPhotosTable)
+        .values(Array.from({ length: MAX_PHOTOS_PER_FIELD }, (_, position) => ({
+          field_id: fieldId,
+          url: `/api/uploads/fields/${fieldId}/${position}.jpg`,
+          thumbnail_url: `/api/uploads/fields/${fieldId}/${position}_thumb.webp`,
+          width: 800,
+          height: 600,
+          position
+        })))
+        .execute();
+
+      await expect(addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, ownerId))
+        .rejects.toThrow(/at most/i);
+    });
+  });
+
+  describe('removeFieldPhoto', () => {
+    it('should delete the photo and its files', async () => {
+      const photo = await addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, ownerId);
+
+      const result = await removeFieldPhoto(photo.id, ownerId);
+
+      expect(result).toBe(true);
+      const photos = await db.select().from(fieldPhotosTable).where(eq(fieldPhotosTable.id, photo.id)).execute();
+      expect(photos).toHaveLength(0);
+      expect(await getStorage().get(keyFromUrl(photo.url)!)).toBeNull();
+      expect(await getStorage().get(keyFromUrl(photo.thumbnail_url)!)).toBeNull();
+    });
+
+    it('should not let another owner remove the photo', async () => {
+      const photo = await addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, ownerId);
+
+      await expect(removeFieldPhoto(photo.id, otherOwnerId)).rejects.toThrow(/do not have permission/i);
+      expect(await getStorage().get(keyFromUrl(photo.url)!)).not.toBeNull();
+    });
+
+    it('should throw for a non-existent photo', async () => {
+      await expect(removeFieldPhoto(99999, ownerId)).rejects.toThrow(/photo not found/i);
+    });
+  });
+
+  describe('getFieldPhotos', () => {
+    it('should return photos in gallery order', async () => {
+      const first = await addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, ownerId);
+      const second = await addFieldPhoto({ field_id: fieldId, content_type: 'image/jpeg', data: image }, ownerId);
+
+      const result = await getFieldPhotos(fieldId);
+
+      expect(result.map(photo => photo.id)).toEqual([first.id, second.id]);
+    });
+
+    it('should return an empty list for a field without photos', async () => {
+      expect(await getFieldPhotos(fieldId)).toEqual([]);
+    });
+  });
+});
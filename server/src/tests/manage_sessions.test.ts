@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type User } from '../schema';
+import { createSession, getSessionUser, endSession, getMySessions, revokeSession, revokeAllOtherSessions } from '../handlers/manage_sessions';
+import { hashToken } from '../utils/tokens';
+import { router, protectedProcedure, createCallerFactory, createContext } from '../trpc';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  email: 'player@example.com',
+  password_hash: 'hashed_password',
+  first_name: 'Test',
+  last_name: 'Player',
+  role: 'player' as const
+};
+
+const contextFor = (authorization?: string, userAgent?: string) =>
+  createContext({ req: { headers: { authorization, 'user-agent': userAgent } } } as CreateHTTPContextOptions);
+
+const IPHONE_AGENT = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148 Safari/604.1';
+const LAPTOP_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 Version/17.0 Safari/605.1.15';
+
+describe('manage sessions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let user: User;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    user = users[0];
+  });
+
+  it('should create a session and return a token', async () => {
+    const result = await createSession(user);
+
+    expect(result.user.id).toEqual(user.id);
+    expect(result.token.length).toBeGreaterThan(20);
+    expect(result.expires_at).toBeInstanceOf(Date);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should not return the password hash', async () => {
+    const result = await createSession(user);
+
+    expect(result.user).not.toHaveProperty('password_hash');
+  });
+
+  it('should store only the token hash', async () => {
+    const result = await createSession(user);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, user.id))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).not.toEqual(result.token);
+    expect(sessions[0].token_hash).toEqual(hashToken(result.token));
+  });
+
+  it('should issue a distinct token for every session', async () => {
+    const first = await createSession(user);
+    const second = await createSession(user);
+
+    expect(first.token).not.toEqual(second.token);
+  });
+
+  it('should resolve a valid token to its user', async () => {
+    const { token } = await createSession(user);
+
+    const result = await getSessionUser(token);
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(user.id);
+    expect(result!.email).toEqual('player@example.com');
+  });
+
+  it('should return null for an unknown token', async () => {
+    const result = await getSessionUser('not-a-real-token');
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null for an expired session', async () => {
+    const { token } = await createSession(user);
+
+    await db.update(sessionsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .execute();
+
+    const result = await getSessionUser(token);
+
+    expect(result).toBeNull();
+  });
+
+  it('should end a session so its token no longer resolves', async () => {
+    const { token } = await createSession(user);
+
+    const ended = await endSession(token);
+
+    expect(ended).toBe(true);
+    expect(await getSessionUser(token)).toBeNull();
+  });
+
+  it('should report false when ending an unknown session', async () => {
+    const ended = await endSession('not-a-real-token');
+
+    expect(ended).toBe(false);
+  });
+
+  it('should record the device and IP address of the login', async () => {
+    const { token } = await createSession(user, '203.0.113.7', IPHONE_AGENT);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .execute();
+
+    expect(sessions[0].ip_address).toEqual('203.0.113.7');
+    expect(sessions[0].user_agent).toEqual(IPHONE_AGENT);
+    expect(sessions[0].last_seen_at).toBeInstanceOf(Date);
+  });
+
+  it('should refresh a stale last-seen time when the session is used', async () => {
+    const { token } = await createSession(user);
+    const stale = new Date(Date.now() - 60 * 60 * 1000);
+
+    await db.update(sessionsTable)
+      .set({ last_seen_at: stale })
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .execute();
+
+    await getSessionUser(token);
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions[0].last_seen_at.getTime()).toBeGreaterThan(stale.getTime());
+  });
+
+  describe('getMySessions', () => {
+    it('should list the active sessions and flag the current one', async () => {
+      const phone = await createSession(user, '203.0.113.7', IPHONE_AGENT);
+      await createSession(user, '198.51.100.2', LAPTOP_AGENT);
+
+      const result = await getMySessions(user.id, phone.token);
+
+      expect(result).toHaveLength(2);
+      const current = result.find(session => session.is_current);
+      expect(current?.user_agent).toEqual(IPHONE_AGENT);
+      expect(current?.ip_address).toEqual('203.0.113.7');
+      expect(result.filter(session => session.is_current)).toHaveLength(1);
+      expect(result[0]).not.toHaveProperty('token_hash');
+    });
+
+    it('should leave out expired sessions and other users\' sessions', async () => {
+      const { token } = await createSession(user);
+      const expired = await createSession(user);
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(sessionsTable.token_hash, hashToken(expired.token)))
+        .execute();
+
+      const others = await db.insert(usersTable)
+        .values({ ...testUser, email: 'other@example.com' })
+        .returning()
+        .execute();
+      await createSession(others[0]);
+
+      const result = await getMySessions(user.id, token);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].is_current).toBe(true);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should end the given session', async () => {
+      const { token } = await createSession(user);
+      const [session] = await getMySessions(user.id, null);
+
+      const result = await revokeSession(session.id, user.id);
+
+      expect(result).toBe(true);
+      expect(await getSessionUser(token)).toBeNull();
+    });
+
+    it('should not end another user\'s session', async () => {
+      const others = await db.insert(usersTable)
+        .values({ ...testUser, email: 'other@example.com' })
+        .returning()
+        .execute();
+      const { token } = await createSession(others[0]);
+      const [session] = await getMySessions(others[0].id, null);
+
+      await expect(revokeSession(session.id, user.id)).rejects.toThrow(/session not found/i);
+      expect(await getSessionUser(token)).not.toBeNull();
+    });
+  });
+
+  describe('revokeAllOtherSessions', () => {
+    it('should end every session except the current one', async () => {
+      const current = await createSession(user);
+      const phone = await createSession(user);
+      const laptop = await createSession(user);
+
+      const result = await revokeAllOtherSessions(user.id, current.token);
+
+      expect(result).toEqual(2);
+      expect(await getSessionUser(current.token)).not.toBeNull();
+      expect(await getSessionUser(phone.token)).toBeNull();
+      expect(await getSessionUser(laptop.token)).toBeNull();
+    });
+  });
+
+  describe('context and protectedProcedure', () => {
+    const testRouter = router({
+      whoami: protectedProcedure.query(({ ctx }) => ctx.user.id)
+    });
+    const createCaller = createCallerFactory(testRouter);
+
+    it('should resolve the bearer token into the context user', async () => {
+      const { token } = await createSession(user);
+
+      const ctx = await contextFor(`Bearer ${token}`);
+
+      expect(ctx.user?.id).toEqual(user.id);
+      expect(ctx.token).toEqual(token);
+    });
+
+    it('should expose the user agent of the request', async () => {
+      const ctx = await contextFor(undefined, LAPTOP_AGENT);
+
+      expect(ctx.userAgent).toEqual(LAPTOP_AGENT);
+    });
+
+    it('should leave the context anonymous without a valid header', async () => {
+      expect((await contextFor()).user).toBeNull();
+      expect((await contextFor('Bearer bogus')).user).toBeNull();
+      expect((await contextFor('Basic abc')).user).toBeNull();
+    });
+
+    it('should pass the caller id to protected procedures', async () => {
+      const { token } = await createSession(user);
+      const caller = createCaller(await contextFor(`Bearer ${token}`));
+
+      expect(await caller.whoami()).toEqual(user.id);
+    });
+
+    it('should reject anonymous callers on protected procedures', async () => {
+      const caller = createCaller(await contextFor());
+
+      await expect(caller.whoami()).rejects.toThrow(/authentication required/i);
+    });
+  });
+});
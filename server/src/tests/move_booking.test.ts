@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { bookingsTable, fieldSlotsTable, usersTable } from '../db/schema';
+import { type Field } from '../schema';
+import { moveBooking } from '../handlers/move_booking';
+import { createField } from '../handlers/create_field';
+import { createVenue } from '../handlers/venues';
+import { eq } from 'drizzle-orm';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe('moveBooking', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let playerId: number;
+  let otherPlayerId: number;
+  let field: Field;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password_hash: 'hash', first_name: 'Field', last_name: 'Owner', role: 'field_owner' },
+        { email: 'player@test.com', password_hash: 'hash', first_name: 'Sam', last_name: 'Player', role: 'player' },
+        { email: 'other@test.com', password_hash: 'hash', first_name: 'Alex', last_name: 'Keeper', role: 'player' }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    playerId = users[1].id;
+    otherPlayerId = users[2].id;
+
+    field = await createField({ name: 'Riverside', address: '1 River Rd', hourly_rate: 50 }, ownerId);
+  });
+
+  const createSlot = async (fieldId: number, offset: number) => {
+    const start = new Date(Date.now() + offset);
+    const slots = await db.insert(fieldSlotsTable)
+      .values({ field_id: fieldId, start_time: start, end_time: new Date(start.getTime() + HOUR), price: '50.00' })
+      .returning()
+      .execute();
+    return slots[0];
+  };
+
+  const book = async (slotId: number, userId: number, status: 'pending' | 'confirmed' | 'cancelled' = 'confirmed') => {
+    const bookings = await db.insert(bookingsTable)
+      .values({ slot_id: slotId, user_id: userId, status, total_price: '50.00' })
+      .returning()
+      .execute();
+    return bookings[0];
+  };
+
+  it('should reject moving onto a slot another booking holds', async () => {
+    const booking = await book((await createSlot(field.id, DAY)).id, playerId);
+    const taken = await createSlot(field.id, 2 * DAY);
+    await book(taken.id, otherPlayerId, 'pending');
+
+    await expect(moveBooking({ booking_id: booking.id, slot_id: taken.id }, playerId)).rejects.toThrow(/already booked/i);
+
+    const stored = await db.select().from(bookingsTable).where(eq(bookingsTable.id, booking.id)).execute();
+    expect(stored[0].slot_id).toEqual(booking.slot_id);
+  });
+
+  it('should allow moving onto a slot whose booking was cancelled, freeing the old slot', async () => {
+    const booking = await book((await createSlot(field.id, DAY)).id, playerId);
+    const freed = await createSlot(field.id, 2 * DAY);
+    await book(freed.id, otherPlayerId, 'cancelled');
+
+    await moveBooking({ booking_id: booking.id, slot_id: freed.id }, playerId);
+
+    // The old slot is free again for someone else to move onto
+    const otherBooking = await book((await createSlot(field.id, 3 * DAY)).id, otherPlayerId);
+    const moved = await moveBooking({ booking_id: otherBooking.id, slot_id: booking.slot_id }, otherPlayerId);
+    expect(moved.slot_id).toEqual(booking.slot_id);
+  });
+
+  it('should reject moving to a pitch at another venue', async () => {
+    const venue = await createVenue({ name: 'Park', address: '1 Park Rd' }, ownerId);
+    const otherVenue = await createVenue({ name: 'Common', address: '2 Common Rd' }, ownerId);
+    const pitch = await createField({ venue_id: venue.id, name: 'Pitch 1', hourly_rate: 60 }, ownerId);
+    const elsewhere = await createField({ venue_id: otherVenue.id, name: 'Pitch 1', hourly_rate: 60 }, ownerId);
+    const booking = await book((await createSlot(pitch.id, DAY)).id, playerId);
+    const target = await createSlot(elsewhere.id, DAY);
+
+    await expect(moveBooking({ booking_id: booking.id, slot_id: target.id }, playerId)).rejects.toThrow(/same field or venue/i);
+  });
+
+  it('should reject moving to a slot that has already started', async () => {
+    const booking = await book((await createSlot(field.id, DAY)).id, playerId);
+    const past = await createSlot(field.id, -2 * HOUR);
+
+    await expect(moveBooking({ booking_id: booking.id, slot_id: past.id }, playerId)).rejects.toThrow(/not available/i);
+  });
+});
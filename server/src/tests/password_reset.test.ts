@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, passwordResetTokensTable, sessionsTable, mailOutboxTable } from '../db/schema';
+import { type MailMessage, type User } from '../schema';
+import { requestPasswordReset, resetPassword } from '../handlers/password_reset';
+import { outboxMailer, setMailer } from '../mailer';
+import { hashToken } from '../utils/tokens';
+import { eq } from 'drizzle-orm';
+
+const latestResetToken = async (): Promise<string> => {
+  const mails = await db.select().from(mailOutboxTable).execute();
+  const match = mails[mails.length - 1].body.match(/reset_token=([\w-]+)/);
+  return match![1];
+};
+
+describe('password reset', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let user: User;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'player@example.com',
+        password_hash: await Bun.password.hash('oldpassword'),
+        first_name: 'Test',
+        last_name: 'Player',
+        role: 'player'
+      })
+      .returning()
+      .execute();
+
+    user = users[0];
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should store a hashed token and write a reset email to the outbox', async () => {
+      const result = await requestPasswordReset({ email: 'player@example.com' });
+
+      expect(result).toBe(true);
+
+      const mails = await db.select().from(mailOutboxTable).execute();
+      expect(mails).toHaveLength(1);
+      expect(mails[0].to).toEqual('player@example.com');
+      expect(mails[0].subject).toMatch(/reset/i);
+
+      const token = await latestResetToken();
+      const tokens = await db.select()
+        .from(passwordResetTokensTable)
+        .where(eq(passwordResetTokensTable.user_id, user.id))
+        .execute();
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].token_hash).toEqual(hashToken(token));
+      expect(tokens[0].used_at).toBeNull();
+      expect(tokens[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should match the email case-insensitively', async () => {
+      await requestPasswordReset({ email: 'PLAYER@example.com' });
+
+      const mails = await db.select().from(mailOutboxTable).execute();
+      expect(mails).toHaveLength(1);
+    });
+
+    it('should succeed silently for an unknown email', async () => {
+      const result = await requestPasswordReset({ email: 'nobody@example.com' });
+
+      expect(result).toBe(true);
+
+      const mails = await db.select().from(mailOutboxTable).execute();
+      expect(mails).toHaveLength(0);
+    });
+
+    it('should invalidate earlier tokens when a new one is requested', async () => {
+      await requestPasswordReset({ email: 'player@example.com' });
+      const firstToken = await latestResetToken();
+      await requestPasswordReset({ email: 'player@example.com' });
+
+      await expect(resetPassword({ token: firstToken, password: 'newpassword' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should deliver through a custom mailer when one is configured', async () => {
+      const sent: MailMessage[] = [];
+      setMailer({ send: async (message) => { sent.push(message); } });
+
+      try {
+        await requestPasswordReset({ email: 'player@example.com' });
+      } finally {
+        setMailer(outboxMailer);
+      }
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toEqual('player@example.com');
+
+      const mails = await db.select().from(mailOutboxTable).execute();
+      expect(mails).toHaveLength(0);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should change the password with a valid token', async () => {
+      await requestPasswordReset({ email: 'player@example.com' });
+      const token = await latestResetToken();
+
+      const result = await resetPassword({ token, password: 'newpassword' });
+
+      expect(result).toBe(true);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(await Bun.password.verify('newpassword', users[0].password_hash)).toBe(true);
+      expect(await Bun.password.verify('oldpassword', users[0].password_hash)).toBe(false);
+    });
+
+    it('should only accept a token once', async () => {
+      await requestPasswordReset({ email: 'player@example.com' });
+      const token = await latestResetToken();
+
+      await resetPassword({ token, password: 'newpassword' });
+
+      await expect(resetPassword({ token, password: 'anotherpassword' })).rejects.toThrow(/invalid or expired/i);
+
+      const tokens = await db.select().from(passwordResetTokensTable).execute();
+      expect(tokens[0].used_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject an expired token', async () => {
+      await requestPasswordReset({ email: 'player@example.com' });
+      const token = await latestResetToken();
+
+      await db.update(passwordResetTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(resetPassword({ token, password: 'newpassword' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject an unknown token', async () => {
+      await expect(resetPassword({ token: 'bogus', password: 'newpassword' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should sign the user out of all sessions', async () => {
+      await db.insert(sessionsTable)
+        .values({ user_id: user.id, token_hash: hashToken('existing'), expires_at: new Date(Date.now() + 60000) })
+        .execute();
+
+      await requestPasswordReset({ email: 'player@example.com' });
+      await resetPassword({ token: await latestResetToken(), password: 'newpassword' });
+
+      const sessions = await db.select().from(sessionsTable).where(eq(sessionsTable.user_id, user.id)).execute();
+      expect(sessions).toHaveLength(0);
+    });
+  });
+});
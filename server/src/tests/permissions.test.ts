@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, fieldsTable, fieldSlotsTable } from '../db/schema';
+import { type User, type UserRole } from '../schema';
+import { appRouter } from '../index';
+import { createCallerFactory, type Context } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import { eq } from 'drizzle-orm';
+
+type Caller = ReturnType<typeof createCaller>;
+type Actor = UserRole | 'anonymous';
+
+const createCaller = createCallerFactory(appRouter);
+
+const callerFor = (user: User | null): Caller => {
+  const ctx: Context = { user, token: user ? 'test-token' : null, ip: null, userAgent: null, apiKey: null };
+  return createCaller(ctx);
+};
+
+// Resolves to the tRPC error code raised by the auth middlewares, or 'ALLOWED' if the call got past them
+const accessOutcome = async (call: () => Promise<unknown>): Promise<string> => {
+  try {
+    await call();
+  } catch (error) {
+    if (error instanceof TRPCError && (error.code === 'UNAUTHORIZED' || error.code === 'FORBIDDEN')) {
+      return error.code;
+    }
+  }
+  return 'ALLOWED';
+};
+
+const fieldInput = { name: 'Pitch', address: '1 Main St', hourly_rate: 40 };
+const slotInput = (fieldId: number) => ({
+  field_id: fieldId,
+  start_time: new Date('2030-01-01T10:00:00Z'),
+  end_time: new Date('2030-01-01T11:00:00Z'),
+  price: 40
+});
+
+describe('permissions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let users: Record<UserRole, User>;
+  let ownerField: { id: number };
+
+  beforeEach(async () => {
+    const inserted = await db.insert(usersTable)
+      .values([
+        { email: 'player@example.com', password_hash: 'hash', first_name: 'Pat', last_name: 'Player', role: 'player', email_verified_at: new Date() },
+        { email: 'owner@example.com', password_hash: 'hash', first_name: 'Olive', last_name: 'Owner', role: 'field_owner', email_verified_at: new Date() },
+        { email: 'admin@example.com', password_hash: 'hash', first_name: 'Ada', last_name: 'Admin', role: 'admin', email_verified_at: new Date() }
+      ])
+      .returning()
+      .execute();
+
+    users = { player: inserted[0], field_owner: inserted[1], admin: inserted[2] };
+
+    const fields = await db.insert(fieldsTable)
+      .values({ owner_id: users.field_owner.id, name: 'Owner Field', address: '2 Side St', hourly_rate: '50.00' })
+      .returning()
+      .execute();
+
+    ownerField = fields[0];
+  });
+
+  const matrix: { procedure: string; call: (caller: Caller) => Promise<unknown>; allowed: Actor[] }[] = [
+    { procedure: 'getFields', call: c => c.getFields(), allowed: ['anonymous', 'player', 'field_owner', 'admin'] },
+    { procedure: 'me', call: c => c.me(), allowed: ['player', 'field_owner', 'admin'] },
+    { procedure: 'createTeam', call: c => c.createTeam({ name: 'Team', skill_level: 5 }), allowed: ['player', 'field_owner', 'admin'] },
+    { procedure: 'createBooking', call: c => c.createBooking({ slot_id: 99999 }), allowed: ['player', 'field_owner', 'admin'] },
+    { procedure: 'sendMessage', call: c => c.sendMessage({ receiver_id: users.player.id, content: 'Hi' }), allowed: ['player', 'field_owner', 'admin'] },
+    { procedure: 'createField', call: c => c.createField(fieldInput), allowed: ['field_owner'] },
+    { procedure: 'updateField', call: c => c.updateField({ id: ownerField.id, name: 'Renamed' }), allowed: ['field_owner'] },
+    { procedure: 'createFieldSlot', call: c => c.createFieldSlot(slotInput(ownerField.id)), allowed: ['field_owner'] },
+    { procedure: 'getFieldsByOwner', call: c => c.getFieldsByOwner(), allowed: ['field_owner'] },
+    { procedure: 'getInterestsByUser', call: c => c.getInterestsByUser(), allowed: ['player', 'field_owner', 'admin'] },
+    { procedure: 'getMyFieldBookings', call: c => c.getMyFieldBookings(), allowed: ['field_owner'] },
+    { procedure: 'getBookingsByFieldOwner', call: c => c.getBookingsByFieldOwner({ ownerId: users.field_owner.id }), allowed: ['admin'] },
+    { procedure: 'searchUsers', call: c => c.searchUsers({}), allowed: ['admin'] },
+    { procedure: 'getUserOverview', call: c => c.getUserOverview({ userId: users.player.id }), allowed: ['admin'] },
+    { procedure: 'changeUserRole', call: c => c.changeUserRole({ user_id: users.player.id, role: 'player' }), allowed: ['admin'] },
+    { procedure: 'suspendUser', call: c => c.suspendUser({ user_id: 99999, reason: 'Spam' }), allowed: ['admin'] },
+    { procedure: 'unsuspendUser', call: c => c.unsuspendUser({ userId: 99999 }), allowed: ['admin'] },
+    { procedure: 'forcePasswordReset', call: c => c.forcePasswordReset({ userId: 99999 }), allowed: ['admin'] }
+  ];
+
+  for (const { procedure, call, allowed } of matrix) {
+    it(`should enforce roles for ${procedure}`, async () => {
+      const actors: Actor[] = ['anonymous', 'player', 'field_owner', 'admin'];
+
+      for (const actor of actors) {
+        const outcome = await accessOutcome(() => call(callerFor(actor === 'anonymous' ? null : users[actor])));
+        const expected = allowed.includes(actor) ? 'ALLOWED' : actor === 'anonymous' ? 'UNAUTHORIZED' : 'FORBIDDEN';
+
+        expect({ actor, outcome }).toEqual({ actor, outcome: expected });
+      }
+    });
+  }
+
+  it('should block bookings and messages until the email is verified', async () => {
+    const unverified = await db.insert(usersTable)
+      .values({ email: 'new@example.com', password_hash: 'hash', first_name: 'Nia', last_name: 'New', role: 'player' })
+      .returning()
+      .execute();
+
+    const caller = callerFor(unverified[0]);
+
+    await expect(caller.createBooking({ slot_id: 1 })).rejects.toThrow(/verify your email/i);
+    await expect(caller.sendMessage({ receiver_id: users.player.id, content: 'Hi' })).rejects.toThrow(/verify your email/i);
+    expect(await accessOutcome(() => caller.createTeam({ name: 'Team', skill_level: 5 }))).toEqual('ALLOWED');
+  });
+
+  it('should block mutations but not queries or logout for suspended accounts', async () => {
+    const suspended = await db.insert(usersTable)
+      .values({ email: 'banned@example.com', password_hash: 'hash', first_name: 'Ben', last_name: 'Banned', role: 'field_owner', email_verified_at: new Date(), suspended_at: new Date() })
+      .returning()
+      .execute();
+
+    const caller = callerFor(suspended[0]);
+
+    await expect(caller.createTeam({ name: 'Team', skill_level: 5 })).rejects.toThrow(/banned/i);
+    await expect(caller.createFieldSlot(slotInput(ownerField.id))).rejects.toThrow(/banned/i);
+    await expect(caller.updateProfile({ first_name: 'Renamed' })).rejects.toThrow(/banned/i);
+    expect((await caller.me()).id).toEqual(suspended[0].id);
+    expect(await accessOutcome(() => caller.logout())).toEqual('ALLOWED');
+  });
+
+  it('should only let a field owner add slots to their own field', async () => {
+    const otherOwner = await db.insert(usersTable)
+      .values({ email: 'rival@example.com', password_hash: 'hash', first_name: 'Rita', last_name: 'Rival', role: 'field_owner', email_verified_at: new Date() })
+      .returning()
+      .execute();
+
+    await expect(callerFor(otherOwner[0]).createFieldSlot(slotInput(ownerField.id))).rejects.toThrow(/do not have permission/i);
+
+    const created = await callerFor(users.field_owner).createFieldSlot(slotInput(ownerField.id));
+    expect(created.field_id).toEqual(ownerField.id);
+
+    const slots = await db.select()
+      .from(fieldSlotsTable)
+      .where(eq(fieldSlotsTable.field_id, ownerField.id))
+      .execute();
+
+    expect(slots).toHaveLength(1);
+  });
+
+  it('should only let a field owner update their own field', async () => {
+    const otherOwner = await db.insert(usersTable)
+      .values({ email: 'rival@example.com', password_hash: 'hash', first_name: 'Rita', last_name: 'Rival', role: 'field_owner', email_verified_at: new Date() })
+      .returning()
+      .execute();
+
+    await expect(callerFor(otherOwner[0]).updateField({ id: ownerField.id, name: 'Hijacked' })).rejects.toThrow(/do not have permission/i);
+  });
+});
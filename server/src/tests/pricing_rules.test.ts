@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, fieldsTable, fieldSlotsTable, bookingsTable } from '../db/schema';
+import { type User, type CreatePricingRuleInput } from '../schema';
+import { createPricingRule, getPricingRules, deletePricingRule, quoteSlotPrice } from '../handlers/pricing_rules';
+import { setFieldSchedule, previewFieldSlots, generateFieldSlots } from '../handlers/field_schedule';
+import { createBooking } from '../handlers/create_booking';
+import { eq } from 'drizzle-orm';
+
+// 2030-01-07 is a Monday, 2030-01-12 the Saturday after it
+const MONDAY = '2030-01-07';
+const SATURDAY = '2030-01-12';
+const HOUR = 60 * 60 * 1000;
+
+describe('pricing rules', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let owner: User;
+  let otherOwner: User;
+  let player: User;
+  let fieldId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', first_name: 'Olive', last_name: 'Owner', role: 'field_owner' },
+        { email: 'other@example.com', password_hash: 'hash', first_name: 'Oscar', last_name: 'Owner', role: 'field_owner' },
+        { email: 'player@example.com', password_hash: 'hash', first_name: 'Pat', last_name: 'Player', role: 'player' }
+      ])
+      .returning()
+      .execute();
+
+    [owner, otherOwner, player] = users;
+
+    const fields = await db.insert(fieldsTable)
+      .values({ owner_id: owner.id, name: 'Central Pitch', address: '1 Main St', hourly_rate: '60.00' })
+      .returning()
+      .execute();
+
+    fieldId = fields[0].id;
+
+    await setFieldSchedule({
+      field_id: fieldId,
+      slot_length_minutes: 60,
+      timezone: 'UTC',
+      opening_hours: [1, 6].map(day_of_week => ({ day_of_week, opens_at: '17:00', closes_at: '21:00' }))
+    }, owner.id);
+  });
+
+  const rule = (overrides: Partial<CreatePricingRuleInput>): CreatePricingRuleInput => ({
+    field_id: fieldId,
+    type: 'peak',
+    name: 'Evening peak',
+    adjustment_percent: 20,
+    days_of_week: [1, 2, 3, 4, 5],
+    starts_at: '18:00',
+    ends_at: '20:00',
+    ...overrides
+  });
+
+  describe('createPricingRule', () => {
+    it('should store the rule with only the conditions its type uses', async () => {
+      const peak = await createPricingRule(rule({ days_of_week: [5, 1, 1], hours_before: 3 }), owner.id);
+      const weekend = await createPricingRule(rule({ type: 'weekend', name: 'Weekend', adjustment_percent: 10 }), owner.id);
+
+      expect(peak.adjustment_percent).toEqual(20);
+      expect(peak.days_of_week).toEqual([1, 5]);
+      expect(peak.starts_at).toEqual('18:00');
+      expect(peak.hours_before).toBeNull();
+      expect(weekend.days_of_week).toEqual([]);
+      expect(weekend.starts_at).toBeNull();
+
+      const rules = await getPricingRules(fieldId);
+      expect(rules.map(r => r.id)).toEqual([peak.id, weekend.id]);
+    });
+
+    it('should require the conditions for each type', async () => {
+      await expect(createPricingRule(rule({ starts_at: null }), owner.id)).rejects.toThrow(/start and end time/i);
+      await expect(createPricingRule(rule({ starts_at: '20:00', ends_at: '18:00' }), owner.id)).rejects.toThrow(/end after it starts/i);
+      await expect(createPricingRule(rule({ type: 'holiday' }), owner.id)).rejects.toThrow(/need a date/i);
+      await expect(createPricingRule(rule({ type: 'last_minute' }), owner.id)).rejects.toThrow(/hours before/i);
+    });
+
+    it('should only let the owner price the field', async () => {
+      await expect(createPricingRule(rule({}), otherOwner.id)).rejects.toThrow(/do not have permission/i);
+    });
+  });
+
+  describe('deletePricingRule', () => {
+    it('should only let the owner delete a rule', async () => {
+      const created = await createPricingRule(rule({}), owner.id);
+
+      await expect(deletePricingRule(created.id, otherOwner.id)).rejects.toThrow(/not found/i);
+      expect(await deletePricingRule(created.id, owner.id)).toBe(true);
+      expect(await getPricingRules(fieldId)).toEqual([]);
+    });
+  });
+
+  describe('slot generation', () => {
+    it('should apply peak rules inside their window and record the breakdown', async () => {
+      const peak = await createPricingRule(rule({}), owner.id);
+
+      const preview = await previewFieldSlots({ field_id: fieldId, from: MONDAY, to: MONDAY }, owner.id);
+
+      expect(preview.slots.map(slot => slot.price)).toEqual([60, 72, 72, 60]);
+      expect(preview.slots[1].base_price).toEqual(60);
+      expect(preview.slots[1].price_adjustments).toEqual([
+        { rule_id: peak.id, type: 'peak', name: 'Evening peak', percent: 20, amount: 12 }
+      ]);
+      expect(preview.slots[0].price_adjustments).toEqual([]);
+    });
+
+    it('should stack weekend and holiday rules', async () => {
+      await createPricingRule(rule({}), owner.id);
+      await createPricingRule(rule({ type: 'weekend', name: 'Weekend', adjustment_percent: 10 }), owner.id);
+      await createPricingRule(rule({ type: 'holiday', name: 'Cup final', adjustment_percent: 50, holiday_date: SATURDAY }), owner.id);
+
+      const preview = await previewFieldSlots({ field_id: fieldId, from: SATURDAY, to: SATURDAY }, owner.id);
+
+      // The weekday peak rule doesn't apply on a Saturday
+      expect(preview.slots.map(slot => slot.price)).toEqual([96, 96, 96, 96]);
+      expect(preview.slots[0].price_adjustments.map(a => a.type)).toEqual(['weekend', 'holiday']);
+    });
+
+    it('should read peak windows in the field\'s time zone', async () => {
+      await setFieldSchedule({
+        field_id: fieldId,
+        slot_length_minutes: 60,
+        timezone: 'America/New_York',
+        opening_hours: [{ day_of_week: 1, opens_at: '17:00', closes_at: '21:00' }]
+      }, owner.id);
+      await createPricingRule(rule({}), owner.id);
+
+      const preview = await previewFieldSlots({ field_id: fieldId, from: MONDAY, to: MONDAY }, owner.id);
+
+      expect(preview.slots.map(slot => slot.price)).toEqual([60, 72, 72, 60]);
+    });
+
+    it('should never price a slot below zero', async () => {
+      await createPricingRule(rule({ type: 'off_peak', name: 'Free hour', adjustment_percent: -100, starts_at: '17:00', ends_at: '18:00' }), owner.id);
+      await createPricingRule(rule({ type: 'off_peak', name: 'Early', adjustment_percent: -50, starts_at: '17:00', ends_at: '19:00' }), owner.id);
+
+      const preview = await previewFieldSlots({ field_id: fieldId, from: MONDAY, to: MONDAY }, owner.id);
+
+      expect(preview.slots.map(slot => slot.price)).toEqual([0, 30, 60, 60]);
+    });
+
+    it('should store the derived price and keep it when rules change later', async () => {
+      const peak = await createPricingRule(rule({}), owner.id);
+
+      const result = await generateFieldSlots({ field_id: fieldId, from: MONDAY, to: MONDAY }, owner.id);
+      await deletePricingRule(peak.id, owner.id);
+
+      const stored = await db.select().from(fieldSlotsTable).where(eq(fieldSlotsTable.id, result.created[1].id)).execute();
+      expect(stored[0].price).toEqual('72.00');
+      expect(stored[0].base_price).toEqual('60.00');
+      expect(stored[0].price_adjustments).toHaveLength(1);
+
+      const quote = await quoteSlotPrice(result.created[1].id);
+      expect(quote.total).toEqual(72);
+    });
+  });
+
+  describe('quoteSlotPrice', () => {
+    const createSlotStartingIn = async (hours: number, price = '50.00') => {
+      const start = new Date(Date.now() + hours * HOUR);
+      const slots = await db.insert(fieldSlotsTable)
+        .values({ field_id: fieldId, start_time: start, end_time: new Date(start.getTime() + HOUR), price })
+        .returning()
+        .execute();
+
+      return slots[0];
+    };
+
+    it('should apply the tightest last-minute rule that has opened', async () => {
+      const dayBefore = await createPricingRule(rule({ type: 'last_minute', name: 'Day before', adjustment_percent: -10, hours_before: 24 }), owner.id);
+      const lastCall = await createPricingRule(rule({ type: 'last_minute', name: 'Last call', adjustment_percent: -30, hours_before: 4 }), owner.id);
+      const slot = await createSlotStartingIn(48);
+
+      const early = await quoteSlotPrice(slot.id, new Date(slot.start_time.getTime() - 30 * HOUR));
+      const dayOf = await quoteSlotPrice(slot.id, new Date(slot.start_time.getTime() - 12 * HOUR));
+      const late = await quoteSlotPrice(slot.id, new Date(slot.start_time.getTime() - 2 * HOUR));
+
+      expect(early).toMatchObject({ slot_id: slot.id, base_price: 50, adjustments: [], total: 50 });
+      expect(dayOf.adjustments.map(a => a.rule_id)).toEqual([dayBefore.id]);
+      expect(dayOf.total).toEqual(45);
+      expect(late.adjustments.map(a => a.rule_id)).toEqual([lastCall.id]);
+      expect(late.total).toEqual(35);
+    });
+
+    it('should reject unknown slots', async () => {
+      await expect(quoteSlotPrice(9999)).rejects.toThrow(/not found/i);
+    });
+
+    it('should charge the quoted price when booking', async () => {
+      await createPricingRule(rule({ type: 'last_minute', name: 'Last call', adjustment_percent: -20, hours_before: 6 }), owner.id);
+      const slot = await createSlotStartingIn(3);
+
+      const booking = await createBooking({ slot_id: slot.id }, player.id);
+
+      expect(booking.total_price).toEqual(40);
+      const stored = await db.select().from(bookingsTable).where(eq(bookingsTable.id, booking.id)).execute();
+      expect(stored[0].total_price).toEqual('40.00');
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rateLimitBucketsTable } from '../db/schema';
+import { type User } from '../schema';
+import { appRouter } from '../index';
+import { createCallerFactory, getClientIp, retryAfterResponseMeta, type Context } from '../trpc';
+import {
+  checkRateLimit,
+  createMemoryRateLimitStore,
+  createPostgresRateLimitStore,
+  setRateLimitStore,
+  RateLimitExceededError,
+  RATE_LIMITS,
+  type RateLimitStore
+} from '../rate_limit';
+import { TRPCError } from '@trpc/server';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+
+const callerFor = (user: User | null, ip: string | null) => {
+  const ctx: Context = { user, token: user ? 'test-token' : null, ip, userAgent: null, apiKey: null };
+  return createCaller(ctx);
+};
+
+const bucket = { capacity: 3, refillPerMinute: 6 }; // One token every 10 seconds
+
+// Both stores must behave identically
+const storeBehaviour = (name: string, createStore: () => RateLimitStore) => {
+  describe(name, () => {
+    it('should allow a burst up to capacity and then deny', async () => {
+      const store = createStore();
+      const now = Date.now();
+
+      for (let i = 0; i < 3; i++) {
+        expect((await store.consume('test:ip:1', bucket, now)).allowed).toBe(true);
+      }
+
+      const denied = await store.consume('test:ip:1', bucket, now);
+      expect(denied.allowed).toBe(false);
+      expect(denied.retryAfterMs).toEqual(10_000);
+    });
+
+    it('should refill tokens over time', async () => {
+      const store = createStore();
+      const now = Date.now();
+
+      for (let i = 0; i < 3; i++) {
+        await store.consume('test:ip:1', bucket, now);
+      }
+
+      expect((await store.consume('test:ip:1', bucket, now + 5_000)).retryAfterMs).toEqual(5_000);
+      expect((await store.consume('test:ip:1', bucket, now + 10_000)).allowed).toBe(true);
+      expect((await store.consume('test:ip:1', bucket, now + 10_000)).allowed).toBe(false);
+    });
+
+    it('should never refill beyond capacity', async () => {
+      const store = createStore();
+      const now = Date.now();
+
+      await store.consume('test:ip:1', bucket, now);
+      const later = now + 60 * 60 * 1000;
+      for (let i = 0; i < 3; i++) {
+        expect((await store.consume('test:ip:1', bucket, later)).allowed).toBe(true);
+      }
+      expect((await store.consume('test:ip:1', bucket, later)).allowed).toBe(false);
+    });
+
+    it('should keep separate buckets per key', async () => {
+      const store = createStore();
+      const now = Date.now();
+
+      for (let i = 0; i < 3; i++) {
+        await store.consume('test:ip:1', bucket, now);
+      }
+
+      expect((await store.consume('test:ip:2', bucket, now)).allowed).toBe(true);
+    });
+  });
+};
+
+describe('rate limiting', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  // Every test, and every later test file, starts with empty buckets
+  const resetRateLimits = () => setRateLimitStore(createMemoryRateLimitStore());
+  beforeEach(resetRateLimits);
+  afterEach(resetRateLimits);
+
+  storeBehaviour('memory store', createMemoryRateLimitStore);
+  storeBehaviour('postgres store', createPostgresRateLimitStore);
+
+  it('should persist postgres buckets in the database', async () => {
+    await createPostgresRateLimitStore().consume('login:ip:10.0.0.1', bucket);
+
+    const rows = await db.select()
+      .from(rateLimitBucketsTable)
+      .where(eq(rateLimitBucketsTable.key, 'login:ip:10.0.0.1'))
+      .execute();
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].tokens).toEqual(2);
+  });
+
+  describe('checkRateLimit', () => {
+    const config = { perUser: { capacity: 1, refillPerMinute: 1 }, perIp: { capacity: 2, refillPerMinute: 1 } };
+
+    it('should deny when the user bucket is empty even from a fresh IP', async () => {
+      expect((await checkRateLimit('test', config, { userId: 1, ip: '10.0.0.1' })).allowed).toBe(true);
+      expect((await checkRateLimit('test', config, { userId: 1, ip: '10.0.0.2' })).allowed).toBe(false);
+    });
+
+    it('should deny when the IP bucket is empty even for other users', async () => {
+      await checkRateLimit('test', config, { userId: 1, ip: '10.0.0.1' });
+      await checkRateLimit('test', config, { userId: 2, ip: '10.0.0.1' });
+
+      const result = await checkRateLimit('test', config, { userId: 3, ip: '10.0.0.1' });
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfterMs).toBeGreaterThan(0);
+    });
+
+    it('should skip buckets that do not apply to the caller', async () => {
+      for (let i = 0; i < 5; i++) {
+        expect((await checkRateLimit('test', config, { userId: null, ip: null })).allowed).toBe(true);
+      }
+    });
+
+    it('should count each procedure separately', async () => {
+      await checkRateLimit('first', config, { userId: 1, ip: null });
+
+      expect((await checkRateLimit('second', config, { userId: 1, ip: null })).allowed).toBe(true);
+    });
+  });
+
+  describe('procedures', () => {
+    let player: User;
+
+    beforeEach(async () => {
+      const users = await db.insert(usersTable)
+        .values({
+          email: 'player@example.com',
+          password_hash: await Bun.password.hash('password123'),
+          first_name: 'Pat',
+          last_name: 'Player',
+          role: 'player',
+          email_verified_at: new Date()
+        })
+        .returning()
+        .execute();
+
+      player = users[0];
+    });
+
+    it('should reject logins from an IP that used up its bucket with TOO_MANY_REQUESTS', async () => {
+      const caller = callerFor(null, '203.0.113.7');
+
+      for (let i = 0; i < RATE_LIMITS.login.perIp.capacity; i++) {
+        await caller.login({ email: 'player@example.com', password: 'password123' });
+      }
+
+      try {
+        await caller.login({ email: 'player@example.com', password: 'password123' });
+        throw new Error('Expected the login to be rate limited');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TRPCError);
+        expect((error as TRPCError).code).toEqual('TOO_MANY_REQUESTS');
+        expect((error as TRPCError).message).toMatch(/try again in \d+ seconds/i);
+        expect((error as TRPCError).cause).toBeInstanceOf(RateLimitExceededError);
+      }
+
+      // Other addresses are unaffected
+      await callerFor(null, '203.0.113.8').login({ email: 'player@example.com', password: 'password123' });
+    });
+
+    it('should limit messages per user', async () => {
+      const receivers = await db.insert(usersTable)
+        .values({ email: 'friend@example.com', password_hash: 'hash', first_name: 'Fran', last_name: 'Friend', role: 'player' })
+        .returning()
+        .execute();
+      const caller = callerFor(player, null);
+
+      for (let i = 0; i < RATE_LIMITS.sendMessage.perUser.capacity; i++) {
+        await caller.sendMessage({ receiver_id: receivers[0].id, content: `Hello ${i}` });
+      }
+
+      await expect(caller.sendMessage({ receiver_id: receivers[0].id, content: 'One too many' })).rejects.toThrow(/too many requests/i);
+    });
+
+    it('should limit password reset requests per email across addresses', async () => {
+      const { capacity } = RATE_LIMITS.requestPasswordReset.perEmail;
+
+      for (let i = 0; i < capacity; i++) {
+        await callerFor(null, `198.51.100.${i}`).requestPasswordReset({ email: 'player@example.com' });
+      }
+
+      await expect(callerFor(null, '198.51.100.99').requestPasswordReset({ email: 'Player@Example.com' }))
+        .rejects.toThrow(/too many requests/i);
+
+      // Other accounts are unaffected
+      await callerFor(null, '198.51.100.99').requestPasswordReset({ email: 'friend@example.com' });
+    });
+
+    it('should limit password reset requests per IP across emails', async () => {
+      const caller = callerFor(null, '198.51.100.1');
+
+      for (let i = 0; i < RATE_LIMITS.requestPasswordReset.perIp.capacity; i++) {
+        await caller.requestPasswordReset({ email: `nobody${i}@example.com` });
+      }
+
+      await expect(caller.requestPasswordReset({ email: 'player@example.com' })).rejects.toThrow(/too many requests/i);
+    });
+
+    it('should limit password reset attempts per IP', async () => {
+      const caller = callerFor(null, '198.51.100.1');
+
+      for (let i = 0; i < RATE_LIMITS.resetPassword.perIp.capacity; i++) {
+        await expect(caller.resetPassword({ token: `guess-${i}`, password: 'newpassword' })).rejects.toThrow(/invalid|expired/i);
+      }
+
+      await expect(caller.resetPassword({ token: 'one-more', password: 'newpassword' })).rejects.toThrow(/too many requests/i);
+    });
+  });
+
+  describe('getClientIp', () => {
+    const request = (remoteAddress: string, forwardedFor?: string) =>
+      ({ headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {}, socket: { remoteAddress } }) as Parameters<typeof getClientIp>[0];
+
+    it('should take the forwarded address from the local proxy', () => {
+      expect(getClientIp(request('127.0.0.1', '203.0.113.7'))).toEqual('203.0.113.7');
+      expect(getClientIp(request('::1', '198.51.100.1, 203.0.113.7'))).toEqual('203.0.113.7');
+      expect(getClientIp(request('127.0.0.1'))).toEqual('127.0.0.1');
+    });
+
+    it('should ignore forwarded addresses sent straight to the API port', () => {
+      expect(getClientIp(request('198.51.100.20', '203.0.113.7'))).toEqual('198.51.100.20');
+    });
+  });
+
+  describe('retryAfterResponseMeta', () => {
+    it('should set Retry-After to the longest wait among rate limited errors', () => {
+      const errors = [
+        new TRPCError({ code: 'TOO_MANY_REQUESTS', cause: new RateLimitExceededError(5) }),
+        new TRPCError({ code: 'TOO_MANY_REQUESTS', cause: new RateLimitExceededError(30) }),
+        new TRPCError({ code: 'BAD_REQUEST' })
+      ];
+
+      expect(retryAfterResponseMeta({ errors })).toEqual({ headers: { 'Retry-After': '30' } });
+    });
+
+    it('should leave other responses alone', () => {
+      expect(retryAfterResponseMeta({ errors: [new TRPCError({ code: 'FORBIDDEN' })] })).toEqual({});
+    });
+  });
+});
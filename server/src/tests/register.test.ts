@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type RegisterInput } from '../schema';
+import { usersTable, mailOutboxTable, emailVerificationTokensTable } from '../db/schema';
+import { registerInputSchema, type RegisterInput } from '../schema';
 import { register } from '../handlers/register';
 import { eq } from 'drizzle-orm';
 
@@ -106,19 +106,34 @@ describe('register', () => {
       role: 'field_owner'
     };
 
-    const adminInput: RegisterInput = {
-      ...testInput,
-      email: 'admin@example.com',
-      role: 'admin'
-    };
-
     const player = await register(playerInput);
     const fieldOwner = await register(fieldOwnerInput);
-    const admin = await register(adminInput);
 
     expect(player.role).toEqual('player');
     expect(fieldOwner.role).toEqual('field_owner');
-    expect(admin.role).toEqual('admin');
+  });
+
+  it('should not allow registering as an admin', () => {
+    const result = registerInputSchema.safeParse({ ...testInput, role: 'admin' });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should start unverified and send a verification email', async () => {
+    const result = await register(testInput);
+
+    expect(result.email_verified_at).toBeNull();
+
+    const mails = await db.select().from(mailOutboxTable).execute();
+    expect(mails).toHaveLength(1);
+    expect(mails[0].to).toEqual('test@example.com');
+    expect(mails[0].body).toMatch(/verify_token=/);
+
+    const tokens = await db.select()
+      .from(emailVerificationTokensTable)
+      .where(eq(emailVerificationTokensTable.user_id, result.id))
+      .execute();
+    expect(tokens).toHaveLength(1);
   });
 
   it('should throw error when registering user with existing email', async () => {
@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, fieldsTable, fieldSlotsTable, fieldClosuresTable, bookingsTable, teamsTable } from '../db/schema';
+import { type User } from '../schema';
+import { previewSlotImport, importSlots, exportFieldSlotsCsv, MAX_IMPORT_ROWS } from '../handlers/slot_csv';
+import { parseCsv, toCsv } from '../utils/csv';
+
+const csv = (...lines: string[]) => ['field,start,end,price', ...lines].join('\n');
+
+describe('CSV helpers', () => {
+  it('should parse quoted cells, CRLF line endings and a byte order mark', () => {
+    const rows = parseCsv('\uFEFFa,b\r\n"x, y","say ""hi"""\r\n\r\n"two\nlines",\r\n');
+
+    expect(rows).toEqual([['a', 'b'], ['x, y', 'say "hi"'], [''], ['two\nlines', '']]);
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseCsv('a,"b\n')).toThrow(/unterminated/i);
+  });
+
+  it('should quote where needed and keep formulas inert', () => {
+    expect(toCsv([['plain', 'a,b', 'say "hi"', null, 12.5, '=SUM(A1)']]))
+      .toEqual('plain,"a,b","say ""hi""",,12.5,\'=SUM(A1)\r\n');
+  });
+});
+
+describe('slot CSV import and export', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let owner: User;
+  let otherOwner: User;
+  let player: User;
+  let fieldId: number;
+  let londonFieldId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@example.com', password_hash: 'hash', first_name: 'Olive', last_name: 'Owner', role: 'field_owner' },
+        { email: 'other@example.com', password_hash: 'hash', first_name: 'Oscar', last_name: 'Owner', role: 'field_owner' },
+        { email: 'player@example.com', password_hash: 'hash', first_name: 'Pat', last_name: 'Player', role: 'player' }
+      ])
+      .returning()
+      .execute();
+
+    [owner, otherOwner, player] = users;
+
+    const fields = await db.insert(fieldsTable)
+      .values([
+        { owner_id: owner.id, name: 'Central Pitch', address: '1 Main St', hourly_rate: '60.00' },
+        { owner_id: owner.id, name: 'Riverside', address: '2 River Rd', hourly_rate: '50.00', timezone: 'Europe/London' },
+        { owner_id: otherOwner.id, name: 'Elsewhere', address: '3 Far Lane', hourly_rate: '40.00' }
+      ])
+      .returning()
+      .execute();
+
+    [fieldId, londonFieldId] = fields.map(field => field.id);
+  });
+
+  describe('previewSlotImport', () => {
+    it('should read fields by id or name and local times in the field\'s time zone', async () => {
+      const report = await previewSlotImport({
+        csv: csv(
+          `${fieldId},2030-01-07 18:00,2030-01-07 19:00,60`,
+          'riverside,2030-07-01 18:00,2030-07-01 19:30,75.50',
+          `Central Pitch,2030-01-08T18:00:00+02:00,2030-01-08T19:00:00+02:00,60`
+        )
+      }, owner.id);
+
+      expect(report.error_count).toEqual(0);
+      expect(report.valid_count).toEqual(3);
+      expect(report.rows.map(row => row.row)).toEqual([2, 3, 4]);
+      expect(report.rows[0]).toMatchObject({ field_id: fieldId, start_time: new Date('2030-01-07T18:00:00Z'), price: 60 });
+      // London is on summer time in July
+      expect(report.rows[1]).toMatchObject({ field_id: londonFieldId, start_time: new Date('2030-07-01T17:00:00Z'), price: 75.5 });
+      expect(report.rows[2].start_time).toEqual(new Date('2030-01-08T16:00:00Z'));
+
+      const slots = await db.select().from(fieldSlotsTable).execute();
+      expect(slots).toHaveLength(0);
+    });
+
+    it('should report every problem on every row', async () => {
+      const report = await previewSlotImport({
+        csv: csv(
+          'Elsewhere,2030-01-07 18:00,2030-01-07 19:00,60',
+          `${fieldId},next monday,2030-02-31 19:00,sixty`,
+          `${fieldId},2030-01-07 19:00,2030-01-07 18:00,60`,
+          `${fieldId},2020-01-07 18:00,2020-01-07 19:00,60`,
+          '',
+          `${fieldId},2030-01-07 20:00,2030-01-07 20:10,60`
+        )
+      }, owner.id);
+
+      expect(report.valid_count).toEqual(0);
+      expect(report.error_count).toEqual(5);
+      expect(report.rows[0].errors).toEqual(['"Elsewhere" is not one of your fields']);
+      expect(report.rows[1].errors).toHaveLength(3);
+      expect(report.rows[2].errors).toEqual(['A slot must end after it starts']);
+      expect(report.rows[3].errors).toEqual(['Slots cannot start in the past']);
+      // The blank line still counts as a row
+      expect(report.rows[4].row).toEqual(7);
+      expect(report.rows[4].errors[0]).toMatch(/at least 15 minutes/);
+    });
+
+    it('should flag overlaps with existing slots, closures and other rows', async () => {
+      await db.insert(fieldSlotsTable)
+        .values({ field_id: fieldId, start_time: new Date('2030-01-07T18:00:00Z'), end_time: new Date('2030-01-07T19:00:00Z'), price: '60.00' })
+        .execute();
+      await db.insert(fieldClosuresTable)
+        .values({ field_id: fieldId, starts_at: new Date('2030-01-08T00:00:00Z'), ends_at: new Date('2030-01-09T00:00:00Z') })
+        .execute();
+
+      const report = await previewSlotImport({
+        csv: csv(
+          `${fieldId},2030-01-07 18:30,2030-01-07 19:30,60`,
+          `${fieldId},2030-01-08 18:00,2030-01-08 19:00,60`,
+          `${fieldId},2030-01-10 18:00,2030-01-10 19:00,60`,
+          `${fieldId},2030-01-10 18:30,2030-01-10 19:30,60`,
+          `${londonFieldId},2030-01-10 18:00,2030-01-10 19:00,60`
+        )
+      }, owner.id);
+
+      expect(report.rows.map(row => row.errors)).toEqual([
+        ['Overlaps a slot that already exists on this field'],
+        ['Falls within a closure of this field'],
+        ['Overlaps row 5 of this file'],
+        ['Overlaps row 4 of this file'],
+        []
+      ]);
+    });
+
+    it('should reject files without the expected columns or with too many rows', async () => {
+      await expect(previewSlotImport({ csv: 'field,start,price\n1,2030-01-07 18:00,60' }, owner.id)).rejects.toThrow(/header row/i);
+
+      const tooMany = Array.from({ length: MAX_IMPORT_ROWS + 1 }, () => `${fieldId},2030-01-07 18:00,2030-01-07 19:00,60`);
+      await expect(previewSlotImport({ csv: csv(...tooMany) }, owner.id)).rejects.toThrow(/at most/i);
+    });
+  });
+
+  describe('importSlots', () => {
+    it('should create every slot in the file', async () => {
+      const result = await importSlots({
+        csv: csv(
+          `${fieldId},2030-01-07 18:00,2030-01-07 19:00,60`,
+          `Riverside,2030-01-07 18:00,2030-01-07 19:00,45.25`
+        )
+      }, owner.id);
+
+      expect(result.created).toHaveLength(2);
+      expect(result.created[1]).toMatchObject({ field_id: londonFieldId, price: 45.25, base_price: null, price_adjustments: [] });
+
+      const slots = await db.select().from(fieldSlotsTable).execute();
+      expect(slots).toHaveLength(2);
+    });
+
+    it('should create nothing when any row has an error', async () => {
+      await expect(importSlots({
+        csv: csv(
+          `${fieldId},2030-01-07 18:00,2030-01-07 19:00,60`,
+          `${fieldId},2030-01-07 18:30,2030-01-07 19:30,60`
+        )
+      }, owner.id)).rejects.toThrow(/2 rows with errors/i);
+
+      await expect(importSlots({ csv: csv() }, owner.id)).rejects.toThrow(/no slots/i);
+
+      const slots = await db.select().from(fieldSlotsTable).execute();
+      expect(slots).toHaveLength(0);
+    });
+  });
+
+  describe('exportFieldSlotsCsv', () => {
+    it('should export the field\'s slots and bookings in the date range', async () => {
+      const slots = await db.insert(fieldSlotsTable)
+        .values([
+          { field_id: londonFieldId, start_time: new Date('2030-07-01T17:00:00Z'), end_time: new Date('2030-07-01T18:00:00Z'), price: '50.00', is_available: false },
+          { field_id: londonFieldId, start_time: new Date('2030-07-02T17:00:00Z'), end_time: new Date('2030-07-02T18:00:00Z'), price: '50.00' },
+          { field_id: londonFieldId, start_time: new Date('2030-07-05T17:00:00Z'), end_time: new Date('2030-07-05T18:00:00Z'), price: '50.00' }
+        ])
+        .returning()
+        .execute();
+      const teams = await db.insert(teamsTable)
+        .values({ captain_id: player.id, name: 'Sunday Legends', skill_level: 5 })
+        .returning()
+        .execute();
+      const bookings = await db.insert(bookingsTable)
+        .values({ slot_id: slots[0].id, user_id: player.id, team_id: teams[0].id, status: 'confirmed', total_price: '50.00', notes: 'Bring bibs, please' })
+        .returning()
+        .execute();
+
+      const file = await exportFieldSlotsCsv({ field_id: londonFieldId, from: '2030-07-01', to: '2030-07-02' }, owner.id);
+
+      expect(file.filename).toEqual('riverside-2030-07-01-to-2030-07-02.csv');
+      expect(parseCsv(file.content)).toEqual([
+        ['field', 'start', 'end', 'price', 'available', 'booking_id', 'booking_status', 'booked_by', 'team', 'total_price', 'notes'],
+        ['Riverside', '2030-07-01 18:00', '2030-07-01 19:00', '50.00', 'no', bookings[0].id.toString(), 'confirmed', 'Pat Player', 'Sunday Legends', '50.00', 'Bring bibs, please'],
+        ['Riverside', '2030-07-02 18:00', '2030-07-02 19:00', '50.00', 'yes', '', '', '', '', '', '']
+      ]);
+    });
+
+    it('should round-trip through the import format', async () => {
+      await db.insert(fieldSlotsTable)
+        .values({ field_id: fieldId, start_time: new Date('2030-01-07T18:00:00Z'), end_time: new Date('2030-01-07T19:00:00Z'), price: '60.00' })
+        .execute();
+
+      const file = await exportFieldSlotsCsv({ field_id: fieldId, from: '2030-01-07', to: '2030-01-07' }, owner.id);
+      const report = await previewSlotImport({ csv: file.content }, owner.id);
+
+      expect(report.rows[0]).toMatchObject({ field_id: fieldId, start_time: new Date('2030-01-07T18:00:00Z'), price: 60 });
+      expect(report.rows[0].errors).toEqual(['Overlaps a slot that already exists on this field']);
+    });
+
+    it('should only export the owner\'s fields over a bounded range', async () => {
+      await expect(exportFieldSlotsCsv({ field_id: fieldId, from: '2030-01-01', to: '2030-01-31' }, otherOwner.id))
+        .rejects.toThrow(/do not have permission/i);
+      await expect(exportFieldSlotsCsv({ field_id: fieldId, from: '2030-01-31', to: '2030-01-01' }, owner.id))
+        .rejects.toThrow(/must not be before/i);
+      await expect(exportFieldSlotsCsv({ field_id: fieldId, from: '2030-01-01', to: '2031-06-01' }, owner.id))
+        .rejects.toThrow(/at most/i);
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, recoveryCodesTable, twoFactorCredentialsTable, twoFactorChallengesTable } from '../db/schema';
+import { type AuthResponse, type LoginResponse, type TwoFactorChallenge, type User } from '../schema';
+import {
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  createTwoFactorChallenge,
+  verifyTwoFactorLogin,
+  RECOVERY_CODE_COUNT,
+  MAX_CHALLENGE_ATTEMPTS
+} from '../handlers/two_factor';
+import { getTwoFactorPolicy, updateTwoFactorPolicy } from '../handlers/two_factor_policy';
+import { base32Decode, base32Encode, currentTotpStep, totpCode, verifyTotp } from '../utils/totp';
+import { appRouter } from '../index';
+import { createCallerFactory } from '../trpc';
+import { hashToken } from '../utils/tokens';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+const anonymousCaller = () => createCaller({ user: null, token: null, ip: null, userAgent: null, apiKey: null });
+const callerFor = (user: User) => createCaller({ user, token: 'test-token', ip: null, userAgent: null, apiKey: null });
+
+const currentCode = (secret: string) => totpCode(secret, currentTotpStep());
+
+// Enrolls the user and returns the secret with the issued recovery codes
+const enroll = async (userId: number) => {
+  const { secret } = await beginTwoFactorSetup(userId);
+  const { recovery_codes } = await confirmTwoFactorSetup({ code: currentCode(secret) }, userId);
+  // The confirmation code's step is now used up; later checks use the next step
+  return { secret, recovery_codes };
+};
+
+const nextCode = (secret: string) => totpCode(secret, currentTotpStep() + 1);
+
+describe('two-factor authentication', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let user: User;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'owner@example.com',
+        password_hash: await Bun.password.hash('password123'),
+        first_name: 'Olive',
+        last_name: 'Owner',
+        role: 'field_owner',
+        email_verified_at: new Date()
+      })
+      .returning()
+      .execute();
+
+    user = users[0];
+  });
+
+  describe('totp', () => {
+    it('should round-trip base32', () => {
+      const data = Buffer.from('12345678901234567890');
+
+      expect(base32Encode(data)).toEqual('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+      expect(base32Decode(base32Encode(data))).toEqual(data);
+    });
+
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+      // Times 59s and 1111111109s, truncated to 6 digits
+      expect(totpCode(secret, 1)).toEqual('287082');
+      expect(totpCode(secret, 37037036)).toEqual('081804');
+    });
+
+    it('should accept the current code and reject used or malformed ones', () => {
+      const secret = base32Encode(Buffer.from('12345678901234567890'));
+      const step = currentTotpStep();
+
+      expect(verifyTotp(secret, totpCode(secret, step))).toEqual(step);
+      expect(verifyTotp(secret, totpCode(secret, step), step)).toBeNull();
+      expect(verifyTotp(secret, 'abcdef')).toBeNull();
+      expect(verifyTotp(secret, totpCode(secret, step + 5))).toBeNull();
+    });
+  });
+
+  describe('enrollment', () => {
+    it('should return a secret and a provisioning URI', async () => {
+      const result = await beginTwoFactorSetup(user.id);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.otpauth_url).toStartWith('otpauth://totp/');
+      expect(result.otpauth_url).toContain(`secret=${result.secret}`);
+      expect(result.otpauth_url).toContain(encodeURIComponent('owner@example.com'));
+    });
+
+    it('should not enable two-factor until a code is confirmed', async () => {
+      await beginTwoFactorSetup(user.id);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(users[0].two_factor_enabled_at).toBeNull();
+    });
+
+    it('should enable two-factor and issue hashed recovery codes on confirmation', async () => {
+      const { recovery_codes } = await enroll(user.id);
+
+      expect(recovery_codes).toHaveLength(RECOVERY_CODE_COUNT);
+      expect(new Set(recovery_codes).size).toEqual(RECOVERY_CODE_COUNT);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(users[0].two_factor_enabled_at).toBeInstanceOf(Date);
+
+      const stored = await db.select().from(recoveryCodesTable).where(eq(recoveryCodesTable.user_id, user.id)).execute();
+      expect(stored).toHaveLength(RECOVERY_CODE_COUNT);
+      expect(stored.map(code => code.code_hash)).not.toContain(recovery_codes[0]);
+    });
+
+    it('should reject a wrong confirmation code', async () => {
+      await beginTwoFactorSetup(user.id);
+
+      await expect(confirmTwoFactorSetup({ code: '000000' }, user.id)).rejects.toThrow(/invalid two-factor code/i);
+    });
+
+    it('should reject confirmation without a setup in progress', async () => {
+      await expect(confirmTwoFactorSetup({ code: '123456' }, user.id)).rejects.toThrow(/no two-factor setup/i);
+    });
+
+    it('should not start a new setup while two-factor is enabled', async () => {
+      await enroll(user.id);
+
+      await expect(beginTwoFactorSetup(user.id)).rejects.toThrow(/already enabled/i);
+    });
+  });
+
+  describe('login', () => {
+    it('should return a session directly when two-factor is off', async () => {
+      const result = await anonymousCaller().login({ email: 'owner@example.com', password: 'password123' });
+
+      expect('token' in result).toBe(true);
+    });
+
+    it('should return a challenge instead of a session when two-factor is on', async () => {
+      await enroll(user.id);
+
+      const result: LoginResponse = await anonymousCaller().login({ email: 'owner@example.com', password: 'password123' });
+
+      expect('token' in result).toBe(false);
+      expect((result as TwoFactorChallenge).two_factor_required).toBe(true);
+      expect((result as TwoFactorChallenge).challenge_token.length).toBeGreaterThan(20);
+    });
+
+    it('should exchange a challenge and a valid code for a session', async () => {
+      const { secret } = await enroll(user.id);
+      const challenge = await anonymousCaller().login({ email: 'owner@example.com', password: 'password123' }) as TwoFactorChallenge;
+
+      const result: AuthResponse = await anonymousCaller().verifyTwoFactorLogin({
+        challenge_token: challenge.challenge_token,
+        code: nextCode(secret)
+      });
+
+      expect(result.user.id).toEqual(user.id);
+      expect(result.token.length).toBeGreaterThan(20);
+    });
+
+    it('should accept a recovery code once', async () => {
+      const { recovery_codes } = await enroll(user.id);
+      const first = await createTwoFactorChallenge(user);
+      const second = await createTwoFactorChallenge(user);
+
+      const result = await verifyTwoFactorLogin({ challenge_token: first.challenge_token, code: recovery_codes[0].toUpperCase() });
+      expect(result.id).toEqual(user.id);
+
+      await expect(verifyTwoFactorLogin({ challenge_token: second.challenge_token, code: recovery_codes[0] }))
+        .rejects.toThrow(/invalid two-factor code/i);
+    });
+
+    it('should not accept the same authenticator code twice', async () => {
+      const { secret } = await enroll(user.id);
+      const code = nextCode(secret);
+      const first = await createTwoFactorChallenge(user);
+      const second = await createTwoFactorChallenge(user);
+
+      await verifyTwoFactorLogin({ challenge_token: first.challenge_token, code });
+
+      await expect(verifyTwoFactorLogin({ challenge_token: second.challenge_token, code }))
+        .rejects.toThrow(/invalid two-factor code/i);
+    });
+
+    it('should not let a challenge be used twice', async () => {
+      const { secret, recovery_codes } = await enroll(user.id);
+      const challenge = await createTwoFactorChallenge(user);
+
+      await verifyTwoFactorLogin({ challenge_token: challenge.challenge_token, code: nextCode(secret) });
+
+      await expect(verifyTwoFactorLogin({ challenge_token: challenge.challenge_token, code: recovery_codes[0] }))
+        .rejects.toThrow(/invalid or expired two-factor challenge/i);
+    });
+
+    it('should give up on a challenge after too many wrong codes', async () => {
+      const { recovery_codes } = await enroll(user.id);
+      const challenge = await createTwoFactorChallenge(user);
+
+      for (let i = 0; i < MAX_CHALLENGE_ATTEMPTS; i++) {
+        await expect(verifyTwoFactorLogin({ challenge_token: challenge.challenge_token, code: '000000' }))
+          .rejects.toThrow(/invalid two-factor code/i);
+      }
+
+      await expect(verifyTwoFactorLogin({ challenge_token: challenge.challenge_token, code: recovery_codes[0] }))
+        .rejects.toThrow(/invalid or expired two-factor challenge/i);
+    });
+
+    it('should reject an expired challenge', async () => {
+      const { recovery_codes } = await enroll(user.id);
+      const challenge = await createTwoFactorChallenge(user);
+
+      await db.update(twoFactorChallengesTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(twoFactorChallengesTable.token_hash, hashToken(challenge.challenge_token)))
+        .execute();
+
+      await expect(verifyTwoFactorLogin({ challenge_token: challenge.challenge_token, code: recovery_codes[0] }))
+        .rejects.toThrow(/invalid or expired two-factor challenge/i);
+    });
+  });
+
+  describe('disableTwoFactor', () => {
+    it('should remove the secret and recovery codes', async () => {
+      const { secret } = await enroll(user.id);
+
+      const result = await disableTwoFactor({ current_password: 'password123', code: nextCode(secret) }, user.id);
+
+      expect(result.two_factor_enabled_at).toBeNull();
+      expect(await db.select().from(twoFactorCredentialsTable).execute()).toHaveLength(0);
+      expect(await db.select().from(recoveryCodesTable).execute()).toHaveLength(0);
+    });
+
+    it('should require the current password and a valid code', async () => {
+      const { secret } = await enroll(user.id);
+
+      await expect(disableTwoFactor({ current_password: 'wrong', code: nextCode(secret) }, user.id))
+        .rejects.toThrow(/current password is incorrect/i);
+      await expect(disableTwoFactor({ current_password: 'password123', code: '000000' }, user.id))
+        .rejects.toThrow(/invalid two-factor code/i);
+    });
+
+    it('should refuse while the policy requires two-factor for the role', async () => {
+      const { secret } = await enroll(user.id);
+      await updateTwoFactorPolicy({ required_roles: ['field_owner'] }, user.id);
+
+      await expect(disableTwoFactor({ current_password: 'password123', code: nextCode(secret) }, user.id))
+        .rejects.toThrow(/required for your role/i);
+    });
+  });
+
+  describe('regenerateRecoveryCodes', () => {
+    it('should replace the old recovery codes', async () => {
+      const { secret, recovery_codes } = await enroll(user.id);
+
+      const result = await regenerateRecoveryCodes({ code: nextCode(secret) }, user.id);
+
+      expect(result.recovery_codes).toHaveLength(RECOVERY_CODE_COUNT);
+      const challenge = await createTwoFactorChallenge(user);
+      await expect(verifyTwoFactorLogin({ challenge_token: challenge.challenge_token, code: recovery_codes[0] }))
+        .rejects.toThrow(/invalid two-factor code/i);
+    });
+  });
+
+  describe('policy', () => {
+    let admin: User;
+
+    beforeEach(async () => {
+      const admins = await db.insert(usersTable)
+        .values({
+          email: 'admin@example.com',
+          password_hash: 'hash',
+          first_name: 'Ada',
+          last_name: 'Admin',
+          role: 'admin',
+          email_verified_at: new Date()
+        })
+        .returning()
+        .execute();
+
+      admin = admins[0];
+    });
+
+    it('should default to not requiring two-factor', async () => {
+      expect(await getTwoFactorPolicy()).toEqual({ required_roles: [] });
+    });
+
+    it('should store the required roles', async () => {
+      await updateTwoFactorPolicy({ required_roles: ['field_owner', 'field_owner'] }, admin.id);
+
+      expect(await getTwoFactorPolicy()).toEqual({ required_roles: ['field_owner'] });
+    });
+
+    it('should block owner procedures until the owner enrolls', async () => {
+      await callerFor(admin).updateTwoFactorPolicy({ required_roles: ['field_owner'] });
+
+      await expect(callerFor(user).getMyFieldBookings()).rejects.toThrow(/required for your role/i);
+
+      await enroll(user.id);
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(await callerFor(users[0]).getMyFieldBookings()).toEqual([]);
+    });
+
+    it('should still let the owner enroll while blocked', async () => {
+      await updateTwoFactorPolicy({ required_roles: ['field_owner'] }, admin.id);
+
+      const setup = await callerFor(user).beginTwoFactorSetup();
+
+      expect(setup.secret).toBeDefined();
+    });
+
+    it('should not let an admin without two-factor require it for admins', async () => {
+      await expect(updateTwoFactorPolicy({ required_roles: ['admin'] }, admin.id))
+        .rejects.toThrow(/before requiring it for admins/i);
+    });
+
+    it('should only let admins change the policy', async () => {
+      await expect(callerFor(user).updateTwoFactorPolicy({ required_roles: [] })).rejects.toThrow(/permission/i);
+    });
+  });
+});
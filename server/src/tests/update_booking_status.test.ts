@@ -137,6 +137,16 @@ describe('updateBookingStatus', () => {
     expect(updatedBookings[0].updated_at > booking.updated_at).toBe(true);
   });
 
+  it('should only let the booking creator cancel', async () => {
+    await expect(updateBookingStatus(booking.id, 'confirmed', bookingUser.id))
+      .rejects.toThrow(/only the field owner can confirm/i);
+    await expect(updateBookingStatus(booking.id, 'pending', bookingUser.id))
+      .rejects.toThrow(/only the field owner can confirm/i);
+
+    const stored = await db.select().from(bookingsTable).where(eq(bookingsTable.id, booking.id)).execute();
+    expect(stored[0].status).toEqual(booking.status);
+  });
+
   it('should throw error when user is not authorized', async () => {
     await expect(updateBookingStatus(booking.id, 'confirmed', otherUser.id))
       .rejects.toThrow(/unauthorized to update this booking/i);
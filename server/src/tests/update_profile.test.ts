@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, mailOutboxTable, emailVerificationTokensTable } from '../db/schema';
+import { type User } from '../schema';
+import { updateProfile, changePassword, changeEmail } from '../handlers/update_profile';
+import { createSession, getSessionUser } from '../handlers/manage_sessions';
+import { eq } from 'drizzle-orm';
+
+describe('profile updates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let user: User;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values({
+        email: 'player@example.com',
+        password_hash: await Bun.password.hash('password123'),
+        first_name: 'Test',
+        last_name: 'Player',
+        role: 'player',
+        phone: '555-0100',
+        email_verified_at: new Date()
+      })
+      .returning()
+      .execute();
+
+    user = users[0];
+  });
+
+  describe('updateProfile', () => {
+    it('should update the provided fields only', async () => {
+      const result = await updateProfile({ first_name: 'Updated', avatar_url: 'https://example.com/me.png' }, user.id);
+
+      expect(result.first_name).toEqual('Updated');
+      expect(result.last_name).toEqual('Player');
+      expect(result.phone).toEqual('555-0100');
+      expect(result.avatar_url).toEqual('https://example.com/me.png');
+      expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(user.updated_at.getTime());
+    });
+
+    it('should clear the phone number when an empty value is given', async () => {
+      const result = await updateProfile({ phone: '' }, user.id);
+
+      expect(result.phone).toBeNull();
+    });
+
+    it('should persist the changes', async () => {
+      await updateProfile({ last_name: 'Renamed', phone: null }, user.id);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(users[0].last_name).toEqual('Renamed');
+      expect(users[0].phone).toBeNull();
+    });
+
+    it('should not change the email or role', async () => {
+      const result = await updateProfile({ first_name: 'Updated' }, user.id);
+
+      expect(result.email).toEqual('player@example.com');
+      expect(result.role).toEqual('player');
+    });
+
+    it('should not return the password hash', async () => {
+      const result = await updateProfile({ first_name: 'Updated' }, user.id);
+
+      expect(result).not.toHaveProperty('password_hash');
+    });
+
+    it('should throw for a non-existent user', async () => {
+      await expect(updateProfile({ first_name: 'Ghost' }, 99999)).rejects.toThrow(/user not found/i);
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should change the password when the current password is correct', async () => {
+      const result = await changePassword({ current_password: 'password123', new_password: 'newpassword456' }, user.id);
+
+      expect(result).toBe(true);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(await Bun.password.verify('newpassword456', users[0].password_hash)).toBe(true);
+      expect(await Bun.password.verify('password123', users[0].password_hash)).toBe(false);
+    });
+
+    it('should sign out other devices but keep the current session', async () => {
+      const current = await createSession(user);
+      const other = await createSession(user);
+
+      await changePassword({ current_password: 'password123', new_password: 'newpassword456' }, user.id, current.token);
+
+      expect(await getSessionUser(current.token)).not.toBeNull();
+      expect(await getSessionUser(other.token)).toBeNull();
+    });
+
+    it('should reject an incorrect current password', async () => {
+      const { token } = await createSession(user);
+
+      await expect(changePassword({ current_password: 'wrong', new_password: 'newpassword456' }, user.id)).rejects.toThrow(/current password is incorrect/i);
+      expect(await getSessionUser(token)).not.toBeNull();
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(await Bun.password.verify('password123', users[0].password_hash)).toBe(true);
+    });
+  });
+
+  describe('changeEmail', () => {
+    it('should change the email, reset verification and send a new link', async () => {
+      const result = await changeEmail({ email: 'New@Example.com', current_password: 'password123' }, user.id);
+
+      expect(result.email).toEqual('new@example.com');
+      expect(result.email_verified_at).toBeNull();
+
+      const mails = await db.select().from(mailOutboxTable).execute();
+      expect(mails).toHaveLength(1);
+      expect(mails[0].to).toEqual('new@example.com');
+
+      const tokens = await db.select().from(emailVerificationTokensTable).execute();
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].email).toEqual('new@example.com');
+    });
+
+    it('should reject an incorrect current password', async () => {
+      await expect(changeEmail({ email: 'new@example.com', current_password: 'wrong' }, user.id)).rejects.toThrow(/current password is incorrect/i);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(users[0].email).toEqual('player@example.com');
+      expect(users[0].email_verified_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject an email used by another account', async () => {
+      await db.insert(usersTable)
+        .values({ email: 'taken@example.com', password_hash: 'hash', first_name: 'Other', last_name: 'User', role: 'player' })
+        .execute();
+
+      await expect(changeEmail({ email: 'TAKEN@example.com', current_password: 'password123' }, user.id)).rejects.toThrow(/already exists/i);
+    });
+
+    it('should reject the current email', async () => {
+      await expect(changeEmail({ email: 'player@example.com', current_password: 'password123' }, user.id)).rejects.toThrow(/same as the current/i);
+    });
+  });
+});
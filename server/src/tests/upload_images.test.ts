@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { teamsTable, usersTable } from '../db/schema';
+import { imageUploadInputSchema, MAX_IMAGE_BYTES, type ImageUploadInput } from '../schema';
+import { uploadAvatar, uploadTeamLogo } from '../handlers/upload_images';
+import { createLocalDiskStorage, getStorage, keyFromUrl, serveUpload, setStorage, type StorageDriver } from '../storage';
+import { eq } from 'drizzle-orm';
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+
+const createImage = async (width: number, height: number, format: 'png' | 'jpeg' | 'webp' = 'png'): Promise<string> => {
+  const buffer = await sharp({ create: { width, height, channels: 3, background: { r: 20, g: 120, b: 40 } } })
+    .toFormat(format)
+    .toBuffer();
+  return buffer.toString('base64');
+};
+
+const storedFile = async (url: string | null) => {
+  const key = url ? keyFromUrl(url) : null;
+  return key ? getStorage().get(key) : null;
+};
+
+describe('image uploads', () => {
+  let uploadDir: string;
+  let originalStorage: StorageDriver;
+  let userId: number;
+  let otherUserId: number;
+  let teamId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    originalStorage = getStorage();
+    uploadDir = await mkdtemp(join(tmpdir(), 'uploads-'));
+    setStorage(createLocalDiskStorage(uploadDir));
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'captain@test.com', password_hash: 'hash', first_name: 'Team', last_name: 'Captain', role: 'player' },
+        { email: 'other@test.com', password_hash: 'hash', first_name: 'Other', last_name: 'Player', role: 'player' }
+      ])
+      .returning()
+      .execute();
+    userId = users[0].id;
+    otherUserId = users[1].id;
+
+    const teams = await db.insert(teamsTable)
+      .values({ name: 'Logo FC', captain_id: userId, skill_level: 3 })
+      .returning()
+      .execute();
+    teamId = teams[0].id;
+  });
+
+  afterEach(async () => {
+    setStorage(originalStorage);
+    await rm(uploadDir, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  describe('uploadAvatar', () => {
+    it('should store the image with a thumbnail and update the user', async () => {
+      const input: ImageUploadInput = { content_type: 'image/png', data: await createImage(400, 300) };
+
+      const result = await uploadAvatar(input, userId);
+
+      expect(result.avatar_url).toMatch(/^\/api\/uploads\/avatars\/.+\.png$/);
+      expect(result.avatar_thumbnail_url).toMatch(/_thumb\.webp$/);
+
+      const original = await storedFile(result.avatar_url);
+      expect((await sharp(original!).metadata()).width).toEqual(400);
+
+      const thumbnail = await storedFile(result.avatar_thumbnail_url);
+      const thumbnailMetadata = await sharp(thumbnail!).metadata();
+      expect(thumbnailMetadata.format).toEqual('webp');
+      expect(thumbnailMetadata.width).toEqual(256);
+      expect(thumbnailMetadata.height).toEqual(256);
+    });
+
+    it('should not return the password hash', async () => {
+      const result = await uploadAvatar({ content_type: 'image/png', data: await createImage(100, 100) }, userId);
+
+      expect(result).not.toHaveProperty('password_hash');
+    });
+
+    it('should delete the previous avatar files', async () => {
+      const first = await uploadAvatar({ content_type: 'image/png', data: await createImage(100, 100) }, userId);
+      const second = await uploadAvatar({ content_type: 'image/jpeg', data: await createImage(100, 100, 'jpeg') }, userId);
+
+      expect(second.avatar_url).not.toEqual(first.avatar_url);
+      expect(await storedFile(first.avatar_url)).toBeNull();
+      expect(await storedFile(first.avatar_thumbnail_url)).toBeNull();
+      expect(await storedFile(second.avatar_url)).not.toBeNull();
+    });
+
+    it('should strip EXIF metadata from the stored original', async () => {
+      const withExif = await sharp({ create: { width: 120, height: 80, channels: 3, background: { r: 0, g: 0, b: 0 } } })
+        .jpeg()
+        .withExif({ IFD0: { Copyright: 'secret' } })
+        .toBuffer();
+
+      const result = await uploadAvatar({ content_type: 'image/jpeg', data: withExif.toString('base64') }, userId);
+
+      const metadata = await sharp((await storedFile(result.avatar_url))!).metadata();
+      expect(metadata.exif).toBeUndefined();
+    });
+
+    it('should reject content that does not match the declared type', async () => {
+      const input: ImageUploadInput = { content_type: 'image/jpeg', data: await createImage(100, 100, 'png') };
+
+      await expect(uploadAvatar(input, userId)).rejects.toThrow(/does not match/i);
+    });
+
+    it('should reject data that is not an image', async () => {
+      const input: ImageUploadInput = { content_type: 'image/png', data: Buffer.from('not an image').toString('base64') };
+
+      await expect(uploadAvatar(input, userId)).rejects.toThrow(/not a valid image/i);
+    });
+
+    it('should reject images that are too small', async () => {
+      const input: ImageUploadInput = { content_type: 'image/png', data: await createImage(32, 100) };
+
+      await expect(uploadAvatar(input, userId)).rejects.toThrow(/at least 64x64/i);
+    });
+
+    it('should reject files over the size limit', async () => {
+      const input: ImageUploadInput = { content_type: 'image/png', data: Buffer.alloc(6 * 1024 * 1024).toString('base64') };
+
+      await expect(uploadAvatar(input, userId)).rejects.toThrow(/5MB or smaller/i);
+    });
+
+    it('should refuse oversized payloads before decoding them', async () => {
+      const atLimit = Buffer.alloc(MAX_IMAGE_BYTES).toString('base64');
+      const overLimit = Buffer.alloc(MAX_IMAGE_BYTES + 1024).toString('base64');
+
+      expect(imageUploadInputSchema.safeParse({ content_type: 'image/png', data: atLimit }).success).toBe(true);
+      expect(imageUploadInputSchema.safeParse({ content_type: 'image/png', data: overLimit }).success).toBe(false);
+    });
+
+    it('should keep a hand-entered avatar URL when replacing it', async () => {
+      await db.update(usersTable)
+        .set({ avatar_url: 'https://example.com/me.png' })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      const result = await uploadAvatar({ content_type: 'image/png', data: await createImage(100, 100) }, userId);
+
+      expect(result.avatar_url).toMatch(/^\/api\/uploads\//);
+    });
+
+    it("should not delete another user's file that the avatar URL points at", async () => {
+      const other = await uploadAvatar({ content_type: 'image/png', data: await createImage(100, 100) }, otherUserId);
+      const traversal = other.avatar_url!.replace(`avatars/${otherUserId}/`, `avatars/${userId}/../${otherUserId}/`);
+      await db.update(usersTable)
+        .set({ avatar_url: traversal, avatar_thumbnail_url: other.avatar_thumbnail_url })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      await uploadAvatar({ content_type: 'image/png', data: await createImage(100, 100) }, userId);
+
+      expect(await storedFile(other.avatar_url)).not.toBeNull();
+      expect(await storedFile(other.avatar_thumbnail_url)).not.toBeNull();
+    });
+  });
+
+  describe('uploadTeamLogo', () => {
+    it('should store the logo for the captain', async () => {
+      const result = await uploadTeamLogo({ team_id: teamId, content_type: 'image/webp', data: await createImage(200, 200, 'webp') }, userId);
+
+      expect(result.logo_url).toMatch(/^\/api\/uploads\/teams\/\d+\/.+\.webp$/);
+      expect(result.logo_thumbnail_url).toMatch(/_thumb\.webp$/);
+      expect(await storedFile(result.logo_url)).not.toBeNull();
+
+      const teams = await db.select().from(teamsTable).where(eq(teamsTable.id, teamId)).execute();
+      expect(teams[0].logo_url).toEqual(result.logo_url);
+    });
+
+    it('should reject uploads from non-captains', async () => {
+      const input = { team_id: teamId, content_type: 'image/png' as const, data: await createImage(100, 100) };
+
+      await expect(uploadTeamLogo(input, otherUserId)).rejects.toThrow(/only the team captain/i);
+    });
+
+    it('should throw for a non-existent team', async () => {
+      const input = { team_id: 99999, content_type: 'image/png' as const, data: await createImage(100, 100) };
+
+      await expect(uploadTeamLogo(input, userId)).rejects.toThrow(/team not found/i);
+    });
+  });
+
+  describe('serveUpload', () => {
+    const request = async (url: string) => {
+      const res = { statusCode: 200, setHeader: () => {}, end: () => {} };
+      const handled = await serveUpload({ method: 'GET', url } as IncomingMessage, res as unknown as ServerResponse);
+      return { handled, status: res.statusCode };
+    };
+
+    it('should serve stored files and answer 404 for unknown keys', async () => {
+      const result = await uploadAvatar({ content_type: 'image/png', data: await createImage(100, 100) }, userId);
+
+      expect(await request(`/uploads/${keyFromUrl(result.avatar_url!)}`)).toEqual({ handled: true, status: 200 });
+      expect(await request('/uploads/avatars/missing.png')).toEqual({ handled: true, status: 404 });
+    });
+
+    it('should answer 400 for malformed escapes instead of throwing', async () => {
+      expect(await request('/uploads/%E0')).toEqual({ handled: true, status: 400 });
+    });
+  });
+});
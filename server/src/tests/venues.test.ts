@@ -0,0 +1,282 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { bookingsTable, fieldSlotsTable, fieldsTable, usersTable } from '../db/schema';
+import { type Venue } from '../schema';
+import {
+  createVenue,
+  updateVenue,
+  deleteVenue,
+  getVenuesByOwner,
+  getVenueSchedule,
+  setVenueSchedule,
+  getVenueAvailability
+} from '../handlers/venues';
+import { addVenuePhoto, removeVenuePhoto, getVenuePhotos } from '../handlers/manage_venue_photos';
+import { createField } from '../handlers/create_field';
+import { updateField } from '../handlers/update_field';
+import { createBooking } from '../handlers/create_booking';
+import { searchFields } from '../handlers/get_fields';
+import { getFieldSchedule, setFieldSchedule, previewFieldSlots } from '../handlers/field_schedule';
+import { createLocalDiskStorage, getStorage, setStorage } from '../storage';
+import { eq } from 'drizzle-orm';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('venues', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let otherOwnerId: number;
+  let venue: Venue;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password_hash: 'hash', first_name: 'Field', last_name: 'Owner', role: 'field_owner' },
+        { email: 'other@test.com', password_hash: 'hash', first_name: 'Other', last_name: 'Owner', role: 'field_owner' }
+      ])
+      .returning()
+      .execute();
+    ownerId = users[0].id;
+    otherOwnerId = users[1].id;
+
+    venue = await createVenue({
+      name: 'Riverside Sports Park',
+      address: '1 River Rd',
+      latitude: 51.5072,
+      longitude: -0.1276,
+      amenities: ['parking', 'changing_rooms', 'parking']
+    }, ownerId);
+  });
+
+  const createPitch = (name: string, venueId: number = venue.id) =>
+    createField({ venue_id: venueId, name, hourly_rate: 60, surface: 'artificial_turf', formats: ['5v5'] }, ownerId);
+
+  describe('createField', () => {
+    it('should give a pitch its venue\'s address, location and amenities', async () => {
+      const pitch = await createField({
+        venue_id: venue.id,
+        name: 'Pitch 1',
+        address: 'Ignored',
+        amenities: ['cafe'],
+        hourly_rate: 60
+      }, ownerId);
+
+      expect(venue.amenities).toEqual(['parking', 'changing_rooms']);
+      expect(pitch).toMatchObject({
+        venue_id: venue.id,
+        owner_id: ownerId,
+        address: '1 River Rd',
+        latitude: 51.5072,
+        longitude: -0.1276,
+        amenities: ['parking', 'changing_rooms']
+      });
+    });
+
+    it('should only add pitches to the owner\'s venues and need an address otherwise', async () => {
+      await expect(createField({ venue_id: venue.id, name: 'Pitch 1', hourly_rate: 60 }, otherOwnerId))
+        .rejects.toThrow(/do not have permission/i);
+      await expect(createField({ name: 'Standalone', hourly_rate: 60 }, ownerId)).rejects.toThrow(/needs an address/i);
+    });
+  });
+
+  describe('updateVenue', () => {
+    it('should copy the new address and amenities to every pitch', async () => {
+      const pitches = [await createPitch('Pitch 1'), await createPitch('Pitch 2')];
+      const standalone = await createField({ name: 'Elsewhere', address: '9 Far Lane', hourly_rate: 40 }, ownerId);
+
+      const updated = await updateVenue({ id: venue.id, address: '2 River Rd', latitude: 52, longitude: 0, amenities: ['cafe'] }, ownerId);
+      expect(updated).toMatchObject({ address: '2 River Rd', latitude: 52, longitude: 0, amenities: ['cafe'] });
+
+      const stored = await db.select().from(fieldsTable).execute();
+      for (const pitch of pitches) {
+        expect(stored.find(field => field.id === pitch.id)).toMatchObject({
+          address: '2 River Rd',
+          latitude: 52,
+          longitude: 0,
+          amenities: ['cafe']
+        });
+      }
+      expect(stored.find(field => field.id === standalone.id)?.address).toEqual('9 Far Lane');
+
+      const found = await searchFields({ near: { latitude: 52, longitude: 0, radius_km: 1 } });
+      expect(found.map(field => field.name).sort()).toEqual(['Pitch 1', 'Pitch 2']);
+    });
+
+    it('should reject other owners', async () => {
+      await expect(updateVenue({ id: venue.id, name: 'Taken' }, otherOwnerId)).rejects.toThrow(/do not have permission/i);
+    });
+  });
+
+  describe('updateField', () => {
+    it('should send shared details to the venue and let pitches join or leave', async () => {
+      const pitch = await createPitch('Pitch 1');
+      await expect(updateField({ id: pitch.id, address: '3 Side St' }, ownerId)).rejects.toThrow(/edit the venue/i);
+      expect((await updateField({ id: pitch.id, name: 'Main Pitch' }, ownerId)).name).toEqual('Main Pitch');
+
+      const left = await updateField({ id: pitch.id, venue_id: null, address: '3 Side St' }, ownerId);
+      expect(left).toMatchObject({ venue_id: null, address: '3 Side St' });
+
+      const rejoined = await updateField({ id: pitch.id, venue_id: venue.id }, ownerId);
+      expect(rejoined).toMatchObject({ venue_id: venue.id, address: '1 River Rd', amenities: ['parking', 'changing_rooms'] });
+
+      const otherVenue = await createVenue({ name: 'Not Mine', address: '5 Other Rd' }, otherOwnerId);
+      await expect(updateField({ id: pitch.id, venue_id: otherVenue.id }, ownerId)).rejects.toThrow(/do not have permission/i);
+    });
+  });
+
+  describe('opening hours', () => {
+    const mondayEvenings = [{ day_of_week: 1, opens_at: '18:00', closes_at: '21:00' }];
+
+    it('should apply the venue\'s hours and timezone to pitches without their own', async () => {
+      const pitch = await createPitch('Pitch 1');
+      const schedule = await setVenueSchedule({ venue_id: venue.id, timezone: 'Europe/London', opening_hours: mondayEvenings }, ownerId);
+      expect(schedule).toEqual(await getVenueSchedule(venue.id));
+
+      expect(await getFieldSchedule(pitch.id)).toEqual({
+        field_id: pitch.id,
+        slot_length_minutes: 60,
+        timezone: 'Europe/London',
+        opening_hours: mondayEvenings,
+        uses_venue_hours: true
+      });
+
+      const preview = await previewFieldSlots({ field_id: pitch.id, from: '2030-01-07', to: '2030-01-07' }, ownerId);
+      expect(preview.slots.map(slot => slot.start_time.toISOString())).toEqual([
+        '2030-01-07T18:00:00.000Z',
+        '2030-01-07T19:00:00.000Z',
+        '2030-01-07T20:00:00.000Z'
+      ]);
+    });
+
+    it('should let a pitch keep hours of its own, in the venue\'s timezone', async () => {
+      const pitch = await createPitch('Pitch 1');
+      await setVenueSchedule({ venue_id: venue.id, timezone: 'Europe/London', opening_hours: mondayEvenings }, ownerId);
+
+      await expect(setFieldSchedule({
+        field_id: pitch.id,
+        slot_length_minutes: 60,
+        timezone: 'UTC',
+        opening_hours: []
+      }, ownerId)).rejects.toThrow(/venue's time zone/i);
+
+      const own = await setFieldSchedule({
+        field_id: pitch.id,
+        slot_length_minutes: 90,
+        timezone: 'Europe/London',
+        opening_hours: [{ day_of_week: 6, opens_at: '09:00', closes_at: '12:00' }]
+      }, ownerId);
+      expect(own).toMatchObject({ uses_venue_hours: false, opening_hours: [{ day_of_week: 6, opens_at: '09:00', closes_at: '12:00' }] });
+
+      await expect(setVenueSchedule({
+        venue_id: venue.id,
+        timezone: 'UTC',
+        opening_hours: [{ day_of_week: 1, opens_at: '21:00', closes_at: '18:00' }]
+      }, ownerId)).rejects.toThrow(/close after they open/i);
+    });
+  });
+
+  describe('getVenueAvailability', () => {
+    it('should group free pitches of a venue by start time', async () => {
+      const [pitch1, pitch2, pitch3] = [await createPitch('Pitch 1'), await createPitch('Pitch 2'), await createPitch('Pitch 3')];
+      const standalone = await createField({ name: 'Elsewhere', address: '9 Far Lane', hourly_rate: 40 }, ownerId);
+      const seven = new Date(Date.now() + 24 * HOUR);
+      const eight = new Date(seven.getTime() + HOUR);
+
+      await db.insert(fieldSlotsTable)
+        .values([
+          ...[pitch1, pitch2, pitch3].map(pitch => ({ field_id: pitch.id, start_time: seven, end_time: eight, price: '60.00' })),
+          { field_id: pitch1.id, start_time: eight, end_time: new Date(eight.getTime() + HOUR), price: '60.00' },
+          { field_id: pitch2.id, start_time: eight, end_time: new Date(eight.getTime() + HOUR), price: '60.00', is_available: false },
+          { field_id: pitch3.id, start_time: new Date(Date.now() - 2 * HOUR), end_time: new Date(Date.now() - HOUR), price: '60.00' },
+          { field_id: standalone.id, start_time: seven, end_time: eight, price: '40.00' }
+        ])
+        .execute();
+
+      const availability = await getVenueAvailability();
+      expect(availability.map(group => ({ venue: group.venue.id, start: group.start_time, pitches: group.slots.map(slot => slot.field_id) })))
+        .toEqual([
+          { venue: venue.id, start: seven, pitches: [pitch1.id, pitch2.id, pitch3.id] },
+          { venue: venue.id, start: eight, pitches: [pitch1.id] }
+        ]);
+      expect(availability[0].slots[0].price).toEqual(60);
+
+      await db.update(fieldsTable).set({ formats: ['7v7'] }).where(eq(fieldsTable.id, pitch3.id)).execute();
+      const fiveASide = await getVenueAvailability({ format: '5v5' });
+      expect(fiveASide[0].slots.map(slot => slot.field_id)).toEqual([pitch1.id, pitch2.id]);
+    });
+
+    it('should count booked pitches as taken', async () => {
+      const [pitch1, pitch2] = [await createPitch('Pitch 1'), await createPitch('Pitch 2')];
+      const seven = new Date(Date.now() + 24 * HOUR);
+      const slots = await db.insert(fieldSlotsTable)
+        .values([pitch1, pitch2].map(pitch => ({ field_id: pitch.id, start_time: seven, end_time: new Date(seven.getTime() + HOUR), price: '60.00' })))
+        .returning()
+        .execute();
+      expect((await getVenueAvailability())[0].slots).toHaveLength(2);
+
+      const booking = await createBooking({ slot_id: slots[0].id }, otherOwnerId);
+      const availability = await getVenueAvailability();
+      expect(availability[0].slots.map(slot => slot.field_id)).toEqual([pitch2.id]);
+
+      // A cancelled booking frees the pitch again
+      await db.update(bookingsTable).set({ status: 'cancelled' }).where(eq(bookingsTable.id, booking.id)).execute();
+      expect((await getVenueAvailability())[0].slots).toHaveLength(2);
+    });
+  });
+
+  describe('getVenuesByOwner and deleteVenue', () => {
+    it('should list venues with their pitches and only delete empty ones', async () => {
+      const pitch = await createPitch('Pitch 1');
+      const empty = await createVenue({ name: 'Annex', address: '3 River Rd' }, ownerId);
+
+      const venues = await getVenuesByOwner(ownerId);
+      expect(venues.map(v => [v.name, v.pitches.map(p => p.id)])).toEqual([['Annex', []], ['Riverside Sports Park', [pitch.id]]]);
+      expect(venues[1].pitches[0].hourly_rate).toEqual(60);
+
+      await expect(deleteVenue(venue.id, ownerId)).rejects.toThrow(/pitches before deleting/i);
+      await expect(deleteVenue(empty.id, otherOwnerId)).rejects.toThrow(/do not have permission/i);
+      expect(await deleteVenue(empty.id, ownerId)).toBe(true);
+      expect((await getVenuesByOwner(ownerId)).map(v => v.id)).toEqual([venue.id]);
+    });
+  });
+
+  describe('venue photos', () => {
+    let uploadDir: string;
+    let originalStorage: ReturnType<typeof getStorage>;
+
+    beforeEach(async () => {
+      originalStorage = getStorage();
+      uploadDir = await mkdtemp(join(tmpdir(), 'uploads-'));
+      setStorage(createLocalDiskStorage(uploadDir));
+    });
+
+    afterEach(async () => {
+      setStorage(originalStorage);
+      await rm(uploadDir, { recursive: true, force: true });
+    });
+
+    it('should add photos to the owner\'s venue gallery and remove them', async () => {
+      const image = await sharp({ create: { width: 800, height: 600, channels: 3, background: { r: 40, g: 160, b: 60 } } })
+        .jpeg()
+        .toBuffer();
+      const upload = { venue_id: venue.id, content_type: 'image/jpeg' as const, data: image.toString('base64') };
+
+      await expect(addVenuePhoto(upload, otherOwnerId)).rejects.toThrow(/do not have permission/i);
+
+      const photo = await addVenuePhoto(upload, ownerId);
+      expect(photo).toMatchObject({ venue_id: venue.id, position: 0, width: 800, height: 600 });
+      expect(await getVenuePhotos(venue.id)).toEqual([photo]);
+
+      await expect(removeVenuePhoto(photo.id, otherOwnerId)).rejects.toThrow(/do not have permission/i);
+      expect(await removeVenuePhoto(photo.id, ownerId)).toBe(true);
+      expect(await getVenuePhotos(venue.id)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { type ApiKeyScope, type User, type UserRole } from './schema';
+import { getSessionUser } from './handlers/manage_sessions';
+import { getApiKeyUser, isApiKey } from './handlers/manage_api_keys';
+import { isTwoFactorRequired } from './handlers/two_factor_policy';
+import { isSuspended, suspensionMessage } from './utils/suspension';
+import { checkRateLimit, RateLimitExceededError, type RateLimitConfig } from './rate_limit';
+import { SlotValidationError } from './utils/slot_validation';
+
+export interface Context {
+  user: User | null;
+  token: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  apiKey: { id: number; scopes: ApiKeyScope[] } | null; // Set when the bearer token is an API key rather than a session
+}
+
+// Procedures reachable with an API key name the scope they require
+export interface Meta {
+  apiKeyScope?: ApiKeyScope;
+}
+
+// Proxies allowed to report the client address; Caddy runs in the same container and connects over loopback
+const TRUSTED_PROXIES = (process.env['TRUSTED_PROXIES'] || '127.0.0.1,::1,::ffff:127.0.0.1')
+  .split(',')
+  .map(address => address.trim())
+  .filter(Boolean);
+
+// The client is served behind Caddy, which sets X-Forwarded-For to the real client address.
+// The API port is published too, so the header is only believed when a trusted proxy sent the request.
+export const getClientIp = (req: Pick<CreateHTTPContextOptions['req'], 'headers' | 'socket'>): string | null => {
+  const remote = req.socket?.remoteAddress || null;
+  if (!remote || !TRUSTED_PROXIES.includes(remote)) {
+    return remote;
+  }
+
+  const forwarded = req.headers['x-forwarded-for'];
+  const entries = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  // A proxy appends the address it saw, so the last entry is the one our proxy vouches for
+  return entries[entries.length - 1] || remote;
+};
+
+// Resolves the `Authorization: Bearer <token>` header, a session token or an API key, into the calling user
+export async function createContext({ req }: CreateHTTPContextOptions): Promise<Context> {
+  const ip = getClientIp(req);
+  const userAgent = req.headers['user-agent'] || null;
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null;
+
+  if (!token) {
+    return { user: null, token: null, ip, userAgent, apiKey: null };
+  }
+
+  if (isApiKey(token)) {
+    const resolved = await getApiKeyUser(token);
+    return resolved
+      ? { user: resolved.user, token, ip, userAgent, apiKey: { id: resolved.apiKeyId, scopes: resolved.scopes } }
+      : { user: null, token: null, ip, userAgent, apiKey: null };
+  }
+
+  const user = await getSessionUser(token);
+  return { user, token: user ? token : null, ip, userAgent, apiKey: null };
+}
+
+const t = initTRPC.context<Context>().meta<Meta>().create({
+  transformer: superjson,
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Seconds to wait before retrying a rate limited request, also sent as the Retry-After header
+        retryAfterSeconds: error.cause instanceof RateLimitExceededError ? error.cause.retryAfterSeconds : null,
+        // Which slot rule a rejected slot broke
+        slotErrorCode: error.cause instanceof SlotValidationError ? error.cause.code : null
+      }
+    };
+  }
+});
+
+export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
+
+// API keys only reach procedures whose meta names one of the key's scopes, public ones included
+export const publicProcedure = t.procedure.use(({ ctx, meta, next }) => {
+  if (ctx.apiKey && !(meta?.apiKeyScope && ctx.apiKey.scopes.includes(meta.apiKeyScope))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'This API key is not allowed to call this procedure' });
+  }
+
+  return next();
+});
+
+// Requires a valid session (or a permitted API key) and narrows ctx.user to a non-null User.
+// Suspended accounts pass, so they can still read their data and log out.
+export const sessionProcedure = publicProcedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.token) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return next({ ctx: { ...ctx, user: ctx.user, token: ctx.token } });
+});
+
+// Like sessionProcedure, but suspended accounts cannot run mutations
+export const protectedProcedure = sessionProcedure.use(({ ctx, type, next }) => {
+  if (type === 'mutation' && isSuspended(ctx.user)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: suspensionMessage(ctx.user) });
+  }
+
+  return next();
+});
+
+// Requires the caller to have confirmed their email address
+export const verifiedProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (!ctx.user.email_verified_at) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Please verify your email address first' });
+  }
+
+  return next();
+});
+
+// Restricts a procedure to callers holding one of the given roles.
+// Roles covered by the two-factor policy must also have completed enrollment.
+const requireRole = (...roles: UserRole[]) =>
+  protectedProcedure.use(async ({ ctx, next }) => {
+    if (!roles.includes(ctx.user.role)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have permission to perform this action' });
+    }
+
+    if (!ctx.user.two_factor_enabled_at && await isTwoFactorRequired(ctx.user.role)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication is required for your role' });
+    }
+
+    return next();
+  });
+
+// The input is not validated yet when the middleware runs, so only a string email counts
+const emailOf = (input: unknown): string | null =>
+  typeof input === 'object' && input !== null && 'email' in input && typeof input.email === 'string'
+    ? input.email
+    : null;
+
+// Applies per-user, per-IP and per-email token buckets to a procedure; see RATE_LIMITS for the configured limits.
+// Chain it after the auth middleware so the per-user bucket can see ctx.user.
+export const rateLimit = (name: string, config: RateLimitConfig) =>
+  t.middleware(async ({ ctx, next, getRawInput }) => {
+    const email = config.perEmail ? emailOf(await getRawInput()) : null;
+    const result = await checkRateLimit(name, config, { userId: ctx.user?.id ?? null, ip: ctx.ip, email });
+
+    if (!result.allowed) {
+      const cause = new RateLimitExceededError(Math.ceil(result.retryAfterMs / 1000));
+      throw new TRPCError({ code: 'TOO_MANY_REQUESTS', message: cause.message, cause });
+    }
+
+    return next();
+  });
+
+// Sets the Retry-After header on HTTP responses for rate limited calls
+export const retryAfterResponseMeta = ({ errors }: { errors: TRPCError[] }) => {
+  const retryAfter = errors
+    .map(error => error.cause)
+    .filter((cause): cause is RateLimitExceededError => cause instanceof RateLimitExceededError)
+    .reduce((longest, cause) => Math.max(longest, cause.retryAfterSeconds), 0);
+
+  return retryAfter > 0 ? { headers: { 'Retry-After': retryAfter.toString() } } : {};
+};
+
+export const ownerProcedure = requireRole('field_owner');
+export const adminProcedure = requireRole('admin');
@@ -0,0 +1,81 @@
+// Minimal RFC 4180 CSV reading and writing for spreadsheet imports and exports
+
+export type CsvValue = string | number | boolean | null;
+
+// Splits CSV text into rows of cells. Handles quoted cells containing commas, quotes and line breaks,
+// CRLF line endings and a leading byte order mark. Blank lines are kept as [''] so row numbers
+// still match what a spreadsheet shows.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let rowStarted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    rows.push(row);
+    row = [];
+    cell = '';
+    rowStarted = false;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    rowStarted ||= char !== '\n' && char !== '\r';
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('The CSV file has an unterminated quoted value');
+  }
+
+  if (rowStarted) {
+    endRow();
+  }
+
+  return rows;
+};
+
+// Text starting with these is run as a formula by spreadsheet apps, so it is prefixed to stay inert
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const formatCell = (value: CsvValue): string => {
+  if (value === null) {
+    return '';
+  }
+
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]): string =>
+  rows.map(row => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
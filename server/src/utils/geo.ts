@@ -0,0 +1,24 @@
+import { sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import { type GeoPoint } from '../schema';
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle distance between two points (haversine formula)
+export const distanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// The same distance computed by Postgres, so it can be filtered and sorted on.
+// Null when the row has no coordinates, which keeps such rows out of "<= radius" filters.
+export const distanceKmSql = (latitude: AnyColumn, longitude: AnyColumn, from: GeoPoint): SQL<number | null> => sql<number | null>`(
+  2 * ${EARTH_RADIUS_KM} * asin(least(1, sqrt(
+    power(sin(radians(${latitude} - ${from.latitude}::double precision) / 2), 2)
+    + cos(radians(${from.latitude}::double precision)) * cos(radians(${latitude})) * power(sin(radians(${longitude} - ${from.longitude}::double precision) / 2), 2)
+  )))
+)`;
@@ -0,0 +1,91 @@
+import sharp from 'sharp';
+import { randomUUID } from 'crypto';
+import { posix } from 'path';
+import { MAX_IMAGE_BYTES, type ImageContentType, type ImageUploadInput, type StoredImage } from '../schema';
+import { getStorage, keyFromUrl } from '../storage';
+
+export const MIN_IMAGE_DIMENSION = 64;
+export const MAX_IMAGE_DIMENSION = 6000;
+const THUMBNAIL_SIZE = 256;
+
+// sharp reports the decoded format; it has to agree with the declared content type
+const FORMATS: Record<ImageContentType, { format: string; extension: string }> = {
+  'image/jpeg': { format: 'jpeg', extension: 'jpg' },
+  'image/png': { format: 'png', extension: 'png' },
+  'image/webp': { format: 'webp', extension: 'webp' }
+};
+
+// Validates an uploaded image, then stores a metadata-stripped original plus a square thumbnail
+export async function storeImage(input: ImageUploadInput, prefix: string): Promise<StoredImage> {
+  const data = Buffer.from(input.data, 'base64');
+
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new Error(`Image must be ${MAX_IMAGE_BYTES / (1024 * 1024)}MB or smaller`);
+  }
+
+  const { format, extension } = FORMATS[input.content_type];
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(data).metadata();
+  } catch {
+    throw new Error('File is not a valid image');
+  }
+
+  if (metadata.format !== format) {
+    throw new Error(`File content does not match content type ${input.content_type}`);
+  }
+
+  // EXIF orientation can swap the visible width and height
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = (rotated ? metadata.height : metadata.width) ?? 0;
+  const height = (rotated ? metadata.width : metadata.height) ?? 0;
+
+  if (width < MIN_IMAGE_DIMENSION || height < MIN_IMAGE_DIMENSION) {
+    throw new Error(`Image must be at least ${MIN_IMAGE_DIMENSION}x${MIN_IMAGE_DIMENSION} pixels`);
+  }
+
+  if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION) {
+    throw new Error(`Image must be at most ${MAX_IMAGE_DIMENSION}x${MAX_IMAGE_DIMENSION} pixels`);
+  }
+
+  // Re-encoding drops EXIF data such as GPS coordinates
+  const [original, thumbnail] = await Promise.all([
+    sharp(data).rotate().toFormat(format as keyof sharp.FormatEnum).toBuffer(),
+    sharp(data).rotate().resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' }).webp().toBuffer()
+  ]);
+
+  const id = randomUUID();
+  const key = `${prefix}/${id}.${extension}`;
+  const thumbnailKey = `${prefix}/${id}_thumb.webp`;
+  const storage = getStorage();
+
+  await Promise.all([
+    storage.put(key, original, input.content_type),
+    storage.put(thumbnailKey, thumbnail, 'image/webp')
+  ]);
+
+  return {
+    url: storage.url(key),
+    thumbnail_url: storage.url(thumbnailKey),
+    width,
+    height
+  };
+}
+
+const storedKeys = (urls: (string | null)[]): string[] => urls
+  .map(url => (url ? keyFromUrl(url) : null))
+  .filter((key): key is string => key !== null);
+
+// Removes stored files by URL; URLs that did not come from our storage are ignored
+export async function deleteStoredImages(...urls: (string | null)[]): Promise<void> {
+  const storage = getStorage();
+  await Promise.all(storedKeys(urls).map(key => storage.delete(key)));
+}
+
+// As deleteStoredImages, but only for keys under prefix - for URLs a user can set by hand,
+// which may point at someone else's upload
+export async function deleteStoredImagesUnder(prefix: string, ...urls: (string | null)[]): Promise<void> {
+  const storage = getStorage();
+  const keys = storedKeys(urls).filter(key => posix.normalize(key).startsWith(`${prefix}/`));
+  await Promise.all(keys.map(key => storage.delete(key)));
+}
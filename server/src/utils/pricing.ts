@@ -0,0 +1,52 @@
+import { type PriceAdjustment, type PricingRule } from '../schema';
+import { minutesOfDay, zonedParts } from './time';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+const adjustmentFor = (rule: PricingRule, base: number): PriceAdjustment => ({
+  rule_id: rule.id,
+  type: rule.type,
+  name: rule.name,
+  percent: rule.adjustment_percent,
+  amount: roundToCents(base * rule.adjustment_percent / 100)
+});
+
+// Rules that depend only on when the slot is played, read in the field's time zone.
+// These are fixed when the slot is generated, so later rule edits don't reprice existing slots.
+export const calendarAdjustments = (rules: PricingRule[], base: number, startTime: Date, timeZone: string): PriceAdjustment[] => {
+  const local = zonedParts(startTime, timeZone);
+
+  return rules
+    .filter(rule => {
+      switch (rule.type) {
+        case 'peak':
+        case 'off_peak':
+          return (rule.days_of_week.length === 0 || rule.days_of_week.includes(local.dayOfWeek))
+            && local.minutes >= minutesOfDay(rule.starts_at!)
+            && local.minutes < minutesOfDay(rule.ends_at!);
+        case 'weekend':
+          return local.dayOfWeek === 0 || local.dayOfWeek === 6;
+        case 'holiday':
+          return rule.holiday_date === local.date;
+        default:
+          return false;
+      }
+    })
+    .map(rule => adjustmentFor(rule, base));
+};
+
+// Last-minute rules depend on when the booking is made, so they are applied when quoting.
+// Only the tightest window that has opened counts: a 2-hour rule replaces a 24-hour one rather than stacking.
+export const lastMinuteAdjustment = (rules: PricingRule[], base: number, startTime: Date, now: Date): PriceAdjustment | null => {
+  const hoursLeft = (startTime.getTime() - now.getTime()) / MS_PER_HOUR;
+  const [rule] = rules
+    .filter(rule => rule.type === 'last_minute' && rule.hours_before !== null && hoursLeft > 0 && hoursLeft <= rule.hours_before)
+    .sort((a, b) => a.hours_before! - b.hours_before!);
+
+  return rule ? adjustmentFor(rule, base) : null;
+};
+
+export const totalPrice = (base: number, adjustments: PriceAdjustment[]): number =>
+  roundToCents(Math.max(0, base + adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0)));
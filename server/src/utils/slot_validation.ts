@@ -0,0 +1,47 @@
+import { type SlotValidationErrorCode } from '../schema';
+
+export const MIN_SLOT_MINUTES = 15;
+export const MAX_SLOT_MINUTES = 8 * 60;
+
+// Raised for slots that break the field's booking rules; the code is passed to the client
+// in the error's data so the form can point at the offending input
+export class SlotValidationError extends Error {
+  constructor(public readonly code: SlotValidationErrorCode, message: string) {
+    super(message);
+    this.name = 'SlotValidationError';
+  }
+}
+
+export const validateSlotTimes = (startTime: Date, endTime: Date, now: Date = new Date()): void => {
+  if (endTime <= startTime) {
+    throw new SlotValidationError('INVALID_RANGE', 'A slot must end after it starts');
+  }
+
+  if (startTime < now) {
+    throw new SlotValidationError('IN_PAST', 'Slots cannot start in the past');
+  }
+
+  const minutes = (endTime.getTime() - startTime.getTime()) / (60 * 1000);
+  if (minutes < MIN_SLOT_MINUTES) {
+    throw new SlotValidationError('TOO_SHORT', `Slots must be at least ${MIN_SLOT_MINUTES} minutes long`);
+  }
+
+  if (minutes > MAX_SLOT_MINUTES) {
+    throw new SlotValidationError('TOO_LONG', `Slots can be at most ${MAX_SLOT_MINUTES / 60} hours long`);
+  }
+};
+
+// Postgres exclusion_violation, raised by field_slots_no_overlap (see db/constraints.ts)
+const EXCLUSION_VIOLATION = '23P01';
+
+// Turns the database's overlap rejection into a SlotValidationError, rethrowing anything else
+export const rethrowSlotOverlap = (error: unknown): never => {
+  const code = (error as { code?: string; cause?: { code?: string } })?.code
+    ?? (error as { cause?: { code?: string } })?.cause?.code;
+
+  if (code === EXCLUSION_VIOLATION) {
+    throw new SlotValidationError('OVERLAP', 'This slot overlaps another slot on the same field');
+  }
+
+  throw error;
+};
@@ -0,0 +1,10 @@
+import { type User } from '../schema';
+
+// A suspension is active from suspended_at until suspended_until; without an end date it is a ban
+export const isSuspended = (user: Pick<User, 'suspended_at' | 'suspended_until'>, now: Date = new Date()): boolean =>
+  user.suspended_at !== null && (user.suspended_until === null || user.suspended_until > now);
+
+export const suspensionMessage = (user: Pick<User, 'suspended_until'>): string =>
+  user.suspended_until
+    ? `This account is suspended until ${user.suspended_until.toISOString()}`
+    : 'This account has been banned';
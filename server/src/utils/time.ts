@@ -0,0 +1,73 @@
+// Calendar helpers for wall-clock times in a field's time zone.
+// Dates are "YYYY-MM-DD" and times "HH:MM" strings, so nothing depends on the server's own zone.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const parseDate = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const minutesOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// 0 = Sunday, matching Date.getDay()
+export const dayOfWeek = (date: string): number => new Date(parseDate(date)).getUTCDay();
+
+export const addDays = (date: string, days: number): string =>
+  new Date(parseDate(date) + days * MS_PER_DAY).toISOString().slice(0, 10);
+
+export const daysBetween = (from: string, to: string): number => Math.round((parseDate(to) - parseDate(from)) / MS_PER_DAY);
+
+// How far the zone's wall clock is ahead of UTC at the given instant, in ms
+const zoneOffset = (instant: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+// The instant at which the wall clock in timeZone reads `minutes` past midnight on `date`.
+// Minutes may run past 24:00 into the next day. Times skipped by a DST jump resolve to the later offset.
+export const zonedTimeToUtc = (date: string, minutes: number, timeZone: string): Date => {
+  const wallClock = parseDate(date) + minutes * 60 * 1000;
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+
+  return new Date(wallClock - zoneOffset(guess, timeZone));
+};
+
+// Human-readable wall-clock date and time of an instant in timeZone, e.g. for emails
+export const formatZoned = (instant: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-GB', { timeZone, dateStyle: 'medium', timeStyle: 'short' }).format(instant);
+
+// The wall-clock date, weekday and minutes past midnight of an instant in timeZone
+export const zonedParts = (instant: Date, timeZone: string): { date: string; dayOfWeek: number; minutes: number } => {
+  const local = new Date(instant.getTime() + zoneOffset(instant.getTime(), timeZone));
+
+  return {
+    date: local.toISOString().slice(0, 10),
+    dayOfWeek: local.getUTCDay(),
+    minutes: local.getUTCHours() * 60 + local.getUTCMinutes()
+  };
+};
@@ -0,0 +1,8 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Opaque, URL-safe secret handed to the client exactly once
+export const generateToken = (): string => randomBytes(32).toString('base64url');
+
+// Only this digest is persisted, so a database leak does not expose usable tokens
+export const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
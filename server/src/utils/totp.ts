@@ -0,0 +1,104 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// RFC 6238 parameters understood by every common authenticator app
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next code too, to tolerate clock drift on the phone
+const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (data: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 string');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// 160-bit secret, the size recommended by RFC 4226
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+export const currentTotpStep = (now: number = Date.now()): number =>
+  Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+
+export const totpCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+// Returns the time step the code belongs to, or null when it does not match.
+// Steps at or before lastUsedStep are rejected so a code cannot be replayed.
+export const verifyTotp = (secret: string, code: string, lastUsedStep: number | null = null): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const now = currentTotpStep();
+  for (let step = now - TOTP_WINDOW; step <= now + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+// Provisioning URI encoded into the QR code scanned by authenticator apps
+export const totpProvisioningUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString()
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
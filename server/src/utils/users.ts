@@ -0,0 +1,4 @@
+import { type PublicUser, type User } from '../schema';
+
+// Strips the password hash before a users row is returned to any caller
+export const toPublicUser = ({ password_hash: _passwordHash, ...user }: User): PublicUser => user;